@@ -0,0 +1,125 @@
+import { useEffect } from "react";
+import { Button } from "@patternfly/react-core";
+import { useAuth } from "../auth/KeycloakAuthProvider";
+import { useDeviceAuthorization } from "../auth/useDeviceAuthorization";
+import { QrCode } from "./QrCode";
+import "./DeviceSignIn.css";
+
+export interface DeviceSignInProps {
+  /**
+   * Heading.
+   * @default "Sign in"
+   */
+  title?: string;
+  /** Requested scopes (space-separated); `openid` is always included */
+  scope?: string;
+  /**
+   * Width and height of the QR code in pixels.
+   * @default 200
+   */
+  qrCodeSize?: number;
+  /**
+   * Request a new code when the current one expires, so unattended screens
+   * always show a valid code.
+   * @default true
+   */
+  restartOnExpiry?: boolean;
+  /**
+   * Label for the action that requests a new code after a failure.
+   * @default "Try again"
+   */
+  retryLabel?: string;
+  /** Name of the KeycloakAuthProvider instance to sign in to (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Additional CSS class name.
+   */
+  className?: string;
+}
+
+/**
+ * Signs in devices without a convenient keyboard, such as kiosks and TVs,
+ * with the OAuth 2.0 Device Authorization Grant. Shows a user code and a
+ * QR code of the verification page; once the user approves on their phone
+ * or computer, the device is signed in and `SignedIn`, `UserButton` and
+ * the other components update as after a regular sign in.
+ *
+ * Renders nothing while loading or when signed in. The client must have
+ * "OAuth 2.0 Device Authorization Grant" enabled.
+ *
+ * @example
+ * ```tsx
+ * <SignedOut>
+ *   <DeviceSignIn title="Sign in to the lobby screen" />
+ * </SignedOut>
+ * ```
+ */
+export function DeviceSignIn({
+  title = "Sign in",
+  scope,
+  qrCodeSize = 200,
+  restartOnExpiry = true,
+  retryLabel = "Try again",
+  instance,
+  className,
+}: DeviceSignInProps) {
+  const { keycloak, isAuthenticated } = useAuth(instance);
+  const { status, authorization, error, start } = useDeviceAuthorization({ instance, scope });
+
+  // Request a code once the provider is ready, and a new one when it expires
+  useEffect(() => {
+    if (!keycloak || isAuthenticated) return;
+    if (status === "idle" || (status === "expired" && restartOnExpiry)) {
+      void start();
+    }
+  }, [keycloak, isAuthenticated, status, restartOnExpiry, start]);
+
+  if (!keycloak || isAuthenticated) {
+    return null;
+  }
+
+  const failure =
+    status === "denied"
+      ? "Sign in was declined."
+      : status === "expired"
+        ? "The code has expired."
+        : status === "error"
+          ? error?.message || "Sign in failed."
+          : undefined;
+
+  return (
+    <div className={`kc-device-sign-in ${className ?? ""}`}>
+      <h2 className="kc-device-sign-in__title">{title}</h2>
+      {failure ? (
+        <div className="kc-device-sign-in__failure" role="alert">
+          <p>{failure}</p>
+          <Button variant="primary" onClick={() => void start()}>
+            {retryLabel}
+          </Button>
+        </div>
+      ) : status === "pending" && authorization ? (
+        <>
+          <QrCode
+            value={authorization.verificationUriComplete ?? authorization.verificationUri}
+            size={qrCodeSize}
+            label="QR code of the sign in page"
+            className="kc-device-sign-in__qr-code"
+          />
+          <p className="kc-device-sign-in__instructions">
+            Scan the QR code with your phone, or go to{" "}
+            <strong>{authorization.verificationUri}</strong> and enter the code:
+          </p>
+          <p className="kc-device-sign-in__user-code" aria-live="polite">
+            {authorization.userCode}
+          </p>
+        </>
+      ) : (
+        <p className="kc-device-sign-in__instructions" aria-busy="true">
+          Getting a sign in code…
+        </p>
+      )}
+    </div>
+  );
+}
+
+DeviceSignIn.displayName = "DeviceSignIn";
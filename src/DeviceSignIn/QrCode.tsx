@@ -0,0 +1,61 @@
+import { useMemo } from "react";
+import { encodeQrCode } from "./qrCode";
+
+/** Light modules around the code, as the QR code specification requires */
+const QUIET_ZONE = 4;
+
+export interface QrCodeProps {
+  /** Text to encode (up to 213 bytes) */
+  value: string;
+  /**
+   * Width and height in pixels.
+   * @default 200
+   */
+  size?: number;
+  /** Accessible label */
+  label?: string;
+  /** Additional CSS class name */
+  className?: string;
+}
+
+/**
+ * Renders text as a QR code in an SVG. Renders nothing if the text is too
+ * long to encode.
+ */
+export function QrCode({ value, size = 200, label = value, className }: QrCodeProps) {
+  const code = useMemo(() => {
+    let modules: boolean[][];
+    try {
+      modules = encodeQrCode(value);
+    } catch {
+      return null;
+    }
+    let path = "";
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return { path, size: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  if (!code) {
+    return null;
+  }
+
+  return (
+    <svg
+      className={`kc-qr-code ${className ?? ""}`}
+      viewBox={`0 0 ${code.size} ${code.size}`}
+      width={size}
+      height={size}
+      role="img"
+      aria-label={label}
+    >
+      <rect width={code.size} height={code.size} fill="#fff" />
+      <path d={code.path} fill="#000" shapeRendering="crispEdges" />
+    </svg>
+  );
+}
+
+QrCode.displayName = "QrCode";
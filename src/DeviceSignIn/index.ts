@@ -0,0 +1,2 @@
+export { DeviceSignIn, type DeviceSignInProps } from "./DeviceSignIn";
+export { QrCode, type QrCodeProps } from "./QrCode";
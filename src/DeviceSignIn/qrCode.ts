@@ -0,0 +1,353 @@
+/**
+ * Minimal QR code encoder (byte mode, error correction level M), enough to
+ * encode verification URLs without a dependency. Supports versions 1 to 10
+ * (up to 213 bytes).
+ *
+ * Follows ISO/IEC 18004; see https://www.nayuki.io/page/qr-code-generator-library
+ * for a detailed walkthrough of the steps.
+ */
+
+const MAX_VERSION = 10;
+
+/** Error correction codewords per block, for level M and versions 1 to 10 */
+const ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+
+/** Error correction blocks, for level M and versions 1 to 10 */
+const ECC_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+/** Format information bits of error correction level M */
+const ECC_LEVEL_M_BITS = 0;
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/** Number of modules available for data and error correction codewords */
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getDataCodewords(version: number): number {
+  return (
+    Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version - 1] * ECC_BLOCKS[version - 1]
+  );
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+/** Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function multiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function getReedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Split data codewords into blocks, add error correction and interleave them */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ECC_BLOCKS[version - 1];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version - 1];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = getReedSolomonRemainder(block, divisor);
+    // Pad short blocks so all blocks can be read column by column
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function encodeData(bytes: Uint8Array): { version: number; codewords: number[] } {
+  let version = 1;
+  const countBits = (v: number) => (v < 10 ? 8 : 16);
+  while (4 + countBits(version) + bytes.length * 8 > getDataCodewords(version) * 8) {
+    version++;
+    if (version > MAX_VERSION) throw new RangeError("Data too long for a QR code");
+  }
+
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, countBits(version));
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacity = getDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return { version, codewords };
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.reserved = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        // Skip the corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas, drawn once the mask is chosen
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, getBit(bits, i));
+        this.setFunction(b, a, getBit(bits, i));
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const { size } = this;
+    const data = (ECC_LEVEL_M_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let i = 0;
+    // Zigzag through column pairs from the right, skipping the vertical timing pattern
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    const condition = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && condition(x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  getPenalty(): number {
+    const { size, modules } = this;
+    let penalty = 0;
+    const lines: string[] = [];
+    for (let i = 0; i < size; i++) {
+      lines.push(modules[i].map((dark) => (dark ? "1" : "0")).join(""));
+      lines.push(modules.map((row) => (row[i] ? "1" : "0")).join(""));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      for (const run of line.match(/0{5,}|1{5,}/g) ?? []) penalty += run.length - 2;
+      // Patterns looking like finder patterns
+      for (const pattern of ["10111010000", "00001011101"]) {
+        for (
+          let index = line.indexOf(pattern);
+          index !== -1;
+          index = line.indexOf(pattern, index + 1)
+        ) {
+          penalty += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++;
+        // 2x2 blocks of the same color
+        if (
+          x < size - 1 &&
+          y < size - 1 &&
+          modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] &&
+          modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Imbalance between dark and light modules
+    const total = size * size;
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return penalty;
+  }
+}
+
+/**
+ * Encode text as a QR code.
+ *
+ * @returns Rows of modules (`true` for dark), without the quiet zone
+ * @throws RangeError if the text is longer than 213 bytes
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text));
+  const data = addErrorCorrection(codewords, version);
+
+  let best: QrMatrix | undefined;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new QrMatrix(version);
+    matrix.drawFunctionPatterns();
+    matrix.drawCodewords(data);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.getPenalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+  return (best as QrMatrix).modules;
+}
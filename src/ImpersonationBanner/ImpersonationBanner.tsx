@@ -0,0 +1,133 @@
+import { useState, type ReactNode } from "react";
+import { Banner, Button } from "@patternfly/react-core";
+import { useAuth } from "../auth/KeycloakAuthProvider";
+import { getAdminConsoleUrl } from "../auth/endpoints";
+import type { User } from "../auth/AuthContext";
+import "./ImpersonationBanner.css";
+
+export interface ImpersonationBannerProps {
+  /**
+   * URL to return to after ending the impersonation.
+   * Defaults to the impersonated user's page in the admin console.
+   */
+  adminConsoleUrl?: string;
+  /**
+   * Realm of the administrator, used to build the default admin console URL.
+   * @default "master"
+   */
+  adminRealm?: string;
+  /**
+   * Label for the end impersonation action.
+   * @default "End impersonation"
+   */
+  endImpersonationLabel?: string;
+  /**
+   * Custom message. Receives the impersonated user.
+   * Defaults to "<admin> is impersonating <user>".
+   */
+  message?: (user: User) => ReactNode;
+  /**
+   * Called instead of signing out when the end impersonation action is used.
+   */
+  onEndImpersonation?: () => void | Promise<void>;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Additional CSS class name.
+   */
+  className?: string;
+}
+
+function getDisplayName(user: User): string {
+  if (user.name) return user.name;
+  if (user.firstName || user.lastName) {
+    return [user.firstName, user.lastName].filter(Boolean).join(" ");
+  }
+  return user.username ?? user.email ?? user.id;
+}
+
+/**
+ * Shows a banner while an administrator impersonates the signed-in user,
+ * with an action that ends the impersonation by signing out and returning
+ * to the admin console. Renders nothing otherwise.
+ *
+ * The admin console URL must be allowed as a post logout redirect URI of
+ * the client.
+ *
+ * @example
+ * ```tsx
+ * <ImpersonationBanner />
+ *
+ * // Return to a custom admin page
+ * <ImpersonationBanner adminConsoleUrl="https://admin.example.com/users" />
+ * ```
+ */
+export function ImpersonationBanner({
+  adminConsoleUrl,
+  adminRealm = "master",
+  endImpersonationLabel = "End impersonation",
+  message,
+  onEndImpersonation,
+  instance,
+  className,
+}: ImpersonationBannerProps) {
+  const { user, keycloak, signOut } = useAuth(instance);
+  const [isEnding, setIsEnding] = useState(false);
+
+  if (!user?.impersonator) {
+    return null;
+  }
+
+  const impersonator = user.impersonator;
+
+  const handleEndImpersonation = async () => {
+    setIsEnding(true);
+    try {
+      if (onEndImpersonation) {
+        await onEndImpersonation();
+        return;
+      }
+      // Return to the impersonated user in the admin console
+      const defaultUrl =
+        keycloak?.authServerUrl && keycloak.realm
+          ? `${getAdminConsoleUrl(keycloak.authServerUrl, adminRealm)}#/${encodeURIComponent(keycloak.realm)}/users/${encodeURIComponent(user.id)}/settings`
+          : undefined;
+      await signOut({ redirectUri: adminConsoleUrl ?? defaultUrl });
+    } finally {
+      setIsEnding(false);
+    }
+  };
+
+  return (
+    <Banner
+      variant="gold"
+      isSticky
+      screenReaderText="Impersonation"
+      className={`kc-impersonation-banner ${className ?? ""}`}
+    >
+      <div className="kc-impersonation-banner__content">
+        <span className="kc-impersonation-banner__message">
+          {message ? (
+            message(user)
+          ) : (
+            <>
+              <strong>{impersonator.username ?? "An administrator"}</strong> is impersonating{" "}
+              <strong>{getDisplayName(user)}</strong>
+            </>
+          )}
+        </span>
+        <Button
+          variant="link"
+          isInline
+          isDisabled={isEnding}
+          onClick={handleEndImpersonation}
+          className="kc-impersonation-banner__action"
+        >
+          {endImpersonationLabel}
+        </Button>
+      </div>
+    </Banner>
+  );
+}
+
+ImpersonationBanner.displayName = "ImpersonationBanner";
@@ -0,0 +1 @@
+export { ImpersonationBanner, type ImpersonationBannerProps } from "./ImpersonationBanner";
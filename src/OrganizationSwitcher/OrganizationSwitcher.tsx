@@ -0,0 +1,221 @@
+import { useState, useRef } from "react";
+import {
+  Dropdown,
+  DropdownList,
+  DropdownItem,
+  DropdownGroup,
+  MenuToggle,
+  Divider,
+} from "@patternfly/react-core";
+import { UserAvatar, type UserAvatarSize } from "../UserAvatar";
+import type { UserButtonMenuItem } from "../UserButton";
+import type { AuthMode } from "../auth/AuthContext";
+import { useAuth } from "../auth/KeycloakAuthProvider";
+import { useOrganizations } from "../auth/useOrganization";
+import "./OrganizationSwitcher.css";
+
+/**
+ * An organization to offer in the switcher.
+ */
+export interface OrganizationOption {
+  /** Organization alias, used for the `organization:<alias>` scope */
+  alias: string;
+  /** Display name (defaults to the alias) */
+  name?: string;
+}
+
+export interface OrganizationSwitcherProps {
+  /**
+   * Organizations to offer. Defaults to the organizations in the current
+   * token; pass the user's full membership list when tokens are scoped to a
+   * single organization.
+   */
+  organizations?: OrganizationOption[];
+  /**
+   * Text shown when no organization is active.
+   * @default "Select organization"
+   */
+  placeholder?: string;
+  /**
+   * Heading of the organization list.
+   * @default "Organizations"
+   */
+  heading?: string;
+  /**
+   * Size of the organization avatars.
+   * @default "sm"
+   */
+  avatarSize?: UserAvatarSize;
+  /**
+   * Re-authenticate with a full-page redirect or in a popup window.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+  /** URL to return to after switching (defaults to the current URL) */
+  redirectUri?: string;
+  /** Called when switching fails (e.g. the popup is blocked or closed) */
+  onError?: (error: Error) => void;
+  /**
+   * Custom menu items to display after the organizations
+   * (e.g. "Create organization").
+   */
+  menuItems?: UserButtonMenuItem[];
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Additional CSS class name.
+   */
+  className?: string;
+}
+
+/**
+ * A dropdown showing the active Keycloak organization (Keycloak 26+) that
+ * lets members of several organizations switch between them. Switching
+ * re-authenticates with the `organization:<alias>` scope, so the new tokens
+ * are scoped to the selected organization.
+ *
+ * Renders nothing while loading, when signed out, or when the user has no
+ * organizations.
+ *
+ * @example
+ * ```tsx
+ * <OrganizationSwitcher />
+ *
+ * // With the full membership list and an extra action
+ * <OrganizationSwitcher
+ *   organizations={memberships}
+ *   menuItems={[{ key: "create", label: "Create organization", href: "/orgs/new" }]}
+ * />
+ * ```
+ */
+export function OrganizationSwitcher({
+  organizations: organizationsProp,
+  placeholder = "Select organization",
+  heading = "Organizations",
+  avatarSize = "sm",
+  mode,
+  redirectUri,
+  onError,
+  menuItems = [],
+  instance,
+  className,
+}: OrganizationSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { isAuthenticated } = useAuth(instance);
+  const { organizations, activeOrganization, isLoading, switchOrganization } =
+    useOrganizations(instance);
+
+  const options: OrganizationOption[] =
+    organizationsProp ??
+    organizations.map((org) => ({ alias: org.alias, name: org.name }));
+
+  if (isLoading || !isAuthenticated || options.length === 0) {
+    return null;
+  }
+
+  const activeOption = activeOrganization
+    ? options.find((option) => option.alias === activeOrganization.alias) ?? {
+        alias: activeOrganization.alias,
+        name: activeOrganization.name,
+      }
+    : undefined;
+  const activeName = activeOption ? activeOption.name ?? activeOption.alias : undefined;
+
+  const handleSwitch = (alias: string) => {
+    setIsOpen(false);
+    if (alias === activeOrganization?.alias) return;
+    switchOrganization(alias, { mode, redirectUri }).catch((error) => {
+      if (onError) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+      } else {
+        console.error("Failed to switch organization:", error);
+      }
+    });
+  };
+
+  const handleMenuItemClick = (item: UserButtonMenuItem) => {
+    setIsOpen(false);
+    if (item.onClick) {
+      item.onClick();
+    } else if (item.href) {
+      window.location.href = item.href;
+    }
+  };
+
+  return (
+    <div className={`kc-organization-switcher ${className ?? ""}`}>
+      <Dropdown
+        isOpen={isOpen}
+        onSelect={() => setIsOpen(false)}
+        onOpenChange={setIsOpen}
+        toggle={(toggleRef) => (
+          <MenuToggle
+            ref={toggleRef}
+            onClick={() => setIsOpen((prev) => !prev)}
+            isExpanded={isOpen}
+            variant="plainText"
+            className="kc-organization-switcher__toggle"
+            aria-label="Organization menu"
+          >
+            <span className="kc-organization-switcher__toggle-content">
+              {activeName ? (
+                <>
+                  <UserAvatar name={activeName} size={avatarSize} />
+                  <span className="kc-organization-switcher__name">{activeName}</span>
+                </>
+              ) : (
+                <span className="kc-organization-switcher__placeholder">{placeholder}</span>
+              )}
+            </span>
+          </MenuToggle>
+        )}
+        ref={menuRef}
+        popperProps={{ position: "left" }}
+      >
+        <DropdownList>
+          <DropdownGroup label={heading}>
+            {options.map((option) => {
+              const optionName = option.name ?? option.alias;
+              const isActive = option.alias === activeOrganization?.alias;
+              return (
+                <DropdownItem
+                  key={option.alias}
+                  onClick={() => handleSwitch(option.alias)}
+                  isSelected={isActive}
+                  aria-current={isActive ? "true" : undefined}
+                  description={option.name ? option.alias : undefined}
+                >
+                  <span className="kc-organization-switcher__item">
+                    <UserAvatar name={optionName} size={avatarSize} />
+                    {optionName}
+                  </span>
+                </DropdownItem>
+              );
+            })}
+          </DropdownGroup>
+
+          {/* Custom menu items */}
+          {menuItems.length > 0 && (
+            <>
+              <Divider />
+              {menuItems.map((item) => (
+                <DropdownItem
+                  key={item.key}
+                  onClick={() => handleMenuItemClick(item)}
+                  isDisabled={item.isDisabled}
+                  isDanger={item.isDanger}
+                  icon={item.icon}
+                >
+                  {item.label}
+                </DropdownItem>
+              ))}
+            </>
+          )}
+        </DropdownList>
+      </Dropdown>
+    </div>
+  );
+}
+
+OrganizationSwitcher.displayName = "OrganizationSwitcher";
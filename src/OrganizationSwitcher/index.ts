@@ -0,0 +1,5 @@
+export {
+  OrganizationSwitcher,
+  type OrganizationSwitcherProps,
+  type OrganizationOption,
+} from "./OrganizationSwitcher";
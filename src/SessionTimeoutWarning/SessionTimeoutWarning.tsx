@@ -0,0 +1,142 @@
+import { useState, type ReactNode } from "react";
+import { Button, Modal, ModalVariant } from "@patternfly/react-core";
+import { useSessionTimeout } from "../auth/useSessionTimeout";
+import type { SessionEndReason } from "../auth/sessionTimeout";
+import "./SessionTimeoutWarning.css";
+
+export interface SessionTimeoutWarningProps {
+  /**
+   * Modal title.
+   * @default "Your session is about to expire"
+   */
+  title?: string;
+  /**
+   * Custom message. Receives the formatted remaining time and why the
+   * session ends. Defaults to a message with a countdown.
+   */
+  message?: (remaining: string, reason: SessionEndReason | undefined) => ReactNode;
+  /**
+   * Label for the action that extends the session.
+   * @default "Stay signed in"
+   */
+  staySignedInLabel?: string;
+  /**
+   * Label for the action that signs out immediately.
+   * @default "Sign out now"
+   */
+  signOutLabel?: string;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Additional CSS class name.
+   */
+  className?: string;
+}
+
+/** Format seconds as m:ss. */
+function formatRemaining(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Shows a modal with a countdown when the session is about to end, with
+ * actions to stay signed in (refreshing the session) or to sign out now.
+ * Renders nothing otherwise.
+ *
+ * The warning follows the provider's `idleTimeout`, `sessionMaxLifespan`
+ * and `sessionWarningTime` options. Sessions that reached their maximum
+ * lifespan cannot be extended, so only the sign out action is shown.
+ *
+ * @example
+ * ```tsx
+ * <KeycloakAuthProvider config={config} idleTimeout={900}>
+ *   <SessionTimeoutWarning />
+ *   <App />
+ * </KeycloakAuthProvider>
+ * ```
+ */
+export function SessionTimeoutWarning({
+  title = "Your session is about to expire",
+  message,
+  staySignedInLabel = "Stay signed in",
+  signOutLabel = "Sign out now",
+  instance,
+  className,
+}: SessionTimeoutWarningProps) {
+  const { isWarning, remainingSeconds, reason, canExtend, staySignedIn, signOut } =
+    useSessionTimeout({ instance });
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!isWarning) {
+    return null;
+  }
+
+  const remaining = formatRemaining(remainingSeconds ?? 0);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Session timeout action failed:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const actions = [
+    ...(canExtend
+      ? [
+          <Button
+            key="stay"
+            variant="primary"
+            isDisabled={isBusy}
+            onClick={() => run(staySignedIn)}
+          >
+            {staySignedInLabel}
+          </Button>,
+        ]
+      : []),
+    <Button
+      key="signout"
+      variant={canExtend ? "link" : "primary"}
+      isDisabled={isBusy}
+      onClick={() => run(signOut)}
+    >
+      {signOutLabel}
+    </Button>,
+  ];
+
+  return (
+    <Modal
+      variant={ModalVariant.small}
+      isOpen
+      title={title}
+      titleIconVariant="warning"
+      showClose={false}
+      aria-describedby="kc-session-timeout-warning-message"
+      actions={actions}
+      className={`kc-session-timeout-warning ${className ?? ""}`}
+    >
+      <p id="kc-session-timeout-warning-message" aria-live="polite">
+        {message ? (
+          message(remaining, reason)
+        ) : canExtend ? (
+          <>
+            You will be signed out due to inactivity in{" "}
+            <strong className="kc-session-timeout-warning__countdown">{remaining}</strong>.
+          </>
+        ) : (
+          <>
+            Your session ends in{" "}
+            <strong className="kc-session-timeout-warning__countdown">{remaining}</strong>. Save
+            your work and sign in again to continue.
+          </>
+        )}
+      </p>
+    </Modal>
+  );
+}
+
+SessionTimeoutWarning.displayName = "SessionTimeoutWarning";
@@ -0,0 +1 @@
+export { SessionTimeoutWarning, type SessionTimeoutWarningProps } from "./SessionTimeoutWarning";
@@ -1,4 +1,6 @@
+import { useContext, type MouseEvent } from "react";
 import type { IdentityProvider } from "../config";
+import { AuthContext, type AuthMode } from "../auth/AuthContext";
 import { ProviderIcon } from "./ProviderIcon";
 
 export interface SocialButtonsProps {
@@ -15,6 +17,17 @@ export interface SocialButtonsProps {
    * Custom className for the container.
    */
   className?: string;
+  /**
+   * How to sign in with a provider. In `popup` mode, the provider login is
+   * opened in a popup through the surrounding KeycloakAuthProvider
+   * (using `kc_idp_hint`) instead of following the provider's `loginUrl`.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+  /**
+   * Called when a popup sign-in fails (e.g. the popup was blocked or closed).
+   */
+  onError?: (error: Error) => void;
 }
 
 /**
@@ -28,12 +41,17 @@ export interface SocialButtonsProps {
  *     { alias: 'github', displayName: 'GitHub', providerId: 'github', loginUrl: '/auth/github' },
  *   ]}
  * />
+ *
+ * // Sign in with the provider in a popup (within a KeycloakAuthProvider)
+ * <SocialButtons providers={providers} mode="popup" />
  * ```
  */
 export function SocialButtons({
   providers,
   showAsGrid,
   className,
+  mode,
+  onError,
 }: SocialButtonsProps) {
   // Default to grid layout if more than 3 providers
   const useGrid = showAsGrid ?? providers.length > 3;
@@ -47,7 +65,7 @@ export function SocialButtons({
       className={`kc-social-buttons ${useGrid ? "kc-social-buttons--grid" : ""} ${className ?? ""}`}
     >
       {providers.map((provider) => (
-        <SocialButton key={provider.alias} provider={provider} />
+        <SocialButton key={provider.alias} provider={provider} mode={mode} onError={onError} />
       ))}
     </div>
   );
@@ -57,12 +75,27 @@ SocialButtons.displayName = "SocialButtons";
 
 interface SocialButtonProps {
   provider: IdentityProvider;
+  mode?: AuthMode;
+  onError?: (error: Error) => void;
 }
 
-function SocialButton({ provider }: SocialButtonProps) {
+function SocialButton({ provider, mode, onError }: SocialButtonProps) {
+  // Optional: SocialButtons is also used on Keycloak login pages without a provider
+  const auth = useContext(AuthContext);
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    auth?.events.emit("idp:selected", { alias: provider.alias, mode: mode ?? "redirect" });
+    if (mode !== "popup" || !auth) return;
+    event.preventDefault();
+    auth.signIn({ mode: "popup", idpHint: provider.alias }).catch((error) => {
+      onError?.(error instanceof Error ? error : new Error(String(error)));
+    });
+  };
+
   return (
     <a
       href={provider.loginUrl}
+      onClick={handleClick}
       className="kc-social-button"
       id={`social-${provider.alias}`}
       aria-label={`Sign in with ${provider.displayName}`}
@@ -0,0 +1,133 @@
+import { useState, type ReactNode } from "react";
+import { Button, Modal, ModalVariant } from "@patternfly/react-core";
+import { useAuth } from "../auth/KeycloakAuthProvider";
+import { useAuthEvent } from "../auth/useAuthEvent";
+import type { AuthMode } from "../auth/AuthContext";
+import type { SessionEndedReason } from "../auth/events";
+
+export interface SignedOutElsewhereDialogProps {
+  /**
+   * Modal title.
+   * @default "You have been signed out"
+   */
+  title?: string;
+  /**
+   * Custom message. Receives why the session ended. Defaults to a message
+   * explaining the session was ended outside of the app.
+   */
+  message?: (reason: SessionEndedReason) => ReactNode;
+  /**
+   * Label for the action that signs in again.
+   * @default "Sign in again"
+   */
+  signInLabel?: string;
+  /**
+   * Label for the action that closes the dialog.
+   * @default "Close"
+   */
+  dismissLabel?: string;
+  /**
+   * Session end reasons that open the dialog.
+   * @default ["signed_out_elsewhere"]
+   */
+  reasons?: SessionEndedReason[];
+  /**
+   * How to sign in again. Use `popup` to keep unsaved state on the page.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Additional CSS class name.
+   */
+  className?: string;
+}
+
+const DEFAULT_REASONS: SessionEndedReason[] = ["signed_out_elsewhere"];
+
+/**
+ * Shows a modal when the session was ended outside of the app, e.g. when
+ * the user signed out in another app or an administrator ended the session,
+ * offering to sign in again. Renders nothing otherwise, and closes once the
+ * user is signed in again.
+ *
+ * Sessions are only checked with the provider's `monitorSession` option.
+ *
+ * @example
+ * ```tsx
+ * <KeycloakAuthProvider config={config} monitorSession>
+ *   <SignedOutElsewhereDialog mode="popup" />
+ *   <App />
+ * </KeycloakAuthProvider>
+ * ```
+ */
+export function SignedOutElsewhereDialog({
+  title = "You have been signed out",
+  message,
+  signInLabel = "Sign in again",
+  dismissLabel = "Close",
+  reasons = DEFAULT_REASONS,
+  mode,
+  instance,
+  className,
+}: SignedOutElsewhereDialogProps) {
+  const { isAuthenticated, signIn } = useAuth(instance);
+  const [endedReason, setEndedReason] = useState<SessionEndedReason | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useAuthEvent(
+    "session:ended",
+    ({ reason }) => {
+      if (reasons.includes(reason)) setEndedReason(reason);
+    },
+    { instance }
+  );
+
+  if (!endedReason || isAuthenticated) {
+    return null;
+  }
+
+  const close = () => setEndedReason(null);
+
+  const signInAgain = async () => {
+    setIsBusy(true);
+    try {
+      await signIn({ mode });
+      close();
+    } catch (error) {
+      console.error("Sign in failed:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      variant={ModalVariant.small}
+      isOpen
+      title={title}
+      titleIconVariant="warning"
+      showClose={false}
+      onClose={close}
+      aria-describedby="kc-signed-out-elsewhere-dialog-message"
+      actions={[
+        <Button key="signin" variant="primary" isDisabled={isBusy} onClick={signInAgain}>
+          {signInLabel}
+        </Button>,
+        <Button key="dismiss" variant="link" isDisabled={isBusy} onClick={close}>
+          {dismissLabel}
+        </Button>,
+      ]}
+      className={`kc-signed-out-elsewhere-dialog ${className ?? ""}`}
+    >
+      <p id="kc-signed-out-elsewhere-dialog-message">
+        {message
+          ? message(endedReason)
+          : "Your session was ended outside of this app, for example by signing out in another app. Sign in again to continue."}
+      </p>
+    </Modal>
+  );
+}
+
+SignedOutElsewhereDialog.displayName = "SignedOutElsewhereDialog";
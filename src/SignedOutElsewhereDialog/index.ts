@@ -0,0 +1,4 @@
+export {
+  SignedOutElsewhereDialog,
+  type SignedOutElsewhereDialogProps,
+} from "./SignedOutElsewhereDialog";
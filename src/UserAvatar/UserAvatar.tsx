@@ -1,5 +1,7 @@
 import { useState, useMemo, useContext, type CSSProperties } from "react";
 import { AuthContext } from "../auth/AuthContext";
+import { decodeJwtPayload } from "../auth/jwt";
+import { useTokenClaims, type TokenVerification } from "./useTokenClaims";
 import "./UserAvatar.css";
 
 export type UserAvatarSize = "sm" | "md" | "lg" | "xl";
@@ -31,6 +33,14 @@ export interface UserAvatarProps {
    * Token claims have lower priority than explicit props.
    */
   token?: string;
+  /**
+   * Verify the signature of `token` before using its claims. Pass `true` to
+   * verify it with the keys of the surrounding provider's realm, or the
+   * options of `verifyToken`. Until it is verified, and if verification
+   * fails, the token is ignored.
+   * @default false
+   */
+  verify?: TokenVerification;
   /**
    * URL to the user's profile image.
    * Overrides the `picture` claim from token.
@@ -100,28 +110,11 @@ export interface UserAvatarProps {
 
 /**
  * Decodes a JWT token and extracts the payload.
- * Note: This does NOT verify the token signature - that should be done server-side.
+ * Note: This does NOT verify the token signature - use `verifyToken` for
+ * tokens that do not come straight from Keycloak.
  */
 export function decodeToken(token: string): UserTokenClaims | null {
-  try {
-    const parts = token.split(".");
-    if (parts.length !== 3) {
-      return null;
-    }
-    // Decode the payload (second part)
-    const payload = parts[1];
-    // Handle base64url encoding (replace - with + and _ with /)
-    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
-    const jsonPayload = decodeURIComponent(
-      atob(base64)
-        .split("")
-        .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
-        .join("")
-    );
-    return JSON.parse(jsonPayload);
-  } catch {
-    return null;
-  }
+  return decodeJwtPayload(token) as UserTokenClaims | null;
 }
 
 /**
@@ -186,6 +179,9 @@ function generateColorFromString(str: string): string {
  * // With JWT token from Keycloak
  * <UserAvatar token={keycloak.idToken} />
  *
+ * // With a token from elsewhere, verified before it is shown
+ * <UserAvatar token={sharedToken} verify />
+ *
  * // With image
  * <UserAvatar
  *   imageUrl="https://example.com/avatar.jpg"
@@ -208,6 +204,7 @@ function generateColorFromString(str: string): string {
  */
 export function UserAvatar({
   token,
+  verify,
   imageUrl,
   firstName,
   lastName,
@@ -230,10 +227,7 @@ export function UserAvatar({
   const contextUser = authContext?.user;
 
   // Extract claims from token if provided
-  const tokenClaims = useMemo(() => {
-    if (!token) return null;
-    return decodeToken(token);
-  }, [token]);
+  const tokenClaims = useTokenClaims(token, verify);
 
   // Resolve values: explicit props > token claims > context user
   const resolvedImageUrl = imageUrl ?? tokenClaims?.picture ?? contextUser?.imageUrl;
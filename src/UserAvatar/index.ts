@@ -6,3 +6,4 @@ export {
   type UserAvatarSize,
   type UserTokenClaims,
 } from "./UserAvatar";
+export type { TokenVerification } from "./useTokenClaims";
@@ -0,0 +1,69 @@
+import { useContext, useEffect, useMemo, useRef, useState } from "react";
+import { AuthContext } from "../auth/AuthContext";
+import { getJwksEndpoint, getRealmUrl } from "../auth/endpoints";
+import { decodeJwtPayload } from "../auth/jwt";
+import { verifyToken, type VerifyTokenOptions } from "../auth/verifyToken";
+import type { UserTokenClaims } from "./UserAvatar";
+
+/**
+ * Whether components verify a `token` prop before showing its claims:
+ * `true` to verify it with the keys and issuer of the surrounding
+ * `KeycloakAuthProvider`'s realm, or the options of `verifyToken`.
+ */
+export type TokenVerification = boolean | VerifyTokenOptions;
+
+/**
+ * The claims of a `token` prop. With `verify`, claims are only returned once
+ * the signature has been verified, and never for tokens that fail
+ * verification.
+ */
+export function useTokenClaims(
+  token: string | undefined,
+  verify: TokenVerification = false
+): UserTokenClaims | null {
+  const keycloak = useContext(AuthContext)?.keycloak;
+  const [verified, setVerified] = useState<{
+    token: string;
+    optionsKey: string;
+    claims: UserTokenClaims | null;
+  } | null>(null);
+
+  const options = useMemo((): VerifyTokenOptions | null => {
+    if (typeof verify === "object") return verify;
+    if (!verify || !keycloak?.authServerUrl || !keycloak.realm) return null;
+    return {
+      jwksUri: getJwksEndpoint(keycloak.authServerUrl, keycloak.realm),
+      issuer: getRealmUrl(keycloak.authServerUrl, keycloak.realm),
+    };
+  }, [verify, keycloak?.authServerUrl, keycloak?.realm]);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Options are often passed inline; only verify again when they change
+  const optionsKey = options ? JSON.stringify(options) : null;
+
+  useEffect(() => {
+    const currentOptions = optionsRef.current;
+    if (!token || !currentOptions || !optionsKey) return;
+    let cancelled = false;
+    verifyToken(token, currentOptions).then(
+      (claims) => {
+        if (!cancelled) setVerified({ token, optionsKey, claims: claims as UserTokenClaims });
+      },
+      () => {
+        if (!cancelled) setVerified({ token, optionsKey, claims: null });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [token, optionsKey]);
+
+  const decoded = useMemo(
+    () => (token && !verify ? (decodeJwtPayload(token) as UserTokenClaims | null) : null),
+    [token, verify]
+  );
+
+  if (!token) return null;
+  if (!verify) return decoded;
+  return verified?.token === token && verified.optionsKey === optionsKey ? verified.claims : null;
+}
@@ -7,7 +7,8 @@ import {
   MenuToggle,
   Divider,
 } from "@patternfly/react-core";
-import { UserAvatar, decodeToken, type UserAvatarSize, type UserTokenClaims } from "../UserAvatar";
+import { UserAvatar, type TokenVerification, type UserAvatarSize } from "../UserAvatar";
+import { useTokenClaims } from "../UserAvatar/useTokenClaims";
 import { AuthContext } from "../auth/AuthContext";
 import "./UserButton.css";
 
@@ -48,6 +49,14 @@ export interface UserButtonProps {
    * When provided, user info will be extracted from the token.
    */
   token?: string;
+  /**
+   * Verify the signature of `token` before using its claims. Pass `true` to
+   * verify it with the keys of the surrounding provider's realm, or the
+   * options of `verifyToken`. Until it is verified, and if verification
+   * fails, the token is ignored.
+   * @default false
+   */
+  verify?: TokenVerification;
   /**
    * URL to the user's profile image.
    * Overrides the `picture` claim from token.
@@ -172,6 +181,7 @@ export interface UserButtonProps {
  */
 export function UserButton({
   token,
+  verify,
   imageUrl,
   firstName,
   lastName,
@@ -199,10 +209,7 @@ export function UserButton({
   const contextSignOut = authContext?.signOut;
 
   // Extract claims from token if provided
-  const tokenClaims = useMemo((): UserTokenClaims | null => {
-    if (!token) return null;
-    return decodeToken(token);
-  }, [token]);
+  const tokenClaims = useTokenClaims(token, verify);
 
   // Resolve values: explicit props > token claims > context user
   const resolvedImageUrl = imageUrl ?? tokenClaims?.picture ?? contextUser?.imageUrl;
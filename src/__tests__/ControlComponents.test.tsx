@@ -1,22 +1,33 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { SignedIn, SignedOut, Protect } from '../auth/ControlComponents';
-import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+import { AuthContext, AuthInstancesContext, type AuthContextValue } from '../auth/AuthContext';
 import type { ReactNode } from 'react';
+import { createAuthEventEmitter } from '../auth/events';
 
 // Helper to create mock auth context
 function createMockAuthContext(overrides: Partial<AuthContextValue> = {}): AuthContextValue {
   return {
+    status: 'unauthenticated',
     isLoading: false,
+    error: null,
+    retry: vi.fn(),
     isAuthenticated: false,
     user: null,
+    sessionType: null,
     idToken: undefined,
     accessToken: undefined,
     signIn: vi.fn(),
     signOut: vi.fn(),
     signUp: vi.fn(),
+    signInWithTokens: vi.fn(),
     getToken: vi.fn(),
+    exchangeToken: vi.fn(),
+    session: { expiresAt: undefined, reason: undefined, isWarning: false },
+    extendSession: vi.fn(),
+    events: createAuthEventEmitter(),
     keycloak: null,
+    dpop: null,
     ...overrides,
   };
 }
@@ -273,4 +284,69 @@ describe('Protect', () => {
     expect(mockKeycloak.hasRealmRole).toHaveBeenCalledWith('offline_access');
     expect(screen.getByText('Offline content')).toBeInTheDocument();
   });
+
+  it('should check roles of another client when specified', () => {
+    const mockKeycloak = {
+      hasResourceRole: vi.fn((role: string, client?: string) => client === 'billing-api' && role === 'approver'),
+      hasRealmRole: vi.fn(() => false),
+    };
+    const authValue = createMockAuthContext({
+      isAuthenticated: true,
+      keycloak: mockKeycloak as any,
+    });
+
+    render(
+      <AuthWrapper value={authValue}>
+        <Protect roles={{ client: 'billing-api', roles: ['approver'] }}>
+          <div>Approve invoice</div>
+        </Protect>
+      </AuthWrapper>
+    );
+
+    expect(mockKeycloak.hasResourceRole).toHaveBeenCalledWith('approver', 'billing-api');
+    expect(screen.getByText('Approve invoice')).toBeInTheDocument();
+  });
+
+  it('should check roles from the access token without a keycloak instance', () => {
+    const payload = { azp: 'my-app', resource_access: { 'billing-api': { roles: ['viewer'] } } };
+    const authValue = createMockAuthContext({
+      isAuthenticated: true,
+      accessToken: `header.${btoa(JSON.stringify(payload))}.signature`,
+    });
+
+    render(
+      <AuthWrapper value={authValue}>
+        <Protect roles={{ client: 'billing-api', roles: ['approver'] }}>
+          <div>Approve invoice</div>
+        </Protect>
+        <Protect roles={{ client: 'billing-api', roles: ['viewer'] }}>
+          <div>View invoice</div>
+        </Protect>
+      </AuthWrapper>
+    );
+
+    expect(screen.queryByText('Approve invoice')).not.toBeInTheDocument();
+    expect(screen.getByText('View invoice')).toBeInTheDocument();
+  });
+
+  it('should use the named instance when specified', () => {
+    const staff = createMockAuthContext({ isAuthenticated: true });
+    const customer = createMockAuthContext({ isAuthenticated: false });
+
+    render(
+      <AuthInstancesContext.Provider value={{ staff, customer }}>
+        <AuthWrapper value={customer}>
+          <Protect instance="staff" fallback={<div>Staff sign in</div>}>
+            <div>Staff content</div>
+          </Protect>
+          <SignedIn instance="customer">
+            <div>Customer content</div>
+          </SignedIn>
+        </AuthWrapper>
+      </AuthInstancesContext.Provider>
+    );
+
+    expect(screen.getByText('Staff content')).toBeInTheDocument();
+    expect(screen.queryByText('Customer content')).not.toBeInTheDocument();
+  });
 });
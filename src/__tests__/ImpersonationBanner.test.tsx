@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ImpersonationBanner } from '../ImpersonationBanner';
+import { AuthContext, type AuthContextValue, type User } from '../auth/AuthContext';
+
+function renderBanner(user: User | null, element = <ImpersonationBanner />) {
+  const value = {
+    isAuthenticated: !!user,
+    user,
+    signOut: vi.fn().mockResolvedValue(undefined),
+    keycloak: { authServerUrl: 'https://kc.example.com', realm: 'customers' },
+  } as unknown as AuthContextValue;
+  render(<AuthContext.Provider value={value}>{element}</AuthContext.Provider>);
+  return value;
+}
+
+const impersonatedUser: User = {
+  id: 'user-1',
+  name: 'Jane Doe',
+  impersonator: { id: 'admin-1', username: 'admin' },
+  claims: {},
+};
+
+describe('ImpersonationBanner', () => {
+  it('should render nothing without an impersonator', () => {
+    renderBanner({ id: 'user-1', name: 'Jane Doe', claims: {} });
+
+    expect(screen.queryByText('End impersonation')).not.toBeInTheDocument();
+  });
+
+  it('should show who is impersonating whom', () => {
+    renderBanner(impersonatedUser);
+
+    expect(screen.getByText('admin')).toBeInTheDocument();
+    expect(screen.getByText('Jane Doe')).toBeInTheDocument();
+  });
+
+  it('should sign out and return to the admin console', async () => {
+    const value = renderBanner(impersonatedUser);
+
+    fireEvent.click(screen.getByText('End impersonation'));
+
+    await waitFor(() =>
+      expect(value.signOut).toHaveBeenCalledWith({
+        redirectUri:
+          'https://kc.example.com/admin/master/console/#/customers/users/user-1/settings',
+      })
+    );
+  });
+
+  it('should use a custom admin console URL', async () => {
+    const value = renderBanner(
+      impersonatedUser,
+      <ImpersonationBanner adminConsoleUrl="https://admin.example.com/users" />
+    );
+
+    fireEvent.click(screen.getByText('End impersonation'));
+
+    await waitFor(() =>
+      expect(value.signOut).toHaveBeenCalledWith({ redirectUri: 'https://admin.example.com/users' })
+    );
+  });
+});
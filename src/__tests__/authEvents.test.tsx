@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, renderHook, screen, fireEvent, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import { useAuthEvent } from '../auth/useAuthEvent';
+import { createAuthEventEmitter, type AuthEvent } from '../auth/events';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+import { ConfigProvider } from '../context/ConfigProvider';
+import { SocialButtons } from '../SignIn/SocialButtons';
+import type { LoginConfig } from '../config';
+
+const keycloakMock = vi.hoisted(() => ({
+  login: vi.fn(),
+  logout: vi.fn(),
+  updateToken: vi.fn(),
+}));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    login = keycloakMock.login;
+    logout = keycloakMock.logout;
+    updateToken = keycloakMock.updateToken;
+    init() {
+      return Promise.resolve(false);
+    }
+  },
+}));
+
+const github = { alias: 'github', displayName: 'GitHub', providerId: 'github', loginUrl: '#' };
+
+const config = {
+  realm: { name: 'myrealm' },
+  identityProviders: [github],
+  urls: {},
+} as unknown as LoginConfig;
+
+function createWrapper(onEvent: (event: AuthEvent) => void) {
+  return ({ children }: { children: ReactNode }) => (
+    <KeycloakAuthProvider
+      url="https://kc.example.com"
+      realm="myrealm"
+      clientId="my-app"
+      syncTabs={false}
+      onEvent={onEvent}
+    >
+      {children}
+    </KeycloakAuthProvider>
+  );
+}
+
+describe('createAuthEventEmitter', () => {
+  it('should deliver events to typed and wildcard handlers', () => {
+    const events = createAuthEventEmitter();
+    const onSignOut = vi.fn();
+    const onAny = vi.fn();
+    events.on('signout', onSignOut);
+    events.on('*', onAny);
+
+    events.emit('signout', { redirectUri: 'http://localhost:3000' });
+
+    expect(onSignOut).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'signout', redirectUri: 'http://localhost:3000' })
+    );
+    expect(onAny).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop delivering events after unsubscribing', () => {
+    const events = createAuthEventEmitter();
+    const handler = vi.fn();
+    const unsubscribe = events.on('init:start', handler);
+
+    unsubscribe();
+    events.emit('init:start', {});
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should isolate failing handlers', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events = createAuthEventEmitter();
+    const handler = vi.fn();
+    events.on('init:start', () => {
+      throw new Error('boom');
+    });
+    events.on('init:start', handler);
+
+    events.emit('init:start', {});
+
+    expect(handler).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('provider events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should emit initialization events to onEvent', async () => {
+    const onEvent = vi.fn();
+    renderHook(() => useAuth(), { wrapper: createWrapper(onEvent) });
+
+    await waitFor(() =>
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'init:success', authenticated: false })
+      )
+    );
+    expect(onEvent.mock.calls[0][0].type).toBe('init:start');
+  });
+
+  it('should emit sign in and sign out events', async () => {
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useAuth(), { wrapper: createWrapper(onEvent) });
+    await waitFor(() => expect(result.current.keycloak).not.toBeNull());
+
+    await result.current.signIn({ idpHint: 'github' });
+    await result.current.signOut({ redirectUri: 'http://localhost:3000/bye' });
+
+    const types = onEvent.mock.calls.map(([event]) => event.type);
+    expect(types).toContain('signin:redirect');
+    expect(types).toContain('signout');
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'signin:redirect', action: 'login', idpHint: 'github' })
+    );
+  });
+
+  it('should emit popup sign ins as signin:popup', async () => {
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useAuth(), { wrapper: createWrapper(onEvent) });
+    await waitFor(() => expect(result.current.keycloak).not.toBeNull());
+
+    await expect(result.current.signUp({ mode: 'popup' })).rejects.toThrow();
+
+    const types = onEvent.mock.calls.map(([event]) => event.type);
+    expect(types).not.toContain('signin:redirect');
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'signin:popup', action: 'register' })
+    );
+    vi.mocked(window.open).mockRestore();
+  });
+
+  it('should not end a session when getToken is called while signed out', async () => {
+    const onEvent = vi.fn();
+    const onTokenExpired = vi.fn();
+    keycloakMock.updateToken.mockRejectedValue(new Error('no refresh token'));
+    const { result } = renderHook(() => useAuth(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <KeycloakAuthProvider
+          url="https://kc.example.com"
+          realm="myrealm"
+          clientId="my-app"
+          syncTabs={false}
+          onEvent={onEvent}
+          onTokenExpired={onTokenExpired}
+        >
+          {children}
+        </KeycloakAuthProvider>
+      ),
+    });
+    await waitFor(() => expect(result.current.keycloak).not.toBeNull());
+
+    await expect(result.current.getToken()).resolves.toBeUndefined();
+
+    const types = onEvent.mock.calls.map(([event]) => event.type);
+    expect(types).not.toContain('session:ended');
+    expect(types).not.toContain('token:refresh-failed');
+    expect(onTokenExpired).not.toHaveBeenCalled();
+    expect(keycloakMock.updateToken).not.toHaveBeenCalled();
+  });
+
+  it('should subscribe with useAuthEvent', async () => {
+    const handler = vi.fn();
+    const { result } = renderHook(
+      () => {
+        useAuthEvent('signout', handler);
+        return useAuth();
+      },
+      { wrapper: createWrapper(() => {}) }
+    );
+    await waitFor(() => expect(result.current.keycloak).not.toBeNull());
+
+    await result.current.signOut();
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'signout' }));
+  });
+});
+
+describe('component events', () => {
+  function createContext() {
+    return {
+      isLoading: false,
+      isAuthenticated: false,
+      signIn: vi.fn().mockResolvedValue(undefined),
+      events: createAuthEventEmitter(),
+    } as unknown as AuthContextValue;
+  }
+
+  it('should report the configuration source from ConfigProvider', () => {
+    const value = createContext();
+    const onBus = vi.fn();
+    value.events.on('config:loaded', onBus);
+    const onEvent = vi.fn();
+
+    render(
+      <AuthContext.Provider value={value}>
+        <ConfigProvider config={config} onEvent={onEvent}>
+          <div />
+        </ConfigProvider>
+      </AuthContext.Provider>
+    );
+
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'config:loaded', source: 'props', config })
+    );
+    expect(onBus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not load the configuration again for another event bus', () => {
+    const onEvent = vi.fn();
+    const renderWith = (value: AuthContextValue) => (
+      <AuthContext.Provider value={value}>
+        <ConfigProvider config={config} onEvent={onEvent}>
+          <div />
+        </ConfigProvider>
+      </AuthContext.Provider>
+    );
+
+    const { rerender } = render(renderWith(createContext()));
+    rerender(renderWith(createContext()));
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit the selected identity provider from SocialButtons', () => {
+    const value = createContext();
+    const handler = vi.fn();
+    value.events.on('idp:selected', handler);
+
+    render(
+      <AuthContext.Provider value={value}>
+        <SocialButtons providers={[github]} />
+      </AuthContext.Provider>
+    );
+    fireEvent.click(screen.getByText('GitHub'));
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ alias: 'github', mode: 'redirect' })
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, renderHook, screen, fireEvent, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import { SignInButton, SignOutButton } from '../auth/Buttons';
+import { RedirectToSignIn } from '../auth/ControlComponents';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+import { PopupBlockedError, PopupClosedError } from '../auth/popup';
+
+const keycloakMock = vi.hoisted(() => ({
+  login: vi.fn(),
+  register: vi.fn(),
+  logout: vi.fn(),
+}));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    idToken = 'id-token';
+    login = keycloakMock.login;
+    register = keycloakMock.register;
+    logout = keycloakMock.logout;
+    init() {
+      return Promise.resolve(false);
+    }
+    createLogoutUrl(options: { redirectUri: string }) {
+      const params = new URLSearchParams({
+        client_id: 'my-app',
+        post_logout_redirect_uri: options.redirectUri,
+        id_token_hint: this.idToken,
+      });
+      return `https://kc.example.com/realms/myrealm/protocol/openid-connect/logout?${params}`;
+    }
+  },
+}));
+
+function wrapper({ children }: { children: ReactNode }) {
+  return (
+    <KeycloakAuthProvider
+      url="https://kc.example.com"
+      realm="myrealm"
+      clientId="my-app"
+      syncTabs={false}
+    >
+      {children}
+    </KeycloakAuthProvider>
+  );
+}
+
+async function renderAuth() {
+  const hook = renderHook(() => useAuth(), { wrapper });
+  await waitFor(() => expect(hook.result.current.keycloak).not.toBeNull());
+  return hook.result;
+}
+
+describe('authorization request options', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pass authorization request options to keycloak-js on sign in', async () => {
+    const result = await renderAuth();
+
+    await result.current.signIn({
+      idpHint: 'github',
+      loginHint: 'jane@example.com',
+      locale: 'de',
+      prompt: 'login',
+      scope: 'phone',
+      maxAge: 300,
+    });
+
+    expect(keycloakMock.login).toHaveBeenCalledWith({
+      idpHint: 'github',
+      loginHint: 'jane@example.com',
+      locale: 'de',
+      prompt: 'login',
+      scope: 'phone',
+      maxAge: 300,
+      redirectUri: 'http://localhost:3000',
+    });
+  });
+
+  it('should pass authorization request options to keycloak-js on sign up', async () => {
+    const result = await renderAuth();
+
+    await result.current.signUp({ loginHint: 'jane@example.com', locale: 'fr' });
+
+    expect(keycloakMock.register).toHaveBeenCalledWith({
+      loginHint: 'jane@example.com',
+      locale: 'fr',
+      redirectUri: 'http://localhost:3000',
+    });
+  });
+
+  it('should let keycloak-js sign out without logout options', async () => {
+    const result = await renderAuth();
+
+    await result.current.signOut({ redirectUri: 'http://localhost:3000/bye' });
+
+    expect(keycloakMock.logout).toHaveBeenCalledWith({ redirectUri: 'http://localhost:3000/bye' });
+  });
+
+  it('should add the post logout state and locale to the logout URL', async () => {
+    const result = await renderAuth();
+
+    await result.current.signOut({ idTokenHint: true, postLogoutState: 'abc', locale: 'de' });
+
+    expect(keycloakMock.logout).not.toHaveBeenCalled();
+    const url = new URL(vi.mocked(window.location.replace).mock.calls[0][0] as string);
+    expect(url.searchParams.get('id_token_hint')).toBe('id-token');
+    expect(url.searchParams.get('state')).toBe('abc');
+    expect(url.searchParams.get('ui_locales')).toBe('de');
+    expect(url.searchParams.get('post_logout_redirect_uri')).toBe('http://localhost:3000');
+  });
+
+  it('should omit or replace the ID token hint', async () => {
+    const result = await renderAuth();
+
+    await result.current.signOut({ idTokenHint: false });
+    await result.current.signOut({ idTokenHint: 'other-token' });
+
+    const [[omitted], [replaced]] = vi.mocked(window.location.replace).mock.calls;
+    expect(new URL(omitted as string).searchParams.has('id_token_hint')).toBe(false);
+    expect(new URL(replaced as string).searchParams.get('id_token_hint')).toBe('other-token');
+  });
+});
+
+describe('authorization request props', () => {
+  function renderWithContext(element: ReactNode) {
+    const value = {
+      isLoading: false,
+      isAuthenticated: false,
+      signIn: vi.fn().mockResolvedValue(undefined),
+      signOut: vi.fn().mockResolvedValue(undefined),
+    } as unknown as AuthContextValue;
+    render(<AuthContext.Provider value={value}>{element}</AuthContext.Provider>);
+    return value;
+  }
+
+  it('should pass hints from SignInButton', () => {
+    const value = renderWithContext(<SignInButton idpHint="github" loginHint="jane@example.com" />);
+
+    fireEvent.click(screen.getByText('Sign in'));
+
+    expect(value.signIn).toHaveBeenCalledWith(
+      expect.objectContaining({ idpHint: 'github', loginHint: 'jane@example.com' })
+    );
+  });
+
+  it('should report failures of SignInButton to onError', async () => {
+    const onError = vi.fn();
+    const value = renderWithContext(<SignInButton mode="popup" onError={onError} />);
+    vi.mocked(value.signIn).mockRejectedValue(new Error('The popup was closed'));
+
+    fireEvent.click(screen.getByText('Sign in'));
+
+    await waitFor(() => expect(onError).toHaveBeenCalledWith(new Error('The popup was closed')));
+  });
+
+  it('should handle failures of SignInButton without onError', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const value = renderWithContext(<SignInButton mode="popup" />);
+    const blocked = new PopupBlockedError();
+    vi.mocked(value.signIn)
+      .mockRejectedValueOnce(new PopupClosedError())
+      .mockRejectedValueOnce(blocked);
+
+    fireEvent.click(screen.getByText('Sign in'));
+    fireEvent.click(screen.getByText('Sign in'));
+
+    await waitFor(() => expect(consoleError).toHaveBeenCalledTimes(1));
+    expect(consoleError).toHaveBeenCalledWith('Sign in failed:', blocked);
+    consoleError.mockRestore();
+  });
+
+  it('should pass logout options from SignOutButton', () => {
+    const value = renderWithContext(<SignOutButton postLogoutState="abc" />);
+
+    fireEvent.click(screen.getByText('Sign out'));
+
+    expect(value.signOut).toHaveBeenCalledWith(expect.objectContaining({ postLogoutState: 'abc' }));
+  });
+
+  it('should pass options from RedirectToSignIn', () => {
+    const value = renderWithContext(<RedirectToSignIn idpHint="google" prompt="login" />);
+
+    expect(value.signIn).toHaveBeenCalledWith(
+      expect.objectContaining({ idpHint: 'google', prompt: 'login' })
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { createAuthorizedFetch, isAllowedOrigin } from '../auth/authorizedFetch';
+import { useAuthenticatedFetch } from '../auth/useAuthenticatedFetch';
+import { AuthContext, AuthInstancesContext, type AuthContextValue } from '../auth/AuthContext';
+
+function getAuthorization(fetchMock: ReturnType<typeof vi.fn>, call = 0) {
+  const init = fetchMock.mock.calls[call][1] as RequestInit | undefined;
+  return new Headers(init?.headers).get('Authorization');
+}
+
+describe('createAuthorizedFetch', () => {
+  it('should add the bearer token for same-origin requests', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const getToken = vi.fn().mockResolvedValue('token-1');
+    const authFetch = createAuthorizedFetch({ getToken }, { fetch: fetchMock });
+
+    await authFetch('/api/items', { headers: { Accept: 'application/json' } });
+
+    expect(getAuthorization(fetchMock)).toBe('Bearer token-1');
+    expect(new Headers(fetchMock.mock.calls[0][1].headers).get('Accept')).toBe(
+      'application/json'
+    );
+  });
+
+  it('should pass the configured minValidity to getToken', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const getToken = vi.fn().mockResolvedValue('token-1');
+    const authFetch = createAuthorizedFetch({ getToken }, { fetch: fetchMock, minValidity: 60 });
+
+    await authFetch('/api/items');
+
+    expect(getToken).toHaveBeenCalledWith({ minValidity: 60 });
+  });
+
+  it('should not send tokens to third-party origins', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const getToken = vi.fn().mockResolvedValue('token-1');
+    const authFetch = createAuthorizedFetch({ getToken }, { fetch: fetchMock });
+
+    await authFetch('https://cdn.example.org/data.json');
+
+    expect(getToken).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledWith('https://cdn.example.org/data.json', undefined);
+  });
+
+  it('should send tokens to allowlisted origins', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const getToken = vi.fn().mockResolvedValue('token-1');
+    const authFetch = createAuthorizedFetch(
+      { getToken },
+      { fetch: fetchMock, allowedOrigins: ['https://api.example.com'] }
+    );
+
+    await authFetch('https://api.example.com/invoices');
+    await authFetch('/same-origin');
+
+    expect(getAuthorization(fetchMock, 0)).toBe('Bearer token-1');
+    expect(getAuthorization(fetchMock, 1)).toBeNull();
+  });
+
+  it('should refresh once and retry on 401', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 401 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const getToken = vi
+      .fn()
+      .mockResolvedValueOnce('expired-token')
+      .mockResolvedValueOnce('fresh-token');
+    const authFetch = createAuthorizedFetch({ getToken }, { fetch: fetchMock });
+
+    const response = await authFetch('/api/items');
+
+    expect(response.status).toBe(200);
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+    expect(getAuthorization(fetchMock, 1)).toBe('Bearer fresh-token');
+  });
+
+  it('should return the 401 response when refresh yields no new token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 401 }));
+    const getToken = vi.fn().mockResolvedValue('same-token');
+    const authFetch = createAuthorizedFetch({ getToken }, { fetch: fetchMock });
+
+    const response = await authFetch('/api/items');
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept a keycloak-js instance', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const keycloak = {
+      authenticated: true,
+      token: 'kc-token',
+      updateToken: vi.fn().mockResolvedValue(false),
+    };
+    const authFetch = createAuthorizedFetch(keycloak as any, { fetch: fetchMock });
+
+    await authFetch('/api/items');
+
+    expect(keycloak.updateToken).toHaveBeenCalledWith(30);
+    expect(getAuthorization(fetchMock)).toBe('Bearer kc-token');
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  it('should match strings by origin and regular expressions by pattern', () => {
+    const url = new URL('https://api.example.com/v1/items');
+
+    expect(isAllowedOrigin(url, ['https://api.example.com/ignored-path'])).toBe(true);
+    expect(isAllowedOrigin(url, ['https://example.com'])).toBe(false);
+    expect(isAllowedOrigin(url, [/^https:\/\/[a-z]+\.example\.com$/])).toBe(true);
+    expect(isAllowedOrigin(url, ['not a url'])).toBe(false);
+  });
+});
+
+describe('useAuthenticatedFetch', () => {
+  it('should use getToken from the auth context', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const getToken = vi.fn().mockResolvedValue('context-token');
+    const value = { getToken } as unknown as AuthContextValue;
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+    );
+
+    const { result } = renderHook(() => useAuthenticatedFetch({ fetch: fetchMock }), { wrapper });
+    await result.current('/api/items');
+
+    expect(getAuthorization(fetchMock)).toBe('Bearer context-token');
+  });
+
+  it('should use getToken of the named instance', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    const value = { getToken: vi.fn().mockResolvedValue('context-token') };
+    const partner = { getToken: vi.fn().mockResolvedValue('partner-token') };
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <AuthInstancesContext.Provider value={{ partner: partner as unknown as AuthContextValue }}>
+        <AuthContext.Provider value={value as unknown as AuthContextValue}>
+          {children}
+        </AuthContext.Provider>
+      </AuthInstancesContext.Provider>
+    );
+
+    const { result } = renderHook(
+      () => useAuthenticatedFetch({ instance: 'partner', fetch: fetchMock }),
+      { wrapper }
+    );
+    await result.current('/api/items');
+
+    expect(getAuthorization(fetchMock)).toBe('Bearer partner-token');
+  });
+});
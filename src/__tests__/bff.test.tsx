@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, renderHook, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import { SignedIn, SignedOut, AuthError, Protect } from '../auth/ControlComponents';
+import { SignInButton, SignOutButton } from '../auth/Buttons';
+import { AuthInitError } from '../auth/initError';
+import { UserButton } from '../UserButton';
+import type { AuthEvent } from '../auth/events';
+
+const keycloakMock = vi.hoisted(() => ({ created: vi.fn() }));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    constructor() {
+      keycloakMock.created();
+    }
+  },
+}));
+
+function stubUserEndpoint(...responses: Response[]) {
+  const fetchMock = vi.fn();
+  for (const response of responses) fetchMock.mockResolvedValueOnce(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function Probe() {
+  const { keycloak, getToken, accessToken } = useAuth();
+  return (
+    <button
+      onClick={async () => {
+        document.title = `${keycloak === null}:${await getToken()}:${accessToken}`;
+      }}
+    >
+      Probe
+    </button>
+  );
+}
+
+function App(props: { onEvent?: (event: AuthEvent) => void; monitorSession?: boolean }) {
+  return (
+    <KeycloakAuthProvider mode="bff" {...props}>
+      <SignedIn>
+        <span>Welcome</span>
+        <UserButton />
+        <Protect realmRoles={['admin']}>Admin area</Protect>
+        <SignOutButton />
+        <Probe />
+      </SignedIn>
+      <SignedOut>
+        <SignInButton redirectUri="/dashboard?tab=2" />
+      </SignedOut>
+      <AuthError>{({ error }) => <span>Failed: {error.type}</span>}</AuthError>
+    </KeycloakAuthProvider>
+  );
+}
+
+/** Render `useAuth` of a BFF mode provider without a backend session */
+async function renderSignedOut() {
+  stubUserEndpoint(new Response(null, { status: 401 }));
+  const { result } = renderHook(() => useAuth(), {
+    wrapper: ({ children }) => <KeycloakAuthProvider mode="bff">{children}</KeycloakAuthProvider>,
+  });
+  await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+  return result;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.mocked(window.location.assign).mockClear();
+});
+
+describe('KeycloakAuthProvider in BFF mode', () => {
+  it('should load the user from the backend with cookies', async () => {
+    const fetchMock = stubUserEndpoint(
+      Response.json({ sub: 'user-1', name: 'Ada Lovelace', realm_access: { roles: ['admin'] } })
+    );
+
+    render(<App />);
+
+    expect(await screen.findByText('Admin area')).toBeInTheDocument();
+    expect(screen.getByText('AL')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/bff/user',
+      expect.objectContaining({ credentials: 'include' })
+    );
+    expect(keycloakMock.created).not.toHaveBeenCalled();
+
+    await act(async () => fireEvent.click(screen.getByText('Probe')));
+    expect(document.title).toBe('true:undefined:undefined');
+  });
+
+  it('should sign in through the login endpoint', async () => {
+    stubUserEndpoint(new Response(null, { status: 401 }));
+
+    render(<App />);
+    fireEvent.click(await screen.findByRole('button', { name: /sign in/i }));
+
+    expect(window.location.assign).toHaveBeenCalledWith(
+      '/bff/login?returnTo=%2Fdashboard%3Ftab%3D2'
+    );
+  });
+
+  it('should sign up through the login endpoint with prompt=create', async () => {
+    const result = await renderSignedOut();
+
+    await result.current.signUp({ redirectUri: '/welcome' });
+
+    expect(window.location.assign).toHaveBeenCalledWith(
+      '/bff/login?returnTo=%2Fwelcome&prompt=create'
+    );
+  });
+
+  it('should pass the options of the authorization request to the login endpoint', async () => {
+    const result = await renderSignedOut();
+
+    await result.current.signIn({
+      redirectUri: '/reports',
+      locale: 'de',
+      scope: 'organization',
+      maxAge: 0,
+      acr: { values: ['gold'], essential: true },
+      acrValues: 'silver',
+    });
+
+    const url = new URL(vi.mocked(window.location.assign).mock.calls[0][0] as string, 'http://localhost');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      returnTo: '/reports',
+      locale: 'de',
+      scope: 'organization',
+      maxAge: '0',
+      acr: JSON.stringify({ values: ['gold'], essential: true }),
+      acrValues: 'silver',
+    });
+  });
+
+  it('should refuse popup sign in and signing in with tokens', async () => {
+    const result = await renderSignedOut();
+
+    await expect(result.current.signIn({ mode: 'popup' })).rejects.toThrow(
+      'Cannot sign in with a popup in BFF mode'
+    );
+    await expect(result.current.signUp({ mode: 'popup' })).rejects.toThrow(
+      'Cannot sign up with a popup in BFF mode'
+    );
+    expect(() => result.current.signInWithTokens({ token: 'access-token' })).toThrow(
+      'Cannot sign in with tokens in BFF mode'
+    );
+    expect(window.location.assign).not.toHaveBeenCalled();
+  });
+
+  it('should read Duende BFF claims and sign out with their logout URL', async () => {
+    stubUserEndpoint(
+      Response.json([
+        { type: 'sub', value: 'user-1' },
+        { type: 'realm_access', value: '{"roles":["admin"]}' },
+        { type: 'bff:logout_url', value: '/bff/logout?sid=session-1' },
+      ])
+    );
+
+    render(<App />);
+    expect(await screen.findByText('Admin area')).toBeInTheDocument();
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: /sign out/i })));
+
+    expect(window.location.assign).toHaveBeenCalledWith('/bff/logout?sid=session-1&returnTo=%2F');
+  });
+
+  it('should report backend errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubUserEndpoint(new Response('Bad gateway', { status: 502 }));
+    const onEvent = vi.fn();
+
+    render(
+      <KeycloakAuthProvider mode="bff" maxInitRetries={0} onEvent={onEvent}>
+        <AuthError>{({ error }) => <span>Failed: {error.type}</span>}</AuthError>
+      </KeycloakAuthProvider>
+    );
+
+    expect(await screen.findByText('Failed: server')).toBeInTheDocument();
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'init:error',
+        error: expect.any(AuthInitError),
+        willRetry: false,
+      })
+    );
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('should end the session when the backend session has ended', async () => {
+    vi.useFakeTimers();
+    stubUserEndpoint(Response.json({ sub: 'user-1' }), new Response(null, { status: 401 }));
+    const onEvent = vi.fn();
+
+    render(<App monitorSession onEvent={onEvent} />);
+    await act(() => vi.advanceTimersByTimeAsync(0));
+    expect(screen.getByText('Welcome')).toBeInTheDocument();
+    await act(() => vi.advanceTimersByTimeAsync(30_000));
+
+    expect(screen.getByRole('button', { name: /sign in/i })).toBeInTheDocument();
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'session:ended', reason: 'signed_out_elsewhere' })
+    );
+  });
+});
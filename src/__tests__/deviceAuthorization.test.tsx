@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { KeycloakAuthProvider } from '../auth/KeycloakAuthProvider';
+import { SignedIn } from '../auth/ControlComponents';
+import { DeviceSignIn } from '../DeviceSignIn';
+import { encodeQrCode } from '../DeviceSignIn/qrCode';
+import {
+  DeviceAuthorizationError,
+  pollDeviceToken,
+  requestDeviceAuthorization,
+  type DeviceAuthorization,
+} from '../auth/deviceAuthorization';
+import { createTestToken } from '../testing';
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    authServerUrl = 'https://kc.example.com';
+    realm = 'myrealm';
+    clientId = 'tv-app';
+    init() {
+      return Promise.resolve(false);
+    }
+  },
+}));
+
+const DEVICE_ENDPOINT = 'https://kc.example.com/realms/myrealm/protocol/openid-connect/auth/device';
+const TOKEN_ENDPOINT = 'https://kc.example.com/realms/myrealm/protocol/openid-connect/token';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createAuthorization(overrides: Partial<DeviceAuthorization> = {}): DeviceAuthorization {
+  return {
+    deviceCode: 'device-code',
+    userCode: 'ABCD-EFGH',
+    verificationUri: 'https://kc.example.com/realms/myrealm/device',
+    expiresAt: Date.now() + 600_000,
+    interval: 5,
+    ...overrides,
+  };
+}
+
+describe('encodeQrCode', () => {
+  it('should pick the smallest version that fits', () => {
+    expect(encodeQrCode('hi')).toHaveLength(21);
+    expect(encodeQrCode('https://kc.example.com/realms/myrealm/device?user_code=ABCD-EFGH'))
+      .toHaveLength(37);
+  });
+
+  it('should draw finder patterns in three corners', () => {
+    const modules = encodeQrCode('hello');
+    const size = modules.length;
+    const finder = (x: number, y: number) =>
+      modules.slice(y, y + 7).map((row) => row.slice(x, x + 7).map(Number).join(''));
+    const expected = ['1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111'];
+
+    expect(finder(0, 0)).toEqual(expected);
+    expect(finder(size - 7, 0)).toEqual(expected);
+    expect(finder(0, size - 7)).toEqual(expected);
+  });
+
+  it('should reject text that does not fit', () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow(RangeError);
+  });
+});
+
+describe('device authorization requests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should request a user code', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        jsonResponse({
+          device_code: 'device-code',
+          user_code: 'ABCD-EFGH',
+          verification_uri: 'https://kc.example.com/realms/myrealm/device',
+          verification_uri_complete:
+            'https://kc.example.com/realms/myrealm/device?user_code=ABCD-EFGH',
+          expires_in: 600,
+          interval: 5,
+        })
+      )
+    );
+
+    const authorization = await requestDeviceAuthorization({
+      deviceAuthorizationEndpoint: DEVICE_ENDPOINT,
+      clientId: 'tv-app',
+      scope: 'profile',
+    });
+
+    expect(authorization).toMatchObject({ userCode: 'ABCD-EFGH', interval: 5 });
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(DEVICE_ENDPOINT);
+    expect(String(init?.body)).toBe('client_id=tv-app&scope=openid+profile');
+  });
+
+  it('should keep polling while pending and slow down when asked to', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'authorization_pending' }, 400))
+      .mockResolvedValueOnce(jsonResponse({ error: 'slow_down' }, 400))
+      .mockResolvedValueOnce(jsonResponse({ access_token: createTestToken() }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const promise = pollDeviceToken({
+      tokenEndpoint: TOKEN_ENDPOINT,
+      clientId: 'tv-app',
+      authorization: createAuthorization(),
+    });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[0][1].body)).toContain(
+      'grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Adevice_code'
+    );
+
+    // The interval grows from 5 to 10 seconds after slow_down
+    await vi.advanceTimersByTimeAsync(9_000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    await expect(promise).resolves.toMatchObject({ token: expect.any(String) });
+  });
+
+  it('should reject when the user declines', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(jsonResponse({ error: 'access_denied' }, 400))
+    );
+
+    const error = await pollDeviceToken({
+      tokenEndpoint: TOKEN_ENDPOINT,
+      clientId: 'tv-app',
+      authorization: createAuthorization({ interval: 0 }),
+    }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(DeviceAuthorizationError);
+    expect(error).toMatchObject({ oauthError: 'access_denied', status: 400 });
+  });
+
+  it('should reject once the user code has expired', async () => {
+    vi.stubGlobal('fetch', vi.fn());
+
+    const promise = pollDeviceToken({
+      tokenEndpoint: TOKEN_ENDPOINT,
+      clientId: 'tv-app',
+      authorization: createAuthorization({ interval: 0, expiresAt: Date.now() - 1 }),
+    });
+
+    await expect(promise).rejects.toMatchObject({ oauthError: 'expired_token' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('DeviceSignIn', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((url: string) => {
+        if (url === DEVICE_ENDPOINT) {
+          return Promise.resolve(
+            jsonResponse({
+              device_code: 'device-code',
+              user_code: 'WXYZ-QRST',
+              verification_uri: 'https://kc.example.com/realms/myrealm/device',
+              verification_uri_complete:
+                'https://kc.example.com/realms/myrealm/device?user_code=WXYZ-QRST',
+              expires_in: 600,
+              interval: 0,
+            })
+          );
+        }
+        return Promise.resolve(jsonResponse({ error: 'authorization_pending' }, 400));
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should show the user code and sign in once approved', async () => {
+    render(
+      <KeycloakAuthProvider
+        url="https://kc.example.com"
+        realm="myrealm"
+        clientId="tv-app"
+        syncTabs={false}
+      >
+        <DeviceSignIn />
+        <SignedIn>
+          <div>Welcome</div>
+        </SignedIn>
+      </KeycloakAuthProvider>
+    );
+
+    expect(await screen.findByText('WXYZ-QRST')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'QR code of the sign in page' })).toBeInTheDocument();
+
+    vi.mocked(fetch).mockResolvedValue(
+      jsonResponse({ access_token: createTestToken({ sub: 'user-1' }) })
+    );
+
+    expect(await screen.findByText('Welcome')).toBeInTheDocument();
+    expect(screen.queryByText('WXYZ-QRST')).not.toBeInTheDocument();
+  });
+
+  it('should report an error when signing in with the tokens fails', async () => {
+    render(
+      <KeycloakAuthProvider
+        url="https://kc.example.com"
+        realm="myrealm"
+        clientId="tv-app"
+        syncTabs={false}
+      >
+        <DeviceSignIn />
+        <SignedIn>
+          <div>Welcome</div>
+        </SignedIn>
+      </KeycloakAuthProvider>
+    );
+    expect(await screen.findByText('WXYZ-QRST')).toBeInTheDocument();
+
+    vi.mocked(fetch).mockResolvedValue(jsonResponse({ access_token: 'not-a-jwt' }));
+
+    expect(await screen.findByText(/access token is missing or malformed/)).toBeInTheDocument();
+    expect(screen.queryByText('Welcome')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,318 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type Keycloak from 'keycloak-js';
+import { StrictMode } from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import {
+  createDPoP,
+  fetchWithDPoP,
+  interceptDPoPRequests,
+  type DPoPKeyStore,
+} from '../auth/dpop';
+import { createAuthorizedFetch } from '../auth/authorizedFetch';
+import { requestRpt } from '../auth/permissions';
+import { createSessionMonitor } from '../auth/sessionMonitor';
+import { decodeJwtHeader, decodeJwtPayload, verifyJwtSignature } from '../auth/jwt';
+import { base64UrlEncode } from '../auth/pkce';
+import { createTestToken } from '../testing';
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    authServerUrl = 'https://kc.example.com';
+    realm = 'myrealm';
+    clientId = 'my-app';
+    // Exchanges the code of a sign in callback
+    async init() {
+      await fetch(`${this.authServerUrl}/realms/${this.realm}/protocol/openid-connect/token`, {
+        method: 'POST',
+        body: new URLSearchParams({ grant_type: 'authorization_code', client_id: this.clientId }),
+      });
+      return false;
+    }
+  },
+}));
+
+const REALM_URL = 'https://kc.example.com/realms/myrealm';
+const TOKEN_ENDPOINT = `${REALM_URL}/protocol/openid-connect/token`;
+
+function createMemoryKeyStore(): DPoPKeyStore {
+  let keyPair: CryptoKeyPair | null = null;
+  return {
+    get: () => keyPair,
+    set: (value) => {
+      keyPair = value;
+    },
+  };
+}
+
+async function decodeProof(proof: string | null) {
+  const header = decodeJwtHeader(proof!)!;
+  const valid = await verifyJwtSignature(proof!, header.jwk as JsonWebKey, 'ES256');
+  return { header, payload: decodeJwtPayload(proof!)!, valid };
+}
+
+function getProof(fetchMock: ReturnType<typeof vi.fn>, call: number) {
+  return new Headers(fetchMock.mock.calls[call][1]?.headers).get('DPoP');
+}
+
+function nonceResponse(status: 400 | 401) {
+  return status === 400
+    ? Response.json({ error: 'use_dpop_nonce' }, { status, headers: { 'DPoP-Nonce': 'nonce-1' } })
+    : new Response(null, {
+        status,
+        headers: {
+          'DPoP-Nonce': 'nonce-1',
+          'WWW-Authenticate': 'DPoP error="use_dpop_nonce"',
+        },
+      });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createDPoP', () => {
+  it('should create signed proofs for requests', async () => {
+    const dpop = createDPoP();
+    const accessToken = createTestToken();
+
+    const proof = await dpop.createProof(
+      'post',
+      'https://api.example.com/orders?page=2#top',
+      accessToken
+    );
+    const { header, payload, valid } = await decodeProof(proof);
+
+    expect(valid).toBe(true);
+    expect(header).toMatchObject({
+      typ: 'dpop+jwt',
+      alg: 'ES256',
+      jwk: { kty: 'EC', crv: 'P-256' },
+    });
+    expect(header.jwk).not.toHaveProperty('d');
+    expect(payload).toMatchObject({ htm: 'POST', htu: 'https://api.example.com/orders' });
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessToken));
+    expect(payload.ath).toBe(base64UrlEncode(new Uint8Array(hash)));
+    expect(payload.jti).toEqual(expect.any(String));
+  });
+
+  it('should keep the key pair in the key store', async () => {
+    const keyStore = createMemoryKeyStore();
+    const thumbprint = await createDPoP({ keyStore }).getThumbprint();
+
+    expect(await createDPoP({ keyStore }).getThumbprint()).toBe(thumbprint);
+    expect(await createDPoP().getThumbprint()).not.toBe(thumbprint);
+    expect((await keyStore.get())?.privateKey.extractable).toBe(false);
+  });
+});
+
+describe('fetchWithDPoP', () => {
+  it.each([400, 401] as const)(
+    'should retry with the nonce of a %s use_dpop_nonce response',
+    async (status) => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(nonceResponse(status))
+        .mockResolvedValueOnce(new Response('ok'));
+      const dpop = createDPoP();
+
+      const response = await fetchWithDPoP(dpop, fetchMock, TOKEN_ENDPOINT, { method: 'POST' });
+
+      expect(await response.text()).toBe('ok');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect((await decodeProof(getProof(fetchMock, 0))).payload.nonce).toBeUndefined();
+      expect((await decodeProof(getProof(fetchMock, 1))).payload.nonce).toBe('nonce-1');
+    }
+  );
+});
+
+describe('createAuthorizedFetch with DPoP', () => {
+  it('should send DPoP-bound tokens with a proof', async () => {
+    const token = createTestToken();
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(nonceResponse(401))
+      .mockResolvedValueOnce(new Response('ok'));
+    const authFetch = createAuthorizedFetch(
+      { getToken: async () => token, dpop: createDPoP() },
+      { fetch: fetchMock }
+    );
+
+    await authFetch('http://localhost:3000/api/orders', { method: 'DELETE' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const headers = new Headers(fetchMock.mock.calls[1][1]?.headers);
+    expect(headers.get('Authorization')).toBe(`DPoP ${token}`);
+    const { payload } = await decodeProof(headers.get('DPoP'));
+    expect(payload).toMatchObject({ htm: 'DELETE', nonce: 'nonce-1' });
+  });
+});
+
+describe('Keycloak requests with DPoP-bound tokens', () => {
+  it('should request RPTs with a proof for the token', async () => {
+    const token = createTestToken({ azp: 'my-app' });
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(() => Promise.resolve(Response.json({ access_token: 'rpt' })));
+    vi.stubGlobal('fetch', fetchMock);
+    // Requests with a proof are not intercepted again
+    const stop = interceptDPoPRequests(REALM_URL, 'my-app', createDPoP());
+
+    await requestRpt({
+      tokenEndpoint: TOKEN_ENDPOINT,
+      accessToken: token,
+      audience: 'billing-api',
+      dpop: createDPoP(),
+    });
+    stop();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(TOKEN_ENDPOINT);
+    expect((init.body as URLSearchParams).get('audience')).toBe('billing-api');
+    const headers = new Headers(init.headers);
+    expect(headers.get('Authorization')).toBe(`DPoP ${token}`);
+    const { payload } = await decodeProof(headers.get('DPoP'));
+    expect(payload).toMatchObject({ htm: 'POST', htu: TOKEN_ENDPOINT });
+    expect(payload.ath).toBeTruthy();
+  });
+
+  it('should check the session at the userinfo endpoint with a proof for the token', async () => {
+    const token = createTestToken({ sub: 'user-1' });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(Response.json({ sub: 'user-1' })));
+    const onSessionEnded = vi.fn();
+    const keycloak = {
+      authServerUrl: 'https://kc.example.com',
+      realm: 'myrealm',
+      clientId: 'my-app',
+      token,
+      tokenParsed: decodeJwtPayload(token),
+    } as unknown as Keycloak;
+    const monitor = createSessionMonitor(keycloak, {
+      interval: 30,
+      dpop: createDPoP(),
+      onSessionEnded,
+    });
+
+    monitor.start();
+    const checkIframe = document.querySelector<HTMLIFrameElement>(
+      `iframe[src="${REALM_URL}/protocol/openid-connect/3p-cookies/step1.html"]`
+    );
+    window.dispatchEvent(
+      new MessageEvent('message', { data: 'unsupported', source: checkIframe!.contentWindow })
+    );
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    monitor.stop();
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(`${REALM_URL}/protocol/openid-connect/userinfo`);
+    const headers = new Headers(init?.headers);
+    expect(headers.get('Authorization')).toBe(`DPoP ${token}`);
+    expect((await decodeProof(headers.get('DPoP'))).payload).toMatchObject({ htm: 'GET' });
+    expect(onSessionEnded).not.toHaveBeenCalled();
+  });
+});
+
+describe('interceptDPoPRequests', () => {
+  it('should add proofs to requests to the realm token endpoint only', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => Promise.resolve(new Response('{}')));
+    vi.stubGlobal('fetch', fetchMock);
+    const stop = interceptDPoPRequests(REALM_URL, 'my-app', createDPoP());
+
+    await fetch(TOKEN_ENDPOINT, {
+      method: 'POST',
+      body: new URLSearchParams({ grant_type: 'refresh_token' }),
+    });
+    await fetch('https://kc.example.com/realms/other/protocol/openid-connect/token', {
+      method: 'POST',
+    });
+    stop();
+
+    expect(fetch).toBe(fetchMock);
+    expect(getProof(fetchMock, 0)).toBeTruthy();
+    expect(getProof(fetchMock, 1)).toBeNull();
+  });
+
+  it('should add proofs of the key pair of the client the request is sent for', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => Promise.resolve(new Response('{}')));
+    vi.stubGlobal('fetch', fetchMock);
+    const stopStaff = interceptDPoPRequests(REALM_URL, 'admin', createDPoP());
+    const stopCustomer = interceptDPoPRequests(REALM_URL, 'portal', createDPoP());
+    const refresh = (clientId: string) =>
+      fetch(TOKEN_ENDPOINT, {
+        method: 'POST',
+        body: new URLSearchParams({ grant_type: 'refresh_token', client_id: clientId }),
+      });
+
+    await refresh('admin');
+    await refresh('portal');
+    await refresh('other');
+    stopStaff();
+    await refresh('admin');
+    await refresh('portal');
+    stopCustomer();
+
+    const keys = await Promise.all(
+      [0, 1].map(async (call) => (await decodeProof(getProof(fetchMock, call))).header.jwk)
+    );
+    expect(keys[0]).not.toEqual(keys[1]);
+    expect(getProof(fetchMock, 2)).toBeNull();
+    expect(getProof(fetchMock, 3)).toBeNull();
+    expect((await decodeProof(getProof(fetchMock, 4))).header.jwk).toEqual(keys[1]);
+    expect(fetch).toBe(fetchMock);
+  });
+
+  it('should send userinfo requests as DPoP requests', async () => {
+    const token = createTestToken({ azp: 'my-app' });
+    const fetchMock = vi.fn().mockImplementation(() => Promise.resolve(new Response('{}')));
+    vi.stubGlobal('fetch', fetchMock);
+    const stop = interceptDPoPRequests(REALM_URL, 'my-app', createDPoP());
+
+    await fetch('https://kc.example.com/realms/myrealm/protocol/openid-connect/userinfo', {
+      headers: { Authorization: `bearer ${token}` },
+    });
+    stop();
+
+    const headers = new Headers(fetchMock.mock.calls[0][1]?.headers);
+    expect(headers.get('Authorization')).toBe(`DPoP ${token}`);
+    expect((await decodeProof(headers.get('DPoP'))).payload.ath).toBeTruthy();
+  });
+});
+
+describe('KeycloakAuthProvider dpop', () => {
+  it('should share the DPoP handle and intercept token requests while mounted', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => Promise.resolve(new Response('{}')));
+    vi.stubGlobal('fetch', fetchMock);
+    function Probe() {
+      const { dpop } = useAuth();
+      return <div>{dpop ? 'DPoP' : 'Bearer'}</div>;
+    }
+
+    const keyStore = createMemoryKeyStore();
+
+    const { unmount } = render(
+      <StrictMode>
+        <KeycloakAuthProvider
+          url="https://kc.example.com"
+          realm="myrealm"
+          clientId="my-app"
+          syncTabs={false}
+          dpop
+          dpopKeyStore={keyStore}
+        >
+          <Probe />
+        </KeycloakAuthProvider>
+      </StrictMode>
+    );
+
+    expect(await screen.findByText('DPoP')).toBeInTheDocument();
+    // The code exchange of keycloak-js's initialization has a proof
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    expect(getProof(fetchMock, 0)).toBeTruthy();
+    await fetch(TOKEN_ENDPOINT, { method: 'POST' });
+    expect(getProof(fetchMock, 1)).toBeTruthy();
+
+    unmount();
+    await waitFor(() => expect(fetch).toBe(fetchMock));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+interface FakeOpenRequest {
+  result: FakeDatabase;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onblocked?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+interface FakeDatabase {
+  objectStoreNames: { contains: (name: string) => boolean };
+  createObjectStore: ReturnType<typeof vi.fn>;
+  transaction: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+  onversionchange?: () => void;
+  onclose?: () => void;
+}
+
+function createDatabase(): FakeDatabase {
+  return {
+    objectStoreNames: { contains: () => true },
+    createObjectStore: vi.fn(),
+    transaction: vi.fn((name: string) => ({ objectStore: () => ({ name }) })),
+    close: vi.fn(),
+  };
+}
+
+let requests: FakeOpenRequest[];
+
+/** The module keeps its connection, so each test loads it afresh */
+async function loadModule() {
+  vi.resetModules();
+  return import('../auth/indexedDB');
+}
+
+beforeEach(() => {
+  requests = [];
+  vi.stubGlobal('indexedDB', {
+    open: vi.fn(() => {
+      const request: FakeOpenRequest = { result: createDatabase() };
+      requests.push(request);
+      return request;
+    }),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openStore', () => {
+  it('should share one connection', async () => {
+    const { openStore } = await loadModule();
+
+    const stores = Promise.all([
+      openStore('dpop-keys', 'readonly'),
+      openStore('offline-tokens', 'readwrite'),
+    ]);
+    requests[0].onsuccess?.();
+    await stores;
+    await openStore('dpop-keys', 'readwrite');
+
+    expect(indexedDB.open).toHaveBeenCalledTimes(1);
+    expect(requests[0].result.transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('should close the connection when another page upgrades the database', async () => {
+    const { openStore } = await loadModule();
+    const store = openStore('dpop-keys', 'readonly');
+    requests[0].onsuccess?.();
+    await store;
+
+    requests[0].result.onversionchange?.();
+    const reopened = openStore('dpop-keys', 'readonly');
+    requests[1].onsuccess?.();
+    await reopened;
+
+    expect(requests[0].result.close).toHaveBeenCalled();
+    expect(indexedDB.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject when the upgrade is blocked by another page', async () => {
+    const { openStore } = await loadModule();
+    const store = openStore('dpop-keys', 'readonly');
+
+    requests[0].onblocked?.();
+    await expect(store).rejects.toThrow('in use by another page');
+    // The connection opened once the other page closed is not kept
+    requests[0].onsuccess?.();
+    expect(requests[0].result.close).toHaveBeenCalled();
+
+    const retried = openStore('dpop-keys', 'readonly');
+    requests[1].onsuccess?.();
+    await expect(retried).resolves.toEqual({ name: 'dpop-keys' });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, renderHook, screen, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import { AuthLoading, AuthError, SignedOut } from '../auth/ControlComponents';
+import { AuthInitError, toAuthInitError, diagnoseInitError } from '../auth/initError';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+const initMock = vi.hoisted(() => vi.fn());
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    init() {
+      return initMock();
+    }
+  },
+}));
+
+function createWrapper(props: {
+  maxInitRetries?: number;
+  initRetryDelay?: number;
+  onError?: (error: Error) => void;
+}) {
+  return ({ children }: { children: ReactNode }) => (
+    <KeycloakAuthProvider
+      url="https://kc.example.com"
+      realm="myrealm"
+      clientId="my-app"
+      syncTabs={false}
+      initRetryDelay={10}
+      {...props}
+    >
+      {children}
+    </KeycloakAuthProvider>
+  );
+}
+
+describe('toAuthInitError', () => {
+  it('should classify fetch failures as network errors', () => {
+    expect(toAuthInitError(new TypeError('Failed to fetch')).type).toBe('network');
+  });
+
+  it('should classify responses by status', () => {
+    const serverError = toAuthInitError({ message: 'Bad', response: { status: 503 } });
+    const clientError = toAuthInitError({ message: 'Bad', response: { status: 400 } });
+
+    expect(serverError).toMatchObject({ type: 'server', status: 503, isRetryable: true });
+    expect(clientError).toMatchObject({ type: 'configuration', status: 400, isRetryable: false });
+  });
+
+  it('should classify OAuth errors as configuration errors', () => {
+    const error = toAuthInitError({ error: 'unauthorized_client', error_description: 'Nope' });
+
+    expect(error).toMatchObject({
+      type: 'configuration',
+      oauthError: 'unauthorized_client',
+      message: 'Nope',
+    });
+  });
+
+  it('should classify iframe timeouts as blocked by the browser', () => {
+    const error = toAuthInitError(
+      new Error('Timeout when waiting for 3rd party check iframe message.')
+    );
+
+    expect(error.type).toBe('cors');
+  });
+
+  it('should classify other errors as configuration errors', () => {
+    const error = toAuthInitError(new Error("Invalid value for 'flow'"));
+
+    expect(error).toBeInstanceOf(AuthInitError);
+    expect(error.type).toBe('configuration');
+  });
+});
+
+describe('diagnoseInitError', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should report a reachable server as blocked by the browser', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null)));
+
+    const error = await diagnoseInitError(
+      new TypeError('Failed to fetch'),
+      'https://kc.example.com',
+      'myrealm'
+    );
+
+    expect(error.type).toBe('cors');
+    expect(fetch).toHaveBeenCalledWith(
+      'https://kc.example.com/realms/myrealm/.well-known/openid-configuration',
+      expect.objectContaining({ mode: 'no-cors' })
+    );
+  });
+
+  it('should report an unreachable server as a network error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const error = await diagnoseInitError(
+      new Error('Timeout when waiting for 3rd party check iframe message.'),
+      'https://kc.example.com',
+      'myrealm'
+    );
+
+    expect(error.type).toBe('network');
+  });
+});
+
+describe('initialization errors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should expose the error and retry network errors automatically', async () => {
+    initMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue(false);
+    const onError = vi.fn();
+    const { result } = renderHook(() => useAuth(), {
+      wrapper: createWrapper({ initRetryDelay: 200, onError }),
+    });
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error?.type).toBe('network');
+    expect(result.current.isLoading).toBe(false);
+    expect(onError).toHaveBeenCalledWith(expect.any(AuthInitError));
+
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+    expect(result.current.error).toBeNull();
+    expect(initMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry configuration errors automatically', async () => {
+    initMock.mockRejectedValueOnce(new Error('Invalid value for responseMode'));
+    const { result } = renderHook(() => useAuth(), { wrapper: createWrapper({}) });
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(result.current.error?.type).toBe('configuration');
+    expect(initMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should initialize again on retry', async () => {
+    initMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue(false);
+    const { result } = renderHook(() => useAuth(), {
+      wrapper: createWrapper({ maxInitRetries: 0 }),
+    });
+    await waitFor(() => expect(result.current.status).toBe('error'));
+
+    act(() => result.current.retry());
+
+    expect(result.current.status).toBe('loading');
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+  });
+});
+
+describe('AuthLoading and AuthError', () => {
+  function renderWithContext(value: Partial<AuthContextValue>, element: ReactNode) {
+    render(
+      <AuthContext.Provider value={value as AuthContextValue}>{element}</AuthContext.Provider>
+    );
+  }
+
+  it('should render AuthLoading while loading', () => {
+    renderWithContext(
+      { status: 'loading', isLoading: true },
+      <AuthLoading>
+        <div>Loading</div>
+      </AuthLoading>
+    );
+
+    expect(screen.getByText('Loading')).toBeInTheDocument();
+  });
+
+  it('should render AuthError with the error and retry callback', () => {
+    const retry = vi.fn();
+    renderWithContext(
+      {
+        status: 'error',
+        isLoading: false,
+        isAuthenticated: false,
+        error: new AuthInitError('Unreachable', 'network'),
+        retry,
+      },
+      <>
+        <AuthError>
+          {({ error, retry }) => (
+            <button onClick={retry}>
+              {error.type}: {error.message}
+            </button>
+          )}
+        </AuthError>
+        <SignedOut>
+          <div>Signed out</div>
+        </SignedOut>
+      </>
+    );
+
+    screen.getByText('network: Unreachable').click();
+
+    expect(retry).toHaveBeenCalled();
+    expect(screen.queryByText('Signed out')).not.toBeInTheDocument();
+  });
+
+  it('should not render AuthError without an error', () => {
+    renderWithContext(
+      { status: 'unauthenticated', isLoading: false, error: null },
+      <AuthError>
+        <div>Failed</div>
+      </AuthError>
+    );
+
+    expect(screen.queryByText('Failed')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,351 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NextRequest, type NextResponse } from 'next/server';
+import { createKeycloakAuth } from '../nextjs';
+import { readChunkedCookie, seal, unseal, writeChunkedCookie } from '../nextjs/sessionCookie';
+import { createTestToken } from '../testing';
+
+const SECRET = 'a-session-secret-of-at-least-32-characters';
+const TOKEN_ENDPOINT = 'https://kc.example.com/realms/myrealm/protocol/openid-connect/token';
+
+function createAuth(options: { publicRoutes?: (string | RegExp)[] } = {}) {
+  return createKeycloakAuth({
+    url: 'https://kc.example.com',
+    realm: 'myrealm',
+    clientId: 'my-app',
+    secret: SECRET,
+    ...options,
+  });
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createRequest(path: string, cookies: Record<string, string> = {}, accept = 'text/html') {
+  return new NextRequest(`https://app.example.com${path}`, {
+    headers: {
+      accept,
+      cookie: Object.entries(cookies)
+        .map(([name, value]) => `${name}=${value}`)
+        .join('; '),
+    },
+  });
+}
+
+/** Cookies set by a response, without the deleted ones */
+function getCookies(response: Response) {
+  return Object.fromEntries(
+    (response as NextResponse).cookies
+      .getAll()
+      .filter((cookie) => cookie.value)
+      .map((cookie) => [cookie.name, cookie.value])
+  );
+}
+
+async function signIn(auth = createAuth(), tokens: Record<string, unknown> = {}) {
+  const login = await auth.handlers.GET(createRequest('/api/auth/login?returnTo=/dashboard'));
+  const authorizationUrl = new URL(login.headers.get('location')!);
+  const nonce = authorizationUrl.searchParams.get('nonce');
+  vi.stubGlobal(
+    'fetch',
+    vi.fn().mockResolvedValue(
+      jsonResponse({
+        access_token: createTestToken({ sub: 'user-1' }),
+        refresh_token: createTestToken({ typ: 'Refresh' }, { expiresIn: 1800 }),
+        id_token: createTestToken({ sub: 'user-1', name: 'Ada Lovelace', nonce, typ: 'ID' }),
+        ...tokens,
+      })
+    )
+  );
+  const callback = await auth.handlers.GET(
+    createRequest(
+      `/api/auth/callback?code=the-code&state=${authorizationUrl.searchParams.get('state')}`,
+      getCookies(login)
+    )
+  );
+  return { login, authorizationUrl, callback };
+}
+
+describe('session cookies', () => {
+  it('should only unseal values sealed with the same secret', async () => {
+    const sealed = await seal({ accessToken: 'token' }, SECRET);
+
+    await expect(unseal(sealed, SECRET)).resolves.toEqual({ accessToken: 'token' });
+    await expect(unseal(sealed, `${SECRET}-rotated`)).resolves.toBeNull();
+  });
+
+  it('should split large values into chunks and remove stale ones', () => {
+    const written = new Map<string, string>();
+    const value = 'x'.repeat(9000);
+    const current = { get: () => undefined, getAll: () => [] };
+
+    writeChunkedCookie(written, current, 'session', value, {});
+    expect([...written.keys()]).toEqual(['session.0', 'session.1', 'session.2']);
+
+    const reader = {
+      get: (name: string) => (written.has(name) ? { value: written.get(name)! } : undefined),
+      getAll: () => [...written].map(([name, value]) => ({ name, value })),
+    };
+    expect(readChunkedCookie(reader, 'session')).toBe(value);
+
+    writeChunkedCookie(written, reader, 'session', 'small', {});
+    expect(Object.fromEntries(written)).toEqual({ session: 'small' });
+  });
+});
+
+describe('createKeycloakAuth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should require a strong secret', () => {
+    expect(() =>
+      createKeycloakAuth({ url: 'https://kc.example.com', realm: 'r', clientId: 'c', secret: 'short' })
+    ).toThrow('at least 32 characters');
+  });
+
+  it('should sign in with the authorization code flow and PKCE', async () => {
+    const auth = createAuth();
+    const { authorizationUrl, callback } = await signIn(auth);
+
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe(
+      'https://kc.example.com/realms/myrealm/protocol/openid-connect/auth'
+    );
+    expect(authorizationUrl.searchParams.get('redirect_uri')).toBe(
+      'https://app.example.com/api/auth/callback'
+    );
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(TOKEN_ENDPOINT);
+    const body = init?.body as URLSearchParams;
+    expect(body.get('grant_type')).toBe('authorization_code');
+    expect(body.get('code')).toBe('the-code');
+    expect(body.get('code_verifier')).toBeTruthy();
+
+    expect(callback.headers.get('location')).toBe('https://app.example.com/dashboard');
+    const session = await auth.getSession(
+      createRequest('/dashboard', getCookies(callback))
+    );
+    expect(session?.user).toMatchObject({ id: 'user-1', name: 'Ada Lovelace' });
+  });
+
+  it('should reject callbacks with an unknown state', async () => {
+    const auth = createAuth();
+    const login = await auth.handlers.GET(createRequest('/api/auth/login'));
+
+    const callback = await auth.handlers.GET(
+      createRequest('/api/auth/callback?code=the-code&state=forged', getCookies(login))
+    );
+
+    expect(callback.status).toBe(400);
+  });
+
+  it('should reject token responses with another nonce', async () => {
+    const { callback } = await signIn(createAuth(), {
+      id_token: createTestToken({ nonce: 'other' }),
+    });
+
+    expect(callback.status).toBe(502);
+  });
+
+  it('should pass the prompt on, e.g. to sign up', async () => {
+    const login = await createAuth().handlers.GET(
+      createRequest('/api/auth/login?returnTo=/welcome&prompt=create')
+    );
+
+    const authorizationUrl = new URL(login.headers.get('location')!);
+    expect(authorizationUrl.searchParams.get('prompt')).toBe('create');
+  });
+
+  it('should pass the options of the authorization request on', async () => {
+    const acr = { values: ['gold'], essential: true };
+    const login = await createKeycloakAuth({
+      url: 'https://kc.example.com',
+      realm: 'myrealm',
+      clientId: 'my-app',
+      secret: SECRET,
+      scope: 'profile',
+    }).handlers.GET(
+      createRequest(
+        `/api/auth/login?locale=de&scope=organization%20profile&maxAge=0&acr=${encodeURIComponent(
+          JSON.stringify(acr)
+        )}&acrValues=silver`
+      )
+    );
+
+    const params = new URL(login.headers.get('location')!).searchParams;
+    expect(params.get('ui_locales')).toBe('de');
+    expect(params.get('scope')).toBe('openid profile organization');
+    expect(params.get('max_age')).toBe('0');
+    expect(JSON.parse(params.get('claims')!)).toEqual({ id_token: { acr } });
+    expect(params.get('acr_values')).toBe('silver');
+  });
+
+  it('should only return to paths of the app', async () => {
+    const login = await createAuth().handlers.GET(
+      createRequest('/api/auth/login?returnTo=//evil.example.com')
+    );
+
+    const sealed = getCookies(login)['kc-session-signin'];
+    await expect(unseal(sealed, SECRET)).resolves.toMatchObject({ returnTo: '/' });
+  });
+
+  it('should end the session on sign out', async () => {
+    const auth = createAuth();
+    const { callback } = await signIn(auth);
+
+    const logout = await auth.handlers.GET(
+      createRequest('/api/auth/logout?returnTo=/goodbye', getCookies(callback))
+    );
+
+    const logoutUrl = new URL(logout.headers.get('location')!);
+    expect(logoutUrl.pathname).toBe('/realms/myrealm/protocol/openid-connect/logout');
+    expect(logoutUrl.searchParams.get('post_logout_redirect_uri')).toBe(
+      'https://app.example.com/goodbye'
+    );
+    expect(logoutUrl.searchParams.get('id_token_hint')).toBeTruthy();
+    expect(getCookies(logout)).toEqual({});
+  });
+
+  it('should respond with the claims of the user for BFF mode', async () => {
+    const auth = createAuth();
+    const { callback } = await signIn(auth, {
+      access_token: createTestToken({ sub: 'user-1', realm_access: { roles: ['admin'] } }),
+    });
+
+    const response = await auth.handlers.GET(createRequest('/api/auth/user', getCookies(callback)));
+    const signedOut = await auth.handlers.GET(createRequest('/api/auth/user'));
+
+    await expect(response.json()).resolves.toMatchObject({
+      sub: 'user-1',
+      name: 'Ada Lovelace',
+      realm_access: { roles: ['admin'] },
+    });
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(signedOut.status).toBe(401);
+  });
+
+  it('should renew the session for the browser and keep the refresh token in the cookie', async () => {
+    const auth = createAuth();
+    const { callback } = await signIn(auth);
+    const rotatedToken = createTestToken({ typ: 'Refresh', rotated: true }, { expiresIn: 1800 });
+    const refreshedToken = createTestToken({ sub: 'user-1', refreshed: true });
+    vi.mocked(fetch).mockResolvedValue(
+      jsonResponse({ access_token: refreshedToken, refresh_token: rotatedToken })
+    );
+
+    const response = await auth.handlers.GET(
+      createRequest('/api/auth/session', getCookies(callback))
+    );
+
+    const body = await response.text();
+    expect(JSON.parse(body)).toMatchObject({ accessToken: refreshedToken });
+    expect(body).not.toContain(rotatedToken);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    const sealed = getCookies(response)['kc-session'];
+    await expect(unseal(sealed, SECRET)).resolves.toMatchObject({ refreshToken: rotatedToken });
+    const session = await auth.getSession(createRequest('/', getCookies(response)));
+    expect(session).not.toHaveProperty('refreshToken');
+  });
+
+  it('should respond with 400 and clear the cookie when the session has ended', async () => {
+    const auth = createAuth();
+    const { callback } = await signIn(auth);
+    vi.mocked(fetch).mockResolvedValue(jsonResponse({ error: 'invalid_grant' }, 400));
+
+    const response = await auth.handlers.GET(
+      createRequest('/api/auth/session', getCookies(callback))
+    );
+    const signedOut = await auth.handlers.GET(createRequest('/api/auth/session'));
+
+    expect(response.status).toBe(400);
+    expect(getCookies(response)).toEqual({});
+    expect(signedOut.status).toBe(400);
+  });
+
+  describe('middleware', () => {
+    it('should send signed-out users to sign in', async () => {
+      const response = await createAuth().middleware(createRequest('/dashboard?tab=2'));
+
+      expect(response.headers.get('location')).toBe(
+        'https://app.example.com/api/auth/login?returnTo=%2Fdashboard%3Ftab%3D2'
+      );
+    });
+
+    it('should respond with 401 to signed-out API requests', async () => {
+      const response = await createAuth().middleware(
+        createRequest('/api/orders', {}, 'application/json')
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should let public routes and the route handlers through', async () => {
+      const auth = createAuth({ publicRoutes: ['/', /^\/docs(\/|$)/] });
+
+      for (const path of ['/', '/docs/intro', '/api/auth/login']) {
+        const response = await auth.middleware(createRequest(path));
+        expect(response.headers.get('location')).toBeNull();
+        expect(response.status).toBe(200);
+      }
+    });
+
+    it('should refresh expiring sessions', async () => {
+      const auth = createAuth();
+      const { callback } = await signIn(auth, {
+        access_token: createTestToken({ sub: 'user-1' }, { expiresIn: 10 }),
+      });
+      const refreshedToken = createTestToken({ sub: 'user-1', refreshed: true });
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ access_token: refreshedToken }));
+
+      const response = await auth.middleware(createRequest('/dashboard', getCookies(callback)));
+
+      expect(response.headers.get('location')).toBeNull();
+      expect(vi.mocked(fetch).mock.calls[1][0]).toBe(TOKEN_ENDPOINT);
+      const session = await auth.getSession(createRequest('/dashboard', getCookies(response)));
+      expect(session?.accessToken).toBe(refreshedToken);
+      // Server components of this request see the refreshed session
+      expect(response.headers.get('x-middleware-override-headers')).toContain('cookie');
+    });
+
+    it('should sign out when the refresh token is rejected', async () => {
+      const auth = createAuth();
+      const { callback } = await signIn(auth, {
+        access_token: createTestToken({ sub: 'user-1' }, { expiresIn: 10 }),
+      });
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ error: 'invalid_grant' }, 400));
+
+      const response = await auth.middleware(createRequest('/dashboard', getCookies(callback)));
+
+      expect(response.headers.get('location')).toContain('/api/auth/login');
+      expect(getCookies(response)).toEqual({});
+    });
+
+    it('should keep expired sessions while Keycloak is unreachable', async () => {
+      const auth = createAuth();
+      const { callback } = await signIn(auth, {
+        access_token: createTestToken({ sub: 'user-1' }, { expiresIn: -10 }),
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fetch).mockResolvedValue(new Response('Bad Gateway', { status: 502 }));
+
+      const page = await auth.middleware(createRequest('/dashboard', getCookies(callback)));
+      const api = await auth.middleware(
+        createRequest('/api/orders', getCookies(callback), 'application/json')
+      );
+      const user = await auth.handlers.GET(createRequest('/api/auth/user', getCookies(callback)));
+
+      expect(page.headers.get('location')).toBeNull();
+      expect(page.status).toBe(200);
+      expect(api.status).toBe(503);
+      expect(user.status).toBe(503);
+      for (const response of [page, api, user]) {
+        expect((response as NextResponse).cookies.get('kc-session')).toBeUndefined();
+      }
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import {
+  withOfflineAccessScope,
+  isOfflineToken,
+  type OfflineTokenStore,
+} from '../auth/offline';
+import { toAuthInitError } from '../auth/initError';
+import { createTestToken } from '../testing';
+
+const keycloakMock = vi.hoisted(() => ({
+  init: vi.fn(),
+  login: vi.fn(),
+  logout: vi.fn(),
+}));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    authenticated = false;
+    token?: string;
+    refreshToken?: string;
+    tokenParsed?: Record<string, unknown>;
+    login = keycloakMock.login;
+    logout = keycloakMock.logout;
+    init(options: { token?: string; refreshToken?: string }) {
+      keycloakMock.init(options);
+      if (!options.token) return Promise.resolve(false);
+      this.authenticated = true;
+      this.token = options.token;
+      this.refreshToken = options.refreshToken;
+      this.tokenParsed = JSON.parse(atob(options.token.split('.')[1]));
+      return Promise.resolve(true);
+    }
+    clearToken() {}
+  },
+}));
+
+const offlineToken = createTestToken({ typ: 'Offline', exp: 0 });
+
+function createStore(token: string | null = offlineToken) {
+  let stored = token;
+  return {
+    get: vi.fn(() => stored),
+    set: vi.fn((value: string) => {
+      stored = value;
+    }),
+    clear: vi.fn(() => {
+      stored = null;
+    }),
+  } satisfies OfflineTokenStore;
+}
+
+// Each test uses its own instance, so tokens kept in memory are not shared
+let instance = 0;
+
+function renderAuth(store: OfflineTokenStore) {
+  const name = `offline-${++instance}`;
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <KeycloakAuthProvider
+      name={name}
+      url="https://kc.example.com"
+      realm="myrealm"
+      clientId="my-app"
+      syncTabs={false}
+      offlineAccess
+      offlineTokenStore={store}
+    >
+      {children}
+    </KeycloakAuthProvider>
+  );
+  return renderHook(() => useAuth(), { wrapper }).result;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('offline token helpers', () => {
+  it('should add the offline_access scope once', () => {
+    expect(withOfflineAccessScope()).toBe('offline_access');
+    expect(withOfflineAccessScope('openid phone')).toBe('openid phone offline_access');
+    expect(withOfflineAccessScope('offline_access phone')).toBe('offline_access phone');
+  });
+
+  it('should detect offline refresh tokens', () => {
+    expect(isOfflineToken(offlineToken)).toBe(true);
+    expect(isOfflineToken(createTestToken({ typ: 'Refresh' }))).toBe(false);
+    expect(isOfflineToken(undefined)).toBe(false);
+  });
+
+  it('should classify errors by their own status', () => {
+    expect(toAuthInitError(Object.assign(new Error('Down'), { status: 503 })).type).toBe('server');
+  });
+});
+
+describe('offline access', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should restore the session from the stored offline token', async () => {
+    const accessToken = createTestToken({ sub: 'user-1' });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        jsonResponse({ access_token: accessToken, refresh_token: offlineToken })
+      )
+    );
+    const result = renderAuth(createStore());
+
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+
+    expect(result.current.sessionType).toBe('offline');
+    expect(keycloakMock.init).toHaveBeenCalledWith(
+      expect.objectContaining({
+        token: accessToken,
+        refreshToken: offlineToken,
+        checkLoginIframe: false,
+      })
+    );
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://kc.example.com/realms/myrealm/protocol/openid-connect/token');
+    expect(String(init?.body)).toContain('grant_type=refresh_token');
+  });
+
+  it('should start signed out and clear the store when the offline token is rejected', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(jsonResponse({ error: 'invalid_grant' }, 400))
+    );
+    const store = createStore();
+    const result = renderAuth(store);
+
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+
+    expect(store.clear).toHaveBeenCalled();
+    expect(result.current.sessionType).toBeNull();
+    expect(keycloakMock.init).toHaveBeenCalledWith(
+      expect.not.objectContaining({ token: expect.anything() })
+    );
+  });
+
+  it('should request the offline_access scope on sign in', async () => {
+    const result = renderAuth(createStore(null));
+    await waitFor(() => expect(result.current.keycloak).not.toBeNull());
+
+    await result.current.signIn({ scope: 'phone' });
+
+    expect(keycloakMock.login).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: 'phone offline_access' })
+    );
+    // For the logins of keycloak-js itself (`onLoad`)
+    expect(keycloakMock.init).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: 'offline_access' })
+    );
+  });
+
+  it('should revoke the offline token and clear the store on sign out', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ access_token: createTestToken(), refresh_token: offlineToken })
+      )
+      .mockResolvedValueOnce(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+    const store = createStore();
+    const result = renderAuth(store);
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+
+    await result.current.signOut();
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('https://kc.example.com/realms/myrealm/protocol/openid-connect/revoke');
+    expect(String(init?.body)).toContain(`token=${offlineToken}`);
+    expect(store.clear).toHaveBeenCalled();
+    expect(keycloakMock.logout).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { parseOrganizations, getOrganizationScope } from '../auth/organizations';
+import { useOrganization, useOrganizations } from '../auth/useOrganization';
+import { Protect } from '../auth/ControlComponents';
+import { OrganizationSwitcher } from '../OrganizationSwitcher';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+function createToken(payload: Record<string, unknown>) {
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+function createContext(organization: unknown) {
+  return {
+    isLoading: false,
+    isAuthenticated: true,
+    user: { id: 'user-1', claims: {} },
+    accessToken: createToken({ sub: 'user-1', organization }),
+    keycloak: { authServerUrl: 'https://kc.example.com', realm: 'myrealm', clientId: 'my-app' },
+    signIn: vi.fn().mockResolvedValue(undefined),
+  } as unknown as AuthContextValue;
+}
+
+function createWrapper(value: AuthContextValue) {
+  return ({ children }: { children: ReactNode }) => (
+    <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+  );
+}
+
+const organizationClaim = {
+  acme: { id: 'org-1', name: ['Acme Inc.'], roles: ['billing-admin'] },
+  globex: { id: 'org-2' },
+};
+
+describe('parseOrganizations', () => {
+  it('should parse a list of aliases', () => {
+    expect(parseOrganizations(['acme', 'globex'])).toEqual([
+      { alias: 'acme', roles: [], attributes: {} },
+      { alias: 'globex', roles: [], attributes: {} },
+    ]);
+  });
+
+  it('should parse organizations with ids, attributes and roles', () => {
+    expect(parseOrganizations(organizationClaim)).toEqual([
+      {
+        alias: 'acme',
+        id: 'org-1',
+        name: 'Acme Inc.',
+        roles: ['billing-admin'],
+        attributes: { name: ['Acme Inc.'] },
+      },
+      { alias: 'globex', id: 'org-2', name: undefined, roles: [], attributes: {} },
+    ]);
+  });
+
+  it('should ignore invalid claims', () => {
+    expect(parseOrganizations(undefined)).toEqual([]);
+    expect(parseOrganizations(42)).toEqual([]);
+  });
+
+  it('should build organization scopes', () => {
+    expect(getOrganizationScope('acme')).toBe('organization:acme');
+    expect(getOrganizationScope()).toBe('organization:*');
+  });
+});
+
+describe('useOrganizations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should make the only organization active', () => {
+    const { result } = renderHook(() => useOrganization(), {
+      wrapper: createWrapper(createContext({ acme: organizationClaim.acme })),
+    });
+
+    expect(result.current.organization?.alias).toBe('acme');
+    expect(result.current.hasRole('billing-admin')).toBe(true);
+    expect(result.current.hasRole('owner')).toBe(false);
+  });
+
+  it('should not pick an organization when the token contains several', () => {
+    const { result } = renderHook(() => useOrganizations(), {
+      wrapper: createWrapper(createContext(organizationClaim)),
+    });
+
+    expect(result.current.organizations).toHaveLength(2);
+    expect(result.current.activeOrganization).toBeNull();
+  });
+
+  it('should re-authenticate with the organization scope when switching', async () => {
+    const value = createContext(organizationClaim);
+    const { result } = renderHook(() => useOrganizations(), { wrapper: createWrapper(value) });
+
+    await act(() => result.current.switchOrganization('globex'));
+
+    expect(value.signIn).toHaveBeenCalledWith({
+      scope: 'organization:globex',
+      mode: undefined,
+      redirectUri: undefined,
+    });
+    expect(result.current.activeOrganization?.alias).toBe('globex');
+  });
+});
+
+describe('Protect with organizations', () => {
+  function renderProtect(organization: unknown, props: Record<string, unknown>) {
+    render(
+      <AuthContext.Provider value={createContext(organization)}>
+        <Protect {...props}>
+          <div>Protected</div>
+        </Protect>
+      </AuthContext.Provider>
+    );
+  }
+
+  it('should require the active organization', () => {
+    renderProtect({ acme: {} }, { organization: 'globex' });
+
+    expect(screen.queryByText('Protected')).not.toBeInTheDocument();
+  });
+
+  it('should render when the user has the organization role', () => {
+    renderProtect(
+      { acme: organizationClaim.acme },
+      { organization: 'acme', organizationRoles: ['billing-admin'] }
+    );
+
+    expect(screen.getByText('Protected')).toBeInTheDocument();
+  });
+
+  it('should not render without the organization role', () => {
+    renderProtect({ globex: {} }, { organization: true, organizationRoles: ['billing-admin'] });
+
+    expect(screen.queryByText('Protected')).not.toBeInTheDocument();
+  });
+});
+
+describe('OrganizationSwitcher', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should render nothing without organizations', () => {
+    const { container } = render(
+      <AuthContext.Provider value={createContext(undefined)}>
+        <OrganizationSwitcher />
+      </AuthContext.Provider>
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show the active organization and switch to another one', async () => {
+    const value = createContext({ acme: organizationClaim.acme });
+    render(
+      <AuthContext.Provider value={value}>
+        <OrganizationSwitcher
+          organizations={[{ alias: 'acme', name: 'Acme Inc.' }, { alias: 'globex', name: 'Globex' }]}
+        />
+      </AuthContext.Provider>
+    );
+
+    expect(screen.getByText('Acme Inc.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Organization menu'));
+    fireEvent.click(await screen.findByText('Globex'));
+
+    await waitFor(() =>
+      expect(value.signIn).toHaveBeenCalledWith(
+        expect.objectContaining({ scope: 'organization:globex' })
+      )
+    );
+  });
+});
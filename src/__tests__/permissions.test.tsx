@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import {
+  requestRpt,
+  parsePermissions,
+  hasPermission,
+  PermissionError,
+} from '../auth/permissions';
+import { Permission } from '../auth/ControlComponents';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+const tokenEndpoint = 'https://kc.example.com/realms/test/protocol/openid-connect/token';
+
+function createRpt(permissions: unknown[]) {
+  return `header.${btoa(JSON.stringify({ authorization: { permissions } }))}.signature`;
+}
+
+const invoicePermissions = [
+  { rsid: 'res-1', rsname: 'invoice', scopes: ['view', 'approve'] },
+  { rsid: 'res-2', rsname: 'report' },
+];
+
+describe('parsePermissions / hasPermission', () => {
+  it('should extract permissions from an RPT', () => {
+    expect(parsePermissions(createRpt(invoicePermissions))).toEqual(invoicePermissions);
+    expect(parsePermissions('invalid')).toEqual([]);
+  });
+
+  it('should match resources by name or ID and check scopes', () => {
+    expect(hasPermission(invoicePermissions, 'invoice', 'approve')).toBe(true);
+    expect(hasPermission(invoicePermissions, 'res-1', 'view')).toBe(true);
+    expect(hasPermission(invoicePermissions, 'invoice', 'delete')).toBe(false);
+    expect(hasPermission(invoicePermissions, 'report')).toBe(true);
+    expect(hasPermission(invoicePermissions, 'customer')).toBe(false);
+  });
+});
+
+describe('requestRpt', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should request an RPT with the uma-ticket grant', async () => {
+    const rpt = createRpt(invoicePermissions);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(Response.json({ access_token: rpt, expires_in: 300 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await requestRpt({
+      tokenEndpoint,
+      accessToken: 'access-token',
+      audience: 'billing-api',
+      permissions: ['invoice#approve'],
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = init.body as URLSearchParams;
+    expect(url).toBe(tokenEndpoint);
+    expect(init.headers.Authorization).toBe('Bearer access-token');
+    expect(body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:uma-ticket');
+    expect(body.get('audience')).toBe('billing-api');
+    expect(body.getAll('permission')).toEqual(['invoice#approve']);
+    expect(result.token).toBe(rpt);
+    expect(result.permissions).toEqual(invoicePermissions);
+  });
+
+  it('should resolve with no permissions on 403', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 403 })));
+
+    const result = await requestRpt({ tokenEndpoint, accessToken: 'a', audience: 'billing-api' });
+
+    expect(result.permissions).toEqual([]);
+  });
+
+  it('should throw PermissionError on other failures', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 500 })));
+
+    const promise = requestRpt({ tokenEndpoint, accessToken: 'a', audience: 'billing-api' });
+
+    await expect(promise).rejects.toBeInstanceOf(PermissionError);
+    await expect(promise).rejects.toMatchObject({ status: 500 });
+  });
+});
+
+describe('Permission', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function renderWithAuth(children: ReactNode, overrides: Partial<AuthContextValue> = {}) {
+    const value = {
+      isLoading: false,
+      isAuthenticated: true,
+      user: { id: `user-${Math.random()}`, claims: {} },
+      accessToken: 'access-token',
+      getToken: vi.fn().mockResolvedValue('access-token'),
+      keycloak: { authServerUrl: 'https://kc.example.com', realm: 'test', clientId: 'my-app' },
+      ...overrides,
+    } as unknown as AuthContextValue;
+    return render(<AuthContext.Provider value={value}>{children}</AuthContext.Provider>);
+  }
+
+  it('should render children when the permission is granted', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(Response.json({ access_token: createRpt(invoicePermissions) }))
+    );
+
+    renderWithAuth(
+      <Permission resource="invoice" scope="approve" loading={<div>Checking...</div>}>
+        <div>Approve</div>
+      </Permission>
+    );
+
+    expect(screen.getByText('Checking...')).toBeInTheDocument();
+    expect(await screen.findByText('Approve')).toBeInTheDocument();
+  });
+
+  it('should render the fallback when the permission is denied', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(Response.json({ access_token: createRpt(invoicePermissions) }))
+    );
+
+    renderWithAuth(
+      <Permission resource="invoice" scope="delete" fallback={<div>No access</div>}>
+        <div>Delete</div>
+      </Permission>
+    );
+
+    expect(await screen.findByText('No access')).toBeInTheDocument();
+    expect(screen.queryByText('Delete')).not.toBeInTheDocument();
+  });
+
+  it('should render the fallback when not authenticated', () => {
+    renderWithAuth(
+      <Permission resource="invoice" fallback={<div>Sign in first</div>}>
+        <div>Invoice</div>
+      </Permission>,
+      { isAuthenticated: false, keycloak: null }
+    );
+
+    expect(screen.getByText('Sign in first')).toBeInTheDocument();
+  });
+});
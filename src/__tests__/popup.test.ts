@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type Keycloak from 'keycloak-js';
+import {
+  authorizeWithPopup,
+  handlePopupCallback,
+  PopupBlockedError,
+  PopupClosedError,
+  PopupError,
+} from '../auth/popup';
+
+const keycloak = {
+  authServerUrl: 'https://kc.example.com',
+  realm: 'test',
+  clientId: 'my-app',
+} as Keycloak;
+
+function createToken(payload: Record<string, unknown>) {
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+function createPopup() {
+  return { closed: false, close: vi.fn(), location: { href: '' } };
+}
+
+async function waitForAuthorizationUrl(popup: ReturnType<typeof createPopup>) {
+  await vi.waitFor(() => expect(popup.location.href).not.toBe(''));
+  return new URL(popup.location.href);
+}
+
+function respond(url: string) {
+  window.dispatchEvent(
+    new MessageEvent('message', {
+      origin: 'http://localhost:3000',
+      data: { type: 'keycloak-react:popup-callback', url },
+    })
+  );
+}
+
+describe('authorizeWithPopup', () => {
+  let popup: ReturnType<typeof createPopup>;
+
+  beforeEach(() => {
+    popup = createPopup();
+    vi.spyOn(window, 'open').mockReturnValue(popup as unknown as Window);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should exchange the code returned to the popup for tokens', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const promise = authorizeWithPopup(keycloak, { idpHint: 'google' });
+    const url = await waitForAuthorizationUrl(popup);
+    const state = url.searchParams.get('state');
+    const nonce = url.searchParams.get('nonce');
+
+    expect(url.origin + url.pathname).toBe(
+      'https://kc.example.com/realms/test/protocol/openid-connect/auth'
+    );
+    expect(url.searchParams.get('kc_idp_hint')).toBe('google');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:3000');
+
+    const accessToken = createToken({ sub: 'user-1', iat: Math.floor(Date.now() / 1000) });
+    const idToken = createToken({ sub: 'user-1', nonce });
+    fetchMock.mockResolvedValue(
+      Response.json({ access_token: accessToken, refresh_token: 'refresh', id_token: idToken })
+    );
+
+    respond('http://localhost:3000/#state=other&code=ignored');
+    respond(`http://localhost:3000/#state=${state}&code=auth-code`);
+    const tokens = await promise;
+
+    const body = fetchMock.mock.calls[0][1].body as URLSearchParams;
+    expect(body.get('grant_type')).toBe('authorization_code');
+    expect(body.get('code')).toBe('auth-code');
+    expect(body.get('code_verifier')).toBeTruthy();
+    expect(tokens).toMatchObject({ token: accessToken, refreshToken: 'refresh', idToken });
+    expect(popup.close).toHaveBeenCalled();
+  });
+
+  it('should open the registration page for sign up', async () => {
+    const promise = authorizeWithPopup(keycloak, { action: 'register' });
+    const url = await waitForAuthorizationUrl(popup);
+
+    expect(url.pathname).toBe('/realms/test/protocol/openid-connect/registrations');
+    popup.closed = true;
+    await expect(promise).rejects.toBeInstanceOf(PopupClosedError);
+  });
+
+  it('should throw PopupBlockedError when the popup cannot be opened', async () => {
+    vi.mocked(window.open).mockReturnValue(null);
+
+    await expect(authorizeWithPopup(keycloak)).rejects.toBeInstanceOf(PopupBlockedError);
+  });
+
+  it('should throw PopupClosedError when the user closes the popup', async () => {
+    const promise = authorizeWithPopup(keycloak);
+    await waitForAuthorizationUrl(popup);
+    popup.closed = true;
+
+    await expect(promise).rejects.toBeInstanceOf(PopupClosedError);
+    await expect(promise).rejects.toMatchObject({ code: 'popup_closed' });
+  });
+
+  it('should throw PopupError when Keycloak returns an error', async () => {
+    const promise = authorizeWithPopup(keycloak);
+    const url = await waitForAuthorizationUrl(popup);
+
+    respond(`http://localhost:3000/#state=${url.searchParams.get('state')}&error=access_denied`);
+
+    await expect(promise).rejects.toBeInstanceOf(PopupError);
+    await expect(promise).rejects.toMatchObject({
+      code: 'authorization_failed',
+      oauthError: 'access_denied',
+    });
+  });
+});
+
+describe('handlePopupCallback', () => {
+  afterEach(() => {
+    window.location.href = 'http://localhost:3000';
+    Object.defineProperty(window, 'opener', { value: null, configurable: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should post the response to the opener and close the popup', () => {
+    const opener = { postMessage: vi.fn() };
+    const close = vi.spyOn(window, 'close').mockImplementation(() => {});
+    Object.defineProperty(window, 'opener', { value: opener, configurable: true });
+    window.location.href = 'http://localhost:3000/#state=popup-abc&code=auth-code';
+
+    expect(handlePopupCallback()).toBe(true);
+    expect(opener.postMessage).toHaveBeenCalledWith(
+      { type: 'keycloak-react:popup-callback', url: window.location.href },
+      'http://localhost:3000'
+    );
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should ignore regular redirects', () => {
+    Object.defineProperty(window, 'opener', { value: { postMessage: vi.fn() }, configurable: true });
+    window.location.href = 'http://localhost:3000/#state=abc&code=auth-code';
+
+    expect(handlePopupCallback()).toBe(false);
+  });
+});
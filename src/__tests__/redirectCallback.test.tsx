@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, renderHook, screen, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+
+// keycloak-js keeps the state of redirects in storage shared by all instances,
+// and the first instance to initialize takes the callback in the URL
+const keycloakMock = vi.hoisted(() => ({
+  callbacks: new Map<string, string>(),
+  exchanges: [] as Array<{ clientId: string; code: string | null }>,
+}));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    clientId: string;
+    authenticated = false;
+    constructor(config: { clientId: string }) {
+      this.clientId = config.clientId;
+    }
+    login = async () => {
+      keycloakMock.callbacks.set('state-1', this.clientId);
+    };
+    async init() {
+      const params = new URLSearchParams(window.location.hash.slice(1));
+      const state = params.get('state');
+      if (!state || !keycloakMock.callbacks.has(state)) return false;
+      keycloakMock.callbacks.delete(state);
+      window.location.hash = '';
+      keycloakMock.exchanges.push({ clientId: this.clientId, code: params.get('code') });
+      this.authenticated = true;
+      return true;
+    }
+  },
+}));
+
+function Providers({ children }: { children: ReactNode }) {
+  return (
+    <KeycloakAuthProvider
+      name="staff"
+      url="https://kc.example.com"
+      realm="myrealm"
+      clientId="admin"
+      syncTabs={false}
+    >
+      <KeycloakAuthProvider
+        name="customer"
+        url="https://kc.example.com"
+        realm="myrealm"
+        clientId="portal"
+        syncTabs={false}
+      >
+        {children}
+      </KeycloakAuthProvider>
+    </KeycloakAuthProvider>
+  );
+}
+
+function Status() {
+  const staff = useAuth('staff');
+  const customer = useAuth('customer');
+  return <div>{`staff:${staff.status} customer:${customer.status}`}</div>;
+}
+
+afterEach(() => {
+  window.location.hash = '';
+  sessionStorage.clear();
+});
+
+describe('redirect callbacks of named instances', () => {
+  it('should hand the callback to the instance that started the sign in', async () => {
+    const { result, unmount } = renderHook(() => useAuth('staff'), { wrapper: Providers });
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+    await result.current.signIn();
+    unmount();
+
+    // Back from Keycloak - the inner instance initializes first
+    window.location.hash = '#state=state-1&code=code-1';
+    render(
+      <Providers>
+        <Status />
+      </Providers>
+    );
+
+    expect(
+      await screen.findByText('staff:authenticated customer:unauthenticated')
+    ).toBeInTheDocument();
+    expect(keycloakMock.exchanges).toEqual([{ clientId: 'admin', code: 'code-1' }]);
+  });
+});
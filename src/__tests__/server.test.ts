@@ -0,0 +1,390 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  checkAuthorization,
+  createExpressMiddleware,
+  createTokenVerifier,
+  getBearerToken,
+  withAuth,
+  TokenVerificationError,
+} from '../server';
+import { base64UrlEncode } from '../auth/pkce';
+import { createDPoP, type DPoP } from '../auth/dpop';
+
+const ISSUER = 'https://kc.example.com/realms/myrealm';
+const JWKS_URI = `${ISSUER}/protocol/openid-connect/certs`;
+
+interface SigningKey {
+  kid: string;
+  alg: 'RS256' | 'ES256';
+  privateKey: CryptoKey;
+  jwk: JsonWebKey;
+}
+
+async function createSigningKey(
+  kid: string,
+  alg: 'RS256' | 'ES256' = 'RS256'
+): Promise<SigningKey> {
+  const params =
+    alg === 'RS256'
+      ? {
+          name: 'RSASSA-PKCS1-v1_5',
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: 'SHA-256',
+        }
+      : { name: 'ECDSA', namedCurve: 'P-256' };
+  const { privateKey, publicKey } = (await crypto.subtle.generateKey(params, true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair;
+  return { kid, alg, privateKey, jwk: await crypto.subtle.exportKey('jwk', publicKey) };
+}
+
+function encodeJson(value: unknown) {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function sign(key: SigningKey, claims: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  const input = `${encodeJson({ alg: key.alg, kid: key.kid, typ: 'JWT' })}.${encodeJson({
+    iss: ISSUER,
+    aud: 'orders-api',
+    sub: 'user-1',
+    azp: 'my-app',
+    typ: 'Bearer',
+    iat: now,
+    exp: now + 300,
+    ...claims,
+  })}`;
+  const signature = await crypto.subtle.sign(
+    key.alg === 'RS256' ? { name: 'RSASSA-PKCS1-v1_5' } : { name: 'ECDSA', hash: 'SHA-256' },
+    key.privateKey,
+    new TextEncoder().encode(input)
+  );
+  return `${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function stubJwks(...keys: SigningKey[]) {
+  const fetchMock = vi
+    .fn()
+    .mockImplementation(() =>
+      Promise.resolve(
+        Response.json({ keys: keys.map((key) => ({ ...key.jwk, kid: key.kid, use: 'sig' })) })
+      )
+    );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function createVerifier() {
+  return createTokenVerifier({
+    url: 'https://kc.example.com/',
+    realm: 'myrealm',
+    audience: 'orders-api',
+  });
+}
+
+let rsaKey: SigningKey;
+let ecKey: SigningKey;
+
+beforeAll(async () => {
+  [rsaKey, ecKey] = await Promise.all([
+    createSigningKey('rsa-1'),
+    createSigningKey('ec-1', 'ES256'),
+  ]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('createTokenVerifier', () => {
+  it('should verify tokens signed with the realm keys', async () => {
+    const fetchMock = stubJwks(rsaKey, ecKey);
+    const verifier = createVerifier();
+
+    const rsa = await verifier.verify(await sign(rsaKey, { name: 'Ada Lovelace' }));
+    const ec = await verifier.verify(await sign(ecKey));
+
+    expect(rsa.user).toMatchObject({ id: 'user-1', name: 'Ada Lovelace' });
+    expect(ec.claims.sub).toBe('user-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(JWKS_URI);
+  });
+
+  it.each([
+    ['invalid_issuer', { iss: 'https://kc.example.com/realms/other' }],
+    ['invalid_audience', { aud: ['account'] }],
+    ['invalid_type', { typ: 'Refresh' }],
+    ['invalid_type', { typ: 'DPoP', cnf: { jkt: 'key-thumbprint' } }],
+    ['invalid_type', { cnf: { jkt: 'key-thumbprint' } }],
+    ['expired', { exp: Math.floor(Date.now() / 1000) - 10 }],
+    ['not_yet_valid', { nbf: Math.floor(Date.now() / 1000) + 60 }],
+  ])('should reject tokens with code %s', async (code, claims) => {
+    stubJwks(rsaKey);
+
+    const error = await createVerifier()
+      .verify(await sign(rsaKey, claims))
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(TokenVerificationError);
+    expect(error).toMatchObject({ code });
+  });
+
+  it('should tolerate clock skew', async () => {
+    stubJwks(rsaKey);
+    const now = Math.floor(Date.now() / 1000);
+
+    await expect(
+      createVerifier().verify(await sign(rsaKey, { exp: now - 2, nbf: now + 2 }))
+    ).resolves.toBeTruthy();
+  });
+
+  it('should reject tampered tokens and unsigned tokens', async () => {
+    stubJwks(rsaKey);
+    const verifier = createVerifier();
+    const [header, , signature] = (await sign(rsaKey)).split('.');
+    const tampered = `${header}.${encodeJson({ iss: ISSUER, aud: 'orders-api', sub: 'admin' })}.${signature}`;
+    const unsigned = `${encodeJson({ alg: 'none' })}.${encodeJson({ iss: ISSUER })}.`;
+
+    await expect(verifier.verify(tampered)).rejects.toMatchObject({ code: 'invalid_signature' });
+    await expect(verifier.verify(unsigned)).rejects.toMatchObject({
+      code: 'unsupported_algorithm',
+    });
+    await expect(verifier.verify('not-a-token')).rejects.toMatchObject({ code: 'malformed' });
+  });
+
+  it('should pick up rotated keys, fetching at most once per cooldown', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const fetchMock = stubJwks(rsaKey);
+    const verifier = createVerifier();
+    await verifier.verify(await sign(rsaKey));
+    const rotatedKey = await createSigningKey('rsa-2');
+    const rotatedToken = await sign(rotatedKey);
+
+    // Too soon after the last fetch
+    await expect(verifier.verify(rotatedToken)).rejects.toMatchObject({ code: 'unknown_key' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(31_000);
+    stubJwks(rsaKey, rotatedKey);
+    await expect(verifier.verify(await sign(rotatedKey))).resolves.toBeTruthy();
+  });
+
+  it('should report when the key set cannot be fetched', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 503 })));
+
+    await expect(createVerifier().verify(await sign(rsaKey))).rejects.toMatchObject({
+      code: 'jwks_unavailable',
+    });
+  });
+});
+
+describe('DPoP-bound tokens', () => {
+  const ORDERS_URL = 'https://api.example.com/orders';
+
+  function createHandler() {
+    return withAuth({ verifier: createVerifier(), dpop: true }, (_request, auth) =>
+      Response.json({ id: auth.user.id })
+    );
+  }
+
+  async function signBound(dpop: DPoP, claims: Record<string, unknown> = {}) {
+    return sign(rsaKey, { typ: 'DPoP', cnf: { jkt: await dpop.getThumbprint() }, ...claims });
+  }
+
+  function request(token: string, proof?: string, init: RequestInit = {}) {
+    const headers = new Headers({ Authorization: `DPoP ${token}` });
+    if (proof) headers.set('DPoP', proof);
+    return new Request(ORDERS_URL, { ...init, headers });
+  }
+
+  it('should accept tokens with a proof of their key for the request', async () => {
+    stubJwks(rsaKey);
+    const dpop = createDPoP();
+    const token = await signBound(dpop);
+    const handler = createHandler();
+
+    const response = await handler(
+      request(token, await dpop.createProof('GET', `${ORDERS_URL}?page=2`, token))
+    );
+
+    expect(await response.json()).toEqual({ id: 'user-1' });
+  });
+
+  it('should reject tokens without a valid proof', async () => {
+    stubJwks(rsaKey);
+    const dpop = createDPoP();
+    const token = await signBound(dpop);
+    const otherToken = await signBound(dpop, { sid: 'other-session' });
+    const handler = createHandler();
+    const [header, payload] = (await dpop.createProof('GET', ORDERS_URL, token)).split('.');
+    const forged = `${header}.${payload}.${base64UrlEncode(new Uint8Array(64))}`;
+
+    const proofs = [
+      undefined,
+      forged,
+      await dpop.createProof('POST', ORDERS_URL, token),
+      await dpop.createProof('GET', 'https://api.example.com/admin', token),
+      await dpop.createProof('GET', ORDERS_URL, otherToken),
+      await dpop.createProof('GET', ORDERS_URL),
+      await createDPoP().createProof('GET', ORDERS_URL, token),
+    ];
+    for (const proof of proofs) {
+      const response = await handler(request(token, proof));
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toContain('DPoP error="invalid_dpop_proof"');
+    }
+  });
+
+  it('should reject replayed and expired proofs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    stubJwks(rsaKey);
+    const dpop = createDPoP();
+    const token = await signBound(dpop);
+    const handler = createHandler();
+    const proof = await dpop.createProof('GET', ORDERS_URL, token);
+
+    expect((await handler(request(token, proof))).status).toBe(200);
+    expect((await handler(request(token, proof))).status).toBe(401);
+
+    const later = await dpop.createProof('GET', ORDERS_URL, token);
+    vi.advanceTimersByTime(120_000);
+    expect((await handler(request(token, later))).status).toBe(401);
+  });
+
+  it('should not accept bound tokens as bearer tokens, nor bearer tokens with a proof', async () => {
+    stubJwks(rsaKey);
+    const dpop = createDPoP();
+    const bound = await signBound(dpop);
+    const bearer = await sign(rsaKey);
+    const handler = createHandler();
+
+    const asBearer = await handler(
+      new Request(ORDERS_URL, { headers: { Authorization: `Bearer ${bound}` } })
+    );
+    const withProof = await handler(
+      request(bearer, await dpop.createProof('GET', ORDERS_URL, bearer))
+    );
+
+    expect(asBearer.status).toBe(401);
+    expect(withProof.status).toBe(401);
+    expect(withProof.headers.get('WWW-Authenticate')).toContain('DPoP error="invalid_token"');
+  });
+
+  it('should check proofs against the URL of Express requests', async () => {
+    stubJwks(rsaKey);
+    const dpop = createDPoP();
+    const token = await signBound(dpop);
+    const middleware = createExpressMiddleware({
+      verifier: createVerifier(),
+      dpop: true,
+      baseUrl: 'https://api.example.com',
+    });
+    const req = {
+      method: 'GET',
+      url: '/orders',
+      originalUrl: '/api/orders',
+      headers: {
+        authorization: `DPoP ${token}`,
+        dpop: await dpop.createProof('GET', 'https://api.example.com/api/orders', token),
+      },
+    } as unknown as IncomingMessage & { auth?: unknown };
+
+    await new Promise<void>((resolve, reject) => {
+      const res = { writeHead: vi.fn(), end: vi.fn(() => reject(new Error('Rejected'))) };
+      middleware(req, res as unknown as ServerResponse, () => resolve());
+    });
+    expect(req.auth).toMatchObject({ user: { id: 'user-1' } });
+  });
+});
+
+describe('checkAuthorization', () => {
+  const claims = {
+    azp: 'my-app',
+    scope: 'openid orders:read',
+    realm_access: { roles: ['customer'] },
+    resource_access: { 'orders-api': { roles: ['writer'] }, 'my-app': { roles: ['viewer'] } },
+    groups: ['/staff'],
+  };
+
+  it('should apply the same rules as Protect', () => {
+    expect(checkAuthorization(claims, {})).toBe(true);
+    expect(checkAuthorization(claims, { roles: ['viewer', 'admin'] })).toBe(true);
+    expect(checkAuthorization(claims, { roles: ['writer'] })).toBe(false);
+    expect(checkAuthorization(claims, { roles: { client: 'orders-api', roles: ['writer'] } })).toBe(
+      true
+    );
+    expect(checkAuthorization(claims, { realmRoles: ['admin'] })).toBe(false);
+    expect(checkAuthorization(claims, { groups: ['staff'] })).toBe(true);
+    expect(checkAuthorization(claims, { scopes: ['orders:read'] })).toBe(true);
+    expect(checkAuthorization(claims, { scopes: ['orders:read', 'orders:write'] })).toBe(false);
+  });
+});
+
+describe('middleware', () => {
+  it('should extract bearer tokens', () => {
+    expect(getBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+    expect(getBearerToken('bearer abc')).toBe('abc');
+    expect(getBearerToken('Basic dXNlcjpwYXNz Zm9v')).toBeNull();
+    expect(getBearerToken('DPoP abc.def.ghi')).toBeNull();
+    expect(getBearerToken(undefined)).toBeNull();
+  });
+
+  it('should run Fetch API handlers with the verified token', async () => {
+    stubJwks(rsaKey);
+    const handler = withAuth(
+      { verifier: createVerifier(), realmRoles: ['customer'] },
+      (_request, auth) => Response.json({ id: auth.user.id })
+    );
+    const request = async (claims: Record<string, unknown>) =>
+      handler(
+        new Request('https://api.example.com/orders', {
+          headers: { Authorization: `Bearer ${await sign(rsaKey, claims)}` },
+        })
+      );
+
+    const allowed = await request({ realm_access: { roles: ['customer'] } });
+    expect(await allowed.json()).toEqual({ id: 'user-1' });
+
+    const forbidden = await request({});
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.headers.get('WWW-Authenticate')).toContain('error="insufficient_scope"');
+
+    const anonymous = await handler(new Request('https://api.example.com/orders'));
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('WWW-Authenticate')).toBe('Bearer');
+
+    // DPoP tokens are only accepted with the `dpop` option
+    const token = await sign(rsaKey, { realm_access: { roles: ['customer'] } });
+    const dpop = await handler(
+      new Request('https://api.example.com/orders', {
+        headers: { Authorization: `DPoP ${token}` },
+      })
+    );
+    expect(dpop.status).toBe(401);
+  });
+
+  it('should set req.auth in Express middleware', async () => {
+    stubJwks(rsaKey);
+    const middleware = createExpressMiddleware({ verifier: createVerifier() });
+    const run = (authorization: string) =>
+      new Promise<{ req: IncomingMessage & { auth?: unknown }; status?: number }>((resolve) => {
+        const req = { headers: { authorization } } as IncomingMessage & { auth?: unknown };
+        const res = {
+          writeHead: vi.fn(),
+          end: vi.fn(() => resolve({ req, status: res.writeHead.mock.calls[0][0] })),
+        };
+        middleware(req, res as unknown as ServerResponse, () => resolve({ req }));
+      });
+
+    const { req } = await run(`Bearer ${await sign(rsaKey)}`);
+    expect(req.auth).toMatchObject({ user: { id: 'user-1' } });
+
+    const rejected = await run(`Bearer ${await sign(rsaKey, { aud: 'other-api' })}`);
+    expect(rejected.status).toBe(401);
+    expect(rejected.req.auth).toBeUndefined();
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
+import type Keycloak from 'keycloak-js';
+import { KeycloakAuthProvider } from '../auth/KeycloakAuthProvider';
+import { SignedIn, SignedOut } from '../auth/ControlComponents';
+import { createSessionMonitor } from '../auth/sessionMonitor';
+import { SignedOutElsewhereDialog } from '../SignedOutElsewhereDialog';
+import { MockAuthProvider, createMockAuth, createTestToken } from '../testing';
+
+const keycloakMock = vi.hoisted(() => ({
+  login: vi.fn(),
+}));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    authenticated = false;
+    token?: string;
+    tokenParsed?: Record<string, unknown>;
+    onAuthLogout?: () => void;
+    login = keycloakMock.login;
+    init() {
+      this.authenticated = true;
+      this.token = createTestToken({ sub: 'user-1' });
+      this.tokenParsed = JSON.parse(atob(this.token.split('.')[1]));
+      return Promise.resolve(true);
+    }
+    clearToken() {
+      this.authenticated = false;
+      this.token = undefined;
+      this.tokenParsed = undefined;
+      this.onAuthLogout?.();
+    }
+  },
+}));
+
+const REALM_URL = 'https://kc.example.com/realms/myrealm';
+
+function createKeycloak(overrides: Partial<Keycloak> = {}) {
+  const token = createTestToken({ sub: 'user-1' });
+  return {
+    authServerUrl: 'https://kc.example.com',
+    realm: 'myrealm',
+    clientId: 'my-app',
+    sessionId: 'session-1',
+    token,
+    tokenParsed: JSON.parse(atob(token.split('.')[1])),
+    ...overrides,
+  } as Keycloak;
+}
+
+function findIframe(path: string) {
+  return document.querySelector<HTMLIFrameElement>(`iframe[src="${REALM_URL}${path}"]`);
+}
+
+describe('createSessionMonitor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('should end the session when the probe reports it inactive', async () => {
+    vi.useFakeTimers();
+    const probe = vi.fn().mockResolvedValue(true);
+    const onSessionEnded = vi.fn();
+    const monitor = createSessionMonitor(createKeycloak(), { interval: 30, probe, onSessionEnded });
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(onSessionEnded).not.toHaveBeenCalled();
+
+    probe.mockResolvedValue(false);
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect(probe).toHaveBeenCalledTimes(2);
+    expect(onSessionEnded).toHaveBeenCalledTimes(1);
+
+    // Checks stop once the session ended
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(probe).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip sessions restored from offline tokens', async () => {
+    const probe = vi.fn().mockResolvedValue(false);
+    const keycloak = createKeycloak({ refreshToken: createTestToken({ typ: 'Offline' }) });
+    const monitor = createSessionMonitor(keycloak, { interval: 30, probe, onSessionEnded: vi.fn() });
+
+    monitor.start();
+    await Promise.resolve();
+    monitor.stop();
+
+    expect(probe).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the userinfo endpoint without third-party cookies', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 401 })));
+    const onSessionEnded = vi.fn();
+    const monitor = createSessionMonitor(createKeycloak(), { interval: 30, onSessionEnded });
+
+    monitor.start();
+    const checkIframe = findIframe('/protocol/openid-connect/3p-cookies/step1.html');
+    expect(checkIframe).not.toBeNull();
+    window.dispatchEvent(
+      new MessageEvent('message', { data: 'unsupported', source: checkIframe!.contentWindow })
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(`${REALM_URL}/protocol/openid-connect/userinfo`);
+    expect(new Headers(init?.headers).get('Authorization')).toMatch(/^Bearer /);
+    expect(onSessionEnded).toHaveBeenCalledTimes(1);
+    expect(findIframe('/protocol/openid-connect/login-status-iframe.html')).toBeNull();
+  });
+
+  it('should use the check-session iframe with third-party cookies', async () => {
+    const onSessionEnded = vi.fn();
+    const monitor = createSessionMonitor(createKeycloak(), { interval: 30, onSessionEnded });
+
+    monitor.start();
+    const checkIframe = findIframe('/protocol/openid-connect/3p-cookies/step1.html');
+    window.dispatchEvent(
+      new MessageEvent('message', { data: 'supported', source: checkIframe!.contentWindow })
+    );
+    await waitFor(() =>
+      expect(findIframe('/protocol/openid-connect/login-status-iframe.html')).not.toBeNull()
+    );
+    const sessionIframe = findIframe('/protocol/openid-connect/login-status-iframe.html')!;
+    const postMessage = vi.spyOn(sessionIframe.contentWindow!, 'postMessage');
+    sessionIframe.dispatchEvent(new Event('load'));
+
+    await waitFor(() =>
+      expect(postMessage).toHaveBeenCalledWith('my-app session-1', 'https://kc.example.com')
+    );
+
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data: 'changed',
+        origin: 'https://kc.example.com',
+        source: sessionIframe.contentWindow,
+      })
+    );
+    expect(onSessionEnded).toHaveBeenCalledTimes(1);
+
+    monitor.stop();
+    expect(findIframe('/protocol/openid-connect/login-status-iframe.html')).toBeNull();
+  });
+});
+
+describe('session monitoring', () => {
+  afterEach(() => {
+    keycloakMock.login.mockReset();
+  });
+
+  it('should sign out and offer to sign in again when the session ended elsewhere', async () => {
+    const onEvent = vi.fn();
+    const sessionProbe = vi.fn().mockResolvedValue(false);
+
+    render(
+      <KeycloakAuthProvider
+        name="monitored"
+        url="https://kc.example.com"
+        realm="myrealm"
+        clientId="my-app"
+        syncTabs={false}
+        monitorSession
+        sessionProbe={sessionProbe}
+        onEvent={onEvent}
+      >
+        <SignedOutElsewhereDialog />
+        <SignedIn>
+          <div>Welcome</div>
+        </SignedIn>
+        <SignedOut>
+          <div>Signed out</div>
+        </SignedOut>
+      </KeycloakAuthProvider>
+    );
+
+    expect(await screen.findByText('Signed out')).toBeInTheDocument();
+    expect(sessionProbe).toHaveBeenCalledWith(expect.any(String), expect.any(AbortSignal));
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'session:ended', reason: 'signed_out_elsewhere' })
+    );
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Sign in again' }));
+    await waitFor(() => expect(keycloakMock.login).toHaveBeenCalled());
+  });
+});
+
+describe('SignedOutElsewhereDialog', () => {
+  it('should only open for the configured reasons', () => {
+    const auth = createMockAuth({ user: { username: 'jdoe' } });
+    render(
+      <MockAuthProvider auth={auth}>
+        <SignedOutElsewhereDialog />
+      </MockAuthProvider>
+    );
+
+    act(() => auth.expire('idle'));
+    expect(screen.queryByText('You have been signed out')).not.toBeInTheDocument();
+
+    act(() => auth.signIn());
+    act(() => auth.expire('signed_out_elsewhere'));
+    expect(screen.getByText('You have been signed out')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(screen.queryByText('You have been signed out')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type Keycloak from 'keycloak-js';
+import {
+  createSessionChannel,
+  applySessionTokens,
+  getSessionTokens,
+  type SessionSyncMessage,
+} from '../auth/sessionSync';
+
+function createToken(payload: Record<string, unknown>) {
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+describe('createSessionChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should deliver messages to other channels with the same name', async () => {
+    const onMessage = vi.fn();
+    const sender = createSessionChannel('test-channel', vi.fn());
+    const receiver = createSessionChannel('test-channel', onMessage);
+
+    sender.post({ type: 'signout' });
+
+    await vi.waitFor(() => expect(onMessage).toHaveBeenCalledWith({ type: 'signout' }));
+
+    sender.close();
+    receiver.close();
+  });
+
+  it('should fall back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const onMessage = vi.fn();
+    const channel = createSessionChannel('test-storage', onMessage);
+
+    const message: SessionSyncMessage = { type: 'token-refresh', tokens: { token: 'abc' } };
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'test-storage', newValue: JSON.stringify(message) })
+    );
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other-key', newValue: '{}' }));
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining(message));
+
+    channel.close();
+  });
+
+  it('should not persist messages in localStorage', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const channel = createSessionChannel('test-persist', vi.fn());
+
+    channel.post({ type: 'signout' });
+
+    expect(localStorage.getItem('test-persist')).toBeNull();
+    channel.close();
+  });
+});
+
+describe('applySessionTokens', () => {
+  it('should update the keycloak instance with tokens from another tab', () => {
+    const kc = { authenticated: false, timeSkew: null } as unknown as Keycloak;
+    const token = createToken({
+      sub: 'user-1',
+      sid: 'session-1',
+      exp: 2000000000,
+      realm_access: { roles: ['user'] },
+    });
+
+    applySessionTokens(kc, { token, refreshToken: 'refresh', idToken: token, timeSkew: 2 });
+
+    expect(kc.authenticated).toBe(true);
+    expect(kc.token).toBe(token);
+    expect(kc.subject).toBe('user-1');
+    expect(kc.sessionId).toBe('session-1');
+    expect(kc.realmAccess).toEqual({ roles: ['user'] });
+    expect(kc.timeSkew).toBe(2);
+    expect(getSessionTokens(kc)).toEqual({
+      token,
+      refreshToken: 'refresh',
+      idToken: token,
+      timeSkew: 2,
+    });
+  });
+
+  it('should ignore messages without a valid access token', () => {
+    const kc = { authenticated: false } as unknown as Keycloak;
+
+    applySessionTokens(kc, { token: 'not-a-jwt' });
+
+    expect(kc.authenticated).toBe(false);
+    expect(kc.token).toBeUndefined();
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import type Keycloak from 'keycloak-js';
+import { createSessionTimeout, getSessionDeadline } from '../auth/sessionTimeout';
+import { SessionTimeoutWarning } from '../SessionTimeoutWarning';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+const NOW = 1_700_000_000_000;
+const nowSeconds = NOW / 1000;
+
+function createKeycloak(overrides: Record<string, unknown> = {}) {
+  return {
+    authenticated: true,
+    timeSkew: 0,
+    tokenParsed: { exp: nowSeconds + 300, auth_time: nowSeconds - 60 },
+    refreshTokenParsed: { exp: nowSeconds + 1800 },
+    ...overrides,
+  } as unknown as Keycloak;
+}
+
+describe('getSessionDeadline', () => {
+  it('should return undefined when the session does not expire', () => {
+    expect(
+      getSessionDeadline(createKeycloak(), { autoRefresh: true, lastActivity: NOW })
+    ).toBeUndefined();
+  });
+
+  it('should end the session after the idle timeout', () => {
+    expect(
+      getSessionDeadline(createKeycloak(), {
+        idleTimeout: 600,
+        autoRefresh: true,
+        lastActivity: NOW,
+      })
+    ).toEqual({ expiresAt: NOW + 600_000, reason: 'idle' });
+  });
+
+  it('should end the session at the SSO session max lifespan', () => {
+    expect(
+      getSessionDeadline(createKeycloak(), {
+        idleTimeout: 600,
+        sessionMaxLifespan: 300,
+        autoRefresh: true,
+        lastActivity: NOW,
+      })
+    ).toEqual({ expiresAt: NOW + 240_000, reason: 'expired' });
+  });
+
+  it('should end the session when the refresh token expires without automatic refresh', () => {
+    expect(
+      getSessionDeadline(createKeycloak(), { autoRefresh: false, lastActivity: NOW })
+    ).toEqual({ expiresAt: NOW + 1_800_000, reason: 'idle' });
+  });
+
+  it('should treat a refresh token capped at the access token expiry as expired', () => {
+    const keycloak = createKeycloak({ refreshTokenParsed: { exp: nowSeconds + 300 } });
+
+    expect(getSessionDeadline(keycloak, { autoRefresh: true, lastActivity: NOW })).toEqual({
+      expiresAt: NOW + 300_000,
+      reason: 'expired',
+    });
+  });
+
+  it('should account for the clock skew', () => {
+    const keycloak = createKeycloak({ timeSkew: 10 });
+
+    expect(
+      getSessionDeadline(keycloak, {
+        sessionMaxLifespan: 300,
+        autoRefresh: true,
+        lastActivity: NOW,
+      })?.expiresAt
+    ).toBe(NOW + 250_000);
+  });
+});
+
+describe('createSessionTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should warn before and time out after the idle timeout', () => {
+    const onChange = vi.fn();
+    const onTimeout = vi.fn();
+    const timeout = createSessionTimeout(createKeycloak(), {
+      idleTimeout: 120,
+      warningTime: 30,
+      autoRefresh: true,
+      onChange,
+      onTimeout,
+    });
+    timeout.start();
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      expiresAt: NOW + 120_000,
+      reason: 'idle',
+      isWarning: false,
+    });
+
+    vi.advanceTimersByTime(90_000);
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ isWarning: true }));
+
+    vi.advanceTimersByTime(30_000);
+    expect(onTimeout).toHaveBeenCalledWith('idle');
+
+    timeout.stop();
+  });
+
+  it('should extend the idle deadline on activity', () => {
+    const onTimeout = vi.fn();
+    const timeout = createSessionTimeout(createKeycloak(), {
+      idleTimeout: 120,
+      warningTime: 30,
+      autoRefresh: true,
+      onChange: vi.fn(),
+      onTimeout,
+    });
+    timeout.start();
+
+    vi.advanceTimersByTime(60_000);
+    window.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(90_000);
+
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    timeout.stop();
+  });
+
+  it('should ignore activity during the warning until reset', () => {
+    const onChange = vi.fn();
+    const onTimeout = vi.fn();
+    const timeout = createSessionTimeout(createKeycloak(), {
+      idleTimeout: 120,
+      warningTime: 30,
+      autoRefresh: true,
+      onChange,
+      onTimeout,
+    });
+    timeout.start();
+
+    vi.advanceTimersByTime(100_000);
+    window.dispatchEvent(new Event('pointermove'));
+    vi.advanceTimersByTime(5_000);
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ isWarning: true }));
+
+    timeout.reset();
+    expect(onChange).toHaveBeenLastCalledWith({
+      expiresAt: NOW + 225_000,
+      reason: 'idle',
+      isWarning: false,
+    });
+
+    timeout.stop();
+  });
+
+  it('should share activity between tabs', () => {
+    const onTimeout = vi.fn();
+    const timeout = createSessionTimeout(createKeycloak(), {
+      idleTimeout: 120,
+      warningTime: 30,
+      autoRefresh: true,
+      activityKey: 'kc-activity',
+      onChange: vi.fn(),
+      onTimeout,
+    });
+    timeout.start();
+
+    vi.advanceTimersByTime(60_000);
+    // Another tab records activity
+    localStorage.setItem('kc-activity', String(Date.now()));
+    vi.advanceTimersByTime(90_000);
+
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    timeout.stop();
+  });
+
+  it('should wait for a deadline beyond the longest timer delay', () => {
+    const onChange = vi.fn();
+    const onTimeout = vi.fn();
+    const timeout = createSessionTimeout(createKeycloak(), {
+      sessionMaxLifespan: 30 * 24 * 3600,
+      warningTime: 60,
+      autoRefresh: true,
+      onChange,
+      onTimeout,
+    });
+    timeout.start();
+
+    vi.advanceTimersByTime(1000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(1);
+
+    vi.advanceTimersByTime(2 ** 31 - 1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30 * 24 * 3600 * 1000);
+    expect(onTimeout).toHaveBeenCalledWith('expired');
+
+    timeout.stop();
+  });
+
+  it('should not report a deadline when not authenticated', () => {
+    const onChange = vi.fn();
+    const timeout = createSessionTimeout(createKeycloak({ authenticated: false }), {
+      idleTimeout: 120,
+      warningTime: 30,
+      autoRefresh: true,
+      onChange,
+      onTimeout: vi.fn(),
+    });
+    timeout.start();
+
+    expect(onChange).not.toHaveBeenCalled();
+
+    timeout.stop();
+  });
+});
+
+describe('SessionTimeoutWarning', () => {
+  function renderWarning(session: AuthContextValue['session']) {
+    const value = {
+      session,
+      extendSession: vi.fn().mockResolvedValue(undefined),
+      signOut: vi.fn().mockResolvedValue(undefined),
+    } as unknown as AuthContextValue;
+    render(
+      <AuthContext.Provider value={value}>
+        <SessionTimeoutWarning />
+      </AuthContext.Provider>
+    );
+    return value;
+  }
+
+  it('should render nothing outside the warning', () => {
+    renderWarning({ expiresAt: Date.now() + 600_000, reason: 'idle', isWarning: false });
+
+    expect(screen.queryByText('Stay signed in')).not.toBeInTheDocument();
+  });
+
+  it('should show a countdown and extend the session', async () => {
+    const value = renderWarning({
+      expiresAt: Date.now() + 75_000,
+      reason: 'idle',
+      isWarning: true,
+    });
+
+    expect(screen.getByText('1:15')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Stay signed in'));
+
+    await waitFor(() => expect(value.extendSession).toHaveBeenCalled());
+  });
+
+  it('should only offer to sign out when the session cannot be extended', async () => {
+    const value = renderWarning({
+      expiresAt: Date.now() + 30_000,
+      reason: 'expired',
+      isWarning: true,
+    });
+
+    expect(screen.queryByText('Stay signed in')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Sign out now'));
+
+    await waitFor(() => expect(value.signOut).toHaveBeenCalled());
+  });
+});
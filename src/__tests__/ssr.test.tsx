@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
+import { KeycloakAuthProvider } from '../auth/KeycloakAuthProvider';
+import { SignedIn, SignedOut, AuthLoading } from '../auth/ControlComponents';
+import { SignInButton, SignOutButton } from '../auth/Buttons';
+import { createAuthSession } from '../auth/authSession';
+import { ConfigProvider } from '../context/ConfigProvider';
+import { SignIn } from '../SignIn';
+import { UserButton } from '../UserButton';
+import { SessionTimeoutWarning } from '../SessionTimeoutWarning';
+import { applyAppearance, clearAppearance } from '../theme/appearance';
+import { getLoginConfigFromDOM, LoginConfigError } from '../config';
+import { createTestToken } from '../testing';
+
+const keycloakMock = vi.hoisted(() => ({
+  init: vi.fn(),
+}));
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    token?: string;
+    authenticated?: boolean;
+    onAuthLogout?: () => void;
+    clearToken() {
+      if (!this.token) return;
+      this.token = undefined;
+      this.authenticated = false;
+      this.onAuthLogout?.();
+    }
+    init(options: unknown) {
+      // Unless a test completes it, initialization does not complete
+      return keycloakMock.init(options) ?? new Promise(() => {});
+    }
+  },
+}));
+
+const session = createAuthSession({
+  accessToken: createTestToken({ sub: 'user-1' }),
+  idToken: createTestToken({ sub: 'user-1', name: 'Ada Lovelace', typ: 'ID' }),
+})!;
+
+function App({ initialSession }: { initialSession?: typeof session | null }) {
+  return (
+    <KeycloakAuthProvider
+      url="https://kc.example.com"
+      realm="myrealm"
+      clientId="my-app"
+      syncTabs={false}
+      initialSession={initialSession}
+    >
+      <AuthLoading>Loading</AuthLoading>
+      <SignedIn>
+        Welcome
+        <UserButton />
+        <SignOutButton />
+      </SignedIn>
+      <SignedOut>
+        <SignInButton />
+      </SignedOut>
+      <SessionTimeoutWarning />
+    </KeycloakAuthProvider>
+  );
+}
+
+/** Render as on the server, without `window` and `document` */
+function renderOnServer(element: JSX.Element) {
+  vi.stubGlobal('window', undefined);
+  vi.stubGlobal('document', undefined);
+  try {
+    return renderToString(element);
+  } finally {
+    vi.unstubAllGlobals();
+  }
+}
+
+describe('server-side rendering', () => {
+  afterEach(() => {
+    keycloakMock.init.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should render the server session without a loading state', () => {
+    const html = renderOnServer(<App initialSession={session} />);
+
+    expect(html).toContain('Welcome');
+    expect(html).not.toContain('Loading');
+  });
+
+  it('should render signed out when the server found no session', () => {
+    const html = renderOnServer(<App initialSession={null} />);
+
+    expect(html).toContain('Sign in');
+    expect(html).not.toContain('Loading');
+  });
+
+  it('should render the loading state without a server session', () => {
+    expect(renderOnServer(<App />)).toContain('Loading');
+  });
+
+  it('should render login pages', () => {
+    const html = renderOnServer(
+      <ConfigProvider>
+        <SignIn />
+      </ConfigProvider>
+    );
+
+    expect(html).toContain('kc-sign-in');
+  });
+
+  it('should keep the server session while keycloak-js initializes', () => {
+    render(<App initialSession={session} />);
+
+    expect(screen.getByText('Welcome')).toBeInTheDocument();
+    expect(screen.queryByText('Loading')).not.toBeInTheDocument();
+    // keycloak-js does not get a refresh token, nor sign in on load
+    expect(keycloakMock.init).toHaveBeenCalledWith(
+      expect.not.objectContaining({ onLoad: expect.anything() })
+    );
+    expect(keycloakMock.init).toHaveBeenCalledWith(
+      expect.not.objectContaining({ refreshToken: expect.anything() })
+    );
+  });
+
+  it('should renew the server session through the session endpoint', async () => {
+    keycloakMock.init.mockResolvedValue(false);
+    const renewed = createAuthSession({ accessToken: createTestToken({ sub: 'user-1' }) })!;
+    const fetchMock = vi.fn().mockResolvedValue(Response.json(renewed));
+    vi.stubGlobal('fetch', fetchMock);
+    const expiring = createAuthSession({
+      accessToken: createTestToken({ sub: 'user-1' }, { expiresIn: 10 }),
+    })!;
+
+    render(<App initialSession={expiring} />);
+
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/auth/session',
+        expect.objectContaining({ credentials: 'include' })
+      )
+    );
+    expect(screen.getByText('Welcome')).toBeInTheDocument();
+  });
+
+  it('should sign out when the server session has ended', async () => {
+    keycloakMock.init.mockResolvedValue(false);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(Response.json({ error: 'invalid_grant' }, { status: 400 }))
+    );
+    const expiring = createAuthSession({
+      accessToken: createTestToken({ sub: 'user-1' }, { expiresIn: 10 }),
+    })!;
+
+    render(<App initialSession={expiring} />);
+
+    expect(await screen.findByRole('button', { name: /sign in/i })).toBeInTheDocument();
+  });
+
+  it('should not touch the DOM in browser-only utilities', () => {
+    vi.stubGlobal('document', undefined);
+    try {
+      expect(() => applyAppearance({ baseTheme: 'dark' })).not.toThrow();
+      expect(() => clearAppearance()).not.toThrow();
+      expect(() => getLoginConfigFromDOM()).toThrow(LoginConfigError);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, renderHook, screen } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { satisfiesAcr, parseStepUpChallenge } from '../auth/stepUp';
+import { useStepUp } from '../auth/useStepUp';
+import { RequireAcr } from '../auth/ControlComponents';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+function createAuthValue(claims: Record<string, unknown>, overrides: Partial<AuthContextValue> = {}) {
+  return {
+    isLoading: false,
+    isAuthenticated: true,
+    user: { id: 'user-1', claims },
+    signIn: vi.fn().mockResolvedValue(undefined),
+    keycloak: null,
+    ...overrides,
+  } as unknown as AuthContextValue;
+}
+
+function createWrapper(value: AuthContextValue) {
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  };
+}
+
+describe('satisfiesAcr', () => {
+  it('should compare numeric levels numerically', () => {
+    expect(satisfiesAcr('2', '1')).toBe(true);
+    expect(satisfiesAcr('1', '2')).toBe(false);
+    expect(satisfiesAcr(undefined, '1')).toBe(false);
+  });
+
+  it('should compare named levels by their order', () => {
+    const levels = ['bronze', 'silver', 'gold'];
+    expect(satisfiesAcr('gold', 'silver', levels)).toBe(true);
+    expect(satisfiesAcr('silver', 'gold', levels)).toBe(false);
+    expect(satisfiesAcr('platinum', 'gold', levels)).toBe(false);
+    expect(satisfiesAcr('gold', 'silver')).toBe(false);
+    expect(satisfiesAcr('gold', 'gold')).toBe(true);
+  });
+});
+
+describe('parseStepUpChallenge', () => {
+  it('should parse an insufficient_user_authentication challenge', () => {
+    const response = new Response(null, {
+      status: 401,
+      headers: {
+        'WWW-Authenticate':
+          'Bearer error="insufficient_user_authentication", error_description="A different authentication level is required", acr_values="gold", max_age=300',
+      },
+    });
+
+    expect(parseStepUpChallenge(response)).toEqual({ acrValues: 'gold', maxAge: 300 });
+  });
+
+  it('should ignore other errors and statuses', () => {
+    expect(parseStepUpChallenge('Bearer error="invalid_token"')).toBeNull();
+    expect(parseStepUpChallenge(new Response(null, { status: 403 }))).toBeNull();
+    expect(parseStepUpChallenge(new Response(null, { status: 401 }))).toBeNull();
+  });
+});
+
+describe('useStepUp', () => {
+  it('should check the acr claim and auth_time', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const value = createAuthValue({ acr: 'silver', auth_time: now - 600 });
+    const { result } = renderHook(() => useStepUp({ levels: ['bronze', 'silver', 'gold'] }), {
+      wrapper: createWrapper(value),
+    });
+
+    expect(result.current.acr).toBe('silver');
+    expect(result.current.satisfies('bronze')).toBe(true);
+    expect(result.current.satisfies('gold')).toBe(false);
+    expect(result.current.satisfies('silver', { maxAge: 300 })).toBe(false);
+    expect(result.current.satisfies('silver', { maxAge: 900 })).toBe(true);
+  });
+
+  it('should fall back to the access token acr claim', () => {
+    const accessToken = `header.${btoa(JSON.stringify({ acr: '1' }))}.signature`;
+    const { result } = renderHook(() => useStepUp(), {
+      wrapper: createWrapper(createAuthValue({}, { accessToken })),
+    });
+
+    expect(result.current.acr).toBe('1');
+  });
+
+  it('should request the level as an essential acr and return to the current URL', async () => {
+    const value = createAuthValue({ acr: '1' });
+    const { result } = renderHook(() => useStepUp(), { wrapper: createWrapper(value) });
+
+    await result.current.stepUp('2', { maxAge: 0 });
+
+    expect(value.signIn).toHaveBeenCalledWith({
+      acr: { values: ['2'], essential: true },
+      maxAge: 0,
+      redirectUri: 'http://localhost:3000',
+    });
+  });
+
+  it('should step up from a challenge response', async () => {
+    const value = createAuthValue({ acr: '1' });
+    const { result } = renderHook(() => useStepUp(), { wrapper: createWrapper(value) });
+    const response = new Response(null, {
+      status: 401,
+      headers: {
+        'WWW-Authenticate': 'Bearer error="insufficient_user_authentication", acr_values="2"',
+      },
+    });
+
+    expect(await result.current.handleChallenge(response)).toBe(true);
+    expect(value.signIn).toHaveBeenCalledWith(expect.objectContaining({ acrValues: '2' }));
+    expect(await result.current.handleChallenge(new Response(null, { status: 500 }))).toBe(false);
+  });
+});
+
+describe('RequireAcr', () => {
+  it('should render children when the level is met', () => {
+    const value = createAuthValue({ acr: 'gold' });
+    render(
+      <RequireAcr level="gold">
+        <div>Transfer</div>
+      </RequireAcr>,
+      { wrapper: createWrapper(value) }
+    );
+
+    expect(screen.getByText('Transfer')).toBeInTheDocument();
+    expect(value.signIn).not.toHaveBeenCalled();
+  });
+
+  it('should step up when the level is not met', () => {
+    const value = createAuthValue({ acr: 'silver' });
+    render(
+      <RequireAcr level="gold" levels={['silver', 'gold']}>
+        <div>Transfer</div>
+      </RequireAcr>,
+      { wrapper: createWrapper(value) }
+    );
+
+    expect(screen.queryByText('Transfer')).not.toBeInTheDocument();
+    expect(value.signIn).toHaveBeenCalledTimes(1);
+    expect(value.signIn).toHaveBeenCalledWith(
+      expect.objectContaining({ acr: { values: ['gold'], essential: true } })
+    );
+  });
+
+  it('should render a function fallback with stepUp', () => {
+    const value = createAuthValue({ acr: 'silver' });
+    render(
+      <RequireAcr level="gold" fallback={(stepUp) => <button onClick={stepUp}>Verify</button>}>
+        <div>Transfer</div>
+      </RequireAcr>,
+      { wrapper: createWrapper(value) }
+    );
+
+    expect(value.signIn).not.toHaveBeenCalled();
+    screen.getByText('Verify').click();
+    expect(value.signIn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { KeycloakAuthProvider, useAuth } from '../auth/KeycloakAuthProvider';
+import type { TokenStorage } from '../auth/tokenStorage';
+import { createTestToken } from '../testing';
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    token?: string;
+    authenticated = false;
+    didInitialize = false;
+    onAuthLogout?: () => void;
+    clearToken() {
+      if (!this.token) return;
+      this.token = undefined;
+      this.authenticated = false;
+      this.onAuthLogout?.();
+    }
+    async init() {
+      this.didInitialize = true;
+      return false;
+    }
+  },
+}));
+
+const CHANNEL = 'keycloak-react:https://kc.example.com:myrealm:my-app';
+const STORAGE_KEY = 'keycloak-react:tokens:https://kc.example.com:myrealm:my-app';
+
+function createWrapper(tokenStorage: TokenStorage) {
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <KeycloakAuthProvider
+        url="https://kc.example.com"
+        realm="myrealm"
+        clientId="my-app"
+        tokenStorage={tokenStorage}
+        autoRefresh={false}
+      >
+        {children}
+      </KeycloakAuthProvider>
+    );
+  };
+}
+
+/** Another tab posts a message through the storage fallback */
+function receive(type: string) {
+  act(() => {
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: CHANNEL,
+        newValue: JSON.stringify({ type, sentAt: Date.now() }),
+      })
+    );
+  });
+}
+
+describe('tab sync without BroadcastChannel', () => {
+  beforeEach(() => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not write tokens to localStorage with memory storage', async () => {
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const { result } = renderHook(() => useAuth(), { wrapper: createWrapper('memory') });
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+
+    act(() => result.current.signInWithTokens({ token: createTestToken({ sub: 'user-1' }) }));
+
+    expect(result.current.status).toBe('authenticated');
+    const written = setItem.mock.calls.filter(([key]) => key === CHANNEL);
+    expect(written).toHaveLength(1);
+    expect(JSON.parse(written[0][1])).toEqual({ type: 'signin', sentAt: expect.any(Number) });
+    setItem.mockRestore();
+  });
+
+  it('should read the tokens of another tab from the token storage', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: createWrapper('localStorage') });
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ token: createTestToken({ sub: 'user-1' }) })
+    );
+    receive('signin');
+
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+    expect(result.current.user?.id).toBe('user-1');
+  });
+
+  it('should sign out when the tokens of a new user cannot be read', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: createWrapper('memory') });
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+    act(() => result.current.signInWithTokens({ token: createTestToken({ sub: 'user-1' }) }));
+
+    receive('user-change');
+
+    await waitFor(() => expect(result.current.status).toBe('unauthenticated'));
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act, renderHook } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import {
+  MockAuthProvider,
+  createMockAuth,
+  createTestToken,
+  createTestUser,
+  createMockLoginConfig,
+  renderWithAuth,
+  type MockAuth,
+} from '../testing';
+import { useAuth, useUser } from '../auth/KeycloakAuthProvider';
+import { SignedIn, SignedOut, Protect } from '../auth/ControlComponents';
+import { SignInButton } from '../auth/Buttons';
+import { ConfigProvider, useConfig } from '../context/ConfigProvider';
+import { decodeToken } from '../UserAvatar';
+
+describe('fixtures', () => {
+  it('should create decodable tokens with Keycloak-like claims', () => {
+    const token = createTestToken({ sub: 'user-1', name: 'Zoë' }, { expiresIn: 60 });
+
+    const claims = decodeToken(token) as Record<string, unknown>;
+    expect(token.split('.')).toHaveLength(3);
+    expect(token).not.toMatch(/[+/=]/);
+    expect(claims).toMatchObject({ sub: 'user-1', name: 'Zoë', azp: 'test-client' });
+    expect((claims.exp as number) - (claims.iat as number)).toBe(60);
+  });
+
+  it('should create users with matching claims', () => {
+    const user = createTestUser({ name: 'Ada Lovelace', username: 'ada' });
+
+    expect(user).toMatchObject({
+      name: 'Ada Lovelace',
+      username: 'ada',
+      email: 'jane.doe@example.com',
+    });
+    expect(user.claims).toMatchObject({ name: 'Ada Lovelace', preferred_username: 'ada' });
+  });
+
+  it('should create a login configuration for ConfigProvider', () => {
+    const config = createMockLoginConfig({ realm: { name: 'acme' } as never });
+    const { result } = renderHook(() => useConfig(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <ConfigProvider config={config}>{children}</ConfigProvider>
+      ),
+    });
+
+    expect(result.current.config?.realm).toMatchObject({
+      name: 'acme',
+      registrationAllowed: true,
+    });
+    expect(result.current.config?.urls.login).toContain('/realms/test/');
+  });
+});
+
+describe('MockAuthProvider', () => {
+  function renderStates(auth: MockAuth) {
+    return render(
+      <MockAuthProvider auth={auth}>
+        <SignedIn>
+          <div>Signed in</div>
+        </SignedIn>
+        <SignedOut>
+          <div>Signed out</div>
+        </SignedOut>
+      </MockAuthProvider>
+    );
+  }
+
+  it('should start signed in as the given user', () => {
+    const { result } = renderHook(() => useUser(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <MockAuthProvider user={{ name: 'Ada Lovelace' }}>{children}</MockAuthProvider>
+      ),
+    });
+
+    expect(result.current?.name).toBe('Ada Lovelace');
+    expect(result.current?.claims.name).toBe('Ada Lovelace');
+  });
+
+  it('should check roles from the access token claims', () => {
+    render(
+      <MockAuthProvider user={{}} claims={{ realm_access: { roles: ['admin'] } }}>
+        <Protect realmRoles={['admin']} fallback={<div>Denied</div>}>
+          <div>Admin</div>
+        </Protect>
+      </MockAuthProvider>
+    );
+
+    expect(screen.getByText('Admin')).toBeInTheDocument();
+  });
+
+  it('should follow the state machine', () => {
+    const auth = createMockAuth({ status: 'loading' });
+    const onSessionEnded = vi.fn();
+    auth.events.on('session:ended', onSessionEnded);
+    renderStates(auth);
+    expect(screen.queryByText('Signed in')).not.toBeInTheDocument();
+    expect(screen.queryByText('Signed out')).not.toBeInTheDocument();
+
+    act(() => auth.signIn({ name: 'Ada' }));
+    expect(screen.getByText('Signed in')).toBeInTheDocument();
+    expect(auth.getState().user?.name).toBe('Ada');
+
+    const previousToken = auth.getState().accessToken;
+    act(() => auth.refresh({ scope: 'openid admin' }));
+    expect(auth.getState().accessToken).not.toBe(previousToken);
+    expect(decodeToken(auth.getState().accessToken!)).toMatchObject({ scope: 'openid admin' });
+
+    act(() => auth.expire());
+    expect(screen.getByText('Signed out')).toBeInTheDocument();
+    expect(onSessionEnded).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'refresh_token_rejected' })
+    );
+
+    act(() => auth.fail());
+    expect(auth.getState()).toMatchObject({ status: 'error', error: { type: 'network' } });
+    expect(screen.queryByText('Signed out')).not.toBeInTheDocument();
+  });
+});
+
+describe('renderWithAuth', () => {
+  it('should sign in from the context and record the options', () => {
+    const { auth } = renderWithAuth(
+      <>
+        <SignedOut>
+          <SignInButton idpHint="github" />
+        </SignedOut>
+        <SignedIn>
+          <div>Welcome</div>
+        </SignedIn>
+      </>
+    );
+
+    fireEvent.click(screen.getByText('Sign in'));
+
+    expect(auth.calls.signIn).toEqual([expect.objectContaining({ idpHint: 'github' })]);
+    expect(screen.getByText('Welcome')).toBeInTheDocument();
+  });
+
+  it('should update rendered components when the state changes', () => {
+    function Greeting() {
+      const { user, accessToken } = useAuth();
+      if (!user) return <div>Bye</div>;
+      return <div>{`Hello ${user.name} (${accessToken ? 'token' : 'no token'})`}</div>;
+    }
+    const { auth } = renderWithAuth(<Greeting />, { user: { name: 'Ada' } });
+    expect(screen.getByText('Hello Ada (token)')).toBeInTheDocument();
+
+    act(() => auth.signOut());
+
+    expect(screen.getByText('Bye')).toBeInTheDocument();
+  });
+});
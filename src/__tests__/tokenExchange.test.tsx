@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import {
+  requestTokenExchange,
+  createTokenExchangeCache,
+  TokenExchangeError,
+  type ExchangedToken,
+} from '../auth/tokenExchange';
+import { useExchangedToken } from '../auth/useExchangedToken';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+const tokenEndpoint = 'https://kc.example.com/realms/test/protocol/openid-connect/token';
+
+function createExchangedToken(token: string, expiresIn = 300): ExchangedToken {
+  return { token, expiresAt: Date.now() + expiresIn * 1000 };
+}
+
+describe('requestTokenExchange', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should exchange the subject token with the token-exchange grant', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      Response.json({
+        access_token: 'billing-token',
+        issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        expires_in: 300,
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await requestTokenExchange({
+      tokenEndpoint,
+      clientId: 'my-app',
+      subjectToken: 'access-token',
+      audience: 'billing-api',
+      scope: 'invoices:read',
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = init.body as URLSearchParams;
+    expect(url).toBe(tokenEndpoint);
+    expect(body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:token-exchange');
+    expect(body.get('client_id')).toBe('my-app');
+    expect(body.get('subject_token')).toBe('access-token');
+    expect(body.get('audience')).toBe('billing-api');
+    expect(body.get('scope')).toBe('invoices:read');
+    expect(body.has('requested_token_type')).toBe(false);
+    expect(result.token).toBe('billing-token');
+    expect(result.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should throw TokenExchangeError with the OAuth error', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        Response.json(
+          { error: 'access_denied', error_description: 'Client not allowed to exchange' },
+          { status: 403 }
+        )
+      )
+    );
+
+    const promise = requestTokenExchange({ tokenEndpoint, clientId: 'my-app', subjectToken: 'a' });
+
+    await expect(promise).rejects.toBeInstanceOf(TokenExchangeError);
+    await expect(promise).rejects.toMatchObject({
+      status: 403,
+      oauthError: 'access_denied',
+      message: 'Client not allowed to exchange',
+    });
+  });
+});
+
+describe('createTokenExchangeCache', () => {
+  it('should reuse valid tokens and share concurrent requests', async () => {
+    const cache = createTokenExchangeCache();
+    const exchange = vi.fn().mockResolvedValue(createExchangedToken('token-1'));
+
+    const [first, second] = await Promise.all([
+      cache.get('billing-api', exchange, { minValidity: 30 }),
+      cache.get('billing-api', exchange, { minValidity: 30 }),
+    ]);
+    await cache.get('billing-api', exchange, { minValidity: 30 });
+
+    expect(exchange).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('should renew tokens that expire within minValidity', async () => {
+    const cache = createTokenExchangeCache();
+    const exchange = vi
+      .fn()
+      .mockResolvedValueOnce(createExchangedToken('token-1', 20))
+      .mockResolvedValueOnce(createExchangedToken('token-2'));
+
+    await cache.get('billing-api', exchange, { minValidity: 30 });
+    const renewed = await cache.get('billing-api', exchange, { minValidity: 30 });
+
+    expect(renewed.token).toBe('token-2');
+  });
+
+  it('should not cache failures', async () => {
+    const cache = createTokenExchangeCache();
+    const exchange = vi
+      .fn()
+      .mockRejectedValueOnce(new TokenExchangeError('Failed'))
+      .mockResolvedValueOnce(createExchangedToken('token-1'));
+
+    await expect(cache.get('billing-api', exchange, { minValidity: 30 })).rejects.toThrow('Failed');
+    await expect(cache.get('billing-api', exchange, { minValidity: 30 })).resolves.toMatchObject({
+      token: 'token-1',
+    });
+  });
+});
+
+describe('useExchangedToken', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createWrapper(value: Partial<AuthContextValue>) {
+    return function Wrapper({ children }: { children: ReactNode }) {
+      return (
+        <AuthContext.Provider
+          value={{ isAuthenticated: true, user: { id: 'user-1', claims: {} }, ...value } as AuthContextValue}
+        >
+          {children}
+        </AuthContext.Provider>
+      );
+    };
+  }
+
+  it('should exchange a token for the audience', async () => {
+    const exchangeToken = vi.fn().mockResolvedValue(createExchangedToken('billing-token'));
+
+    const { result } = renderHook(() => useExchangedToken('billing-api', { scope: 'read' }), {
+      wrapper: createWrapper({ exchangeToken }),
+    });
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.token).toBe('billing-token'));
+    expect(exchangeToken).toHaveBeenCalledWith(
+      expect.objectContaining({ audience: 'billing-api', scope: 'read', forceRefresh: false })
+    );
+  });
+
+  it('should renew the token before it expires', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const exchangeToken = vi
+      .fn()
+      .mockResolvedValueOnce(createExchangedToken('token-1', 60))
+      .mockResolvedValueOnce(createExchangedToken('token-2', 60));
+
+    const { result } = renderHook(() => useExchangedToken('billing-api'), {
+      wrapper: createWrapper({ exchangeToken }),
+    });
+    await waitFor(() => expect(result.current.token).toBe('token-1'));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(30_000);
+    });
+
+    await waitFor(() => expect(result.current.token).toBe('token-2'));
+    expect(exchangeToken).toHaveBeenLastCalledWith(
+      expect.objectContaining({ minValidity: 30, forceRefresh: false })
+    );
+  });
+
+  it('should exchange a new token on refresh', async () => {
+    const exchangeToken = vi
+      .fn()
+      .mockResolvedValueOnce(createExchangedToken('token-1'))
+      .mockResolvedValueOnce(createExchangedToken('token-2'));
+
+    const { result } = renderHook(() => useExchangedToken('billing-api'), {
+      wrapper: createWrapper({ exchangeToken }),
+    });
+    await waitFor(() => expect(result.current.token).toBe('token-1'));
+    await act(() => result.current.refresh());
+
+    expect(result.current.token).toBe('token-2');
+    expect(exchangeToken).toHaveBeenLastCalledWith(expect.objectContaining({ forceRefresh: true }));
+  });
+
+  it('should expose exchange errors', async () => {
+    const exchangeToken = vi.fn().mockRejectedValue(new TokenExchangeError('Denied', 403));
+
+    const { result } = renderHook(() => useExchangedToken('billing-api'), {
+      wrapper: createWrapper({ exchangeToken }),
+    });
+
+    await waitFor(() => expect(result.current.error?.message).toBe('Denied'));
+    expect(result.current.token).toBeUndefined();
+  });
+
+  it('should not exchange tokens when signed out', () => {
+    const exchangeToken = vi.fn();
+
+    const { result } = renderHook(() => useExchangedToken('billing-api'), {
+      wrapper: createWrapper({ isAuthenticated: false, user: null, exchangeToken }),
+    });
+
+    expect(result.current.isLoading).toBe(false);
+    expect(exchangeToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type Keycloak from 'keycloak-js';
+import { createTokenRefresher, isRefreshTokenRejected } from '../auth/tokenRefresh';
+
+// Helper to create a mock keycloak instance whose token expires in `expiresIn` seconds
+function createMockKeycloak(expiresIn: number) {
+  const kc = {
+    refreshToken: 'refresh-token',
+    timeSkew: 0,
+    tokenParsed: { exp: Math.floor(Date.now() / 1000) + expiresIn },
+    updateToken: vi.fn(async (_minValidity?: number) => {
+      kc.tokenParsed = { exp: Math.floor(Date.now() / 1000) + 300 };
+      return true;
+    }),
+  };
+  return kc;
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+// Minimal Web Locks API with exclusive locks, shared by all "tabs" of a test
+function createLockManager() {
+  let queue: Promise<unknown> = Promise.resolve();
+  let requested = 0;
+  return {
+    request(name: string, ...args: unknown[]) {
+      const callback = args.pop() as (lock: { name: string } | null) => unknown;
+      const options = (args[0] ?? {}) as { ifAvailable?: boolean };
+      if (options.ifAvailable && requested > 0) {
+        return Promise.resolve(callback(null));
+      }
+      requested++;
+      const result = queue.then(() => callback({ name })).finally(() => requested--);
+      queue = result.catch(() => {});
+      return result;
+    },
+  };
+}
+
+describe('createTokenRefresher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    setVisibility('visible');
+    vi.useRealTimers();
+  });
+
+  it('should refresh the token minValidity seconds before expiry', async () => {
+    const kc = createMockKeycloak(60);
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, { minValidity: 30 });
+    refresher.start();
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(kc.updateToken).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(kc.updateToken).toHaveBeenCalledWith(30);
+
+    refresher.stop();
+  });
+
+  it('should defer refreshes while the tab is hidden', async () => {
+    const kc = createMockKeycloak(60);
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, { minValidity: 30 });
+    refresher.start();
+    setVisibility('hidden');
+
+    await vi.advanceTimersByTimeAsync(40_000);
+    expect(kc.updateToken).not.toHaveBeenCalled();
+
+    setVisibility('visible');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(kc.updateToken).toHaveBeenCalledTimes(1);
+
+    refresher.stop();
+  });
+
+  it('should dedupe concurrent refresh calls', async () => {
+    const kc = createMockKeycloak(10);
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, { minValidity: 30 });
+
+    const results = await Promise.all([refresher.refresh(), refresher.refresh(), refresher.refresh()]);
+
+    expect(results).toEqual([true, true, true]);
+    expect(kc.updateToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry transient failures with backoff', async () => {
+    const kc = createMockKeycloak(10);
+    kc.updateToken
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, {
+      minValidity: 30,
+      retryDelay: 100,
+    });
+
+    const result = refresher.refresh();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(kc.updateToken).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe(true);
+    expect(kc.updateToken).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report failed refresh attempts', async () => {
+    const kc = createMockKeycloak(10);
+    const error = new TypeError('Failed to fetch');
+    kc.updateToken.mockRejectedValue(error);
+    const onRefreshFailed = vi.fn();
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, {
+      minValidity: 30,
+      retryDelay: 100,
+      maxRetries: 1,
+      onRefreshFailed,
+    });
+
+    const result = refresher.refresh();
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+
+    expect(onRefreshFailed.mock.calls).toEqual([
+      [error, true],
+      [error, false],
+    ]);
+  });
+
+  it('should end the session when the refresh token is rejected', async () => {
+    const kc = createMockKeycloak(10);
+    const error = Object.assign(new Error('Server responded with an invalid status.'), {
+      response: { status: 400 },
+    });
+    kc.updateToken.mockRejectedValueOnce(error);
+    const onSessionEnded = vi.fn();
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, {
+      minValidity: 30,
+      onSessionEnded,
+    });
+
+    await expect(refresher.refresh()).rejects.toBe(error);
+    expect(onSessionEnded).toHaveBeenCalledWith(error);
+    expect(kc.updateToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not end a session without a refresh token', async () => {
+    const kc = { ...createMockKeycloak(10), refreshToken: undefined };
+    const onSessionEnded = vi.fn();
+    const onRefreshFailed = vi.fn();
+    const refresher = createTokenRefresher(kc as unknown as Keycloak, {
+      minValidity: 30,
+      onSessionEnded,
+      onRefreshFailed,
+    });
+
+    await expect(refresher.refresh()).rejects.toThrow('No refresh token');
+    expect(kc.updateToken).not.toHaveBeenCalled();
+    expect(onSessionEnded).not.toHaveBeenCalled();
+    expect(onRefreshFailed).not.toHaveBeenCalled();
+  });
+
+  it('should refresh rotated refresh tokens in one tab only', async () => {
+    vi.stubGlobal('navigator', { locks: createLockManager() });
+    // Keycloak rotates refresh tokens: each one can only be used once
+    let validRefreshToken = 'refresh-token';
+    const tabs = [createMockKeycloak(10), createMockKeycloak(10)];
+    const refreshers = tabs.map((kc, index) => {
+      const other = () => tabs[1 - index];
+      kc.updateToken.mockImplementation(async (validity = 0) => {
+        if (kc.tokenParsed.exp - Date.now() / 1000 > validity) return false;
+        if (kc.refreshToken !== validRefreshToken) {
+          throw Object.assign(new Error('invalid_grant'), { response: { status: 400 } });
+        }
+        validRefreshToken = `${validRefreshToken}-rotated`;
+        kc.refreshToken = validRefreshToken;
+        kc.tokenParsed = { exp: Math.floor(Date.now() / 1000) + 300 };
+        // Share the tokens with the other tab, as the session channel does
+        setTimeout(() => {
+          Object.assign(other(), { refreshToken: kc.refreshToken, tokenParsed: kc.tokenParsed });
+          refreshers[1 - index].remoteRefreshed();
+        });
+        return true;
+      });
+      return createTokenRefresher(kc as unknown as Keycloak, {
+        minValidity: 30,
+        lockName: 'refresh',
+        onSessionEnded: () => {
+          throw new Error('The session should not end');
+        },
+      });
+    });
+
+    const results = Promise.all(refreshers.map((refresher) => refresher.refresh()));
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(results).resolves.toEqual([true, false]);
+    expect(tabs.map((kc) => kc.refreshToken)).toEqual([validRefreshToken, validRefreshToken]);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('isRefreshTokenRejected', () => {
+  it('should detect rejected refresh tokens', () => {
+    expect(isRefreshTokenRejected({ response: { status: 400 } })).toBe(true);
+    expect(isRefreshTokenRejected({ response: { status: 401 } })).toBe(false);
+    expect(isRefreshTokenRejected({ response: { status: 503 } })).toBe(false);
+    expect(isRefreshTokenRejected(new TypeError('Failed to fetch'))).toBe(false);
+    expect(isRefreshTokenRejected(null)).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createTokenStorage,
+  isStoredSessionExpired,
+  restoreTokens,
+  type TokenStorageAdapter,
+} from '../auth/tokenStorage';
+
+function createToken(payload: Record<string, unknown>) {
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+const now = Math.floor(Date.now() / 1000);
+const validTokens = {
+  token: createToken({ sub: 'user-1', exp: now + 60 }),
+  refreshToken: createToken({ exp: now + 1800 }),
+  idToken: createToken({ sub: 'user-1', exp: now + 60 }),
+  timeSkew: 0,
+};
+
+describe('createTokenStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('should store tokens in memory', () => {
+    const storage = createTokenStorage('memory', 'test-memory');
+
+    storage.set(validTokens);
+    expect(createTokenStorage('memory', 'test-memory').get()).toEqual(validTokens);
+
+    storage.clear();
+    expect(storage.get()).toBeNull();
+  });
+
+  it('should store tokens in sessionStorage', () => {
+    const storage = createTokenStorage('sessionStorage', 'test-session');
+
+    storage.set(validTokens);
+    expect(JSON.parse(sessionStorage.getItem('test-session')!)).toEqual(validTokens);
+    expect(storage.get()).toEqual(validTokens);
+
+    storage.clear();
+    expect(sessionStorage.getItem('test-session')).toBeNull();
+  });
+
+  it('should store tokens in localStorage', () => {
+    const storage = createTokenStorage('localStorage', 'test-local');
+
+    storage.set(validTokens);
+    expect(storage.get()).toEqual(validTokens);
+    expect(sessionStorage.getItem('test-local')).toBeNull();
+  });
+
+  it('should return null for corrupted entries', () => {
+    localStorage.setItem('test-corrupt', '{not json');
+    expect(createTokenStorage('localStorage', 'test-corrupt').get()).toBeNull();
+  });
+
+  it('should pass custom adapters through', () => {
+    const adapter: TokenStorageAdapter = { get: vi.fn(), set: vi.fn(), clear: vi.fn() };
+    expect(createTokenStorage(adapter, 'ignored')).toBe(adapter);
+  });
+});
+
+describe('isStoredSessionExpired', () => {
+  it('should use the refresh token expiry', () => {
+    expect(isStoredSessionExpired(validTokens)).toBe(false);
+    expect(
+      isStoredSessionExpired({ ...validTokens, refreshToken: createToken({ exp: now - 10 }) })
+    ).toBe(true);
+  });
+
+  it('should fall back to the access token expiry', () => {
+    expect(isStoredSessionExpired({ token: createToken({ exp: now + 60 }) })).toBe(false);
+    expect(isStoredSessionExpired({ token: createToken({ exp: now - 60 }) })).toBe(true);
+  });
+
+  it('should treat refresh tokens without expiry as valid', () => {
+    expect(isStoredSessionExpired({ ...validTokens, refreshToken: createToken({ exp: 0 }) })).toBe(
+      false
+    );
+  });
+
+  it('should treat missing or malformed tokens as expired', () => {
+    expect(isStoredSessionExpired({})).toBe(true);
+    expect(isStoredSessionExpired({ token: 'garbage' })).toBe(true);
+  });
+});
+
+describe('restoreTokens', () => {
+  it('should return valid stored tokens', async () => {
+    const adapter: TokenStorageAdapter = {
+      get: vi.fn().mockResolvedValue(validTokens),
+      set: vi.fn(),
+      clear: vi.fn(),
+    };
+
+    await expect(restoreTokens(adapter)).resolves.toEqual(validTokens);
+    expect(adapter.clear).not.toHaveBeenCalled();
+  });
+
+  it('should clear expired tokens', async () => {
+    const expired = { token: createToken({ exp: now - 60 }) };
+    const adapter: TokenStorageAdapter = {
+      get: vi.fn(() => expired),
+      set: vi.fn(),
+      clear: vi.fn(),
+    };
+
+    await expect(restoreTokens(adapter)).resolves.toBeNull();
+    expect(adapter.clear).toHaveBeenCalled();
+  });
+
+  it('should return null when the adapter fails', async () => {
+    const adapter: TokenStorageAdapter = {
+      get: vi.fn().mockRejectedValue(new Error('unavailable')),
+      set: vi.fn(),
+      clear: vi.fn(),
+    };
+
+    await expect(restoreTokens(adapter)).resolves.toBeNull();
+  });
+});
@@ -1,22 +1,47 @@
 import { describe, it, expect, vi } from 'vitest';
 import { renderHook } from '@testing-library/react';
-import { useAuth, useUser, useKeycloak } from '../auth/KeycloakAuthProvider';
+import { useAuth, useUser, useKeycloak, KeycloakAuthProvider } from '../auth/KeycloakAuthProvider';
 import { AuthContext, type AuthContextValue, type User } from '../auth/AuthContext';
 import type { ReactNode } from 'react';
+import { createAuthEventEmitter } from '../auth/events';
+
+const keycloakConfigs = vi.hoisted(() => [] as Array<{ realm: string }>);
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    constructor(config: { realm: string }) {
+      keycloakConfigs.push(config);
+    }
+    // Keep providers loading - these tests only cover instance lookup
+    init() {
+      return new Promise(() => {});
+    }
+  },
+}));
 
 // Helper to create mock auth context
 function createMockAuthContext(overrides: Partial<AuthContextValue> = {}): AuthContextValue {
   return {
+    status: 'unauthenticated',
     isLoading: false,
+    error: null,
+    retry: vi.fn(),
     isAuthenticated: false,
     user: null,
+    sessionType: null,
     idToken: undefined,
     accessToken: undefined,
     signIn: vi.fn(),
     signOut: vi.fn(),
     signUp: vi.fn(),
+    signInWithTokens: vi.fn(),
     getToken: vi.fn(),
+    exchangeToken: vi.fn(),
+    session: { expiresAt: undefined, reason: undefined, isWarning: false },
+    extendSession: vi.fn(),
+    events: createAuthEventEmitter(),
     keycloak: null,
+    dpop: null,
     ...overrides,
   };
 }
@@ -189,3 +214,47 @@ describe('useKeycloak', () => {
     expect(result.current).toBe(mockKeycloak);
   });
 });
+
+describe('named instances', () => {
+  function Providers({ children }: { children: ReactNode }) {
+    return (
+      <KeycloakAuthProvider name="staff" url="https://kc.example.com" realm="staff" clientId="admin">
+        <KeycloakAuthProvider
+          name="customer"
+          url="https://kc.example.com"
+          realm="customers"
+          clientId="portal"
+        >
+          {children}
+        </KeycloakAuthProvider>
+      </KeycloakAuthProvider>
+    );
+  }
+
+  it('should look up providers by name', () => {
+    const { result } = renderHook(
+      () => ({
+        staff: useAuth('staff'),
+        customer: useAuth('customer'),
+        nearest: useAuth(),
+        customerUser: useUser('customer'),
+      }),
+      { wrapper: Providers }
+    );
+
+    expect(result.current.staff).not.toBe(result.current.customer);
+    expect(result.current.nearest).toBe(result.current.customer);
+    expect(result.current.customerUser).toBeNull();
+    expect(keycloakConfigs.map((config) => config.realm).sort()).toEqual(['customers', 'staff']);
+  });
+
+  it('should throw for an unknown instance name', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => {
+      renderHook(() => useAuth('partner'), { wrapper: Providers });
+    }).toThrow('useAuth: no KeycloakAuthProvider named "partner" was found');
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { useAuthorization } from '../auth/useAuthorization';
+import { hasClientRole, hasRealmRole, hasScope, isInGroup } from '../auth/claims';
+import { AuthContext, type AuthContextValue } from '../auth/AuthContext';
+
+const claims = {
+  azp: 'my-app',
+  scope: 'openid profile invoices:read',
+  realm_access: { roles: ['user', 'offline_access'] },
+  resource_access: {
+    'my-app': { roles: ['editor'] },
+    'billing-api': { roles: ['approver', 'viewer'] },
+  },
+  groups: ['/finance', '/org/engineering'],
+};
+
+function createToken(payload: Record<string, unknown>) {
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+function createWrapper(value: Partial<AuthContextValue>) {
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <AuthContext.Provider value={{ keycloak: null, ...value } as AuthContextValue}>
+        {children}
+      </AuthContext.Provider>
+    );
+  };
+}
+
+describe('claim helpers', () => {
+  it('should check realm roles', () => {
+    expect(hasRealmRole(claims, 'user')).toBe(true);
+    expect(hasRealmRole(claims, 'admin')).toBe(false);
+    expect(hasRealmRole(null, 'user')).toBe(false);
+  });
+
+  it('should check client roles, defaulting to the azp client', () => {
+    expect(hasClientRole(claims, 'editor')).toBe(true);
+    expect(hasClientRole(claims, 'approver')).toBe(false);
+    expect(hasClientRole(claims, 'approver', 'billing-api')).toBe(true);
+    expect(hasClientRole({}, 'editor')).toBe(false);
+  });
+
+  it('should check scopes', () => {
+    expect(hasScope(claims, 'invoices:read')).toBe(true);
+    expect(hasScope(claims, 'invoices')).toBe(false);
+    expect(hasScope({}, 'openid')).toBe(false);
+  });
+
+  it('should check groups with or without a leading slash', () => {
+    expect(isInGroup(claims, 'finance')).toBe(true);
+    expect(isInGroup(claims, '/org/engineering')).toBe(true);
+    expect(isInGroup(claims, '/org')).toBe(false);
+    expect(isInGroup({}, 'finance')).toBe(false);
+  });
+});
+
+describe('useAuthorization', () => {
+  it('should evaluate checks against the access token', () => {
+    const { result } = renderHook(() => useAuthorization(), {
+      wrapper: createWrapper({ accessToken: createToken(claims) }),
+    });
+
+    expect(result.current.hasRole('editor')).toBe(true);
+    expect(result.current.hasRole('approver', { client: 'billing-api' })).toBe(true);
+    expect(result.current.hasRealmRole('offline_access')).toBe(true);
+    expect(result.current.hasScope('profile')).toBe(true);
+    expect(result.current.inGroup('finance')).toBe(true);
+    expect(result.current.hasAnyRole(['admin', 'editor'])).toBe(true);
+    expect(result.current.hasAllRoles({ client: 'billing-api', roles: ['approver', 'viewer'] })).toBe(
+      true
+    );
+    expect(result.current.hasAllRoles({ client: 'billing-api', roles: ['approver', 'admin'] })).toBe(
+      false
+    );
+  });
+
+  it('should delegate role checks to keycloak-js when available', () => {
+    const keycloak = {
+      hasResourceRole: vi.fn(() => true),
+      hasRealmRole: vi.fn(() => true),
+    };
+    const { result } = renderHook(() => useAuthorization(), {
+      wrapper: createWrapper({ keycloak: keycloak as any }),
+    });
+
+    expect(result.current.hasRole('approver', { client: 'billing-api' })).toBe(true);
+    expect(keycloak.hasResourceRole).toHaveBeenCalledWith('approver', 'billing-api');
+    expect(result.current.hasRealmRole('user')).toBe(true);
+  });
+
+  it('should re-evaluate when the access token changes', () => {
+    let value: Partial<AuthContextValue> = { accessToken: createToken({ azp: 'my-app' }) };
+    const { result, rerender } = renderHook(() => useAuthorization(), {
+      wrapper: ({ children }: { children: ReactNode }) => createWrapper(value)({ children }),
+    });
+
+    expect(result.current.hasRole('editor')).toBe(false);
+
+    value = { accessToken: createToken(claims) };
+    rerender();
+
+    expect(result.current.hasRole('editor')).toBe(true);
+  });
+
+  it('should deny everything when not authenticated', () => {
+    const { result } = renderHook(() => useAuthorization(), { wrapper: createWrapper({}) });
+
+    expect(result.current.claims).toBeNull();
+    expect(result.current.hasRole('editor')).toBe(false);
+    expect(result.current.hasAnyRole(['editor'])).toBe(false);
+    expect(result.current.inGroup('finance')).toBe(false);
+  });
+});
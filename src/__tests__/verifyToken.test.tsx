@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import {
+  decodeJwtHeader,
+  decodeJwtPayload,
+  getTokenExpiry,
+  isTokenExpired,
+  verifyToken,
+  TokenVerificationError,
+  type Jwk,
+} from '../auth';
+import { UserAvatar } from '../UserAvatar';
+import { UserButton } from '../UserButton';
+import { base64UrlEncode } from '../auth/pkce';
+import { KeycloakAuthProvider } from '../auth/KeycloakAuthProvider';
+import { createTestToken } from '../testing';
+
+vi.mock('keycloak-js', () => ({
+  default: class {
+    authServerUrl = 'https://kc.example.com';
+    realm = 'myrealm';
+    clientId = 'my-app';
+    init() {
+      return Promise.resolve(false);
+    }
+  },
+}));
+
+const ISSUER = 'https://kc.example.com/realms/myrealm';
+
+type Algorithm = 'RS256' | 'PS256' | 'ES256' | 'EdDSA';
+
+const KEY_PARAMS: Record<
+  Algorithm,
+  {
+    generate: AlgorithmIdentifier | RsaHashedKeyGenParams | EcKeyGenParams;
+    sign: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  }
+> = {
+  RS256: {
+    generate: {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    sign: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  PS256: {
+    generate: {
+      name: 'RSA-PSS',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    sign: { name: 'RSA-PSS', saltLength: 32 },
+  },
+  ES256: {
+    generate: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  EdDSA: { generate: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+};
+
+function encodeJson(value: unknown) {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function createSigner(alg: Algorithm, kid: string = alg) {
+  const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+    KEY_PARAMS[alg].generate,
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+  const jwk: Jwk = { ...(await crypto.subtle.exportKey('jwk', publicKey)), kid };
+  const sign = async (claims: Record<string, unknown> = {}) => {
+    const now = Math.floor(Date.now() / 1000);
+    const input = `${encodeJson({ alg, kid, typ: 'JWT' })}.${encodeJson({
+      iss: ISSUER,
+      aud: 'my-app',
+      sub: 'user-1',
+      exp: now + 300,
+      ...claims,
+    })}`;
+    const signature = await crypto.subtle.sign(
+      KEY_PARAMS[alg].sign,
+      privateKey,
+      new TextEncoder().encode(input)
+    );
+    return `${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+  };
+  return { jwk, sign };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('JWT decoding', () => {
+  it('should decode unpadded base64url with UTF-8 characters', () => {
+    // Multi-byte characters, and a length that base64 would pad
+    const payload = { name: 'Zoë Ångström ~~~?', n: 1 };
+    const token = `${encodeJson({ alg: 'RS256', kid: 'k1' })}.${encodeJson(payload)}.sig`;
+
+    expect(token.split('.')[1]).not.toContain('=');
+    expect(decodeJwtPayload(token)).toEqual(payload);
+    expect(decodeJwtHeader(token)).toEqual({ alg: 'RS256', kid: 'k1' });
+  });
+
+  it('should return null for malformed tokens', () => {
+    expect(decodeJwtHeader('only.two')).toBeNull();
+    expect(decodeJwtPayload(`a.${encodeJson('text')}.c`)).toBeNull();
+  });
+
+  it('should tell when tokens expire', () => {
+    const now = Date.now();
+    const token = createTestToken({}, { expiresIn: 60 });
+
+    expect(getTokenExpiry(token)).toBe(Math.floor(now / 1000 + 60) * 1000);
+    expect(isTokenExpired(token)).toBe(false);
+    expect(isTokenExpired(token, 90)).toBe(true);
+    expect(isTokenExpired(createTestToken({}, { expiresIn: -1 }))).toBe(true);
+    expect(isTokenExpired('malformed')).toBe(true);
+    expect(getTokenExpiry('malformed')).toBeNull();
+  });
+});
+
+describe('verifyToken', () => {
+  it.each<Algorithm>(['RS256', 'PS256', 'ES256', 'EdDSA'])(
+    'should verify %s signatures',
+    async (alg) => {
+      const { jwk, sign } = await createSigner(alg);
+
+      const claims = await verifyToken(await sign(), {
+        keys: [jwk],
+        issuer: ISSUER,
+        audience: 'my-app',
+      });
+
+      expect(claims.sub).toBe('user-1');
+    }
+  );
+
+  it('should reject tokens signed with another key', async () => {
+    const signer = await createSigner('ES256', 'k1');
+    const other = await createSigner('ES256', 'k1');
+
+    const error = await verifyToken(await signer.sign(), { keys: [other.jwk] }).catch(
+      (err: unknown) => err
+    );
+
+    expect(error).toBeInstanceOf(TokenVerificationError);
+    expect(error).toMatchObject({ code: 'invalid_signature' });
+  });
+
+  it('should fetch keys from a JWKS endpoint once', async () => {
+    const { jwk, sign } = await createSigner('RS256', 'rotating-1');
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(() => Promise.resolve(Response.json({ keys: [jwk] })));
+    vi.stubGlobal('fetch', fetchMock);
+    const jwksUri = `${ISSUER}/protocol/openid-connect/certs?test=fetch-once`;
+
+    await verifyToken(await sign(), { jwksUri });
+    await verifyToken(await sign(), { jwksUri });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fetch keys again during the cooldown after a failed fetch', async () => {
+    const { sign } = await createSigner('RS256', 'outage-1');
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(() => Promise.resolve(new Response(null, { status: 503 })));
+    vi.stubGlobal('fetch', fetchMock);
+    const jwksUri = `${ISSUER}/protocol/openid-connect/certs?test=outage`;
+
+    await expect(verifyToken(await sign(), { jwksUri })).rejects.toMatchObject({
+      code: 'jwks_unavailable',
+    });
+    await expect(verifyToken(await sign(), { jwksUri })).rejects.toMatchObject({
+      code: 'jwks_unavailable',
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check the audience and issuer', async () => {
+    const { jwk, sign } = await createSigner('ES256');
+    const token = await sign({ aud: ['account', 'my-app'] });
+
+    await expect(verifyToken(token, { keys: [jwk], audience: 'my-app' })).resolves.toBeTruthy();
+    await expect(verifyToken(token, { keys: [jwk], audience: 'other' })).rejects.toMatchObject({
+      code: 'invalid_audience',
+    });
+    await expect(
+      verifyToken(token, { keys: [jwk], issuer: 'https://evil.example.com' })
+    ).rejects.toMatchObject({
+      code: 'invalid_issuer',
+    });
+  });
+});
+
+describe('verify prop', () => {
+  it('should only show claims of verified tokens in UserAvatar', async () => {
+    const { jwk, sign } = await createSigner('ES256');
+    const forger = await createSigner('ES256');
+
+    render(<UserAvatar token={await sign({ name: 'Ada Lovelace' })} verify={{ keys: [jwk] }} />);
+    render(
+      <UserAvatar token={await forger.sign({ name: 'Mallory Forger' })} verify={{ keys: [jwk] }} />
+    );
+
+    expect(await screen.findByText('AL')).toBeInTheDocument();
+    expect(screen.queryByText('MF')).not.toBeInTheDocument();
+    expect(screen.getByText('?')).toBeInTheDocument();
+  });
+
+  it('should verify with the realm of the provider in UserButton', async () => {
+    const { jwk, sign } = await createSigner('RS256', 'provider-key');
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockImplementation(() => Promise.resolve(Response.json({ keys: [jwk] })))
+    );
+
+    render(
+      <KeycloakAuthProvider
+        url="https://kc.example.com"
+        realm="myrealm"
+        clientId="my-app"
+        syncTabs={false}
+      >
+        <UserButton token={await sign({ given_name: 'Grace', family_name: 'Hopper' })} verify />
+      </KeycloakAuthProvider>
+    );
+
+    expect(await screen.findByText('GH')).toBeInTheDocument();
+    expect(fetch).toHaveBeenCalledWith(
+      'https://kc.example.com/realms/myrealm/protocol/openid-connect/certs',
+      expect.anything()
+    );
+  });
+});
@@ -1,5 +1,24 @@
 import { createContext } from "react";
 import type Keycloak from "keycloak-js";
+import type { Acr } from "keycloak-js";
+import type { ExchangeTokenOptions, ExchangedToken } from "./tokenExchange";
+import type { SessionTimeoutState } from "./sessionTimeout";
+import type { Organization } from "./organizations";
+import type { AuthEventEmitter } from "./events";
+import type { AuthInitError } from "./initError";
+import type { SessionType } from "./offline";
+import type { StoredTokens } from "./tokenStorage";
+import type { DPoP } from "./dpop";
+
+/**
+ * An administrator impersonating the signed-in user.
+ */
+export interface Impersonator {
+  /** The administrator's user ID */
+  id: string;
+  /** The administrator's username */
+  username?: string;
+}
 
 /**
  * User information extracted from the Keycloak token.
@@ -21,49 +40,202 @@ export interface User {
   username?: string;
   /** URL to user's profile picture */
   imageUrl?: string;
+  /**
+   * The administrator impersonating this user, if the session was started
+   * with "Impersonate" in the Keycloak admin console (`impersonator` claim).
+   */
+  impersonator?: Impersonator;
+  /** Organizations the user is a member of (`organization` claim, Keycloak 26+) */
+  organizations?: Organization[];
   /** Raw token claims */
   claims: Record<string, unknown>;
 }
 
-export interface SignInOptions {
-  /** URL to redirect to after sign in */
+/**
+ * How to show the Keycloak login and registration pages:
+ * - `redirect`: navigate the current page to Keycloak and back
+ * - `popup`: open Keycloak in a popup window, keeping the current page and its state
+ */
+export type AuthMode = "redirect" | "popup";
+
+/**
+ * How Keycloak should prompt the user:
+ * - `none`: do not show any page; fail if the user is not signed in
+ * - `login`: always ask for credentials, even with an SSO session
+ * - `consent`: always ask for consent
+ */
+export type Prompt = "none" | "login" | "consent";
+
+/**
+ * Parameters of the authorization request sent to Keycloak.
+ */
+export interface AuthorizationRequestOptions {
+  /** Identity provider alias to sign in with directly (`kc_idp_hint`) */
+  idpHint?: string;
+  /** Username or email to prefill on the login page (`login_hint`) */
+  loginHint?: string;
+  /** Language of the Keycloak pages, e.g. `"de"` (`ui_locales`) */
+  locale?: string;
+  /** How Keycloak should prompt the user (`prompt`) */
+  prompt?: Prompt;
+  /**
+   * Additional scopes to request (space-separated), e.g.
+   * `organization:acme`. `openid` is always included.
+   */
+  scope?: string;
+  /**
+   * Maximum time (in seconds) since the user last authenticated.
+   * Forces re-authentication if exceeded; use `0` to always re-authenticate.
+   */
+  maxAge?: number;
+}
+
+export interface SignInOptions extends AuthorizationRequestOptions {
+  /**
+   * URL to redirect to after sign in.
+   * In popup mode, the URL the popup returns to (defaults to the current URL).
+   */
   redirectUri?: string;
+  /**
+   * Sign in with a full-page redirect or in a popup window.
+   * In popup mode, the returned promise resolves once the user is signed in
+   * and rejects with a `PopupError` if the popup is blocked or closed.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+  /**
+   * Request an authentication level through the `claims` parameter.
+   * Set `essential: true` to make Keycloak fail if it cannot be met.
+   */
+  acr?: Acr;
+  /** Requested authentication levels (`acr_values`), space-separated */
+  acrValues?: string;
 }
 
 export interface SignOutOptions {
   /** URL to redirect to after sign out */
   redirectUri?: string;
+  /**
+   * Whether to send the ID token as `id_token_hint`, or the ID token to
+   * send. Without it, Keycloak asks the user to confirm the sign out.
+   * @default true
+   */
+  idTokenHint?: boolean | string;
+  /**
+   * Opaque value Keycloak appends to the redirect URI as `state`, e.g. to
+   * restore app state after signing out.
+   */
+  postLogoutState?: string;
+  /** Language of the Keycloak logout pages (`ui_locales`) */
+  locale?: string;
+  /**
+   * Revoke the offline token (if the session uses one), so it cannot be
+   * used to restore the session later.
+   * @default true
+   */
+  revokeOfflineToken?: boolean;
 }
 
-export interface SignUpOptions {
-  /** URL to redirect to after sign up */
+export interface SignUpOptions extends AuthorizationRequestOptions {
+  /**
+   * URL to redirect to after sign up.
+   * In popup mode, the URL the popup returns to (defaults to the current URL).
+   */
   redirectUri?: string;
+  /**
+   * Sign up with a full-page redirect or in a popup window.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+}
+
+export interface GetTokenOptions {
+  /**
+   * Minimum validity (in seconds) the returned token must have.
+   * Defaults to the provider's `minValidity`.
+   */
+  minValidity?: number;
+  /** Refresh the token even if it is still valid */
+  forceRefresh?: boolean;
 }
 
+/**
+ * Authentication status:
+ * - `idle`: initialization has not started
+ * - `loading`: keycloak-js is being initialized
+ * - `authenticated` / `unauthenticated`: initialized, with or without a signed-in user
+ * - `error`: initialization failed (see `error`)
+ */
+export type AuthStatus = "idle" | "loading" | "authenticated" | "unauthenticated" | "error";
+
 /**
  * Authentication state and methods provided by KeycloakAuthProvider.
  */
 export interface AuthContextValue {
+  /** Authentication status */
+  status: AuthStatus;
   /** Whether the auth state is still being determined */
   isLoading: boolean;
+  /** Why initialization failed, or null */
+  error: AuthInitError | null;
+  /** Initialize again after an error */
+  retry: () => void;
   /** Whether the user is authenticated */
   isAuthenticated: boolean;
   /** The authenticated user, or null if not authenticated */
   user: User | null;
+  /**
+   * Whether the session is backed by the SSO session (`"online"`) or by an
+   * offline token (`"offline"`), or null if not authenticated
+   */
+  sessionType: SessionType | null;
   /** The raw ID token string */
   idToken: string | undefined;
   /** The raw access token string */
   accessToken: string | undefined;
-  /** Sign in - redirects to Keycloak login */
+  /** Sign in - redirects to Keycloak login, or opens it in a popup */
   signIn: (options?: SignInOptions) => Promise<void>;
   /** Sign out - redirects to Keycloak logout */
   signOut: (options?: SignOutOptions) => Promise<void>;
-  /** Sign up - redirects to Keycloak registration */
+  /** Sign up - redirects to Keycloak registration, or opens it in a popup */
   signUp: (options?: SignUpOptions) => Promise<void>;
-  /** Get a fresh access token */
-  getToken: () => Promise<string | undefined>;
+  /**
+   * Sign in with tokens obtained outside of keycloak-js, e.g. with
+   * `useDeviceAuthorization`.
+   * @throws If keycloak-js is not initialized or the access token is malformed
+   */
+  signInWithTokens: (tokens: StoredTokens) => void;
+  /** Get a fresh access token, refreshing it if it is about to expire */
+  getToken: (options?: GetTokenOptions) => Promise<string | undefined>;
+  /**
+   * Exchange the access token for a token scoped to another audience
+   * (OAuth 2.0 Token Exchange). Results are cached per audience and renewed
+   * when they are about to expire.
+   * Rejects with a `TokenExchangeError` if the exchange fails.
+   */
+  exchangeToken: (options: ExchangeTokenOptions) => Promise<ExchangedToken>;
+  /** When and why the session ends (see `useSessionTimeout`) */
+  session: SessionTimeoutState;
+  /**
+   * Keep the session alive: records activity and forces a token refresh.
+   * Rejects if the tokens cannot be refreshed.
+   */
+  extendSession: () => Promise<void>;
+  /** Auth lifecycle events (see `useAuthEvent`) */
+  events: AuthEventEmitter;
   /** The underlying Keycloak instance (for advanced usage) */
   keycloak: Keycloak | null;
+  /**
+   * DPoP proofs for the access token, when the provider uses `dpop`.
+   * Send DPoP-bound tokens as `Authorization: DPoP` with a proof (e.g. with
+   * `useAuthenticatedFetch`); resource servers reject them as bearer tokens.
+   */
+  dpop: DPoP | null;
 }
 
 export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+/**
+ * Named KeycloakAuthProvider instances in scope, looked up by `useAuth(name)`.
+ */
+export const AuthInstancesContext = createContext<Readonly<Record<string, AuthContextValue>>>({});
@@ -0,0 +1,314 @@
+import {
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  type ReactNode,
+} from "react";
+import {
+  AuthContext,
+  AuthInstancesContext,
+  type User,
+  type AuthContextValue,
+  type SignInOptions,
+  type SignOutOptions,
+  type SignUpOptions,
+  type AuthStatus,
+} from "./AuthContext";
+import {
+  BffError,
+  DEFAULT_BFF_ENDPOINTS,
+  createBffLoginUrl,
+  createBffLogoutUrl,
+  fetchBffSession,
+  type BffEndpoints,
+  type BffSession,
+} from "./bff";
+import { createAuthEventEmitter, type AuthEvent } from "./events";
+import { toAuthInitError, type AuthInitError } from "./initError";
+import type { SessionTimeoutState } from "./sessionTimeout";
+import { TokenExchangeError } from "./tokenExchange";
+
+export interface BffModeProps {
+  /**
+   * Keep tokens on a backend-for-frontend (BFF): the backend signs the user
+   * in and keeps the session in an HTTP-only cookie, and the app reads the
+   * user from the backend. No keycloak-js instance is created and tokens
+   * never reach the browser, so `getToken` resolves with undefined and
+   * `keycloak` is null; send API requests through the backend, with its
+   * cookies.
+   */
+  mode: "bff";
+  /** Name of this instance, for apps using several providers */
+  name?: string;
+  /**
+   * Backend endpoints for the user, sign in and sign out.
+   * @default { user: "/bff/user", login: "/bff/login", logout: "/bff/logout" }
+   */
+  bffEndpoints?: BffEndpoints;
+  /**
+   * Detect when the backend session ends (the user signs out in another tab
+   * or app, or the session expires) by checking the user endpoint. The
+   * session then ends with the `signed_out_elsewhere` reason.
+   * @default false
+   */
+  monitorSession?: boolean;
+  /**
+   * Seconds between session checks when `monitorSession` is enabled.
+   * @default 30
+   */
+  sessionCheckInterval?: number;
+  /** Called when authentication state changes */
+  onAuthStateChange?: (isAuthenticated: boolean, user: User | null) => void;
+  /**
+   * Number of times to retry loading the user when the backend cannot be
+   * reached or responds with a server error, with exponential backoff.
+   * @default 5
+   */
+  maxInitRetries?: number;
+  /**
+   * Delay before the first automatic retry, in milliseconds. Each further
+   * retry waits twice as long.
+   * @default 1000
+   */
+  initRetryDelay?: number;
+  /** Called when the user cannot be loaded, with an `AuthInitError` */
+  onError?: (error: Error) => void;
+  /** Called for every auth lifecycle event */
+  onEvent?: (event: AuthEvent) => void;
+  /** Child components */
+  children: ReactNode;
+}
+
+/** Sessions of the backend have no expiry known to the browser */
+const BFF_SESSION_STATE: SessionTimeoutState = {
+  expiresAt: undefined,
+  reason: undefined,
+  isWarning: false,
+};
+
+/**
+ * `KeycloakAuthProvider` in BFF mode: fills the auth context from the
+ * backend's user endpoint, and signs in and out by navigating to the
+ * backend.
+ */
+export function BffAuthProvider({
+  name,
+  bffEndpoints,
+  monitorSession = false,
+  sessionCheckInterval = 30,
+  maxInitRetries = 5,
+  initRetryDelay = 1000,
+  onAuthStateChange,
+  onError,
+  onEvent,
+  children,
+}: BffModeProps) {
+  const userEndpoint = bffEndpoints?.user ?? DEFAULT_BFF_ENDPOINTS.user;
+  const loginEndpoint = bffEndpoints?.login ?? DEFAULT_BFF_ENDPOINTS.login;
+  const logoutEndpoint = bffEndpoints?.logout ?? DEFAULT_BFF_ENDPOINTS.logout;
+  const [initStatus, setInitStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [error, setError] = useState<AuthInitError | null>(null);
+  const [initAttempt, setInitAttempt] = useState(0);
+  const [session, setSession] = useState<BffSession | null>(null);
+  const [events] = useState(createAuthEventEmitter);
+  const initRetriesRef = useRef(0);
+
+  // Store callbacks in refs to avoid re-running effects when they change
+  const onAuthStateChangeRef = useRef(onAuthStateChange);
+  const onErrorRef = useRef(onError);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onAuthStateChangeRef.current = onAuthStateChange;
+    onErrorRef.current = onError;
+    onEventRef.current = onEvent;
+  }, [onAuthStateChange, onError, onEvent]);
+
+  useEffect(() => events.on("*", (event) => onEventRef.current?.(event)), [events]);
+
+  // Load the user from the backend
+  useEffect(() => {
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    setInitStatus((status) => (status === "idle" ? "loading" : status));
+    const initStart = Date.now();
+    events.emit("init:start", {});
+
+    fetchBffSession(userEndpoint)
+      .then((result) => {
+        if (cancelled) return;
+        events.emit("init:success", {
+          authenticated: !!result,
+          duration: Date.now() - initStart,
+        });
+        initRetriesRef.current = 0;
+        setSession(result);
+        setError(null);
+        setInitStatus("ready");
+        onAuthStateChangeRef.current?.(!!result, result?.user ?? null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("BFF user error:", error);
+        const authError = toAuthInitError(error);
+        const willRetry = authError.isRetryable && initRetriesRef.current < maxInitRetries;
+        setError(authError);
+        setInitStatus("error");
+        events.emit("init:error", { error: authError, willRetry });
+        onErrorRef.current?.(authError);
+        if (willRetry) {
+          const delay = initRetryDelay * 2 ** initRetriesRef.current;
+          initRetriesRef.current += 1;
+          retryTimer = setTimeout(() => setInitAttempt((n) => n + 1), delay);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+    };
+  }, [initAttempt, userEndpoint, maxInitRetries, initRetryDelay, events]);
+
+  const endSession = useCallback(() => {
+    events.emit("session:ended", { reason: "signed_out_elsewhere" });
+    setSession(null);
+    onAuthStateChangeRef.current?.(false, null);
+  }, [events]);
+
+  // Check the backend session while signed in
+  const isAuthenticated = !!session;
+  useEffect(() => {
+    if (!monitorSession || !isAuthenticated) return;
+    let stopped = false;
+    const timer = setInterval(() => {
+      if (document.visibilityState === "hidden") return;
+      fetchBffSession(userEndpoint).then(
+        (current) => {
+          if (!stopped && !current) endSession();
+        },
+        () => {
+          // The backend is unreachable - check again later
+        }
+      );
+    }, sessionCheckInterval * 1000);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [monitorSession, isAuthenticated, sessionCheckInterval, userEndpoint, endSession]);
+
+  const retry = useCallback(() => {
+    initRetriesRef.current = 0;
+    setInitStatus("loading");
+    setInitAttempt((n) => n + 1);
+  }, []);
+
+  // The backend signs in with redirects, so there is no popup to sign in with
+  const signIn = useCallback(async (options: SignInOptions = {}) => {
+    if (options.mode === "popup") {
+      throw new Error(
+        "Cannot sign in with a popup in BFF mode: the backend signs in with redirects"
+      );
+    }
+    events.emit("signin:redirect", { action: "login", idpHint: options.idpHint });
+    window.location.assign(createBffLoginUrl(loginEndpoint, options));
+  }, [events, loginEndpoint]);
+
+  // Asks the backend to start with the registration form
+  const signUp = useCallback(async (options: SignUpOptions = {}) => {
+    if (options.mode === "popup") {
+      throw new Error(
+        "Cannot sign up with a popup in BFF mode: the backend signs in with redirects"
+      );
+    }
+    events.emit("signin:redirect", { action: "register", idpHint: options.idpHint });
+    window.location.assign(createBffLoginUrl(loginEndpoint, { ...options, prompt: "create" }));
+  }, [events, loginEndpoint]);
+
+  const signOut = useCallback(async (options: SignOutOptions = {}) => {
+    const redirectUri = options.redirectUri || window.location.origin;
+    events.emit("signout", { redirectUri });
+    window.location.assign(
+      createBffLogoutUrl(session?.logoutUrl ?? logoutEndpoint, { redirectUri })
+    );
+  }, [events, session, logoutEndpoint]);
+
+  // Tokens only exist on the backend
+  const signInWithTokens = useCallback(() => {
+    throw new Error("Cannot sign in with tokens in BFF mode: the backend keeps the tokens");
+  }, []);
+  const getToken = useCallback(async () => undefined, []);
+  const exchangeToken = useCallback(async () => {
+    throw new TokenExchangeError("Token exchange is not available in BFF mode");
+  }, []);
+
+  // Requesting the user keeps sliding backend sessions alive
+  const extendSession = useCallback(async () => {
+    const current = await fetchBffSession(userEndpoint);
+    if (!current) {
+      endSession();
+      throw new BffError("The session has ended", 401);
+    }
+  }, [userEndpoint, endSession]);
+
+  const isLoading = initStatus === "idle" || initStatus === "loading";
+  const status: AuthStatus =
+    initStatus === "ready" ? (isAuthenticated ? "authenticated" : "unauthenticated") : initStatus;
+  const user = session?.user ?? null;
+
+  const value = useMemo<AuthContextValue>(() => ({
+    status,
+    isLoading,
+    error,
+    retry,
+    isAuthenticated,
+    user,
+    sessionType: isAuthenticated ? "online" : null,
+    idToken: undefined,
+    accessToken: undefined,
+    signIn,
+    signOut,
+    signUp,
+    signInWithTokens,
+    getToken,
+    exchangeToken,
+    session: BFF_SESSION_STATE,
+    extendSession,
+    events,
+    keycloak: null,
+    dpop: null,
+  }), [
+    status,
+    isLoading,
+    error,
+    retry,
+    isAuthenticated,
+    user,
+    signIn,
+    signOut,
+    signUp,
+    signInWithTokens,
+    getToken,
+    exchangeToken,
+    extendSession,
+    events,
+  ]);
+
+  // Register named instances alongside those of enclosing providers
+  const parentInstances = useContext(AuthInstancesContext);
+  const instances = useMemo(
+    () => (name ? { ...parentInstances, [name]: value } : parentInstances),
+    [name, parentInstances, value]
+  );
+
+  return (
+    <AuthInstancesContext.Provider value={instances}>
+      <AuthContext.Provider value={value}>
+        {children}
+      </AuthContext.Provider>
+    </AuthInstancesContext.Provider>
+  );
+}
@@ -1,7 +1,27 @@
 import { type ReactNode, type ButtonHTMLAttributes } from "react";
 import { useAuth } from "./KeycloakAuthProvider";
+import type { AuthMode, AuthorizationRequestOptions, SignOutOptions } from "./AuthContext";
+import { PopupClosedError } from "./popup";
 
-export interface SignInButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick'> {
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Report a failed sign in or sign up to `onError`, or else to the console,
+ * except when the user closed the popup.
+ */
+function reportFailure(action: string, onError?: (error: Error) => void) {
+  return (error: unknown) => {
+    if (onError) {
+      onError(toError(error));
+    } else if (!(error instanceof PopupClosedError)) {
+      console.error(`${action} failed:`, error);
+    }
+  };
+}
+
+export interface SignInButtonProps
+  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick' | 'onError'>,
+    AuthorizationRequestOptions {
   /** 
    * Button content. Defaults to "Sign in".
    */
@@ -10,10 +30,22 @@ export interface SignInButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonE
    * URL to redirect to after sign in.
    */
   redirectUri?: string;
+  /**
+   * Sign in with a full-page redirect or in a popup window.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
   /**
    * Render as a different element (render prop pattern).
    */
   asChild?: boolean;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Called when signing in fails (e.g. the popup is blocked or closed).
+   * Without it, failures are logged to the console, except closing the popup.
+   */
+  onError?: (error: Error) => void;
 }
 
 /**
@@ -29,17 +61,33 @@ export interface SignInButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonE
  *
  * // With redirect
  * <SignInButton redirectUri="/dashboard">Sign In</SignInButton>
+ *
+ * // In a popup, keeping the current page state
+ * <SignInButton mode="popup" />
+ *
+ * // Straight to an identity provider, with the email prefilled
+ * <SignInButton idpHint="github" loginHint={email} />
  * ```
  */
 export function SignInButton({ 
   children = "Sign in", 
   redirectUri,
+  mode,
+  instance,
+  idpHint,
+  loginHint,
+  locale,
+  prompt,
+  scope,
+  maxAge,
+  onError,
   ...props 
 }: SignInButtonProps) {
-  const { signIn } = useAuth();
+  const { signIn } = useAuth(instance);
 
   const handleClick = () => {
-    signIn({ redirectUri });
+    const options = { redirectUri, mode, idpHint, loginHint, locale, prompt, scope, maxAge };
+    signIn(options).catch(reportFailure("Sign in", onError));
   };
 
   return (
@@ -51,7 +99,9 @@ export function SignInButton({
 
 SignInButton.displayName = "SignInButton";
 
-export interface SignUpButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick'> {
+export interface SignUpButtonProps
+  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick' | 'onError'>,
+    AuthorizationRequestOptions {
   /** 
    * Button content. Defaults to "Sign up".
    */
@@ -60,6 +110,18 @@ export interface SignUpButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonE
    * URL to redirect to after sign up.
    */
   redirectUri?: string;
+  /**
+   * Sign up with a full-page redirect or in a popup window.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+  /**
+   * Called when signing up fails (e.g. the popup is blocked or closed).
+   * Without it, failures are logged to the console, except closing the popup.
+   */
+  onError?: (error: Error) => void;
 }
 
 /**
@@ -68,17 +130,30 @@ export interface SignUpButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonE
  * @example
  * ```tsx
  * <SignUpButton>Create an account</SignUpButton>
+ *
+ * // With the email prefilled and the registration page in German
+ * <SignUpButton loginHint={email} locale="de" />
  * ```
  */
 export function SignUpButton({ 
   children = "Sign up", 
   redirectUri,
+  mode,
+  instance,
+  idpHint,
+  loginHint,
+  locale,
+  prompt,
+  scope,
+  maxAge,
+  onError,
   ...props 
 }: SignUpButtonProps) {
-  const { signUp } = useAuth();
+  const { signUp } = useAuth(instance);
 
   const handleClick = () => {
-    signUp({ redirectUri });
+    const options = { redirectUri, mode, idpHint, loginHint, locale, prompt, scope, maxAge };
+    signUp(options).catch(reportFailure("Sign up", onError));
   };
 
   return (
@@ -90,7 +165,9 @@ export function SignUpButton({
 
 SignUpButton.displayName = "SignUpButton";
 
-export interface SignOutButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick'> {
+export interface SignOutButtonProps
+  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick'>,
+    Pick<SignOutOptions, "idTokenHint" | "postLogoutState" | "locale" | "revokeOfflineToken"> {
   /** 
    * Button content. Defaults to "Sign out".
    */
@@ -99,6 +176,8 @@ export interface SignOutButtonProps extends Omit<ButtonHTMLAttributes<HTMLButton
    * URL to redirect to after sign out.
    */
   redirectUri?: string;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
 }
 
 /**
@@ -112,12 +191,17 @@ export interface SignOutButtonProps extends Omit<ButtonHTMLAttributes<HTMLButton
 export function SignOutButton({ 
   children = "Sign out", 
   redirectUri,
+  instance,
+  idTokenHint,
+  postLogoutState,
+  locale,
+  revokeOfflineToken,
   ...props 
 }: SignOutButtonProps) {
-  const { signOut } = useAuth();
+  const { signOut } = useAuth(instance);
 
   const handleClick = () => {
-    signOut({ redirectUri });
+    signOut({ redirectUri, idTokenHint, postLogoutState, locale, revokeOfflineToken });
   };
 
   return (
@@ -1,5 +1,11 @@
-import { type ReactNode, useEffect } from "react";
+import { type ReactNode, useEffect, useRef } from "react";
 import { useAuth } from "./KeycloakAuthProvider";
+import { useAuthorization, type RoleRequirement } from "./useAuthorization";
+import { usePermissions } from "./usePermissions";
+import { useStepUp } from "./useStepUp";
+import { useOrganization } from "./useOrganization";
+import type { AuthorizationRequestOptions } from "./AuthContext";
+import type { AuthInitError } from "./initError";
 
 export interface SignedInProps {
   /** Content to render when the user is signed in */
@@ -9,6 +15,8 @@ export interface SignedInProps {
    * If not provided, nothing is rendered during loading.
    */
   fallback?: ReactNode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
 }
 
 /**
@@ -22,8 +30,8 @@ export interface SignedInProps {
  * </SignedIn>
  * ```
  */
-export function SignedIn({ children, fallback }: SignedInProps) {
-  const { isLoading, isAuthenticated } = useAuth();
+export function SignedIn({ children, fallback, instance }: SignedInProps) {
+  const { isLoading, isAuthenticated } = useAuth(instance);
 
   if (isLoading) {
     return fallback ? <>{fallback}</> : null;
@@ -46,10 +54,13 @@ export interface SignedOutProps {
    * If not provided, nothing is rendered during loading.
    */
   fallback?: ReactNode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
 }
 
 /**
- * Renders its children only when the user is signed out.
+ * Renders its children only when the user is signed out. Nothing is
+ * rendered when initialization failed (see `AuthError`).
  *
  * @example
  * ```tsx
@@ -59,14 +70,14 @@ export interface SignedOutProps {
  * </SignedOut>
  * ```
  */
-export function SignedOut({ children, fallback }: SignedOutProps) {
-  const { isLoading, isAuthenticated } = useAuth();
+export function SignedOut({ children, fallback, instance }: SignedOutProps) {
+  const { status, isLoading, isAuthenticated } = useAuth(instance);
 
   if (isLoading) {
     return fallback ? <>{fallback}</> : null;
   }
 
-  if (isAuthenticated) {
+  if (isAuthenticated || status === "error") {
     return null;
   }
 
@@ -75,9 +86,75 @@ export function SignedOut({ children, fallback }: SignedOutProps) {
 
 SignedOut.displayName = "SignedOut";
 
-export interface RedirectToSignInProps {
+export interface AuthLoadingProps {
+  /** Content to render while the auth state is being determined */
+  children: ReactNode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+}
+
+/**
+ * Renders its children while the auth state is being determined.
+ *
+ * @example
+ * ```tsx
+ * <AuthLoading>
+ *   <Spinner />
+ * </AuthLoading>
+ * ```
+ */
+export function AuthLoading({ children, instance }: AuthLoadingProps) {
+  const { isLoading } = useAuth(instance);
+
+  return isLoading ? <>{children}</> : null;
+}
+
+AuthLoading.displayName = "AuthLoading";
+
+export interface AuthErrorProps {
+  /**
+   * Content to render when initialization failed, or a function receiving
+   * the error and a `retry` callback.
+   */
+  children: ReactNode | ((props: { error: AuthInitError; retry: () => void }) => ReactNode);
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+}
+
+/**
+ * Renders its children when Keycloak could not be initialized (server
+ * unreachable, blocked by the browser, misconfigured...). Network and server
+ * errors are retried automatically in the background.
+ *
+ * @example
+ * ```tsx
+ * <AuthError>
+ *   {({ error, retry }) => (
+ *     <Alert title="Sign-in is unavailable">
+ *       {error.type === "network" ? "Check your connection." : error.message}
+ *       <Button onClick={retry}>Try again</Button>
+ *     </Alert>
+ *   )}
+ * </AuthError>
+ * ```
+ */
+export function AuthError({ children, instance }: AuthErrorProps) {
+  const { status, error, retry } = useAuth(instance);
+
+  if (status !== "error" || !error) {
+    return null;
+  }
+
+  return <>{typeof children === "function" ? children({ error, retry }) : children}</>;
+}
+
+AuthError.displayName = "AuthError";
+
+export interface RedirectToSignInProps extends AuthorizationRequestOptions {
   /** URL to redirect to after sign in (defaults to current URL) */
   returnUrl?: string;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
 }
 
 /**
@@ -95,25 +172,50 @@ export interface RedirectToSignInProps {
  *   
  *   return <div>Protected content</div>;
  * }
+ *
+ * // Straight to an identity provider
+ * <RedirectToSignIn idpHint="github" />
  * ```
  */
-export function RedirectToSignIn({ returnUrl }: RedirectToSignInProps) {
-  const { isLoading, isAuthenticated, signIn } = useAuth();
+export function RedirectToSignIn({
+  returnUrl,
+  instance,
+  idpHint,
+  loginHint,
+  locale,
+  prompt,
+  scope,
+  maxAge,
+}: RedirectToSignInProps) {
+  const { isLoading, isAuthenticated, signIn } = useAuth(instance);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
-      signIn({ redirectUri: returnUrl });
+      signIn({ redirectUri: returnUrl, idpHint, loginHint, locale, prompt, scope, maxAge });
     }
-  }, [isLoading, isAuthenticated, signIn, returnUrl]);
+  }, [
+    isLoading,
+    isAuthenticated,
+    signIn,
+    returnUrl,
+    idpHint,
+    loginHint,
+    locale,
+    prompt,
+    scope,
+    maxAge,
+  ]);
 
   return null;
 }
 
 RedirectToSignIn.displayName = "RedirectToSignIn";
 
-export interface RedirectToSignUpProps {
+export interface RedirectToSignUpProps extends AuthorizationRequestOptions {
   /** URL to redirect to after sign up (defaults to current URL) */
   returnUrl?: string;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
 }
 
 /**
@@ -124,14 +226,34 @@ export interface RedirectToSignUpProps {
  * <RedirectToSignUp returnUrl="/welcome" />
  * ```
  */
-export function RedirectToSignUp({ returnUrl }: RedirectToSignUpProps) {
-  const { isLoading, isAuthenticated, signUp } = useAuth();
+export function RedirectToSignUp({
+  returnUrl,
+  instance,
+  idpHint,
+  loginHint,
+  locale,
+  prompt,
+  scope,
+  maxAge,
+}: RedirectToSignUpProps) {
+  const { isLoading, isAuthenticated, signUp } = useAuth(instance);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
-      signUp({ redirectUri: returnUrl });
+      signUp({ redirectUri: returnUrl, idpHint, loginHint, locale, prompt, scope, maxAge });
     }
-  }, [isLoading, isAuthenticated, signUp, returnUrl]);
+  }, [
+    isLoading,
+    isAuthenticated,
+    signUp,
+    returnUrl,
+    idpHint,
+    loginHint,
+    locale,
+    prompt,
+    scope,
+    maxAge,
+  ]);
 
   return null;
 }
@@ -153,12 +275,26 @@ export interface ProtectProps {
   loading?: ReactNode;
   /**
    * Required roles. User must have at least one of these roles.
+   * Pass `{ client, roles }` to check roles of another client
+   * (e.g. a backend API client) instead of the current one.
    */
-  roles?: string[];
+  roles?: RoleRequirement;
   /**
    * Required realm roles. User must have at least one of these realm roles.
    */
   realmRoles?: string[];
+  /**
+   * Required active organization: an organization alias, or `true` for any
+   * organization (Keycloak 26+).
+   */
+  organization?: string | boolean;
+  /**
+   * Required organization roles. User must have at least one of these roles
+   * within the active organization.
+   */
+  organizationRoles?: string[];
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
 }
 
 /**
@@ -181,6 +317,21 @@ export interface ProtectProps {
  * <Protect roles={['admin']}>
  *   <AdminPanel />
  * </Protect>
+ *
+ * // With roles of another client
+ * <Protect roles={{ client: 'billing-api', roles: ['approver'] }}>
+ *   <ApproveButton />
+ * </Protect>
+ *
+ * // With a role within the active organization
+ * <Protect organization="acme" organizationRoles={['billing-admin']}>
+ *   <BillingSettings />
+ * </Protect>
+ *
+ * // With a named provider instance
+ * <Protect instance="staff" realmRoles={['admin']}>
+ *   <AdminPanel />
+ * </Protect>
  * ```
  */
 export function Protect({ 
@@ -189,8 +340,14 @@ export function Protect({
   loading,
   roles,
   realmRoles,
+  organization,
+  organizationRoles,
+  instance,
 }: ProtectProps) {
-  const { isLoading, isAuthenticated, signIn, keycloak } = useAuth();
+  const { isLoading, isAuthenticated, signIn } = useAuth(instance);
+  const { hasAnyRole, hasRealmRole } = useAuthorization(instance);
+  const { organization: activeOrganization, hasRole: hasOrganizationRole } =
+    useOrganization(instance);
 
   if (isLoading) {
     return loading ? <>{loading}</> : null;
@@ -209,22 +366,178 @@ export function Protect({
   }
 
   // Check roles if specified
-  if (roles && roles.length > 0 && keycloak) {
-    const hasRole = roles.some(role => keycloak.hasResourceRole(role));
-    if (!hasRole) {
-      return null; // User doesn't have required role
-    }
+  const requiredRoles = Array.isArray(roles) ? roles : roles?.roles;
+  if (roles && requiredRoles && requiredRoles.length > 0 && !hasAnyRole(roles)) {
+    return null; // User doesn't have required role
   }
 
   // Check realm roles if specified
-  if (realmRoles && realmRoles.length > 0 && keycloak) {
-    const hasRealmRole = realmRoles.some(role => keycloak.hasRealmRole(role));
-    if (!hasRealmRole) {
-      return null; // User doesn't have required realm role
-    }
+  if (realmRoles && realmRoles.length > 0 && !realmRoles.some(hasRealmRole)) {
+    return null; // User doesn't have required realm role
+  }
+
+  // Check the active organization if specified
+  if (
+    (organization === true && !activeOrganization) ||
+    (typeof organization === "string" && activeOrganization?.alias !== organization)
+  ) {
+    return null; // Required organization is not active
+  }
+
+  // Check organization roles if specified
+  if (
+    organizationRoles &&
+    organizationRoles.length > 0 &&
+    !organizationRoles.some(hasOrganizationRole)
+  ) {
+    return null; // User doesn't have required organization role
   }
 
   return <>{children}</>;
 }
 
 Protect.displayName = "Protect";
+
+export interface PermissionProps {
+  /** Content to render when the permission is granted */
+  children: ReactNode;
+  /** Resource name or ID */
+  resource: string;
+  /** Required scope on the resource. If omitted, any permission on the resource is enough. */
+  scope?: string;
+  /**
+   * Client ID of the resource server.
+   * Defaults to the current client.
+   */
+  audience?: string;
+  /**
+   * What to render when the permission is not granted.
+   */
+  fallback?: ReactNode;
+  /**
+   * What to render while permissions are being evaluated.
+   */
+  loading?: ReactNode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+}
+
+/**
+ * Renders its children only when Keycloak Authorization Services grant the
+ * user a permission on a resource.
+ *
+ * @example
+ * ```tsx
+ * <Permission resource="invoice" scope="approve" audience="billing-api">
+ *   <ApproveButton />
+ * </Permission>
+ * ```
+ */
+export function Permission({
+  children,
+  resource,
+  scope,
+  audience,
+  fallback,
+  loading,
+  instance,
+}: PermissionProps) {
+  const { isLoading: isAuthLoading, isAuthenticated } = useAuth(instance);
+  const { isLoading, can } = usePermissions({ audience, instance });
+
+  if (isAuthLoading || (isAuthenticated && isLoading)) {
+    return loading ? <>{loading}</> : null;
+  }
+
+  if (!isAuthenticated || !can(resource, scope)) {
+    return fallback ? <>{fallback}</> : null;
+  }
+
+  return <>{children}</>;
+}
+
+Permission.displayName = "Permission";
+
+export interface RequireAcrProps {
+  /** Content to render when the user is authenticated at the required level */
+  children: ReactNode;
+  /** Required authentication level (`acr` value) */
+  level: string;
+  /**
+   * Known authentication levels, ordered from lowest to highest.
+   * Allows a higher level (e.g. `gold`) to satisfy a lower one (e.g. `silver`).
+   */
+  levels?: string[];
+  /** Maximum time (in seconds) since the user last authenticated */
+  maxAge?: number;
+  /**
+   * What to render when the level is not met.
+   * Can be a ReactNode or a function that receives stepUp.
+   * @default Re-authenticates at the required level
+   */
+  fallback?: ReactNode | ((stepUp: () => void) => ReactNode);
+  /**
+   * What to render while checking authentication status.
+   */
+  loading?: ReactNode;
+  /** Name of the KeycloakAuthProvider instance to use (defaults to the nearest one) */
+  instance?: string;
+}
+
+/**
+ * Shows content only when the user authenticated at a required level,
+ * re-authenticating them (and returning to the same screen) otherwise.
+ *
+ * @example
+ * ```tsx
+ * <RequireAcr level="gold" levels={["silver", "gold"]}>
+ *   <TransferFunds />
+ * </RequireAcr>
+ *
+ * // With a prompt instead of an immediate redirect
+ * <RequireAcr
+ *   level="gold"
+ *   fallback={(stepUp) => <button onClick={stepUp}>Verify your identity</button>}
+ * >
+ *   <TransferFunds />
+ * </RequireAcr>
+ * ```
+ */
+export function RequireAcr({
+  children,
+  level,
+  levels,
+  maxAge,
+  fallback,
+  loading,
+  instance,
+}: RequireAcrProps) {
+  const { isLoading, isAuthenticated } = useAuth(instance);
+  const { satisfies, stepUp } = useStepUp({ levels, instance });
+  const isSatisfied = isAuthenticated && satisfies(level, { maxAge });
+  const shouldRedirect = !isLoading && !isSatisfied && fallback === undefined;
+
+  // Only redirect once per mount to avoid loops if the level cannot be met
+  const redirectedRef = useRef(false);
+  useEffect(() => {
+    if (shouldRedirect && !redirectedRef.current) {
+      redirectedRef.current = true;
+      stepUp(level, { maxAge });
+    }
+  }, [shouldRedirect, stepUp, level, maxAge]);
+
+  if (isLoading) {
+    return loading ? <>{loading}</> : null;
+  }
+
+  if (!isSatisfied) {
+    if (typeof fallback === "function") {
+      return <>{fallback(() => stepUp(level, { maxAge }))}</>;
+    }
+    return fallback ? <>{fallback}</> : null;
+  }
+
+  return <>{children}</>;
+}
+
+RequireAcr.displayName = "RequireAcr";
@@ -10,17 +10,113 @@ import {
 import Keycloak, { type KeycloakConfig, type KeycloakInitOptions } from "keycloak-js";
 import {
   AuthContext,
+  AuthInstancesContext,
   type User,
   type AuthContextValue,
+  type Impersonator,
   type SignInOptions,
   type SignOutOptions,
   type SignUpOptions,
+  type GetTokenOptions,
+  type AuthMode,
+  type AuthorizationRequestOptions,
+  type Prompt,
+  type AuthStatus,
 } from "./AuthContext";
+import {
+  createTokenRefresher,
+  isRefreshTokenRejected,
+  type TokenRefresher,
+} from "./tokenRefresh";
+import {
+  createSessionChannel,
+  getSessionTokens,
+  applySessionTokens,
+  type SessionChannel,
+  type SessionSyncMessage,
+  type SessionSyncTokens,
+} from "./sessionSync";
+import {
+  createTokenStorage,
+  restoreTokens,
+  type TokenStorage,
+  type TokenStorageAdapter,
+  type StoredTokens,
+} from "./tokenStorage";
+import { authorizeWithPopup, handlePopupCallback } from "./popup";
+import {
+  getRedirectCallbackOwner,
+  releaseRedirectCallback,
+  setRedirectCallbackOwner,
+  waitForRedirectCallback,
+} from "./redirectCallback";
+import {
+  getKeycloakTokenEndpoint,
+  getRealmUrl,
+  getRevocationEndpoint,
+  getTokenEndpoint,
+} from "./endpoints";
+import { BffAuthProvider, type BffModeProps } from "./BffAuthProvider";
+import { createAuthEventEmitter, type AuthEvent } from "./events";
+import { diagnoseInitError, type AuthInitError } from "./initError";
+import { getUserFromClaims } from "./user";
+import { fetchServerSession, type AuthSession } from "./authSession";
+import {
+  OfflineTokenError,
+  createIndexedDBOfflineTokenStore,
+  isOfflineToken,
+  refreshOfflineSession,
+  revokeToken,
+  withOfflineAccessScope,
+  type OfflineTokenStore,
+  type SessionType,
+} from "./offline";
+import { createSessionTimeout, type SessionTimeout, type SessionTimeoutState } from "./sessionTimeout";
+import { createSessionMonitor, type SessionMonitor, type SessionProbe } from "./sessionMonitor";
+import {
+  createDPoP,
+  createIndexedDBDPoPKeyStore,
+  interceptDPoPRequests,
+  type DPoP,
+  type DPoPKeyStore,
+} from "./dpop";
+import {
+  createTokenExchangeCache,
+  requestTokenExchange,
+  TokenExchangeError,
+  type ExchangeTokenOptions,
+} from "./tokenExchange";
+
+export type { BffModeProps };
 
 // Re-export types from AuthContext
-export type { User, AuthContextValue, SignInOptions, SignOutOptions, SignUpOptions };
+export type {
+  User,
+  Impersonator,
+  AuthContextValue,
+  SignInOptions,
+  SignOutOptions,
+  SignUpOptions,
+  GetTokenOptions,
+  AuthMode,
+  AuthorizationRequestOptions,
+  Prompt,
+  AuthStatus,
+};
 
-export interface KeycloakAuthProviderProps {
+export interface KeycloakModeProps {
+  /**
+   * Sign in with keycloak-js in the browser (the default), or keep tokens
+   * on a backend-for-frontend with `"bff"` (see `BffModeProps`).
+   */
+  mode?: "keycloak";
+  /**
+   * Name of this instance, for apps using several providers (e.g. one per
+   * realm). Named instances can be looked up with `useAuth(name)` and the
+   * `instance` prop of control components, and keep their tokens and tab
+   * synchronization separate from other instances.
+   */
+  name?: string;
   /** Keycloak server URL */
   url: string;
   /** Realm name */
@@ -34,95 +130,346 @@ export interface KeycloakAuthProviderProps {
    * @default { pkceMethod: 'S256' }
    */
   initOptions?: KeycloakInitOptions;
+  /**
+   * Session established on the server (e.g. with `auth()` from
+   * `keycloak-react/nextjs`), or null when the server found no session.
+   * The auth state is available on the first render - also when rendering
+   * on the server - so hydration shows no loading state. The server keeps
+   * the refresh token, and the session is renewed through `sessionEndpoint`.
+   */
+  initialSession?: AuthSession | null;
+  /**
+   * Endpoint of the server renewing the `initialSession` (`{basePath}/session`
+   * of `keycloak-react/nextjs`). It refreshes the tokens with the refresh
+   * token it keeps in its cookie, and updates the cookie.
+   * @default "/api/auth/session"
+   */
+  sessionEndpoint?: string;
+  /**
+   * Automatically refresh the access token before it expires.
+   * Refreshes are paused while the tab is hidden and caught up when it
+   * becomes visible again.
+   * @default true
+   */
+  autoRefresh?: boolean;
+  /**
+   * Minimum validity (in seconds) the access token must have.
+   * Tokens are refreshed this many seconds before they expire, and
+   * `getToken()` refreshes tokens that expire within this window.
+   * @default 30
+   */
+  minValidity?: number;
+  /**
+   * Synchronize auth state between tabs of the same app.
+   * Sign-in, sign-out, token refreshes and user changes are broadcast over a
+   * BroadcastChannel (with a `storage` event fallback), so all tabs update
+   * together and refreshed tokens are shared instead of each tab refreshing
+   * on its own. Only one tab refreshes at a time (Web Locks API). The
+   * fallback carries no tokens: tabs read them from `tokenStorage`, so with
+   * tab-private storage they refresh on their own, and a tab that cannot get
+   * the tokens of a new user signs out.
+   * @default true
+   */
+  syncTabs?: boolean;
+  /**
+   * Where to keep tokens between page loads: `"memory"`, `"sessionStorage"`,
+   * `"localStorage"` or a custom `{ get, set, clear }` adapter.
+   * Stored tokens are restored on init (if not expired), avoiding a
+   * check-sso round trip or redirect, and are cleared on sign out.
+   * @default "memory"
+   */
+  tokenStorage?: TokenStorage;
+  /**
+   * Request an offline token (`offline_access` scope) on sign in, and keep
+   * it in `offlineTokenStore` to restore the session after the SSO session
+   * has ended (e.g. after a browser restart). The login iframe check is
+   * disabled by default, as offline sessions have no SSO session to check.
+   * The offline token is revoked on sign out.
+   * @default false
+   */
+  offlineAccess?: boolean;
+  /**
+   * Where to keep the offline token when `offlineAccess` is enabled.
+   * Defaults to IndexedDB, encrypted with a non-extractable key (see
+   * `createIndexedDBOfflineTokenStore`).
+   */
+  offlineTokenStore?: OfflineTokenStore;
+  /**
+   * Bind tokens to a key pair of the browser with DPoP (RFC 9449, Keycloak
+   * 26+), so stolen tokens cannot be used elsewhere. Token requests carry a
+   * proof signed with the key pair, and `useAuthenticatedFetch` sends the
+   * access token with a proof for each request. Resource servers must
+   * accept `Authorization: DPoP`.
+   * @default false
+   */
+  dpop?: boolean;
+  /**
+   * Where to keep the DPoP key pair when `dpop` is enabled. Defaults to
+   * IndexedDB, with a non-extractable private key (see
+   * `createIndexedDBDPoPKeyStore`).
+   */
+  dpopKeyStore?: DPoPKeyStore;
+  /**
+   * Sign the user out after this many seconds without activity (pointer,
+   * keyboard or scroll events in any tab of the app).
+   * Use `SessionTimeoutWarning` or `useSessionTimeout` to warn users first.
+   */
+  idleTimeout?: number;
+  /**
+   * The realm's SSO Session Max lifespan in seconds. Keycloak does not
+   * expose it to clients; set it to warn users before their session reaches
+   * its maximum lifespan. The refresh token expiry is used otherwise.
+   */
+  sessionMaxLifespan?: number;
+  /**
+   * Seconds before the session ends at which the session timeout warning
+   * starts.
+   * @default 60
+   */
+  sessionWarningTime?: number;
+  /**
+   * Detect when the SSO session is ended outside of the app (the user signs
+   * out in another app, or an administrator ends the session) instead of at
+   * the next token refresh. Uses Keycloak's check-session iframe where
+   * third-party cookies are available, and requests the userinfo endpoint
+   * otherwise. The session then ends with the `signed_out_elsewhere` reason
+   * (see `SignedOutElsewhereDialog`).
+   * Replaces the keycloak-js login iframe check, which is disabled by default.
+   * @default false
+   */
+  monitorSession?: boolean;
+  /**
+   * Seconds between session status checks when `monitorSession` is enabled.
+   * @default 30
+   */
+  sessionCheckInterval?: number;
+  /**
+   * Custom session status check used instead of the check-session iframe and
+   * the userinfo endpoint, e.g. a backend endpoint introspecting the token.
+   * Resolves with false once the session has ended.
+   */
+  sessionProbe?: SessionProbe;
   /** 
    * Called when authentication state changes.
    */
   onAuthStateChange?: (isAuthenticated: boolean, user: User | null) => void;
   /**
-   * Called when the token expires.
+   * Called when the token expires and the session cannot be renewed.
+   * With `autoRefresh` enabled, this is only called once the refresh token
+   * has been rejected.
    * You can use this to prompt the user to re-authenticate.
    */
   onTokenExpired?: () => void;
   /**
-   * Called when an error occurs during initialization.
+   * Number of times to retry initialization when the Keycloak server cannot
+   * be reached or responds with a server error, with exponential backoff.
+   * Set to 0 to disable automatic retries.
+   * @default 5
+   */
+  maxInitRetries?: number;
+  /**
+   * Delay before the first automatic initialization retry, in milliseconds.
+   * Each further retry waits twice as long.
+   * @default 1000
+   */
+  initRetryDelay?: number;
+  /**
+   * Called when an error occurs during initialization, with an
+   * `AuthInitError` describing the failure.
    */
   onError?: (error: Error) => void;
+  /**
+   * Called for every auth lifecycle event (initialization, sign in
+   * redirects, token refreshes, session ends, sign out...), e.g. to feed a
+   * telemetry pipeline. Use `useAuthEvent` to subscribe from components.
+   */
+  onEvent?: (event: AuthEvent) => void;
   /** Child components */
   children: ReactNode;
 }
 
+/**
+ * Props of `KeycloakAuthProvider`: keycloak-js in the browser, or a
+ * backend-for-frontend with `mode="bff"`.
+ */
+export type KeycloakAuthProviderProps = KeycloakModeProps | BffModeProps;
+
+/**
+ * Namespace for the keys and channels of a provider instance.
+ */
+function getInstanceNamespace(url: string, realm: string, clientId: string, name?: string) {
+  return `${url}:${realm}:${clientId}${name ? `:${name}` : ""}`;
+}
+
+/**
+ * Build the RP-initiated logout URL with the parameters keycloak-js does
+ * not support (`state`, `ui_locales`, and a custom or omitted `id_token_hint`).
+ */
+function createLogoutUrl(keycloak: Keycloak, options: SignOutOptions): string {
+  const url = new URL(
+    keycloak.createLogoutUrl({ redirectUri: options.redirectUri, logoutMethod: "GET" })
+  );
+  const idTokenHint =
+    options.idTokenHint === false
+      ? undefined
+      : typeof options.idTokenHint === "string"
+        ? options.idTokenHint
+        : keycloak.idToken;
+  if (idTokenHint) {
+    url.searchParams.set("id_token_hint", idTokenHint);
+  } else {
+    url.searchParams.delete("id_token_hint");
+  }
+  if (options.postLogoutState) url.searchParams.set("state", options.postLogoutState);
+  if (options.locale) url.searchParams.set("ui_locales", options.locale);
+  return url.toString();
+}
+
+/**
+ * Record when a sign in redirect starts, to report the sign in duration
+ * once the user returns.
+ */
+function markSignInStart(namespace: string) {
+  try {
+    sessionStorage.setItem(`keycloak-react:signin-start:${namespace}`, String(Date.now()));
+  } catch {
+    // Storage unavailable - the sign in duration is not reported
+  }
+}
+
+/**
+ * Time since the last sign in redirect started, in milliseconds, if any.
+ */
+function takeSignInDuration(namespace: string): number | undefined {
+  try {
+    const key = `keycloak-react:signin-start:${namespace}`;
+    const start = Number(sessionStorage.getItem(key));
+    sessionStorage.removeItem(key);
+    return start ? Date.now() - start : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Extract user information from Keycloak token.
  */
 function extractUser(keycloak: Keycloak): User | null {
   const tokenParsed = keycloak.idTokenParsed || keycloak.tokenParsed;
   if (!tokenParsed) return null;
-
-  return {
-    id: tokenParsed.sub as string,
-    email: tokenParsed.email as string | undefined,
-    emailVerified: tokenParsed.email_verified as boolean | undefined,
-    name: tokenParsed.name as string | undefined,
-    firstName: tokenParsed.given_name as string | undefined,
-    lastName: tokenParsed.family_name as string | undefined,
-    username: tokenParsed.preferred_username as string | undefined,
-    imageUrl: tokenParsed.picture as string | undefined,
-    claims: tokenParsed as Record<string, unknown>,
-  };
+  return getUserFromClaims(
+    tokenParsed as Record<string, unknown>,
+    keycloak.tokenParsed as Record<string, unknown> | undefined
+  );
 }
 
 /**
- * Provides Keycloak authentication context to your application.
- * Similar to Clerk's ClerkProvider, this wraps your app and provides
- * authentication state and methods to all child components.
- *
- * @example
- * ```tsx
- * import { KeycloakAuthProvider } from 'keycloak-react';
- *
- * function App() {
- *   return (
- *     <KeycloakAuthProvider
- *       url="https://keycloak.example.com"
- *       realm="myrealm"
- *       clientId="my-app"
- *     >
- *       <MyApp />
- *     </KeycloakAuthProvider>
- *   );
- * }
- * ```
+ * `KeycloakAuthProvider` with keycloak-js in the browser.
  */
-export function KeycloakAuthProvider({
+function KeycloakJsAuthProvider({
+  name,
   url,
   realm,
   clientId,
   initOptions,
+  initialSession,
+  sessionEndpoint = "/api/auth/session",
+  autoRefresh = true,
+  minValidity = 30,
+  syncTabs = true,
+  tokenStorage = "memory",
+  offlineAccess = false,
+  offlineTokenStore,
+  dpop = false,
+  dpopKeyStore,
+  idleTimeout,
+  sessionMaxLifespan,
+  sessionWarningTime = 60,
+  monitorSession = false,
+  sessionCheckInterval = 30,
+  sessionProbe,
+  maxInitRetries = 5,
+  initRetryDelay = 1000,
   onAuthStateChange,
   onTokenExpired,
   onError,
+  onEvent,
   children,
-}: KeycloakAuthProviderProps) {
+}: KeycloakModeProps) {
   const [keycloak, setKeycloak] = useState<Keycloak | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [user, setUser] = useState<User | null>(null);
+  // A server-rendered session is ready from the first render
+  const [initStatus, setInitStatus] = useState<"idle" | "loading" | "ready" | "error">(
+    initialSession !== undefined ? "ready" : "idle"
+  );
+  const [error, setError] = useState<AuthInitError | null>(null);
+  const [initAttempt, setInitAttempt] = useState(0);
+  const [isAuthenticated, setIsAuthenticated] = useState(!!initialSession);
+  const [user, setUser] = useState<User | null>(initialSession?.user ?? null);
+  const [accessToken, setAccessToken] = useState<string | undefined>(initialSession?.accessToken);
+  const [idToken, setIdToken] = useState<string | undefined>(initialSession?.idToken);
+  const [sessionType, setSessionType] = useState<SessionType | null>(null);
+  const [session, setSession] = useState<SessionTimeoutState>({
+    expiresAt: undefined,
+    reason: undefined,
+    isWarning: false,
+  });
+  const refresherRef = useRef<TokenRefresher | null>(null);
+  const sessionTimeoutRef = useRef<SessionTimeout | null>(null);
+  const sessionMonitorRef = useRef<SessionMonitor | null>(null);
+  const channelRef = useRef<SessionChannel | null>(null);
+  const storageRef = useRef<TokenStorageAdapter | null>(null);
+  const offlineStoreRef = useRef<OfflineTokenStore | null>(null);
+  const remoteMessageRef = useRef<((message: SessionSyncMessage) => void) | null>(null);
+  const completeSignInRef = useRef<((tokens: SessionSyncTokens) => void) | null>(null);
+  // Whether the session is renewed through the server (`initialSession`)
+  const serverSessionRef = useRef(false);
+  const [exchangeCache] = useState(createTokenExchangeCache);
+  const [events] = useState(createAuthEventEmitter);
+  const namespace = getInstanceNamespace(url, realm, clientId, name);
   
   // Track initialization to prevent double init in React strict mode
   const initializingRef = useRef(false);
   const initializedRef = useRef(false);
+  // Automatic initialization retries since the last successful or manual attempt
+  const initRetriesRef = useRef(0);
+  const initRetryTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   
   // Store callbacks in refs to avoid re-running effect when they change
   const onAuthStateChangeRef = useRef(onAuthStateChange);
   const onTokenExpiredRef = useRef(onTokenExpired);
   const onErrorRef = useRef(onError);
+  const onEventRef = useRef(onEvent);
   
   // Update refs when callbacks change
   useEffect(() => {
     onAuthStateChangeRef.current = onAuthStateChange;
     onTokenExpiredRef.current = onTokenExpired;
     onErrorRef.current = onError;
-  }, [onAuthStateChange, onTokenExpired, onError]);
+    onEventRef.current = onEvent;
+  }, [onAuthStateChange, onTokenExpired, onError, onEvent]);
+
+  // Forward events to onEvent (subscribed before initialization starts)
+  useEffect(() => events.on("*", (event) => onEventRef.current?.(event)), [events]);
+
+  // Keep the key pair across page loads, as stored and refreshed tokens are bound to it
+  const dpopHandle = useMemo<DPoP | null>(
+    () =>
+      dpop
+        ? createDPoP({
+            keyStore:
+              dpopKeyStore ?? createIndexedDBDPoPKeyStore(`keycloak-react:dpop:${namespace}`),
+          })
+        : null,
+    [dpop, dpopKeyStore, namespace]
+  );
+
+  // Add DPoP proofs to the client's token requests while mounted. Runs
+  // before the effect below, so the requests of keycloak-js's
+  // initialization have them too.
+  useEffect(() => {
+    if (!dpopHandle) return;
+    return interceptDPoPRequests(getRealmUrl(url, realm), clientId, dpopHandle);
+  }, [dpopHandle, url, realm, clientId]);
 
   // Initialize Keycloak - only once
   useEffect(() => {
@@ -131,18 +478,220 @@ export function KeycloakAuthProvider({
       return;
     }
     
+    // Inside a sign-in popup, hand the response to the opener instead of initializing
+    if (handlePopupCallback()) {
+      return;
+    }
+
     initializingRef.current = true;
+    // Automatic retries keep showing the error until one succeeds, and a
+    // server-rendered session keeps showing while keycloak-js initializes
+    setInitStatus((status) => (status === "idle" ? "loading" : status));
     
     const config: KeycloakConfig = { url, realm, clientId };
     const kc = new Keycloak(config);
 
+    // Route the callback of redirects to Keycloak (including those of
+    // keycloak-js's own `onLoad` logins) back to this instance
+    const { login, register } = kc;
+    kc.login = (options) => {
+      setRedirectCallbackOwner(namespace);
+      return login(options);
+    };
+    kc.register = (options) => {
+      setRedirectCallbackOwner(namespace);
+      return register(options);
+    };
+
     const defaultInitOptions: KeycloakInitOptions = {
       pkceMethod: "S256",
+      // Offline sessions have no SSO session for the login iframe to check,
+      // and the session monitor replaces it
+      ...(offlineAccess || monitorSession ? { checkLoginIframe: false } : {}),
       ...initOptions,
+      // keycloak-js uses the scope for its own logins (`onLoad`) as well
+      ...(offlineAccess ? { scope: withOfflineAccessScope(initOptions?.scope) } : {}),
+    };
+
+    // The server keeps the refresh token of its sessions - they are renewed
+    // through the server instead of by keycloak-js
+    const serverSession = !initOptions?.token && !!initialSession;
+    serverSessionRef.current = serverSession;
+
+    const storage = createTokenStorage(tokenStorage, `keycloak-react:tokens:${namespace}`);
+    storageRef.current = storage;
+    const offlineStore = offlineAccess
+      ? offlineTokenStore ?? createIndexedDBOfflineTokenStore(`keycloak-react:offline:${namespace}`)
+      : null;
+    offlineStoreRef.current = offlineStore;
+
+    const sessionTimeout = createSessionTimeout(kc, {
+      idleTimeout,
+      sessionMaxLifespan,
+      warningTime: sessionWarningTime,
+      autoRefresh,
+      activityKey: syncTabs ? `keycloak-react:activity:${namespace}` : undefined,
+      onChange: setSession,
+      onTimeout: (reason) => {
+        events.emit("session:ended", { reason });
+        if (reason === "idle") {
+          channelRef.current?.post({ type: "signout" });
+          void storage.clear();
+          void kc.logout({ redirectUri: window.location.origin });
+          return;
+        }
+        // The session reached its end - clear the tokens (which triggers onAuthLogout)
+        kc.clearToken();
+        onTokenExpiredRef.current?.();
+      },
+    });
+    sessionTimeoutRef.current = sessionTimeout;
+
+    // The session was ended outside of the app - clear the tokens (which
+    // triggers onAuthLogout) and let the app prompt for re-authentication
+    const sessionMonitor = monitorSession
+      ? createSessionMonitor(kc, {
+          interval: sessionCheckInterval,
+          probe: sessionProbe,
+          dpop: dpopHandle,
+          onSessionEnded: () => {
+            events.emit("session:ended", { reason: "signed_out_elsewhere" });
+            kc.clearToken();
+            onTokenExpiredRef.current?.();
+          },
+        })
+      : null;
+    sessionMonitorRef.current?.stop();
+    sessionMonitorRef.current = sessionMonitor;
+
+    // Update token state, persist the current tokens and re-evaluate the session expiry
+    let storedOfflineToken: string | undefined;
+    const syncTokens = () => {
+      setAccessToken(kc.token);
+      setIdToken(kc.idToken);
+      const offline = isOfflineToken(kc.refreshToken);
+      const hasSession = !!kc.refreshToken || (serverSession && !!kc.token);
+      setSessionType(hasSession ? (offline ? "offline" : "online") : null);
+      if (kc.token) {
+        void storage.set(getSessionTokens(kc));
+      }
+      if (offline && offlineStore && kc.refreshToken !== storedOfflineToken) {
+        storedOfflineToken = kc.refreshToken;
+        void offlineStore.set(kc.refreshToken!);
+      }
+      sessionTimeout.check();
     };
 
-    // Handle token expiration - notify but don't auto-refresh
+    // Renew server sessions like keycloak-js refreshes its own tokens
+    const renewServerSession = async (validity: number) => {
+      const expiresIn = (kc.tokenParsed?.exp ?? 0) - Date.now() / 1000 + (kc.timeSkew ?? 0);
+      if (validity >= 0 && expiresIn > validity) return false;
+      const renewed = await fetchServerSession(sessionEndpoint);
+      applySessionTokens(kc, { token: renewed.accessToken, idToken: renewed.idToken });
+      kc.onAuthRefreshSuccess?.();
+      return true;
+    };
+
+    const refresher = createTokenRefresher(kc, {
+      minValidity,
+      // The refresh token was rejected - clear the tokens (which triggers
+      // onAuthLogout) and let the app prompt for re-authentication
+      onSessionEnded: () => {
+        events.emit("session:ended", { reason: "refresh_token_rejected" });
+        kc.clearToken();
+        onTokenExpiredRef.current?.();
+      },
+      onRefreshFailed: (error, willRetry) => {
+        events.emit("token:refresh-failed", { error, willRetry });
+      },
+      // Tabs share the refresh token, so only one of them may refresh it at a time
+      lockName: syncTabs ? `keycloak-react:refresh:${namespace}` : undefined,
+      updateToken: serverSession ? renewServerSession : undefined,
+    });
+    refresherRef.current = refresher;
+
+    // Broadcast auth events to other tabs, and apply theirs to this one
+    let applyingRemote = false;
+    const broadcast = (type: SessionSyncMessage["type"]) => {
+      if (applyingRemote) return;
+      channelRef.current?.post(
+        type === "signout" ? { type } : { type, tokens: getSessionTokens(kc) }
+      );
+    };
+
+    const handleRemoteMessage = (message: SessionSyncMessage) => {
+      if (!kc.didInitialize) return;
+      if (message.type !== "signout" && !message.tokens) {
+        // Sent without tokens (storage fallback) - read them from the token storage
+        void restoreTokens(storage).then((stored) => {
+          // Tab-private storage holds the tokens of this tab
+          if (stored?.token && stored.token !== kc.token) {
+            applyRemoteMessage({ ...message, tokens: stored });
+          } else if (message.type === "user-change") {
+            // Do not act for the previous user
+            applyRemoteMessage({ type: "signout" });
+          } else {
+            // Tabs waiting for the refresh renew the tokens themselves
+            refresher.remoteRefreshed();
+          }
+        });
+        return;
+      }
+      applyRemoteMessage(message);
+    };
+
+    const applyRemoteMessage = (message: SessionSyncMessage) => {
+      applyingRemote = true;
+      try {
+        if (message.type === "signout") {
+          kc.clearToken();
+          return;
+        }
+        if (!message.tokens) return;
+        const wasAuthenticated = kc.authenticated;
+        const previousSubject = kc.subject;
+        applySessionTokens(kc, message.tokens);
+        refresher.remoteRefreshed();
+        const extractedUser = extractUser(kc);
+        setIsAuthenticated(true);
+        setUser(extractedUser);
+        syncTokens();
+        if (autoRefresh) {
+          refresher.start();
+          refresher.schedule();
+        }
+        sessionMonitor?.start();
+        if (!wasAuthenticated || previousSubject !== kc.subject) {
+          onAuthStateChangeRef.current?.(true, extractedUser);
+        }
+      } finally {
+        applyingRemote = false;
+      }
+    };
+
+    remoteMessageRef.current = handleRemoteMessage;
+
+    // Apply tokens obtained outside of keycloak-js (e.g. in a popup)
+    completeSignInRef.current = (tokens: SessionSyncTokens) => {
+      if (!applySessionTokens(kc, tokens)) {
+        throw new Error("Cannot sign in: the access token is missing or malformed");
+      }
+      kc.onAuthSuccess?.();
+      if (autoRefresh) {
+        refresher.start();
+        refresher.schedule();
+      }
+    };
+
+    // Handle token expiration - refresh if enabled, otherwise end the session
     kc.onTokenExpired = () => {
+      if (autoRefresh) {
+        refresher.refresh().catch(() => {
+          // Session end is handled by onSessionEnded
+        });
+        return;
+      }
+      events.emit("session:ended", { reason: "token_expired" });
       setIsAuthenticated(false);
       setUser(null);
       onAuthStateChangeRef.current?.(false, null);
@@ -150,86 +699,446 @@ export function KeycloakAuthProvider({
     };
 
     // Handle auth state changes
+    let currentSubject: string | undefined;
     kc.onAuthSuccess = () => {
       setIsAuthenticated(true);
       const extractedUser = extractUser(kc);
       setUser(extractedUser);
+      syncTokens();
+      broadcast(currentSubject && currentSubject !== kc.subject ? "user-change" : "signin");
+      currentSubject = kc.subject;
+      sessionMonitor?.start();
       onAuthStateChangeRef.current?.(true, extractedUser);
     };
 
+    kc.onAuthRefreshSuccess = () => {
+      setUser(extractUser(kc));
+      syncTokens();
+      refresher.schedule();
+      broadcast("token-refresh");
+      const exp = kc.tokenParsed?.exp;
+      events.emit("token:refreshed", {
+        expiresAt: exp !== undefined ? (exp + (kc.timeSkew ?? 0)) * 1000 : undefined,
+      });
+    };
+
     kc.onAuthLogout = () => {
+      refresher.stop();
+      sessionMonitor?.stop();
+      exchangeCache.clear();
+      void storage.clear();
+      storedOfflineToken = undefined;
+      void offlineStore?.clear();
+      broadcast("signout");
       setIsAuthenticated(false);
       setUser(null);
+      syncTokens();
       onAuthStateChangeRef.current?.(false, null);
     };
 
-    kc.init(defaultInitOptions)
+    // Start a session from the stored offline token, if any
+    const restoreOfflineSession = async () => {
+      const refreshToken = await offlineStore?.get();
+      if (!refreshToken) return null;
+      try {
+        return await refreshOfflineSession({
+          tokenEndpoint: getTokenEndpoint(url, realm),
+          clientId,
+          refreshToken,
+        });
+      } catch (error) {
+        // The offline token was revoked or has expired - start signed out
+        if (error instanceof OfflineTokenError && (error.status ?? 0) < 500) {
+          await offlineStore?.clear();
+          return null;
+        }
+        throw error;
+      }
+    };
+
+    // Continue the server-rendered session, or restore stored tokens
+    // (unless tokens were passed explicitly)
+    const initializeKeycloak = async () => {
+      if (serverSession && initialSession) {
+        await kc.init({ ...defaultInitOptions, onLoad: undefined, checkLoginIframe: false });
+        return applySessionTokens(kc, {
+          token: initialSession.accessToken,
+          idToken: initialSession.idToken,
+        });
+      }
+      const stored =
+        initOptions?.token || initialSession !== undefined
+          ? null
+          : (await restoreTokens(storage)) ?? (await restoreOfflineSession());
+      if (!stored?.token || !stored.refreshToken) {
+        return kc.init(defaultInitOptions);
+      }
+      try {
+        return await kc.init({
+          ...defaultInitOptions,
+          token: stored.token,
+          refreshToken: stored.refreshToken,
+          idToken: stored.idToken,
+          timeSkew: stored.timeSkew ?? undefined,
+        });
+      } catch (error) {
+        // The stored session is no longer valid - start signed out
+        if (isRefreshTokenRejected(error)) {
+          await storage.clear();
+          return false;
+        }
+        throw error;
+      }
+    };
+
+    // Leave the callback in the URL to the instance that redirected to Keycloak
+    const initialize = async () => {
+      const callbackOwner = getRedirectCallbackOwner(defaultInitOptions.responseMode);
+      if (callbackOwner && callbackOwner !== namespace) {
+        await waitForRedirectCallback(defaultInitOptions.responseMode);
+      }
+      try {
+        return await initializeKeycloak();
+      } finally {
+        if (callbackOwner === namespace) releaseRedirectCallback();
+      }
+    };
+
+    const initStart = Date.now();
+    events.emit("init:start", {});
+
+    initialize()
       .then((authenticated) => {
+        events.emit("init:success", {
+          authenticated,
+          duration: Date.now() - initStart,
+          signInDuration: authenticated ? takeSignInDuration(namespace) : undefined,
+        });
         initializedRef.current = true;
         initializingRef.current = false;
+        initRetriesRef.current = 0;
         setKeycloak(kc);
         setIsAuthenticated(authenticated);
         const extractedUser = authenticated ? extractUser(kc) : null;
         setUser(extractedUser);
-        setIsLoading(false);
+        syncTokens();
+        setError(null);
+        setInitStatus("ready");
+        if (authenticated && autoRefresh) {
+          refresher.start();
+        }
+        if (authenticated) {
+          sessionMonitor?.start();
+        }
+        sessionTimeout.start();
         onAuthStateChangeRef.current?.(authenticated, extractedUser);
       })
-      .catch((error) => {
-        initializingRef.current = false;
+      .catch(async (error) => {
         console.error("Keycloak init error:", error);
-        setIsLoading(false);
-        onErrorRef.current?.(error instanceof Error ? error : new Error(String(error)));
+        const authError = await diagnoseInitError(error, url, realm);
+        const willRetry = authError.isRetryable && initRetriesRef.current < maxInitRetries;
+        initializingRef.current = false;
+        setError(authError);
+        setInitStatus("error");
+        events.emit("init:error", { error: authError, willRetry });
+        onErrorRef.current?.(authError);
+        if (willRetry) {
+          // Retry with a fresh instance - keycloak-js can only be initialized once
+          const delay = initRetryDelay * 2 ** initRetriesRef.current;
+          initRetriesRef.current += 1;
+          initRetryTimerRef.current = setTimeout(() => setInitAttempt((n) => n + 1), delay);
+        }
       });
-  }, [url, realm, clientId, initOptions]);
+  }, [
+    initAttempt,
+    maxInitRetries,
+    initRetryDelay,
+    name,
+    url,
+    realm,
+    clientId,
+    initOptions,
+    initialSession,
+    sessionEndpoint,
+    autoRefresh,
+    minValidity,
+    tokenStorage,
+    offlineAccess,
+    offlineTokenStore,
+    exchangeCache,
+    events,
+    namespace,
+    syncTabs,
+    idleTimeout,
+    sessionMaxLifespan,
+    sessionWarningTime,
+    monitorSession,
+    sessionCheckInterval,
+    sessionProbe,
+    dpopHandle,
+  ]);
+
+  // Stop the refresh scheduler, session timeout, session monitor and init retries on unmount
+  useEffect(() => {
+    return () => {
+      refresherRef.current?.stop();
+      sessionTimeoutRef.current?.stop();
+      sessionMonitorRef.current?.stop();
+      clearTimeout(initRetryTimerRef.current);
+    };
+  }, []);
+
+  const retry = useCallback(() => {
+    if (initializingRef.current || initializedRef.current) return;
+    clearTimeout(initRetryTimerRef.current);
+    initRetriesRef.current = 0;
+    setInitStatus("loading");
+    setInitAttempt((n) => n + 1);
+  }, []);
 
-  const signIn = useCallback(async (options?: SignInOptions) => {
+  // Share auth events with other tabs
+  useEffect(() => {
+    if (!syncTabs) return;
+    const channel = createSessionChannel(
+      `keycloak-react:${getInstanceNamespace(url, realm, clientId, name)}`,
+      (message) => remoteMessageRef.current?.(message)
+    );
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [syncTabs, name, url, realm, clientId]);
+
+  const signIn = useCallback(async (options: SignInOptions = {}) => {
     if (!keycloak) return;
+    const { mode = "redirect", redirectUri, ...request } = options;
+    if (offlineAccess) request.scope = withOfflineAccessScope(request.scope);
+    if (mode === "popup") {
+      events.emit("signin:popup", { action: "login", idpHint: request.idpHint });
+      const tokens = await authorizeWithPopup(keycloak, { ...request, redirectUri });
+      completeSignInRef.current?.(tokens);
+      return;
+    }
+    events.emit("signin:redirect", { action: "login", idpHint: request.idpHint });
+    markSignInStart(namespace);
     await keycloak.login({
-      redirectUri: options?.redirectUri || window.location.href,
+      ...request,
+      redirectUri: redirectUri || window.location.href,
     });
-  }, [keycloak]);
+  }, [keycloak, events, namespace, offlineAccess]);
 
-  const signOut = useCallback(async (options?: SignOutOptions) => {
+  const signOut = useCallback(async (options: SignOutOptions = {}) => {
     if (!keycloak) return;
-    await keycloak.logout({
-      redirectUri: options?.redirectUri || window.location.origin,
-    });
-  }, [keycloak]);
+    channelRef.current?.post({ type: "signout" });
+    await storageRef.current?.clear();
+    const { idTokenHint, postLogoutState, locale, revokeOfflineToken = true } = options;
+    const { refreshToken } = keycloak;
+    if (revokeOfflineToken && refreshToken && isOfflineToken(refreshToken)) {
+      try {
+        await revokeToken({
+          revocationEndpoint: getRevocationEndpoint(url, realm),
+          clientId,
+          token: refreshToken,
+        });
+      } catch (error) {
+        // Still sign out of the SSO session
+        console.error("Failed to revoke offline token:", error);
+      }
+    }
+    await offlineStoreRef.current?.clear();
+    const redirectUri = options.redirectUri || window.location.origin;
+    events.emit("signout", { redirectUri });
+    if (idTokenHint === undefined && !postLogoutState && !locale) {
+      await keycloak.logout({ redirectUri });
+      return;
+    }
+    // keycloak-js does not support these parameters, so build the URL here
+    window.location.replace(
+      createLogoutUrl(keycloak, { redirectUri, idTokenHint, postLogoutState, locale })
+    );
+  }, [keycloak, events, url, realm, clientId]);
 
-  const signUp = useCallback(async (options?: SignUpOptions) => {
+  const signUp = useCallback(async (options: SignUpOptions = {}) => {
     if (!keycloak) return;
+    const { mode = "redirect", redirectUri, ...request } = options;
+    if (offlineAccess) request.scope = withOfflineAccessScope(request.scope);
+    if (mode === "popup") {
+      events.emit("signin:popup", { action: "register", idpHint: request.idpHint });
+      const tokens = await authorizeWithPopup(keycloak, {
+        ...request,
+        action: "register",
+        redirectUri,
+      });
+      completeSignInRef.current?.(tokens);
+      return;
+    }
+    events.emit("signin:redirect", { action: "register", idpHint: request.idpHint });
+    markSignInStart(namespace);
     await keycloak.register({
-      redirectUri: options?.redirectUri || window.location.href,
+      ...request,
+      redirectUri: redirectUri || window.location.href,
     });
+  }, [keycloak, events, namespace, offlineAccess]);
+
+  const signInWithTokens = useCallback((tokens: StoredTokens) => {
+    if (!keycloak || !completeSignInRef.current) {
+      throw new Error("Cannot sign in: keycloak-js is not initialized");
+    }
+    completeSignInRef.current(tokens);
   }, [keycloak]);
 
-  const getToken = useCallback(async () => {
-    if (!keycloak) return undefined;
+  const getToken = useCallback(async (options?: GetTokenOptions) => {
+    if (!keycloak || !refresherRef.current) return undefined;
+    // Signed out - there is no token to return or refresh (server sessions
+    // are renewed without one)
+    if (!keycloak.authenticated) return undefined;
+    if (!keycloak.refreshToken && !serverSessionRef.current) return undefined;
     try {
-      await keycloak.updateToken(30);
+      await refresherRef.current.refresh(
+        options?.forceRefresh ? -1 : options?.minValidity ?? minValidity
+      );
       return keycloak.token;
     } catch {
       return undefined;
     }
-  }, [keycloak]);
+  }, [keycloak, minValidity]);
+
+  const extendSession = useCallback(async () => {
+    sessionTimeoutRef.current?.reset();
+    try {
+      await refresherRef.current?.refresh(-1);
+    } finally {
+      sessionTimeoutRef.current?.check();
+    }
+  }, []);
+
+  const exchangeToken = useCallback(async (options: ExchangeTokenOptions) => {
+    const tokenEndpoint = keycloak ? getKeycloakTokenEndpoint(keycloak) : undefined;
+    if (!keycloak?.clientId || !tokenEndpoint) {
+      throw new TokenExchangeError("Keycloak is not initialized");
+    }
+    const clientId = keycloak.clientId;
+    // Tokens are cached per user, so a user change never reuses another user's token
+    const key = [keycloak.subject, options.audience, options.scope, options.requestedTokenType]
+      .map((part) => part ?? "")
+      .join("|");
+    return exchangeCache.get(
+      key,
+      async () => {
+        const subjectToken = await getToken();
+        if (!subjectToken) {
+          throw new TokenExchangeError("Not authenticated");
+        }
+        return requestTokenExchange({
+          tokenEndpoint,
+          clientId,
+          subjectToken,
+          audience: options.audience,
+          scope: options.scope,
+          requestedTokenType: options.requestedTokenType,
+        });
+      },
+      { minValidity: options.minValidity ?? minValidity, force: options.forceRefresh }
+    );
+  }, [keycloak, getToken, exchangeCache, minValidity]);
+
+  const isLoading = initStatus === "idle" || initStatus === "loading";
+  const status: AuthStatus =
+    initStatus === "ready" ? (isAuthenticated ? "authenticated" : "unauthenticated") : initStatus;
 
   const value = useMemo<AuthContextValue>(() => ({
+    status,
     isLoading,
+    error,
+    retry,
     isAuthenticated,
     user,
-    idToken: keycloak?.idToken,
-    accessToken: keycloak?.token,
+    sessionType,
+    idToken,
+    accessToken,
     signIn,
     signOut,
     signUp,
+    signInWithTokens,
     getToken,
+    exchangeToken,
+    session,
+    extendSession,
+    events,
+    keycloak,
+    dpop: dpopHandle,
+  }), [
+    status,
+    isLoading,
+    error,
+    retry,
+    isAuthenticated,
+    user,
+    sessionType,
+    idToken,
+    accessToken,
     keycloak,
-  }), [isLoading, isAuthenticated, user, keycloak, signIn, signOut, signUp, getToken]);
+    signIn,
+    signOut,
+    signUp,
+    signInWithTokens,
+    getToken,
+    exchangeToken,
+    session,
+    extendSession,
+    events,
+    dpopHandle,
+  ]);
+
+  // Register named instances alongside those of enclosing providers
+  const parentInstances = useContext(AuthInstancesContext);
+  const instances = useMemo(
+    () => (name ? { ...parentInstances, [name]: value } : parentInstances),
+    [name, parentInstances, value]
+  );
 
   return (
-    <AuthContext.Provider value={value}>
-      {children}
-    </AuthContext.Provider>
+    <AuthInstancesContext.Provider value={instances}>
+      <AuthContext.Provider value={value}>
+        {children}
+      </AuthContext.Provider>
+    </AuthInstancesContext.Provider>
+  );
+}
+
+/**
+ * Provides Keycloak authentication context to your application.
+ * Similar to Clerk's ClerkProvider, this wraps your app and provides
+ * authentication state and methods to all child components.
+ *
+ * @example
+ * ```tsx
+ * import { KeycloakAuthProvider } from 'keycloak-react';
+ *
+ * function App() {
+ *   return (
+ *     <KeycloakAuthProvider
+ *       url="https://keycloak.example.com"
+ *       realm="myrealm"
+ *       clientId="my-app"
+ *     >
+ *       <MyApp />
+ *     </KeycloakAuthProvider>
+ *   );
+ * }
+ *
+ * // Tokens kept on a backend-for-frontend
+ * <KeycloakAuthProvider mode="bff">
+ *   <MyApp />
+ * </KeycloakAuthProvider>
+ * ```
+ */
+export function KeycloakAuthProvider(props: KeycloakAuthProviderProps) {
+  return props.mode === "bff" ? (
+    <BffAuthProvider {...props} />
+  ) : (
+    <KeycloakJsAuthProvider {...props} />
   );
 }
 
@@ -237,6 +1146,9 @@ export function KeycloakAuthProvider({
  * Hook to access the authentication context.
  * Must be used within a KeycloakAuthProvider.
  *
+ * @param name - Name of the provider instance to use. Defaults to the
+ * nearest KeycloakAuthProvider.
+ *
  * @example
  * ```tsx
  * function MyComponent() {
@@ -253,10 +1165,21 @@ export function KeycloakAuthProvider({
  *     </div>
  *   );
  * }
+ *
+ * // With several named providers
+ * const staff = useAuth("staff");
  * ```
  */
-export function useAuth(): AuthContextValue {
+export function useAuth(name?: string): AuthContextValue {
   const context = useContext(AuthContext);
+  const instances = useContext(AuthInstancesContext);
+  if (name !== undefined) {
+    const instance = instances[name];
+    if (!instance) {
+      throw new Error(`useAuth: no KeycloakAuthProvider named "${name}" was found`);
+    }
+    return instance;
+  }
   if (!context) {
     throw new Error("useAuth must be used within a KeycloakAuthProvider");
   }
@@ -267,6 +1190,8 @@ export function useAuth(): AuthContextValue {
  * Hook to get the current user.
  * Returns null if not authenticated.
  *
+ * @param name - Name of the provider instance to use
+ *
  * @example
  * ```tsx
  * function Profile() {
@@ -276,17 +1201,19 @@ export function useAuth(): AuthContextValue {
  * }
  * ```
  */
-export function useUser(): User | null {
-  const { user } = useAuth();
+export function useUser(name?: string): User | null {
+  const { user } = useAuth(name);
   return user;
 }
 
 /**
  * Hook to get the Keycloak instance.
  * For advanced usage when you need direct access to keycloak-js.
+ *
+ * @param name - Name of the provider instance to use
  */
-export function useKeycloak(): Keycloak | null {
-  const { keycloak } = useAuth();
+export function useKeycloak(name?: string): Keycloak | null {
+  const { keycloak } = useAuth(name);
   return keycloak;
 }
 
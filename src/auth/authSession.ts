@@ -0,0 +1,82 @@
+import type { User } from "./AuthContext";
+import { decodeJwtPayload } from "./jwt";
+import { getUserFromClaims } from "./user";
+
+/**
+ * A session established on the server, e.g. by the `keycloak-react/nextjs`
+ * route handlers. Pass it to `KeycloakAuthProvider` as `initialSession` to
+ * render the signed-in state on the server and hydrate it without a
+ * loading state.
+ *
+ * The refresh token stays on the server: the browser renews the session
+ * through the server (see `sessionEndpoint` of `KeycloakAuthProvider`).
+ */
+export interface AuthSession {
+  /** The signed-in user */
+  user: User;
+  /** The access token */
+  accessToken: string;
+  /** The ID token */
+  idToken?: string;
+  /** Expiry of the access token, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Error thrown when the server cannot renew a session. Like the errors of
+ * keycloak-js, it carries the `response` status: `400` means the session
+ * has ended, other statuses are transient failures.
+ */
+export class SessionRenewalError extends Error {
+  /** Response of the session endpoint */
+  response: { status: number };
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SessionRenewalError";
+    this.response = { status };
+  }
+}
+
+/**
+ * Create a session from the tokens of a token response.
+ *
+ * @returns The session, or null if the access token is malformed
+ */
+export function createAuthSession(tokens: {
+  accessToken: string;
+  idToken?: string;
+}): AuthSession | null {
+  const accessClaims = decodeJwtPayload(tokens.accessToken);
+  if (!accessClaims) return null;
+  const idClaims = tokens.idToken ? decodeJwtPayload(tokens.idToken) : null;
+  const expiresAt = typeof accessClaims.exp === "number" ? accessClaims.exp * 1000 : 0;
+  return {
+    user: getUserFromClaims(idClaims ?? accessClaims, accessClaims),
+    accessToken: tokens.accessToken,
+    idToken: tokens.idToken,
+    expiresAt,
+  };
+}
+
+/**
+ * Renew a server session: the endpoint refreshes the tokens with the
+ * refresh token it keeps, sending its cookies.
+ *
+ * @throws {SessionRenewalError} If the session has ended (`400`) or the
+ * endpoint fails
+ */
+export async function fetchServerSession(endpoint: string): Promise<AuthSession> {
+  const response = await fetch(endpoint, {
+    credentials: "include",
+    cache: "no-store",
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new SessionRenewalError(
+      `Failed to renew the session: ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+  return (await response.json()) as AuthSession;
+}
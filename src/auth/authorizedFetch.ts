@@ -0,0 +1,168 @@
+import type Keycloak from "keycloak-js";
+import type { GetTokenOptions } from "./AuthContext";
+import { fetchWithDPoP, type DPoP } from "./dpop";
+
+/**
+ * Anything that can provide access tokens: the `useAuth()` value (or any
+ * object with a compatible `getToken`, and `dpop` for DPoP-bound tokens), or
+ * a keycloak-js instance.
+ */
+export type AuthSource =
+  | {
+      getToken: (options?: GetTokenOptions) => Promise<string | undefined>;
+      dpop?: DPoP | null;
+    }
+  | Keycloak;
+
+/**
+ * Origin allowlist entry. Strings are compared by origin
+ * (e.g. `"https://api.example.com"`), regular expressions are tested against
+ * the request origin.
+ */
+export type AllowedOrigin = string | RegExp;
+
+export interface AuthorizedFetchOptions {
+  /**
+   * Origins that may receive the access token.
+   * Requests to any other origin are sent without an `Authorization` header.
+   * @default [window.location.origin]
+   */
+  allowedOrigins?: AllowedOrigin[];
+  /**
+   * Minimum validity (in seconds) of the token sent with each request.
+   * Tokens closer to expiry are refreshed first.
+   */
+  minValidity?: number;
+  /**
+   * The underlying fetch implementation.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * Send DPoP-bound tokens as `Authorization: DPoP` with a proof for each
+   * request. Defaults to the `dpop` of the auth source.
+   */
+  dpop?: DPoP;
+}
+
+function isKeycloak(source: AuthSource): source is Keycloak {
+  return typeof (source as Keycloak).updateToken === "function";
+}
+
+/**
+ * Normalize an auth source to a token getter.
+ */
+export function toTokenGetter(
+  source: AuthSource
+): (options?: GetTokenOptions) => Promise<string | undefined> {
+  if (!isKeycloak(source)) {
+    return (options) => source.getToken(options);
+  }
+  return async (options) => {
+    if (!source.authenticated) return undefined;
+    try {
+      await source.updateToken(options?.forceRefresh ? -1 : (options?.minValidity ?? 30));
+      return source.token;
+    } catch {
+      return undefined;
+    }
+  };
+}
+
+function getRequestUrl(input: RequestInfo | URL): URL | null {
+  const href = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  try {
+    return new URL(href, typeof window !== "undefined" ? window.location.href : undefined);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a URL belongs to one of the allowed origins.
+ */
+export function isAllowedOrigin(url: URL, allowedOrigins: AllowedOrigin[]): boolean {
+  return allowedOrigins.some((allowed) => {
+    if (allowed instanceof RegExp) {
+      return allowed.test(url.origin);
+    }
+    try {
+      return new URL(allowed).origin === url.origin;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Creates a `fetch` function that adds `Authorization: Bearer <token>` headers.
+ *
+ * - Tokens are refreshed before the request when they are close to expiry.
+ * - On a 401 response, the token is refreshed once and the request retried.
+ * - Tokens are only sent to allowed origins (same origin by default).
+ * - With DPoP, each request gets a `DPoP` proof, and is sent once more with
+ *   the server's nonce when it answers with `use_dpop_nonce`.
+ *
+ * Works with the `useAuth()` value or a plain keycloak-js instance, so it can
+ * be used outside of React (e.g. in API client modules).
+ *
+ * @example
+ * ```typescript
+ * const authFetch = createAuthorizedFetch(keycloak, {
+ *   allowedOrigins: ["https://api.example.com"],
+ * });
+ *
+ * const response = await authFetch("https://api.example.com/invoices");
+ * ```
+ */
+export function createAuthorizedFetch(
+  source: AuthSource,
+  options: AuthorizedFetchOptions = {}
+): typeof fetch {
+  const getToken = toTokenGetter(source);
+  const { minValidity } = options;
+  const dpop = options.dpop ?? (isKeycloak(source) ? undefined : source.dpop ?? undefined);
+
+  return async (input, init) => {
+    const baseFetch = options.fetch ?? globalThis.fetch;
+    const url = getRequestUrl(input);
+    const allowedOrigins =
+      options.allowedOrigins ??
+      (typeof window !== "undefined" ? [window.location.origin] : []);
+
+    if (!url || !isAllowedOrigin(url, allowedOrigins)) {
+      return baseFetch(input, init);
+    }
+
+    const token = await getToken({ minValidity });
+    if (!token) {
+      return baseFetch(input, init);
+    }
+
+    // Keep a copy of Request bodies for the retry
+    const retryInput = input instanceof Request ? input.clone() : input;
+
+    const send = (requestInput: RequestInfo | URL, accessToken: string) => {
+      if (dpop) {
+        return fetchWithDPoP(dpop, baseFetch, requestInput, init, accessToken);
+      }
+      const headers = new Headers(
+        init?.headers ?? (requestInput instanceof Request ? requestInput.headers : undefined)
+      );
+      headers.set("Authorization", `Bearer ${accessToken}`);
+      return baseFetch(requestInput, { ...init, headers });
+    };
+
+    const response = await send(input, token);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    const refreshedToken = await getToken({ forceRefresh: true });
+    if (!refreshedToken || refreshedToken === token) {
+      return response;
+    }
+
+    return send(retryInput, refreshedToken);
+  };
+}
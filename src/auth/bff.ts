@@ -0,0 +1,183 @@
+import type { Prompt, SignInOptions, SignOutOptions, User } from "./AuthContext";
+import { getUserFromClaims } from "./user";
+
+/**
+ * Backend endpoints of the backend-for-frontend (BFF) mode. Relative URLs
+ * are resolved against the current page.
+ */
+export interface BffEndpoints {
+  /**
+   * Responds with the claims of the signed-in user as JSON, or with 401
+   * when there is no session.
+   * @default "/bff/user"
+   */
+  user?: string;
+  /**
+   * Starts the sign in (`returnTo`, `idpHint`, `loginHint`, `locale`,
+   * `prompt`, `scope`, `maxAge`, `acr` (JSON) and `acrValues` query
+   * parameters, for the authorization request). Sign up sends
+   * `prompt=create`, for the backend to start with the registration form.
+   * @default "/bff/login"
+   */
+  login?: string;
+  /**
+   * Ends the session (`returnTo` query parameter).
+   * @default "/bff/logout"
+   */
+  logout?: string;
+}
+
+export const DEFAULT_BFF_ENDPOINTS: Required<BffEndpoints> = {
+  user: "/bff/user",
+  login: "/bff/login",
+  logout: "/bff/logout",
+};
+
+/**
+ * Error thrown when the user endpoint of the backend fails.
+ */
+export class BffError extends Error {
+  /** HTTP status returned by the backend, if any */
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "BffError";
+    this.status = status;
+  }
+}
+
+/**
+ * The session of the signed-in user, as reported by the backend.
+ */
+export interface BffSession {
+  /** The signed-in user */
+  user: User;
+  /** Logout URL sent by the backend (`bff:logout_url` claim), if any */
+  logoutUrl?: string;
+}
+
+/** Claim with the logout URL, including the session ID, of Duende BFF backends */
+const LOGOUT_URL_CLAIM = "bff:logout_url";
+
+/**
+ * Claims of a user endpoint response: a claims object, or a list of
+ * `{ type, value }` claims (Duende BFF), where repeated types become arrays
+ * and JSON values (e.g. `realm_access`) are parsed.
+ */
+function toClaims(body: unknown): Record<string, unknown> | null {
+  if (!Array.isArray(body)) {
+    return body && typeof body === "object" ? (body as Record<string, unknown>) : null;
+  }
+  const claims: Record<string, unknown> = {};
+  for (const { type, value } of body as { type?: unknown; value?: unknown }[]) {
+    if (typeof type !== "string") continue;
+    let parsed = value;
+    if (typeof value === "string" && /^[[{]/.test(value)) {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        // Not JSON - keep the string
+      }
+    }
+    const existing = claims[type];
+    claims[type] =
+      existing === undefined
+        ? parsed
+        : [...(Array.isArray(existing) ? existing : [existing]), parsed];
+  }
+  return claims;
+}
+
+/**
+ * Read the session from the user endpoint of the backend, sending its
+ * cookies.
+ *
+ * @returns The session, or null when the user is not signed in
+ * @throws {BffError} If the backend responds with an error
+ */
+export async function fetchBffSession(
+  endpoint: string = DEFAULT_BFF_ENDPOINTS.user
+): Promise<BffSession | null> {
+  // Network failures are not wrapped, so init errors are classified as network errors
+  const response = await fetch(endpoint, {
+    credentials: "include",
+    cache: "no-store",
+    // Duende BFF requires the header as protection against cross-site requests
+    headers: { Accept: "application/json", "X-CSRF": "1" },
+  });
+  if (response.status === 401 || response.status === 403) return null;
+  if (!response.ok) {
+    throw new BffError(
+      `Failed to load the user: ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+  const body = (await response.json().catch(() => undefined)) as unknown;
+  if (body === null) return null;
+  const claims = toClaims(body);
+  if (typeof claims?.sub !== "string") {
+    throw new BffError("The user endpoint did not return the claims of a user", response.status);
+  }
+  const logoutUrl = claims[LOGOUT_URL_CLAIM];
+  return {
+    user: getUserFromClaims(claims),
+    logoutUrl: typeof logoutUrl === "string" ? logoutUrl : undefined,
+  };
+}
+
+/**
+ * Same-origin URLs as a relative path, as backends only return to relative
+ * paths after signing in or out. Other URLs are left absolute.
+ */
+function toRelativeUrl(url: string): string {
+  const target = new URL(url, window.location.href);
+  return target.origin === window.location.origin
+    ? `${target.pathname}${target.search}${target.hash}`
+    : target.href;
+}
+
+function withParams(endpoint: string, params: Record<string, string | undefined>): string {
+  const url = new URL(endpoint, window.location.href);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  return toRelativeUrl(url.href);
+}
+
+/**
+ * URL of the backend's login endpoint, returning to `redirectUri` (the
+ * current page by default).
+ */
+export function createBffLoginUrl(
+  endpoint: string = DEFAULT_BFF_ENDPOINTS.login,
+  options: Omit<SignInOptions, "mode" | "prompt"> & {
+    /** `create` to start with the registration form (OpenID Connect `prompt=create`) */
+    prompt?: Prompt | "create";
+  } = {}
+): string {
+  return withParams(endpoint, {
+    returnTo: toRelativeUrl(options.redirectUri || window.location.href),
+    idpHint: options.idpHint,
+    loginHint: options.loginHint,
+    locale: options.locale,
+    prompt: options.prompt,
+    scope: options.scope,
+    maxAge: options.maxAge?.toString(),
+    acr: options.acr && JSON.stringify(options.acr),
+    acrValues: options.acrValues,
+  });
+}
+
+/**
+ * URL of the backend's logout endpoint, returning to `redirectUri` (the
+ * app's root by default).
+ */
+export function createBffLogoutUrl(
+  endpoint: string = DEFAULT_BFF_ENDPOINTS.logout,
+  options: Pick<SignOutOptions, "redirectUri"> = {}
+): string {
+  return withParams(endpoint, {
+    returnTo: toRelativeUrl(options.redirectUri || window.location.origin),
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Authorization-related claims found in Keycloak access tokens.
+ *
+ * These helpers only depend on the decoded token payload, so the same rules
+ * can be evaluated anywhere a token is available.
+ */
+export interface AuthorizationClaims {
+  /** Client the token was issued to */
+  azp?: string;
+  /** Space-separated list of granted scopes */
+  scope?: string;
+  /** Realm roles */
+  realm_access?: { roles?: string[] };
+  /** Client roles, keyed by client ID */
+  resource_access?: Record<string, { roles?: string[] } | undefined>;
+  /** Group memberships (requires a group membership mapper) */
+  groups?: string[];
+  [claim: string]: unknown;
+}
+
+/**
+ * Roles required for a specific client.
+ */
+export interface ClientRoles {
+  /** Client ID the roles belong to */
+  client: string;
+  /** Role names */
+  roles: string[];
+}
+
+/**
+ * Roles to check: role names for the current client, or roles of a
+ * specific client.
+ */
+export type RoleRequirement = string[] | ClientRoles;
+
+/**
+ * Split a role requirement into the client and its role names.
+ */
+export function toClientRoles(roles: RoleRequirement): { client?: string; roles: string[] } {
+  return Array.isArray(roles) ? { roles } : roles;
+}
+
+/**
+ * Whether the claims grant the given realm role.
+ */
+export function hasRealmRole(claims: AuthorizationClaims | null | undefined, role: string): boolean {
+  return claims?.realm_access?.roles?.includes(role) ?? false;
+}
+
+/**
+ * Whether the claims grant the given client role.
+ *
+ * @param claims - Decoded access token claims
+ * @param role - Role name
+ * @param client - Client ID (defaults to the `azp` claim)
+ */
+export function hasClientRole(
+  claims: AuthorizationClaims | null | undefined,
+  role: string,
+  client?: string
+): boolean {
+  const clientId = client ?? claims?.azp;
+  if (!clientId) return false;
+  return claims?.resource_access?.[clientId]?.roles?.includes(role) ?? false;
+}
+
+/**
+ * Whether the claims include the given scope.
+ */
+export function hasScope(claims: AuthorizationClaims | null | undefined, scope: string): boolean {
+  if (typeof claims?.scope !== "string") return false;
+  return claims.scope.split(" ").includes(scope);
+}
+
+function normalizeGroup(group: string): string {
+  return group.startsWith("/") ? group : `/${group}`;
+}
+
+/**
+ * Whether the `groups` claim contains the given group.
+ * Groups may be given with or without the leading slash of the full path
+ * (e.g. `"admins"` or `"/admins"`).
+ */
+export function isInGroup(claims: AuthorizationClaims | null | undefined, group: string): boolean {
+  const groups = claims?.groups;
+  if (!Array.isArray(groups)) return false;
+  const expected = normalizeGroup(group);
+  return groups.some((value) => typeof value === "string" && normalizeGroup(value) === expected);
+}
@@ -0,0 +1,201 @@
+import { decodeToken } from "../UserAvatar/UserAvatar";
+import type { StoredTokens } from "./tokenStorage";
+
+/**
+ * A pending device authorization (RFC 8628): the code the user enters on
+ * another device, and where to enter it.
+ */
+export interface DeviceAuthorization {
+  /** Code identifying the device when polling the token endpoint */
+  deviceCode: string;
+  /** Code the user enters on the verification page */
+  userCode: string;
+  /** Verification page to enter the user code on */
+  verificationUri: string;
+  /** Verification page with the user code filled in, e.g. for a QR code */
+  verificationUriComplete?: string;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+  /** Seconds to wait between token requests */
+  interval: number;
+}
+
+/**
+ * Error thrown when device authorization fails.
+ */
+export class DeviceAuthorizationError extends Error {
+  /** HTTP status returned by Keycloak, if any */
+  status?: number;
+  /**
+   * OAuth error returned by Keycloak, e.g. `access_denied` when the user
+   * declined or `expired_token` when the user code expired
+   */
+  oauthError?: string;
+
+  constructor(message: string, status?: number, oauthError?: string) {
+    super(message);
+    this.name = "DeviceAuthorizationError";
+    this.status = status;
+    this.oauthError = oauthError;
+  }
+}
+
+const DEVICE_CODE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+
+/** Seconds added to the polling interval on `slow_down` (RFC 8628, section 3.5) */
+const SLOW_DOWN_INCREMENT = 5;
+
+function getScope(scope?: string): string {
+  const scopes = scope?.split(" ").filter(Boolean) ?? [];
+  return scopes.includes("openid") ? scopes.join(" ") : ["openid", ...scopes].join(" ");
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Start a device authorization at the realm's device authorization
+ * endpoint. The client must have "OAuth 2.0 Device Authorization Grant"
+ * enabled.
+ *
+ * @throws DeviceAuthorizationError if Keycloak rejects the request
+ */
+export async function requestDeviceAuthorization(options: {
+  /** The realm's device authorization endpoint */
+  deviceAuthorizationEndpoint: string;
+  /** Client ID of the device */
+  clientId: string;
+  /** Requested scopes (space-separated); `openid` is always included */
+  scope?: string;
+  /** Optional AbortSignal for cancelling the request */
+  signal?: AbortSignal;
+}): Promise<DeviceAuthorization> {
+  const response = await fetch(options.deviceAuthorizationEndpoint, {
+    method: "POST",
+    headers: { Accept: "application/json" },
+    body: new URLSearchParams({ client_id: options.clientId, scope: getScope(options.scope) }),
+    signal: options.signal,
+  });
+  const data = (await response.json().catch(() => ({}))) as {
+    device_code?: string;
+    user_code?: string;
+    verification_uri?: string;
+    verification_uri_complete?: string;
+    expires_in?: number;
+    interval?: number;
+    error?: string;
+    error_description?: string;
+  };
+  if (!response.ok || !data.device_code || !data.user_code || !data.verification_uri) {
+    throw new DeviceAuthorizationError(
+      data.error_description ||
+        `Failed to start device authorization: ${response.status} ${response.statusText}`,
+      response.status,
+      data.error
+    );
+  }
+
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    verificationUriComplete: data.verification_uri_complete,
+    expiresAt: Date.now() + (data.expires_in ?? 600) * 1000,
+    interval: data.interval ?? 5,
+  };
+}
+
+/**
+ * Poll the token endpoint until the user approved or denied a device
+ * authorization, waiting `interval` seconds between requests and slowing
+ * down when Keycloak asks to. Requests that fail to reach the server are
+ * retried at the next interval.
+ *
+ * @throws DeviceAuthorizationError with `oauthError` `access_denied` if the
+ * user declined, or `expired_token` if the user code expired
+ * @returns Tokens that can be passed to `signInWithTokens`
+ */
+export async function pollDeviceToken(options: {
+  /** The realm's token endpoint */
+  tokenEndpoint: string;
+  /** Client ID of the device */
+  clientId: string;
+  /** The pending authorization */
+  authorization: DeviceAuthorization;
+  /** Optional AbortSignal for cancelling polling */
+  signal?: AbortSignal;
+}): Promise<StoredTokens> {
+  const { authorization, signal } = options;
+  let interval = authorization.interval;
+
+  for (;;) {
+    await wait(interval * 1000, signal);
+    if (Date.now() >= authorization.expiresAt) {
+      throw new DeviceAuthorizationError("The user code has expired", undefined, "expired_token");
+    }
+
+    const requestStart = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(options.tokenEndpoint, {
+        method: "POST",
+        headers: { Accept: "application/json" },
+        body: new URLSearchParams({
+          grant_type: DEVICE_CODE_GRANT_TYPE,
+          device_code: authorization.deviceCode,
+          client_id: options.clientId,
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      continue;
+    }
+
+    const data = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      refresh_token?: string;
+      id_token?: string;
+      error?: string;
+      error_description?: string;
+    };
+    if (response.ok && data.access_token) {
+      // Estimate the clock difference with the server, as keycloak-js does
+      const issuedAt = (decodeToken(data.access_token) as { iat?: number } | null)?.iat;
+      const localTime = (requestStart + Date.now()) / 2;
+      return {
+        token: data.access_token,
+        refreshToken: data.refresh_token,
+        idToken: data.id_token,
+        timeSkew: issuedAt !== undefined ? Math.floor(localTime / 1000) - issuedAt : undefined,
+      };
+    }
+
+    if (data.error === "authorization_pending") continue;
+    if (data.error === "slow_down") {
+      interval += SLOW_DOWN_INCREMENT;
+      continue;
+    }
+    throw new DeviceAuthorizationError(
+      data.error_description ||
+        `Device authorization failed: ${data.error ?? `${response.status} ${response.statusText}`}`,
+      response.status,
+      data.error
+    );
+  }
+}
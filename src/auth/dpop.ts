@@ -0,0 +1,333 @@
+import { openStore, request } from "./indexedDB";
+import { decodeJwtPayload } from "./jwt";
+import { base64UrlEncode, randomString } from "./pkce";
+
+/**
+ * Storage for the DPoP key pair. Methods may be synchronous or return
+ * promises.
+ */
+export interface DPoPKeyStore {
+  /** Read the stored key pair, or null if nothing is stored */
+  get: () => CryptoKeyPair | null | Promise<CryptoKeyPair | null>;
+  /** Persist the key pair */
+  set: (keyPair: CryptoKeyPair) => void | Promise<void>;
+}
+
+/**
+ * Creates DPoP proofs (RFC 9449) binding tokens and requests to a key pair.
+ */
+export interface DPoP {
+  /**
+   * Create a proof for a request.
+   *
+   * @param method - HTTP method of the request
+   * @param url - URL of the request (query and fragment are left out of the proof)
+   * @param accessToken - Access token sent with the request, if any
+   */
+  createProof: (method: string, url: string | URL, accessToken?: string) => Promise<string>;
+  /** Remember the nonce a server sent in the `DPoP-Nonce` header of a response */
+  updateNonce: (url: string | URL, response: Response) => void;
+  /** JWK thumbprint (RFC 7638) of the public key, found in the `cnf.jkt` claim of bound tokens */
+  getThumbprint: () => Promise<string>;
+}
+
+export interface DPoPOptions {
+  /**
+   * Where the key pair is kept. Without a store, a new key pair is created
+   * for each page load, and tokens bound to the previous one can no longer
+   * be used or refreshed.
+   */
+  keyStore?: DPoPKeyStore;
+}
+
+/** Signing algorithm of the key pair */
+const KEY_ALGORITHM: EcKeyGenParams = { name: "ECDSA", namedCurve: "P-256" };
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/** Required members of each key type, in lexicographic order (RFC 7638, section 3.2) */
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  EC: ["crv", "kty", "x", "y"],
+  RSA: ["e", "kty", "n"],
+  OKP: ["crv", "kty", "x"],
+};
+
+/**
+ * The JWK thumbprint (RFC 7638) of a public key, as in the `cnf.jkt` claim
+ * of tokens bound to it.
+ *
+ * @throws {TypeError} If the key type is not supported
+ */
+export function getJwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  const members = THUMBPRINT_MEMBERS[jwk.kty ?? ""];
+  if (!members) {
+    throw new TypeError(`Unsupported key type: ${String(jwk.kty)}`);
+  }
+  const values = jwk as Record<string, unknown>;
+  return sha256(JSON.stringify(Object.fromEntries(members.map((name) => [name, values[name]]))));
+}
+
+/** The `ath` claim of proofs sent with an access token */
+export function getAccessTokenHash(accessToken: string): Promise<string> {
+  return sha256(accessToken);
+}
+
+function toUrl(url: string | URL): URL {
+  return new URL(url, typeof window !== "undefined" ? window.location.href : undefined);
+}
+
+/**
+ * An {@link DPoPKeyStore} keeping the key pair in IndexedDB. The private key
+ * is not extractable: scripts on the page can sign proofs with it while the
+ * page is open, but it cannot be read or copied out of the browser.
+ *
+ * @param key - Key under which the key pair is stored
+ */
+export function createIndexedDBDPoPKeyStore(key: string): DPoPKeyStore {
+  return {
+    async get() {
+      try {
+        const store = await openStore("dpop-keys", "readonly");
+        return ((await request(store.get(key))) as CryptoKeyPair | undefined) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    async set(keyPair) {
+      try {
+        const store = await openStore("dpop-keys", "readwrite");
+        await request(store.put(keyPair, key));
+      } catch {
+        // IndexedDB may be unavailable (e.g. private mode) - the key pair is not persisted
+      }
+    },
+  };
+}
+
+/**
+ * Create DPoP proofs with an ES256 key pair, loaded from `keyStore` or
+ * created (non-extractable) and stored there on first use.
+ *
+ * @example
+ * ```typescript
+ * const dpop = createDPoP({ keyStore: createIndexedDBDPoPKeyStore("my-app") });
+ * const proof = await dpop.createProof("GET", "https://api.example.com/orders", accessToken);
+ * ```
+ */
+export function createDPoP(options: DPoPOptions = {}): DPoP {
+  const { keyStore } = options;
+  const nonces = new Map<string, string>();
+  let keys: Promise<{ keyPair: CryptoKeyPair; jwk: JsonWebKey }> | undefined;
+
+  const getKeys = () => {
+    if (keys) return keys;
+    keys = (async () => {
+      let keyPair = await keyStore?.get();
+      if (!keyPair) {
+        keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ["sign", "verify"]);
+        await keyStore?.set(keyPair);
+      }
+      const { kty, crv, x, y } = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+      return { keyPair, jwk: { kty, crv, x, y } };
+    })();
+    // Try again on the next proof if the key pair could not be created
+    keys.catch(() => {
+      keys = undefined;
+    });
+    return keys;
+  };
+
+  return {
+    async createProof(method, url, accessToken) {
+      const { keyPair, jwk } = await getKeys();
+      const target = toUrl(url);
+      const nonce = nonces.get(target.origin);
+      const input = `${encodeJson({ typ: "dpop+jwt", alg: "ES256", jwk })}.${encodeJson({
+        jti: randomString(16),
+        htm: method.toUpperCase(),
+        htu: `${target.origin}${target.pathname}`,
+        iat: Math.floor(Date.now() / 1000),
+        ...(nonce ? { nonce } : {}),
+        ...(accessToken ? { ath: await getAccessTokenHash(accessToken) } : {}),
+      })}`;
+      const signature = await crypto.subtle.sign(
+        { name: "ECDSA", hash: "SHA-256" },
+        keyPair.privateKey,
+        new TextEncoder().encode(input)
+      );
+      return `${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+    },
+    updateNonce(url, response) {
+      const nonce = response.headers.get("DPoP-Nonce");
+      if (nonce) nonces.set(toUrl(url).origin, nonce);
+    },
+    async getThumbprint() {
+      const { jwk } = await getKeys();
+      return getJwkThumbprint(jwk);
+    },
+  };
+}
+
+/**
+ * Whether a server rejected a proof because it requires a (new) nonce:
+ * `use_dpop_nonce` in the JSON error of the authorization server, or in
+ * the `WWW-Authenticate` challenge of a resource server.
+ */
+export async function isDPoPNonceError(response: Response): Promise<boolean> {
+  if (!response.headers.has("DPoP-Nonce")) return false;
+  if (response.status === 401) {
+    return /use_dpop_nonce/.test(response.headers.get("WWW-Authenticate") ?? "");
+  }
+  if (response.status !== 400) return false;
+  try {
+    const body = (await response.clone().json()) as { error?: unknown };
+    return body.error === "use_dpop_nonce";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Send a request with a DPoP proof, and with `Authorization: DPoP` when an
+ * access token is given. When the server asks for a nonce, the request is
+ * sent once more with a proof including it.
+ */
+export async function fetchWithDPoP(
+  dpop: DPoP,
+  baseFetch: typeof fetch,
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  accessToken?: string
+): Promise<Response> {
+  const url = typeof input === "string" || input instanceof URL ? input : input.url;
+  const method = init?.method ?? (input instanceof Request ? input.method : "GET");
+  // Keep a copy of Request bodies for the retry
+  const retryInput = input instanceof Request ? input.clone() : input;
+
+  const send = async (requestInput: RequestInfo | URL) => {
+    const headers = new Headers(
+      init?.headers ?? (requestInput instanceof Request ? requestInput.headers : undefined)
+    );
+    if (accessToken) headers.set("Authorization", `DPoP ${accessToken}`);
+    headers.set("DPoP", await dpop.createProof(method, url, accessToken));
+    const response = await baseFetch(requestInput, { ...init, headers });
+    dpop.updateNonce(url, response);
+    return response;
+  };
+
+  const response = await send(input);
+  return (await isDPoPNonceError(response)) ? send(retryInput) : response;
+}
+
+/**
+ * Fetch implementations replaced by {@link interceptDPoPRequests}, and the
+ * clients to intercept, by realm URL and client ID
+ */
+let originalFetch: typeof fetch | undefined;
+let interceptingFetch: typeof fetch | undefined;
+const interceptedClients = new Map<string, Map<string, DPoP>>();
+
+/**
+ * The client a request is sent for: the `client_id` of token requests, or
+ * the authorized party of the bearer token of other requests.
+ */
+function getClientId(init: RequestInit | undefined, headers: Headers): string | undefined {
+  const body = init?.body;
+  if (typeof body === "string" || body instanceof URLSearchParams) {
+    const clientId = new URLSearchParams(body).get("client_id");
+    if (clientId) return clientId;
+  }
+  const token = /^bearer\s+(\S+)$/i.exec(headers.get("Authorization") ?? "")?.[1];
+  const azp = token ? decodeJwtPayload(token)?.azp : undefined;
+  return typeof azp === "string" ? azp : undefined;
+}
+
+function findClient(
+  url: URL,
+  init: RequestInit | undefined,
+  headers: Headers
+): { dpop: DPoP; endpoint: string } | undefined {
+  for (const [realmUrl, clients] of interceptedClients) {
+    const prefix = `${realmUrl}/protocol/openid-connect/`;
+    if (!url.href.startsWith(prefix)) continue;
+    const clientId = getClientId(init, headers);
+    // Requests that do not tell their client belong to the only one of the realm
+    const dpop =
+      clientId !== undefined
+        ? clients.get(clientId)
+        : clients.size === 1
+          ? clients.values().next().value
+          : undefined;
+    return dpop && { dpop, endpoint: url.href.slice(prefix.length).split(/[?#]/)[0] };
+  }
+  return undefined;
+}
+
+/**
+ * Add DPoP proofs to the requests keycloak-js and keycloak-react send to a
+ * realm's token endpoint for a client (sign in, refresh, token exchange,
+ * device and popup sign in), so the tokens Keycloak issues are bound to the
+ * key pair. Bearer requests to the userinfo endpoint are sent as DPoP
+ * requests. Other clients of the realm keep their own key pairs, or none.
+ *
+ * keycloak-js has no hook for its token requests, so `fetch` is wrapped
+ * while at least one client is intercepted; other requests pass through.
+ *
+ * @param realmUrl - Base URL of the realm (e.g. `https://kc.example.com/realms/myrealm`)
+ * @param clientId - Client the requests are sent for
+ * @returns A function to stop intercepting the client's requests
+ */
+export function interceptDPoPRequests(realmUrl: string, clientId: string, dpop: DPoP): () => void {
+  const clients = interceptedClients.get(realmUrl) ?? new Map<string, DPoP>();
+  clients.set(clientId, dpop);
+  interceptedClients.set(realmUrl, clients);
+  if (!interceptingFetch) {
+    const baseFetch = globalThis.fetch;
+    originalFetch = baseFetch;
+    interceptingFetch = (input, init) => {
+      const href = typeof input === "string" || input instanceof URL ? input : input.url;
+      const headers = new Headers(
+        init?.headers ?? (input instanceof Request ? input.headers : undefined)
+      );
+      // Requests with a proof already (e.g. from `fetchWithDPoP`) pass through
+      if (headers.has("DPoP")) return baseFetch(input, init);
+      let client: { dpop: DPoP; endpoint: string } | undefined;
+      try {
+        client = findClient(new URL(href), init, headers);
+      } catch {
+        // Relative URLs never point to Keycloak
+      }
+      if (client?.endpoint === "token") {
+        return fetchWithDPoP(client.dpop, baseFetch, input, init);
+      }
+      if (client?.endpoint === "userinfo") {
+        const token = /^bearer\s+(\S+)$/i.exec(headers.get("Authorization") ?? "")?.[1];
+        if (token) return fetchWithDPoP(client.dpop, baseFetch, input, { ...init, headers }, token);
+      }
+      return baseFetch(input, init);
+    };
+    globalThis.fetch = interceptingFetch;
+  }
+
+  return () => {
+    if (clients.get(clientId) !== dpop) return;
+    clients.delete(clientId);
+    if (clients.size === 0 && interceptedClients.get(realmUrl) === clients) {
+      interceptedClients.delete(realmUrl);
+    }
+    if (interceptedClients.size > 0) return;
+    // Leave fetch alone if it was wrapped again in the meantime
+    if (globalThis.fetch === interceptingFetch && originalFetch) {
+      globalThis.fetch = originalFetch;
+    }
+    interceptingFetch = undefined;
+    originalFetch = undefined;
+  };
+}
@@ -0,0 +1,85 @@
+import type Keycloak from "keycloak-js";
+
+/**
+ * Build the base URL of a realm (e.g. `https://kc.example.com/realms/myrealm`).
+ */
+export function getRealmUrl(url: string, realm: string): string {
+  // Normalize URL (remove trailing slash if present)
+  const baseUrl = url.replace(/\/$/, "");
+  return `${baseUrl}/realms/${encodeURIComponent(realm)}`;
+}
+
+/**
+ * Build the OpenID Connect token endpoint URL of a realm.
+ */
+export function getTokenEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/token`;
+}
+
+/**
+ * Build the OAuth 2.0 device authorization endpoint URL of a realm.
+ */
+export function getDeviceAuthorizationEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/auth/device`;
+}
+
+/**
+ * Build the OpenID Connect userinfo endpoint URL of a realm.
+ */
+export function getUserInfoEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/userinfo`;
+}
+
+/**
+ * Build the JSON Web Key Set (JWKS) URL of a realm, listing the public keys
+ * tokens are signed with.
+ */
+export function getJwksEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/certs`;
+}
+
+/**
+ * Build the OAuth 2.0 token revocation endpoint URL of a realm.
+ */
+export function getRevocationEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/revoke`;
+}
+
+/**
+ * Build the OpenID Connect end session (logout) endpoint URL of a realm.
+ */
+export function getLogoutEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/logout`;
+}
+
+/**
+ * Resolve the token endpoint of the realm a keycloak-js instance belongs to.
+ * Returns undefined if the instance has not loaded its configuration yet.
+ */
+export function getKeycloakTokenEndpoint(keycloak: Keycloak): string | undefined {
+  if (!keycloak.authServerUrl || !keycloak.realm) return undefined;
+  return getTokenEndpoint(keycloak.authServerUrl, keycloak.realm);
+}
+
+/**
+ * Build the OpenID Connect authorization endpoint URL of a realm.
+ */
+export function getAuthorizationEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/auth`;
+}
+
+/**
+ * Build the Keycloak registration endpoint URL of a realm. It accepts the
+ * same parameters as the authorization endpoint.
+ */
+export function getRegistrationEndpoint(url: string, realm: string): string {
+  return `${getRealmUrl(url, realm)}/protocol/openid-connect/registrations`;
+}
+
+/**
+ * Build the admin console URL of a realm's administrators.
+ */
+export function getAdminConsoleUrl(url: string, realm: string): string {
+  const baseUrl = url.replace(/\/$/, "");
+  return `${baseUrl}/admin/${encodeURIComponent(realm)}/console/`;
+}
@@ -0,0 +1,166 @@
+import type { AuthMode } from "./AuthContext";
+import type { SessionEndReason } from "./sessionTimeout";
+import type { AuthInitError } from "./initError";
+import type { LoginConfig } from "../config";
+
+/**
+ * Why a session ended:
+ * - `idle` / `expired`: the session timeout was reached (see `useSessionTimeout`)
+ * - `refresh_token_rejected`: Keycloak no longer accepts the refresh token
+ * - `token_expired`: the access token expired with `autoRefresh` off
+ * - `signed_out_elsewhere`: the SSO session was ended outside of the app,
+ *   e.g. in another app or the admin console (see the `monitorSession` option)
+ */
+export type SessionEndedReason =
+  | SessionEndReason
+  | "refresh_token_rejected"
+  | "token_expired"
+  | "signed_out_elsewhere";
+
+/**
+ * Payloads of the auth lifecycle events, keyed by event name.
+ */
+export interface AuthEventMap {
+  /** keycloak-js is being initialized */
+  "init:start": Record<string, never>;
+  /** keycloak-js was initialized */
+  "init:success": {
+    /** Whether the user is signed in */
+    authenticated: boolean;
+    /** Time the initialization took, in milliseconds */
+    duration: number;
+    /**
+     * Time since the sign in redirect started, in milliseconds, when
+     * returning from Keycloak after signing in
+     */
+    signInDuration?: number;
+  };
+  /** keycloak-js could not be initialized */
+  "init:error": {
+    error: AuthInitError;
+    /** Whether initialization will be retried automatically */
+    willRetry: boolean;
+  };
+  /** The user is sent to the Keycloak login or registration page */
+  "signin:redirect": {
+    /** Login or registration */
+    action: "login" | "register";
+    /** Identity provider requested with `idpHint` */
+    idpHint?: string;
+  };
+  /** The Keycloak login or registration page is opened in a popup */
+  "signin:popup": {
+    /** Login or registration */
+    action: "login" | "register";
+    /** Identity provider requested with `idpHint` */
+    idpHint?: string;
+  };
+  /** The access token was refreshed */
+  "token:refreshed": {
+    /** Expiry of the new access token, in milliseconds since the epoch */
+    expiresAt?: number;
+  };
+  /** A token refresh attempt failed */
+  "token:refresh-failed": {
+    /** The refresh error */
+    error: unknown;
+    /** Whether the refresh will be retried (transient failures only) */
+    willRetry: boolean;
+  };
+  /** The session ended without the user signing out */
+  "session:ended": {
+    reason: SessionEndedReason;
+  };
+  /** The user signed out */
+  signout: {
+    /** URL Keycloak redirects to after signing out */
+    redirectUri?: string;
+  };
+  /** The user picked an identity provider in `SocialButtons` */
+  "idp:selected": {
+    /** Identity provider alias */
+    alias: string;
+    /** Full-page redirect or popup */
+    mode: AuthMode;
+  };
+  /** `ConfigProvider` loaded the login configuration */
+  "config:loaded": {
+    /** Where the configuration came from */
+    source: "props" | "server" | "dom";
+    config: LoginConfig;
+  };
+}
+
+/** Name of an auth lifecycle event. */
+export type AuthEventName = keyof AuthEventMap;
+
+/**
+ * An auth lifecycle event, with its `type` and the time it was emitted.
+ */
+export type AuthEvent<T extends AuthEventName = AuthEventName> = {
+  [K in T]: { type: K; timestamp: number } & AuthEventMap[K];
+}[T];
+
+/** Handler for one event type, or for all events (`"*"`). */
+export type AuthEventHandler<T extends AuthEventName = AuthEventName> = (
+  event: AuthEvent<T>
+) => void;
+
+/**
+ * Typed event emitter for auth lifecycle events.
+ */
+export interface AuthEventEmitter {
+  /** Emit an event to all of its handlers */
+  emit: <T extends AuthEventName>(type: T, payload: AuthEventMap[T]) => void;
+  /**
+   * Subscribe to an event, or to all events with `"*"`.
+   * @returns A function that unsubscribes the handler
+   */
+  on: {
+    <T extends AuthEventName>(type: T, handler: AuthEventHandler<T>): () => void;
+    (type: "*", handler: AuthEventHandler): () => void;
+  };
+}
+
+/**
+ * Create a typed emitter for auth lifecycle events. Errors thrown by
+ * handlers are logged and do not affect other handlers.
+ *
+ * @example
+ * ```typescript
+ * const events = createAuthEventEmitter();
+ * const unsubscribe = events.on("token:refresh-failed", ({ error, willRetry }) => {
+ *   telemetry.track("refresh_failed", { error, willRetry });
+ * });
+ * ```
+ */
+export function createAuthEventEmitter(): AuthEventEmitter {
+  const handlers = new Map<string, Set<AuthEventHandler>>();
+
+  const on = (type: string, handler: AuthEventHandler) => {
+    let set = handlers.get(type);
+    if (!set) {
+      set = new Set();
+      handlers.set(type, set);
+    }
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  };
+
+  return {
+    emit(type, payload) {
+      const event = { ...payload, type, timestamp: Date.now() } as AuthEvent;
+      const listeners = [...(handlers.get(type) ?? []), ...(handlers.get("*") ?? [])];
+      for (const handler of listeners) {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error(`Auth event handler for "${type}" failed:`, error);
+        }
+      }
+    },
+    on: on as AuthEventEmitter["on"],
+  };
+}
@@ -5,28 +5,257 @@ export {
   useUser,
   useKeycloak,
   type KeycloakAuthProviderProps,
+  type KeycloakModeProps,
+  type BffModeProps,
   type AuthContextValue,
   type User,
+  type Impersonator,
   type SignInOptions,
   type SignOutOptions,
   type SignUpOptions,
+  type GetTokenOptions,
+  type AuthMode,
+  type AuthorizationRequestOptions,
+  type Prompt,
+  type AuthStatus,
 } from "./KeycloakAuthProvider";
 
+// Initialization errors
+export {
+  AuthInitError,
+  toAuthInitError,
+  diagnoseInitError,
+  type AuthErrorType,
+} from "./initError";
+
+// Popup sign-in
+export {
+  authorizeWithPopup,
+  handlePopupCallback,
+  isPopupCallback,
+  PopupError,
+  PopupBlockedError,
+  PopupClosedError,
+  type PopupErrorCode,
+  type PopupAuthorizationOptions,
+} from "./popup";
+
+// Device authorization
+export {
+  useDeviceAuthorization,
+  type UseDeviceAuthorizationOptions,
+  type UseDeviceAuthorizationReturn,
+  type DeviceAuthorizationStatus,
+} from "./useDeviceAuthorization";
+export {
+  requestDeviceAuthorization,
+  pollDeviceToken,
+  DeviceAuthorizationError,
+  type DeviceAuthorization,
+} from "./deviceAuthorization";
+
+// Authorized fetch
+export {
+  useAuthenticatedFetch,
+  type UseAuthenticatedFetchOptions,
+} from "./useAuthenticatedFetch";
+export {
+  createAuthorizedFetch,
+  type AuthSource,
+  type AllowedOrigin,
+  type AuthorizedFetchOptions,
+} from "./authorizedFetch";
+
+// Authorization
+export {
+  useAuthorization,
+  type Authorization,
+  type RoleOptions,
+  type RoleRequirement,
+} from "./useAuthorization";
+export {
+  hasRealmRole,
+  hasClientRole,
+  hasScope,
+  isInGroup,
+  type AuthorizationClaims,
+  type ClientRoles,
+} from "./claims";
+
+// Authorization Services (UMA) permissions
+export {
+  usePermissions,
+  type UsePermissionsOptions,
+  type UsePermissionsReturn,
+} from "./usePermissions";
+export {
+  requestRpt,
+  parsePermissions,
+  hasPermission,
+  PermissionError,
+  type UmaPermission,
+  type RequestingPartyToken,
+  type RequestRptOptions,
+} from "./permissions";
+
+// Token exchange
+export {
+  useExchangedToken,
+  type UseExchangedTokenOptions,
+  type UseExchangedTokenReturn,
+} from "./useExchangedToken";
+export {
+  requestTokenExchange,
+  TokenExchangeError,
+  type ExchangeTokenOptions,
+  type ExchangedToken,
+  type RequestTokenExchangeOptions,
+} from "./tokenExchange";
+
+// Step-up authentication
+export {
+  useStepUp,
+  type UseStepUpOptions,
+  type UseStepUpReturn,
+  type StepUpOptions,
+} from "./useStepUp";
+export { satisfiesAcr, parseStepUpChallenge, type StepUpChallenge } from "./stepUp";
+
+// Session timeout
+export {
+  useSessionTimeout,
+  type UseSessionTimeoutOptions,
+  type UseSessionTimeoutReturn,
+} from "./useSessionTimeout";
+export {
+  createSessionTimeout,
+  getSessionDeadline,
+  type SessionTimeout,
+  type SessionTimeoutOptions,
+  type SessionTimeoutState,
+  type SessionEndReason,
+} from "./sessionTimeout";
+
+// Session monitoring
+export {
+  createSessionMonitor,
+  type SessionMonitor,
+  type SessionMonitorOptions,
+  type SessionProbe,
+  type SessionCheckMethod,
+} from "./sessionMonitor";
+
+// Auth lifecycle events
+export { useAuthEvent, type UseAuthEventOptions } from "./useAuthEvent";
+export {
+  createAuthEventEmitter,
+  type AuthEvent,
+  type AuthEventMap,
+  type AuthEventName,
+  type AuthEventHandler,
+  type AuthEventEmitter,
+  type SessionEndedReason,
+} from "./events";
+
+// Organizations
+export {
+  useOrganization,
+  useOrganizations,
+  type UseOrganizationReturn,
+  type UseOrganizationsReturn,
+  type SwitchOrganizationOptions,
+} from "./useOrganization";
+export {
+  parseOrganizations,
+  getOrganizationScope,
+  type Organization,
+} from "./organizations";
+
+// Token storage
+export {
+  type TokenStorage,
+  type TokenStorageAdapter,
+  type StoredTokens,
+} from "./tokenStorage";
+
+// Server-rendered sessions
+export { createAuthSession, SessionRenewalError, type AuthSession } from "./authSession";
+
+// Token utilities
+export {
+  verifyToken,
+  TokenVerificationError,
+  type TokenVerificationErrorCode,
+  type VerifyTokenOptions,
+} from "./verifyToken";
+export {
+  decodeJwtHeader,
+  decodeJwtPayload,
+  getTokenExpiry,
+  isTokenExpired,
+  type JwtHeader,
+  type JwsAlgorithm,
+} from "./jwt";
+export { type Jwk } from "./jwks";
+export { getRealmUrl, getJwksEndpoint } from "./endpoints";
+
+// Offline access
+export {
+  OFFLINE_ACCESS_SCOPE,
+  OfflineTokenError,
+  withOfflineAccessScope,
+  isOfflineToken,
+  refreshOfflineSession,
+  revokeToken,
+  createIndexedDBOfflineTokenStore,
+  type OfflineTokenStore,
+  type SessionType,
+} from "./offline";
+
+// DPoP
+export {
+  createDPoP,
+  createIndexedDBDPoPKeyStore,
+  fetchWithDPoP,
+  type DPoP,
+  type DPoPKeyStore,
+  type DPoPOptions,
+} from "./dpop";
+
+// Backend-for-frontend (BFF) mode
+export {
+  fetchBffSession,
+  createBffLoginUrl,
+  createBffLogoutUrl,
+  BffError,
+  DEFAULT_BFF_ENDPOINTS,
+  type BffEndpoints,
+  type BffSession,
+} from "./bff";
+
 // Context (for internal use by components)
-export { AuthContext } from "./AuthContext";
+export { AuthContext, AuthInstancesContext } from "./AuthContext";
 
 // Control components
 export {
   SignedIn,
   SignedOut,
+  AuthLoading,
+  AuthError,
   RedirectToSignIn,
   RedirectToSignUp,
   Protect,
+  Permission,
+  RequireAcr,
   type SignedInProps,
   type SignedOutProps,
+  type AuthLoadingProps,
+  type AuthErrorProps,
   type RedirectToSignInProps,
   type RedirectToSignUpProps,
   type ProtectProps,
+  type PermissionProps,
+  type RequireAcrProps,
 } from "./ControlComponents";
 
 // Buttons
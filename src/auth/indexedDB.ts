@@ -0,0 +1,79 @@
+/**
+ * The IndexedDB database of keycloak-react, shared by the stores persisting
+ * offline tokens and DPoP key pairs.
+ */
+
+const DATABASE_NAME = "keycloak-react";
+const DATABASE_VERSION = 2;
+const STORE_NAMES = ["offline-tokens", "dpop-keys"] as const;
+
+export type StoreName = (typeof STORE_NAMES)[number];
+
+/** The connection of this page, opened on first use */
+let connection: Promise<IDBDatabase> | undefined;
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Open the database, creating the stores missing in databases of previous
+ * versions. The connection is closed when another page upgrades the
+ * database, and opened again on next use.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (connection) return connection;
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    let blocked = false;
+    const open = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    open.onupgradeneeded = () => {
+      for (const storeName of STORE_NAMES) {
+        if (!open.result.objectStoreNames.contains(storeName)) {
+          open.result.createObjectStore(storeName);
+        }
+      }
+    };
+    open.onsuccess = () => {
+      const db = open.result;
+      // Opened after giving up on the blocked upgrade
+      if (blocked) {
+        db.close();
+        return;
+      }
+      const release = () => {
+        if (connection === opening) connection = undefined;
+      };
+      db.onversionchange = () => {
+        db.close();
+        release();
+      };
+      db.onclose = release;
+      resolve(db);
+    };
+    open.onerror = () => reject(open.error);
+    // Pages with an older version open do not close their connection
+    open.onblocked = () => {
+      blocked = true;
+      reject(new Error("The keycloak-react database is in use by another page"));
+    };
+  });
+  connection = opening;
+  opening.catch(() => {
+    if (connection === opening) connection = undefined;
+  });
+  return opening;
+}
+
+/**
+ * Open an object store of the database.
+ */
+export async function openStore(
+  name: StoreName,
+  mode: IDBTransactionMode
+): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
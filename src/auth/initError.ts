@@ -0,0 +1,111 @@
+import { getRealmUrl } from "./endpoints";
+
+/**
+ * Why Keycloak could not be initialized:
+ * - `network`: the Keycloak server could not be reached (offline, DNS, server down)
+ * - `cors`: the server is reachable but the browser blocked the request or
+ *   iframe (CORS, third-party cookies, frame restrictions)
+ * - `configuration`: the client, realm or init options are invalid
+ * - `server`: the Keycloak server responded with an error (5xx)
+ */
+export type AuthErrorType = "network" | "cors" | "configuration" | "server";
+
+/**
+ * Error describing why Keycloak could not be initialized.
+ */
+export class AuthInitError extends Error {
+  /** Kind of failure */
+  type: AuthErrorType;
+  /** HTTP status returned by Keycloak, if any */
+  status?: number;
+  /** OAuth error returned by Keycloak (e.g. `unauthorized_client`), if any */
+  oauthError?: string;
+  /** The original error */
+  cause?: unknown;
+
+  constructor(
+    message: string,
+    type: AuthErrorType,
+    options: { status?: number; oauthError?: string; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "AuthInitError";
+    this.type = type;
+    this.status = options.status;
+    this.oauthError = options.oauthError;
+    this.cause = options.cause;
+  }
+
+  /** Whether the failure is likely temporary (network and server errors) */
+  get isRetryable(): boolean {
+    return this.type === "network" || this.type === "server";
+  }
+}
+
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Classify an error thrown by `keycloak.init()`.
+ *
+ * Browsers report CORS failures like network failures, and keycloak-js
+ * reports unreachable iframes as timeouts; use `diagnoseInitError` to tell
+ * them apart by probing the server.
+ */
+export function toAuthInitError(error: unknown): AuthInitError {
+  if (error instanceof AuthInitError) return error;
+
+  // OAuth error returned to the redirect URI (e.g. { error: "unauthorized_client" })
+  const oauth = error as { error?: unknown; error_description?: unknown } | null;
+  if (oauth && typeof oauth === "object" && typeof oauth.error === "string") {
+    const description = typeof oauth.error_description === "string" ? oauth.error_description : "";
+    return new AuthInitError(description || oauth.error, "configuration", {
+      oauthError: oauth.error,
+      cause: error,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // keycloak-js NetworkError, or errors with their own status (e.g. OfflineTokenError)
+  const failed = error as { status?: unknown; response?: { status?: unknown } } | null;
+  const status = failed?.response?.status ?? failed?.status;
+  if (typeof status === "number") {
+    return new AuthInitError(message, status >= 500 ? "server" : "configuration", {
+      status,
+      cause: error,
+    });
+  }
+  if (error instanceof TypeError && NETWORK_ERROR_PATTERN.test(message)) {
+    return new AuthInitError(message, "network", { cause: error });
+  }
+  if (/iframe|timeout/i.test(message)) {
+    return new AuthInitError(message, "cors", { cause: error });
+  }
+  return new AuthInitError(message, "configuration", { cause: error });
+}
+
+/**
+ * Classify an error thrown by `keycloak.init()`, probing the realm to tell
+ * an unreachable server from a request or iframe the browser blocked.
+ */
+export async function diagnoseInitError(
+  error: unknown,
+  url: string,
+  realm: string
+): Promise<AuthInitError> {
+  const authError = toAuthInitError(error);
+  if (authError.type !== "network" && authError.type !== "cors") return authError;
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return new AuthInitError(authError.message, "network", { cause: error });
+  }
+
+  try {
+    // Opaque requests only fail when the server cannot be reached
+    await fetch(`${getRealmUrl(url, realm)}/.well-known/openid-configuration`, {
+      mode: "no-cors",
+      cache: "no-store",
+    });
+    return new AuthInitError(authError.message, "cors", { cause: error });
+  } catch {
+    return new AuthInitError(authError.message, "network", { cause: error });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * A public key of a JSON Web Key Set (RFC 7517).
+ */
+export interface Jwk extends JsonWebKey {
+  /** Key ID, matched against the `kid` header of tokens */
+  kid?: string;
+  /** Intended use: `sig` for signing keys, `enc` for encryption keys */
+  use?: string;
+}
+
+/** Finds the key a token was signed with, by its key ID */
+export type KeyResolver = (kid: string | undefined) => Promise<Jwk | undefined>;
+
+export interface JwksOptions {
+  /** URL of the JSON Web Key Set */
+  uri: string;
+  /**
+   * Seconds the keys are cached before they are fetched again.
+   * @default 600
+   */
+  cacheMaxAge?: number;
+  /**
+   * Minimum seconds between fetches for keys that are not in the cache, so
+   * tokens with made-up key IDs cannot flood Keycloak with requests.
+   * @default 30
+   */
+  cooldown?: number;
+}
+
+/**
+ * Handle returned by {@link createJwksClient}.
+ */
+export interface JwksClient {
+  /**
+   * The signing key with the given ID, or the only signing key when the
+   * token has no key ID. Resolves with undefined if there is no such key.
+   *
+   * @throws {Error} If the key set cannot be fetched
+   */
+  getKey: KeyResolver;
+}
+
+function isSigningKey(key: Jwk): boolean {
+  return key.use === undefined || key.use === "sig";
+}
+
+/**
+ * The key with the given ID, or the only key when a token has no key ID.
+ */
+export function findKey(keys: Jwk[], kid: string | undefined): Jwk | undefined {
+  if (kid === undefined) {
+    return keys.length === 1 ? keys[0] : undefined;
+  }
+  return keys.find((key) => key.kid === kid);
+}
+
+/**
+ * Create a client for the JSON Web Key Set of a realm. Keys are cached, and
+ * fetched again when a token is signed with an unknown key, so rotated keys
+ * are picked up without a restart. Concurrent fetches are shared, and while
+ * the key set cannot be fetched, the error is reported without fetching it
+ * again until the cooldown has passed.
+ */
+export function createJwksClient(options: JwksOptions): JwksClient {
+  const { uri, cacheMaxAge = 600, cooldown = 30 } = options;
+  let keys: Jwk[] = [];
+  // When the keys were last fetched, and when a fetch last started
+  let fetchedAt: number | undefined;
+  let attemptedAt: number | undefined;
+  // Why the last fetch failed, until one succeeds
+  let lastError: unknown;
+  let pending: Promise<Jwk[]> | undefined;
+
+  const fetchKeys = () => {
+    pending ??= (async () => {
+      attemptedAt = Date.now();
+      try {
+        const response = await fetch(uri, { headers: { Accept: "application/json" } });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch the JSON Web Key Set (${response.status})`);
+        }
+        const body = (await response.json()) as { keys?: unknown };
+        if (!Array.isArray(body.keys)) {
+          throw new Error("The JSON Web Key Set has no keys");
+        }
+        keys = (body.keys as Jwk[]).filter(isSigningKey);
+        fetchedAt = Date.now();
+        lastError = undefined;
+        return keys;
+      } catch (error) {
+        lastError = error;
+        throw error;
+      } finally {
+        pending = undefined;
+      }
+    })();
+    return pending;
+  };
+
+  return {
+    async getKey(kid) {
+      const now = Date.now();
+      const key = findKey(keys, kid);
+      const isFresh = fetchedAt !== undefined && now - fetchedAt < cacheMaxAge * 1000;
+      if (key && isFresh) return key;
+      // Within the cooldown, answer from the last fetch: the keys it got
+      // (stale ones while the key set is unavailable), or its error
+      if (!pending && attemptedAt !== undefined && now - attemptedAt < cooldown * 1000) {
+        if (key || lastError === undefined) return key;
+        throw lastError;
+      }
+      // Expired, or the key may have been rotated since the last fetch
+      return findKey(await fetchKeys(), kid);
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import { base64UrlDecode } from "./pkce";
+
+/**
+ * Decode the payload of a JWT without verifying its signature.
+ *
+ * Free of DOM and React dependencies, so it can be used on the server.
+ *
+ * @returns The payload claims, or null if the token is malformed
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+    // Decode the payload (second part), which is unpadded base64url of UTF-8 JSON
+    const payload: unknown = JSON.parse(
+      new TextDecoder("utf-8", { fatal: true }).decode(base64UrlDecode(parts[1]))
+    );
+    return payload && typeof payload === "object" ? (payload as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The JOSE header of a JWT.
+ */
+export interface JwtHeader {
+  /** Signature algorithm, e.g. `RS256` */
+  alg?: string;
+  /** ID of the signing key */
+  kid?: string;
+  /** Media type of the token, e.g. `JWT` */
+  typ?: string;
+  [parameter: string]: unknown;
+}
+
+/**
+ * Decode the header of a JWT without verifying its signature.
+ *
+ * @returns The header, or null if the token is malformed
+ */
+export function decodeJwtHeader(token: string): JwtHeader | null {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+    const header: unknown = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+    return header && typeof header === "object" ? (header as JwtHeader) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry time of a JWT in milliseconds since the epoch, from its `exp`
+ * claim. The signature is not verified.
+ *
+ * @returns The expiry time, or null if the token is malformed or has no expiry
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+/**
+ * Whether a JWT has expired, or expires within `skew` seconds. Malformed
+ * tokens count as expired; tokens without an `exp` claim never expire.
+ *
+ * @param token - The JWT
+ * @param skew - Seconds before the expiry time the token already counts as
+ *   expired, e.g. to allow for clock skew or request latency
+ * @default skew 0
+ */
+export function isTokenExpired(token: string, skew = 0): boolean {
+  const payload = decodeJwtPayload(token);
+  if (!payload) return true;
+  if (typeof payload.exp !== "number") return false;
+  return (payload.exp - skew) * 1000 <= Date.now();
+}
+
+/** Signature algorithms Keycloak signs tokens with */
+export type JwsAlgorithm =
+  | "RS256"
+  | "RS384"
+  | "RS512"
+  | "PS256"
+  | "PS384"
+  | "PS512"
+  | "ES256"
+  | "ES384"
+  | "ES512"
+  | "EdDSA";
+
+const HASHES: Record<string, string> = { "256": "SHA-256", "384": "SHA-384", "512": "SHA-512" };
+const CURVES: Record<string, string> = { "256": "P-256", "384": "P-384", "512": "P-521" };
+
+/**
+ * WebCrypto parameters of a JWS algorithm (RFC 7518, section 3; EdDSA from
+ * RFC 8037 with Ed25519 keys), or undefined if it is not supported.
+ */
+function getAlgorithmParams(alg: string):
+  | {
+      importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+      verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+    }
+  | undefined {
+  if (alg === "EdDSA") {
+    return { importParams: { name: "Ed25519" }, verifyParams: { name: "Ed25519" } };
+  }
+  const match = /^(RS|PS|ES)(256|384|512)$/.exec(alg);
+  if (!match) return undefined;
+  const [, family, bits] = match;
+  const hash = HASHES[bits];
+  switch (family) {
+    case "RS":
+      return {
+        importParams: { name: "RSASSA-PKCS1-v1_5", hash },
+        verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+      };
+    case "PS":
+      return {
+        importParams: { name: "RSA-PSS", hash },
+        verifyParams: { name: "RSA-PSS", saltLength: Number(bits) / 8 },
+      };
+    default:
+      return {
+        importParams: { name: "ECDSA", namedCurve: CURVES[bits] },
+        verifyParams: { name: "ECDSA", hash },
+      };
+  }
+}
+
+/**
+ * Whether the JWS algorithm is supported by {@link verifyJwtSignature}.
+ */
+export function isSupportedJwsAlgorithm(alg: unknown): alg is JwsAlgorithm {
+  return typeof alg === "string" && getAlgorithmParams(alg) !== undefined;
+}
+
+/**
+ * Verify the signature of a JWT with a public JSON Web Key, using WebCrypto.
+ * Only checks the signature, not the claims.
+ *
+ * @param token - The JWT
+ * @param jwk - Public key of the signer
+ * @param alg - Algorithm the token is signed with, from its header
+ * @returns Whether the signature is valid
+ * @throws {TypeError} If the algorithm is not supported or the key cannot be imported
+ */
+export async function verifyJwtSignature(
+  token: string,
+  jwk: JsonWebKey,
+  alg: JwsAlgorithm
+): Promise<boolean> {
+  const params = getAlgorithmParams(alg);
+  if (!params) {
+    throw new TypeError(`Unsupported JWS algorithm: ${alg}`);
+  }
+  const parts = token.split(".");
+  if (parts.length !== 3) return false;
+  // The key's own "alg" and "use" must not conflict with the import
+  const { kty, n, e, crv, x, y } = jwk;
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty, n, e, crv, x, y },
+    params.importParams,
+    false,
+    ["verify"]
+  );
+  return crypto.subtle.verify(
+    params.verifyParams,
+    key,
+    base64UrlDecode(parts[2]),
+    new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+  );
+}
@@ -0,0 +1,198 @@
+import { decodeToken } from "../UserAvatar/UserAvatar";
+import { openStore, request } from "./indexedDB";
+import type { StoredTokens } from "./tokenStorage";
+
+/** Scope requesting an offline token from Keycloak */
+export const OFFLINE_ACCESS_SCOPE = "offline_access";
+
+/**
+ * Whether the session is backed by a regular (online) SSO session, or by an
+ * offline token that outlives it.
+ */
+export type SessionType = "online" | "offline";
+
+/**
+ * Secure storage for the offline refresh token.
+ * Methods may be synchronous or return promises.
+ */
+export interface OfflineTokenStore {
+  /** Read the stored offline token, or null if nothing is stored */
+  get: () => string | null | Promise<string | null>;
+  /** Persist the offline token */
+  set: (token: string) => void | Promise<void>;
+  /** Remove the stored offline token */
+  clear: () => void | Promise<void>;
+}
+
+/**
+ * Error thrown when an offline token cannot be used or revoked.
+ */
+export class OfflineTokenError extends Error {
+  /** HTTP status returned by Keycloak, if any */
+  status?: number;
+  /** OAuth error returned by Keycloak (e.g. `invalid_grant`), if any */
+  oauthError?: string;
+
+  constructor(message: string, status?: number, oauthError?: string) {
+    super(message);
+    this.name = "OfflineTokenError";
+    this.status = status;
+    this.oauthError = oauthError;
+  }
+}
+
+/**
+ * Add the `offline_access` scope to a space-separated scope list.
+ */
+export function withOfflineAccessScope(scope?: string): string {
+  const scopes = (scope ?? "").split(" ").filter(Boolean);
+  return scopes.includes(OFFLINE_ACCESS_SCOPE)
+    ? scopes.join(" ")
+    : [...scopes, OFFLINE_ACCESS_SCOPE].join(" ");
+}
+
+/**
+ * Whether a refresh token is an offline token (`typ: "Offline"`).
+ */
+export function isOfflineToken(refreshToken: string | undefined): boolean {
+  if (!refreshToken) return false;
+  const claims = decodeToken(refreshToken) as { typ?: unknown } | null;
+  return claims?.typ === "Offline";
+}
+
+async function postForm(url: string, body: URLSearchParams, action: string): Promise<Response> {
+  // Network failures are not wrapped, so init errors are classified as network errors
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { Accept: "application/json" },
+    body,
+  });
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as {
+      error?: string;
+      error_description?: string;
+    };
+    throw new OfflineTokenError(
+      data.error_description || `Failed to ${action}: ${response.status} ${response.statusText}`,
+      response.status,
+      data.error
+    );
+  }
+  return response;
+}
+
+/**
+ * Start a session from an offline token using the refresh token grant.
+ *
+ * @throws OfflineTokenError if Keycloak rejects the token
+ * @returns Tokens that can be passed to `keycloak.init`
+ */
+export async function refreshOfflineSession(options: {
+  tokenEndpoint: string;
+  clientId: string;
+  refreshToken: string;
+}): Promise<StoredTokens> {
+  const body = new URLSearchParams({
+    grant_type: "refresh_token",
+    client_id: options.clientId,
+    refresh_token: options.refreshToken,
+  });
+  const response = await postForm(options.tokenEndpoint, body, "restore offline session");
+  const data = (await response.json()) as {
+    access_token?: string;
+    refresh_token?: string;
+    id_token?: string;
+  };
+  if (!data.access_token) {
+    throw new OfflineTokenError("Token endpoint did not return a token");
+  }
+
+  const claims = decodeToken(data.access_token) as { iat?: unknown } | null;
+  return {
+    token: data.access_token,
+    refreshToken: data.refresh_token ?? options.refreshToken,
+    idToken: data.id_token,
+    timeSkew:
+      typeof claims?.iat === "number" ? Math.floor(Date.now() / 1000) - claims.iat : undefined,
+  };
+}
+
+/**
+ * Revoke a refresh token (e.g. an offline token) at the realm's revocation
+ * endpoint, ending its session.
+ *
+ * @throws OfflineTokenError if Keycloak rejects the request
+ */
+export async function revokeToken(options: {
+  revocationEndpoint: string;
+  clientId: string;
+  token: string;
+}): Promise<void> {
+  const body = new URLSearchParams({
+    client_id: options.clientId,
+    token: options.token,
+    token_type_hint: "refresh_token",
+  });
+  await postForm(options.revocationEndpoint, body, "revoke token");
+}
+
+interface EncryptedRecord {
+  key: CryptoKey;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/**
+ * An {@link OfflineTokenStore} keeping the offline token in IndexedDB,
+ * encrypted with a non-extractable AES-GCM key stored next to it. Scripts
+ * on the page can still use the token, but it cannot be read from disk or
+ * copied out of the browser profile in plain text.
+ *
+ * @param key - Key under which the token is stored
+ */
+export function createIndexedDBOfflineTokenStore(key: string): OfflineTokenStore {
+  return {
+    async get() {
+      try {
+        const store = await openStore("offline-tokens", "readonly");
+        const record = (await request(store.get(key))) as EncryptedRecord | undefined;
+        if (!record) return null;
+        const data = await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: record.iv },
+          record.key,
+          record.data
+        );
+        return new TextDecoder().decode(data);
+      } catch {
+        return null;
+      }
+    },
+    async set(token) {
+      try {
+        const cryptoKey = await crypto.subtle.generateKey(
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        );
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv },
+          cryptoKey,
+          new TextEncoder().encode(token)
+        );
+        const store = await openStore("offline-tokens", "readwrite");
+        await request(store.put({ key: cryptoKey, iv, data } satisfies EncryptedRecord, key));
+      } catch {
+        // IndexedDB may be unavailable (e.g. private mode) - the token is not persisted
+      }
+    },
+    async clear() {
+      try {
+        const store = await openStore("offline-tokens", "readwrite");
+        await request(store.delete(key));
+      } catch {
+        // IndexedDB unavailable - nothing is stored
+      }
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * A Keycloak organization the user is a member of, from the `organization`
+ * claim (Keycloak 26+).
+ */
+export interface Organization {
+  /** The organization's alias (the key of the claim) */
+  alias: string;
+  /** The organization's ID, if the mapper adds it */
+  id?: string;
+  /**
+   * Display name, from a `name` attribute if the mapper adds attributes.
+   * Falls back to the alias for display.
+   */
+  name?: string;
+  /** Roles of the user within the organization (from a `roles` entry) */
+  roles: string[];
+  /** Organization attributes, if the mapper adds them */
+  attributes: Record<string, string[]>;
+}
+
+/** Claim holding the user's organizations. */
+export const ORGANIZATION_CLAIM = "organization";
+
+function toStrings(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === "string");
+  return typeof value === "string" ? [value] : [];
+}
+
+/**
+ * Parse the `organization` claim into organizations.
+ *
+ * Keycloak adds the claim in one of two shapes, depending on the mapper
+ * settings:
+ * - a list of aliases: `["acme", "globex"]`
+ * - an object keyed by alias, with the organization's `id` and attributes:
+ *   `{ "acme": { "id": "…", "name": ["Acme Inc."], "roles": ["admin"] } }`
+ */
+export function parseOrganizations(claim: unknown): Organization[] {
+  if (typeof claim === "string" || Array.isArray(claim)) {
+    return toStrings(claim).map((alias) => ({ alias, roles: [], attributes: {} }));
+  }
+  if (!claim || typeof claim !== "object") return [];
+
+  return Object.entries(claim as Record<string, unknown>).map(([alias, value]) => {
+    const entry = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+    const attributes: Record<string, string[]> = {};
+    for (const [key, attribute] of Object.entries(entry)) {
+      if (key !== "id" && key !== "roles") attributes[key] = toStrings(attribute);
+    }
+    return {
+      alias,
+      id: typeof entry.id === "string" ? entry.id : undefined,
+      name: attributes.name?.[0],
+      roles: toStrings(entry.roles),
+      attributes,
+    };
+  });
+}
+
+/**
+ * The scope requesting tokens for a single organization
+ * (`organization:<alias>`), or for all of the user's organizations
+ * (`organization:*`) when no alias is given.
+ */
+export function getOrganizationScope(alias?: string): string {
+  return `${ORGANIZATION_CLAIM}:${alias ?? "*"}`;
+}
+
+/**
+ * The active organization: the preferred one if the user is a member of it,
+ * otherwise the only organization in the token.
+ */
+export function getActiveOrganization(
+  organizations: Organization[],
+  preferred?: string | null
+): Organization | null {
+  const match = preferred ? organizations.find((org) => org.alias === preferred) : undefined;
+  if (match) return match;
+  return organizations.length === 1 ? organizations[0] : null;
+}
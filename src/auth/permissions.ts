@@ -0,0 +1,167 @@
+import { decodeToken } from "../UserAvatar/UserAvatar";
+import { fetchWithDPoP, type DPoP } from "./dpop";
+
+/**
+ * A permission granted by Keycloak Authorization Services.
+ */
+export interface UmaPermission {
+  /** Resource ID */
+  rsid?: string;
+  /** Resource name */
+  rsname?: string;
+  /** Granted scopes (empty when the whole resource is granted) */
+  scopes?: string[];
+  /** Additional claims pushed by policies */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * A requesting party token (RPT) together with its granted permissions.
+ */
+export interface RequestingPartyToken {
+  /** The raw RPT */
+  token: string;
+  /** Permissions granted by the RPT */
+  permissions: UmaPermission[];
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+export interface RequestRptOptions {
+  /** The realm's token endpoint */
+  tokenEndpoint: string;
+  /** The user's access token */
+  accessToken: string;
+  /** Client ID of the resource server */
+  audience: string;
+  /**
+   * Limit the evaluation to specific permissions, in the `resource#scope`
+   * format (e.g. `["invoice#approve"]`).
+   */
+  permissions?: string[];
+  /** Optional AbortSignal for cancelling the request */
+  signal?: AbortSignal;
+  /**
+   * DPoP proofs for a DPoP-bound access token, which is then sent as
+   * `Authorization: DPoP` with a proof
+   */
+  dpop?: DPoP | null;
+}
+
+/**
+ * Error thrown when a requesting party token cannot be obtained.
+ */
+export class PermissionError extends Error {
+  /** HTTP status returned by the token endpoint, if any */
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "PermissionError";
+    this.status = status;
+  }
+}
+
+/**
+ * Extract the permissions from a requesting party token.
+ */
+export function parsePermissions(rpt: string): UmaPermission[] {
+  const claims = decodeToken(rpt) as { authorization?: { permissions?: unknown } } | null;
+  const permissions = claims?.authorization?.permissions;
+  return Array.isArray(permissions) ? (permissions as UmaPermission[]) : [];
+}
+
+/**
+ * Whether the permissions grant access to a resource, optionally limited
+ * to a scope. Resources are matched by name or ID.
+ */
+export function hasPermission(
+  permissions: UmaPermission[],
+  resource: string,
+  scope?: string
+): boolean {
+  return permissions.some((permission) => {
+    if (permission.rsname !== resource && permission.rsid !== resource) return false;
+    if (!scope) return true;
+    return permission.scopes?.includes(scope) ?? false;
+  });
+}
+
+/**
+ * Request a requesting party token (RPT) from Keycloak Authorization Services
+ * using the `urn:ietf:params:oauth:grant-type:uma-ticket` grant.
+ *
+ * A `403` response means no permissions were granted; it resolves with an
+ * empty permission list rather than throwing.
+ *
+ * @throws PermissionError if the request fails
+ *
+ * @example
+ * ```typescript
+ * const rpt = await requestRpt({
+ *   tokenEndpoint: "https://kc.example.com/realms/myrealm/protocol/openid-connect/token",
+ *   accessToken: keycloak.token,
+ *   audience: "billing-api",
+ * });
+ *
+ * hasPermission(rpt.permissions, "invoice", "approve");
+ * ```
+ */
+export async function requestRpt(options: RequestRptOptions): Promise<RequestingPartyToken> {
+  const { tokenEndpoint, accessToken, audience, permissions = [], signal, dpop } = options;
+
+  const body = new URLSearchParams([
+    ["grant_type", "urn:ietf:params:oauth:grant-type:uma-ticket"],
+    ["audience", audience],
+    ...permissions.map((permission): [string, string] => ["permission", permission]),
+  ]);
+
+  const init: RequestInit = { method: "POST", body, signal };
+  let response: Response;
+  try {
+    response = dpop
+      ? await fetchWithDPoP(
+          dpop,
+          fetch,
+          tokenEndpoint,
+          { ...init, headers: { Accept: "application/json" } },
+          accessToken
+        )
+      : await fetch(tokenEndpoint, {
+          ...init,
+          headers: {
+            Accept: "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+        });
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw error;
+    }
+    throw new PermissionError(
+      `Network error while requesting permissions: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  if (response.status === 403) {
+    return { token: "", permissions: [], expiresAt: Date.now() + 60_000 };
+  }
+
+  if (!response.ok) {
+    throw new PermissionError(
+      `Failed to request permissions: ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+
+  const data = (await response.json()) as { access_token?: string; expires_in?: number };
+  if (!data.access_token) {
+    throw new PermissionError("Token endpoint did not return a requesting party token");
+  }
+
+  return {
+    token: data.access_token,
+    permissions: parsePermissions(data.access_token),
+    expiresAt: Date.now() + (data.expires_in ?? 60) * 1000,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Helpers for authorization code requests with PKCE (RFC 7636), shared by
+ * popup sign in and the server-side sign in of `keycloak-react/nextjs`,
+ * and the base64url encoding they use.
+ */
+
+/** Encode bytes as base64url without padding. */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Decode base64url, with or without padding. */
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** A random base64url string, e.g. for `state`, `nonce` and code verifiers. */
+export function randomString(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return base64UrlEncode(bytes);
+}
+
+/** The S256 code challenge of a code verifier. */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
@@ -0,0 +1,290 @@
+import type Keycloak from "keycloak-js";
+import type { Acr } from "keycloak-js";
+import { decodeToken } from "../UserAvatar/UserAvatar";
+import { getAuthorizationEndpoint, getRegistrationEndpoint, getTokenEndpoint } from "./endpoints";
+import { createCodeChallenge, randomString } from "./pkce";
+import type { SessionSyncTokens } from "./sessionSync";
+import type { AuthorizationRequestOptions } from "./AuthContext";
+
+/**
+ * Why a popup sign-in failed.
+ */
+export type PopupErrorCode =
+  | "popup_blocked"
+  | "popup_closed"
+  | "authorization_failed"
+  | "token_exchange_failed";
+
+/**
+ * Error thrown when signing in with a popup fails.
+ */
+export class PopupError extends Error {
+  /** Why the popup sign-in failed */
+  code: PopupErrorCode;
+  /** OAuth error returned by Keycloak (e.g. `access_denied`), if any */
+  oauthError?: string;
+
+  constructor(message: string, code: PopupErrorCode, oauthError?: string) {
+    super(message);
+    this.name = "PopupError";
+    this.code = code;
+    this.oauthError = oauthError;
+  }
+}
+
+/**
+ * Error thrown when the browser blocked the sign-in popup.
+ * Popups must be opened from a user interaction, such as a click handler.
+ */
+export class PopupBlockedError extends PopupError {
+  constructor() {
+    super("The sign-in popup was blocked by the browser", "popup_blocked");
+    this.name = "PopupBlockedError";
+  }
+}
+
+/**
+ * Error thrown when the user closed the sign-in popup before completing it.
+ */
+export class PopupClosedError extends PopupError {
+  constructor() {
+    super("The sign-in popup was closed before signing in", "popup_closed");
+    this.name = "PopupClosedError";
+  }
+}
+
+export interface PopupAuthorizationOptions extends AuthorizationRequestOptions {
+  /** Open the login or registration page */
+  action?: "login" | "register";
+  /**
+   * URL Keycloak redirects the popup to. The page must call
+   * `handlePopupCallback()` (KeycloakAuthProvider does this automatically).
+   * Defaults to the current URL.
+   */
+  redirectUri?: string;
+  /** Requested authentication level through the `claims` parameter */
+  acr?: Acr;
+  /** Requested authentication levels (`acr_values`) */
+  acrValues?: string;
+}
+
+/** Message type posted from the popup to its opener. */
+const CALLBACK_MESSAGE = "keycloak-react:popup-callback";
+
+/** Prefix marking the `state` of authorization requests started in a popup. */
+const STATE_PREFIX = "popup-";
+
+/** How often (in milliseconds) to check whether the popup was closed. */
+const CLOSED_POLL_INTERVAL = 500;
+
+interface CallbackMessage {
+  type: typeof CALLBACK_MESSAGE;
+  url: string;
+}
+
+/** The requested scopes, always including `openid`. */
+function getScope(scope?: string): string {
+  const scopes = scope?.split(" ").filter(Boolean) ?? [];
+  return scopes.includes("openid") ? scopes.join(" ") : ["openid", ...scopes].join(" ");
+}
+
+function getCallbackParams(url: string): URLSearchParams {
+  const { hash, search } = new URL(url);
+  return new URLSearchParams(hash ? hash.slice(1) : search);
+}
+
+function openPopup(): Window {
+  const width = 500;
+  const height = 650;
+  const left = window.screenX + (window.outerWidth - width) / 2;
+  const top = window.screenY + (window.outerHeight - height) / 2;
+  const popup = window.open(
+    "",
+    "keycloak-react-popup",
+    `popup,width=${width},height=${height},left=${left},top=${top}`
+  );
+  if (!popup) {
+    throw new PopupBlockedError();
+  }
+  return popup;
+}
+
+function waitForCallback(popup: Window, state: string): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener("message", onMessage);
+      clearInterval(closedTimer);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data as Partial<CallbackMessage> | null;
+      if (event.origin !== window.location.origin || data?.type !== CALLBACK_MESSAGE) return;
+      const params = getCallbackParams(data.url ?? "");
+      if (params.get("state") !== state) return;
+      cleanup();
+      resolve(params);
+    };
+
+    const closedTimer = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new PopupClosedError());
+      }
+    }, CLOSED_POLL_INTERVAL);
+
+    window.addEventListener("message", onMessage);
+  });
+}
+
+/**
+ * Whether the current window is a sign-in popup returning from Keycloak.
+ */
+export function isPopupCallback(): boolean {
+  if (typeof window === "undefined" || !window.opener) return false;
+  const params = getCallbackParams(window.location.href);
+  return (
+    (params.get("state")?.startsWith(STATE_PREFIX) ?? false) &&
+    (params.has("code") || params.has("error"))
+  );
+}
+
+/**
+ * Send the authorization response of a sign-in popup back to the window that
+ * opened it, and close the popup. Call this on the page Keycloak redirects
+ * the popup to; KeycloakAuthProvider calls it automatically.
+ *
+ * @returns Whether the current window was a sign-in popup
+ *
+ * @example
+ * ```typescript
+ * // popup-callback.ts
+ * import { handlePopupCallback } from "keycloak-react";
+ *
+ * handlePopupCallback();
+ * ```
+ */
+export function handlePopupCallback(): boolean {
+  if (!isPopupCallback()) return false;
+  const message: CallbackMessage = { type: CALLBACK_MESSAGE, url: window.location.href };
+  (window.opener as Window).postMessage(message, window.location.origin);
+  window.close();
+  return true;
+}
+
+/**
+ * Sign in (or register) in a popup window and exchange the authorization
+ * code for tokens in the current page, preserving in-memory app state.
+ *
+ * The popup is opened synchronously, so this must be called from a user
+ * interaction (e.g. a click handler) to avoid popup blockers.
+ *
+ * @throws PopupBlockedError if the browser blocked the popup
+ * @throws PopupClosedError if the user closed the popup
+ * @throws PopupError if Keycloak returned an error or the code exchange failed
+ *
+ * @example
+ * ```typescript
+ * const tokens = await authorizeWithPopup(keycloak, { idpHint: "google" });
+ * ```
+ */
+export async function authorizeWithPopup(
+  keycloak: Keycloak,
+  options: PopupAuthorizationOptions = {}
+): Promise<SessionSyncTokens> {
+  const { authServerUrl, realm, clientId } = keycloak;
+  if (!authServerUrl || !realm || !clientId) {
+    throw new Error("authorizeWithPopup requires an initialized Keycloak instance");
+  }
+
+  // Open the popup before any asynchronous work to keep the user activation
+  const popup = openPopup();
+
+  try {
+    const redirectUri = options.redirectUri || window.location.href.split("#")[0];
+    const state = `${STATE_PREFIX}${randomString(16)}`;
+    const nonce = randomString(16);
+    const codeVerifier = randomString(48);
+
+    const endpoint =
+      options.action === "register"
+        ? getRegistrationEndpoint(authServerUrl, realm)
+        : getAuthorizationEndpoint(authServerUrl, realm);
+    const url = new URL(endpoint);
+    const params: Record<string, string | undefined> = {
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      state,
+      nonce,
+      response_mode: "fragment",
+      response_type: "code",
+      scope: getScope(options.scope),
+      code_challenge: await createCodeChallenge(codeVerifier),
+      code_challenge_method: "S256",
+      claims: options.acr ? JSON.stringify({ id_token: { acr: options.acr } }) : undefined,
+      acr_values: options.acrValues,
+      max_age: options.maxAge?.toString(),
+      kc_idp_hint: options.idpHint,
+      login_hint: options.loginHint,
+      ui_locales: options.locale,
+      prompt: options.prompt,
+    };
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    popup.location.href = url.toString();
+
+    const response = await waitForCallback(popup, state);
+    const error = response.get("error");
+    if (error) {
+      throw new PopupError(
+        response.get("error_description") || `Authorization failed: ${error}`,
+        "authorization_failed",
+        error
+      );
+    }
+
+    const requestStart = Date.now();
+    const tokenResponse = await fetch(getTokenEndpoint(authServerUrl, realm), {
+      method: "POST",
+      headers: { Accept: "application/json" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: response.get("code") ?? "",
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        code_verifier: codeVerifier,
+      }),
+    });
+    if (!tokenResponse.ok) {
+      throw new PopupError(
+        `Failed to exchange the authorization code: ${tokenResponse.status} ${tokenResponse.statusText}`,
+        "token_exchange_failed"
+      );
+    }
+
+    const data = (await tokenResponse.json()) as {
+      access_token?: string;
+      refresh_token?: string;
+      id_token?: string;
+    };
+    const idTokenClaims = data.id_token
+      ? (decodeToken(data.id_token) as { nonce?: string } | null)
+      : null;
+    if (!data.access_token || idTokenClaims?.nonce !== nonce) {
+      throw new PopupError("Invalid token response", "token_exchange_failed");
+    }
+
+    // Estimate the clock difference with the server, as keycloak-js does
+    const issuedAt = (decodeToken(data.access_token) as { iat?: number } | null)?.iat;
+    const localTime = (requestStart + Date.now()) / 2;
+
+    return {
+      token: data.access_token,
+      refreshToken: data.refresh_token,
+      idToken: data.id_token,
+      timeSkew: issuedAt !== undefined ? Math.floor(localTime / 1000) - issuedAt : undefined,
+    };
+  } finally {
+    if (!popup.closed) popup.close();
+  }
+}
@@ -0,0 +1,121 @@
+import type { KeycloakResponseMode } from "keycloak-js";
+
+/**
+ * Routing of sign in redirect callbacks between provider instances.
+ *
+ * keycloak-js takes any callback in the URL whose state it finds in its
+ * `kc-callback-*` storage, which all instances on a page share, so the first
+ * instance to initialize would exchange the code of another instance. The
+ * instance starting a redirect sign in records its namespace, and the other
+ * instances wait until it has taken the callback before initializing.
+ */
+
+const OWNER_KEY = "keycloak-react:signin-instance";
+
+/** How long other instances wait for the instance a callback belongs to */
+const CALLBACK_TIMEOUT = 10_000;
+
+/** Parameters keycloak-js reads from a callback of the standard flow */
+const CALLBACK_PARAMS = [
+  "code",
+  "state",
+  "session_state",
+  "iss",
+  "kc_action_status",
+  "kc_action",
+  "error",
+  "error_description",
+  "error_uri",
+];
+
+let handled: { promise: Promise<void>; resolve: () => void } | undefined;
+
+function getHandled() {
+  if (!handled) {
+    let resolve!: () => void;
+    const promise = new Promise<void>((done) => {
+      resolve = done;
+    });
+    handled = { promise, resolve };
+  }
+  return handled;
+}
+
+function getCallbackParams(responseMode: KeycloakResponseMode): URLSearchParams {
+  const { search, hash } = window.location;
+  return new URLSearchParams(responseMode === "query" ? search : hash.slice(1));
+}
+
+function isCallback(responseMode: KeycloakResponseMode): boolean {
+  const params = getCallbackParams(responseMode);
+  return params.has("state") && (params.has("code") || params.has("error"));
+}
+
+/**
+ * Record that the instance with this namespace is redirecting to Keycloak,
+ * so the callback is routed back to it.
+ */
+export function setRedirectCallbackOwner(namespace: string): void {
+  try {
+    sessionStorage.setItem(OWNER_KEY, namespace);
+  } catch {
+    // Storage unavailable - instances race for the callback as before
+  }
+}
+
+/**
+ * Namespace of the instance the callback in the current URL belongs to, if
+ * the URL is a callback of a redirect started by a provider instance.
+ */
+export function getRedirectCallbackOwner(
+  responseMode: KeycloakResponseMode = "fragment"
+): string | undefined {
+  if (typeof window === "undefined" || !isCallback(responseMode)) return undefined;
+  try {
+    return sessionStorage.getItem(OWNER_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Called by the owning instance once keycloak-js took the callback: lets the
+ * other instances initialize.
+ */
+export function releaseRedirectCallback(): void {
+  try {
+    sessionStorage.removeItem(OWNER_KEY);
+  } catch {
+    // Storage unavailable
+  }
+  getHandled().resolve();
+  handled = undefined;
+}
+
+/**
+ * Wait until the owning instance took the callback. When it does not do so
+ * in time (it is not rendered on this page), the callback is removed from
+ * the URL, so no other instance exchanges its code.
+ */
+export async function waitForRedirectCallback(
+  responseMode: KeycloakResponseMode = "fragment"
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(true), CALLBACK_TIMEOUT);
+  });
+  const timedOut = await Promise.race([getHandled().promise.then(() => false), timeout]);
+  clearTimeout(timer);
+  if (!timedOut || !isCallback(responseMode)) return;
+
+  const params = getCallbackParams(responseMode);
+  CALLBACK_PARAMS.forEach((name) => params.delete(name));
+  const url = new URL(window.location.href);
+  if (responseMode === "query") {
+    url.search = params.toString();
+  } else {
+    url.hash = params.toString();
+  }
+  window.history.replaceState(window.history.state, "", url.href);
+  releaseRedirectCallback();
+}
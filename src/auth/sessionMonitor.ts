@@ -0,0 +1,251 @@
+import type Keycloak from "keycloak-js";
+import { fetchWithDPoP, type DPoP } from "./dpop";
+import { getRealmUrl, getUserInfoEndpoint } from "./endpoints";
+import { isOfflineToken } from "./offline";
+
+/**
+ * How the session status is checked:
+ * - `iframe`: Keycloak's check-session iframe (OIDC Session Management),
+ *   which needs third-party cookies
+ * - `probe`: a periodic request with the access token (the userinfo
+ *   endpoint, or a custom `probe`)
+ */
+export type SessionCheckMethod = "iframe" | "probe";
+
+/**
+ * Checks whether the session of an access token is still active, e.g. by
+ * asking a backend that introspects the token. Resolves with false once the
+ * session has ended. Rejections are ignored, and the session is checked
+ * again at the next interval.
+ */
+export type SessionProbe = (accessToken: string, signal: AbortSignal) => Promise<boolean>;
+
+/**
+ * Options for the session status monitor.
+ */
+export interface SessionMonitorOptions {
+  /** Seconds between checks */
+  interval: number;
+  /** Probe to use instead of the check-session iframe and the userinfo endpoint */
+  probe?: SessionProbe;
+  /** DPoP proofs for the userinfo request, when the access token is DPoP-bound */
+  dpop?: DPoP | null;
+  /** Called when the session was ended outside of the app */
+  onSessionEnded: () => void;
+}
+
+/**
+ * Handle returned by {@link createSessionMonitor}.
+ */
+export interface SessionMonitor {
+  /** Start checking the session of the signed-in user */
+  start: () => void;
+  /** Stop checking */
+  stop: () => void;
+}
+
+/** Milliseconds to wait for the third-party cookie check and the check-session iframe */
+const IFRAME_TIMEOUT = 10000;
+
+function createHiddenIframe(src: string, title: string): HTMLIFrameElement {
+  const iframe = document.createElement("iframe");
+  iframe.setAttribute("src", src);
+  iframe.setAttribute(
+    "sandbox",
+    "allow-storage-access-by-user-activation allow-scripts allow-same-origin"
+  );
+  iframe.setAttribute("title", title);
+  iframe.style.display = "none";
+  document.body.appendChild(iframe);
+  return iframe;
+}
+
+/**
+ * Whether Keycloak's cookies are available in iframes, using Keycloak's
+ * third-party cookie check pages. Without them, the check-session iframe
+ * reports every session as changed.
+ */
+function checkThirdPartyCookies(realmUrl: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const iframe = createHiddenIframe(
+      `${realmUrl}/protocol/openid-connect/3p-cookies/step1.html`,
+      "keycloak-react-3p-check-iframe"
+    );
+    const done = (supported: boolean) => {
+      clearTimeout(timer);
+      window.removeEventListener("message", onMessage);
+      iframe.remove();
+      resolve(supported);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      if (event.data === "supported" || event.data === "unsupported") {
+        done(event.data === "supported");
+      }
+    };
+    const timer = setTimeout(() => done(false), IFRAME_TIMEOUT);
+    window.addEventListener("message", onMessage);
+  });
+}
+
+/**
+ * Create a monitor detecting when the SSO session of a keycloak-js instance
+ * ends outside of the app, e.g. when the user signs out in another app or an
+ * administrator ends the session.
+ *
+ * The check-session iframe is used when third-party cookies are available;
+ * otherwise the userinfo endpoint is requested with the access token, which
+ * Keycloak rejects once the session is gone. Checks are paused while the
+ * tab is hidden and run when it becomes visible again. Sessions restored
+ * from offline tokens are not checked, as they outlive the SSO session.
+ *
+ * @example
+ * ```typescript
+ * const monitor = createSessionMonitor(keycloak, {
+ *   interval: 30,
+ *   onSessionEnded: () => keycloak.clearToken(),
+ * });
+ * monitor.start();
+ * ```
+ */
+export function createSessionMonitor(
+  keycloak: Keycloak,
+  options: SessionMonitorOptions
+): SessionMonitor {
+  const { interval, probe, dpop, onSessionEnded } = options;
+  let method: Promise<SessionCheckMethod> | undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let controller: AbortController | undefined;
+  let iframe: HTMLIFrameElement | undefined;
+  let iframeOrigin: string | undefined;
+  let running = false;
+
+  const getRealm = () =>
+    keycloak.authServerUrl && keycloak.realm
+      ? { url: keycloak.authServerUrl, realm: keycloak.realm }
+      : undefined;
+
+  const end = () => {
+    pause();
+    onSessionEnded();
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (!iframe || event.source !== iframe.contentWindow || event.origin !== iframeOrigin) return;
+    if (event.data === "changed") {
+      end();
+    } else if (event.data === "error") {
+      // The client or its web origin is not allowed to use the iframe
+      iframe.remove();
+      iframe = undefined;
+      method = Promise.resolve("probe");
+    }
+  };
+
+  const setUpIframe = (realmUrl: string): Promise<boolean> =>
+    new Promise((resolve) => {
+      const frame = createHiddenIframe(
+        `${realmUrl}/protocol/openid-connect/login-status-iframe.html`,
+        "keycloak-react-session-iframe"
+      );
+      const timeout = setTimeout(() => {
+        frame.remove();
+        resolve(false);
+      }, IFRAME_TIMEOUT);
+      frame.addEventListener("load", () => {
+        clearTimeout(timeout);
+        if (!running) {
+          frame.remove();
+          resolve(false);
+          return;
+        }
+        iframe = frame;
+        iframeOrigin = new URL(realmUrl).origin;
+        window.addEventListener("message", onMessage);
+        resolve(true);
+      });
+    });
+
+  const getMethod = () => {
+    method ??= (async (): Promise<SessionCheckMethod> => {
+      const realm = getRealm();
+      if (probe || !realm) return "probe";
+      const realmUrl = getRealmUrl(realm.url, realm.realm);
+      const iframeAvailable =
+        (await checkThirdPartyCookies(realmUrl)) && (await setUpIframe(realmUrl));
+      return iframeAvailable ? "iframe" : "probe";
+    })();
+    return method;
+  };
+
+  const probeUserInfo: SessionProbe = async (accessToken, signal) => {
+    const realm = getRealm();
+    if (!realm) return true;
+    const endpoint = getUserInfoEndpoint(realm.url, realm.realm);
+    const response = dpop
+      ? await fetchWithDPoP(dpop, fetch, endpoint, { signal }, accessToken)
+      : await fetch(endpoint, { headers: { Authorization: `Bearer ${accessToken}` }, signal });
+    return response.status !== 401;
+  };
+
+  const check = async () => {
+    const { token } = keycloak;
+    if (!running || !token || document.visibilityState === "hidden") return;
+    if (isOfflineToken(keycloak.refreshToken)) return;
+
+    const current = await getMethod();
+    if (!running) return;
+    if (current === "iframe" && iframe?.contentWindow && iframeOrigin) {
+      iframe.contentWindow.postMessage(
+        `${keycloak.clientId} ${keycloak.sessionId ?? ""}`,
+        iframeOrigin
+      );
+      return;
+    }
+
+    // An expired token would be rejected whether or not the session is active
+    const expiresAt = keycloak.tokenParsed?.exp;
+    if (expiresAt !== undefined && (expiresAt + (keycloak.timeSkew ?? 0)) * 1000 <= Date.now()) {
+      return;
+    }
+    controller?.abort();
+    controller = new AbortController();
+    try {
+      const active = await (probe ?? probeUserInfo)(token, controller.signal);
+      // Ignore results for tokens that changed in the meantime (e.g. a new sign in)
+      if (running && !active && keycloak.token === token) end();
+    } catch {
+      // Network failures do not tell whether the session is active
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "visible") void check();
+  };
+
+  // Stop checking, keeping the iframe for the next session
+  function pause() {
+    running = false;
+    clearInterval(timer);
+    timer = undefined;
+    controller?.abort();
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      timer = setInterval(() => void check(), interval * 1000);
+      document.addEventListener("visibilitychange", onVisibilityChange);
+      void check();
+    },
+    stop() {
+      pause();
+      window.removeEventListener("message", onMessage);
+      iframe?.remove();
+      iframe = undefined;
+      method = undefined;
+    },
+  };
+}
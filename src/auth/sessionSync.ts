@@ -0,0 +1,156 @@
+import type Keycloak from "keycloak-js";
+import type { KeycloakTokenParsed } from "keycloak-js";
+import { decodeToken } from "../UserAvatar/UserAvatar";
+
+/**
+ * Auth events shared between tabs.
+ */
+export type SessionSyncEventType = "signin" | "signout" | "token-refresh" | "user-change";
+
+/**
+ * Tokens handed from one tab to the others.
+ */
+export interface SessionSyncTokens {
+  token?: string;
+  refreshToken?: string;
+  idToken?: string;
+  timeSkew?: number | null;
+}
+
+/**
+ * Message broadcast to other tabs.
+ */
+export interface SessionSyncMessage {
+  type: SessionSyncEventType;
+  /** The tokens of the sending tab; not sent through the storage fallback */
+  tokens?: SessionSyncTokens;
+}
+
+/**
+ * A channel for broadcasting auth events to other tabs of the same origin.
+ */
+export interface SessionChannel {
+  /** Send a message to all other tabs */
+  post: (message: SessionSyncMessage) => void;
+  /** Stop listening and release the channel */
+  close: () => void;
+}
+
+function isSessionSyncMessage(value: unknown): value is SessionSyncMessage {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as SessionSyncMessage).type === "string"
+  );
+}
+
+/**
+ * Creates a channel that broadcasts auth events to other tabs.
+ *
+ * Uses a BroadcastChannel when available and falls back to `storage` events
+ * otherwise. With the fallback, messages are written to localStorage and
+ * removed again immediately, so they never persist, and without their tokens:
+ * localStorage is readable by any script of the origin, whatever token
+ * storage the app chose. Receivers get the tokens from that storage instead.
+ *
+ * @param name - Channel name, shared by all tabs of the same app
+ * @param onMessage - Called for every message received from another tab
+ */
+export function createSessionChannel(
+  name: string,
+  onMessage: (message: SessionSyncMessage) => void
+): SessionChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent) => {
+      if (isSessionSyncMessage(event.data)) {
+        onMessage(event.data);
+      }
+    };
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  if (typeof window === "undefined" || typeof localStorage === "undefined") {
+    return { post: () => {}, close: () => {} };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== name || !event.newValue) return;
+    try {
+      const message: unknown = JSON.parse(event.newValue);
+      if (isSessionSyncMessage(message)) {
+        onMessage(message);
+      }
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        // Only signal the event. Include a timestamp so repeated identical
+        // messages still trigger events
+        localStorage.setItem(name, JSON.stringify({ type: message.type, sentAt: Date.now() }));
+        localStorage.removeItem(name);
+      } catch {
+        // Storage may be unavailable (e.g. private mode quota)
+      }
+    },
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
+
+/**
+ * Read the current tokens from a keycloak-js instance.
+ */
+export function getSessionTokens(keycloak: Keycloak): SessionSyncTokens {
+  return {
+    token: keycloak.token,
+    refreshToken: keycloak.refreshToken,
+    idToken: keycloak.idToken,
+    timeSkew: keycloak.timeSkew,
+  };
+}
+
+function parseToken(token: string | undefined): KeycloakTokenParsed | undefined {
+  if (!token) return undefined;
+  return (decodeToken(token) as KeycloakTokenParsed | null) ?? undefined;
+}
+
+/**
+ * Apply tokens received from another tab (or a sign-in popup) to a
+ * keycloak-js instance.
+ *
+ * keycloak-js has no public API for replacing tokens after `init`, so the
+ * public token fields are updated directly, mirroring what keycloak-js does
+ * after a refresh.
+ *
+ * @returns Whether the tokens were applied (not when the access token is
+ * missing or malformed)
+ */
+export function applySessionTokens(keycloak: Keycloak, tokens: SessionSyncTokens): boolean {
+  const tokenParsed = parseToken(tokens.token);
+  if (!tokens.token || !tokenParsed) return false;
+
+  keycloak.token = tokens.token;
+  keycloak.tokenParsed = tokenParsed;
+  keycloak.refreshToken = tokens.refreshToken;
+  keycloak.refreshTokenParsed = parseToken(tokens.refreshToken);
+  keycloak.idToken = tokens.idToken;
+  keycloak.idTokenParsed = parseToken(tokens.idToken);
+  keycloak.subject = tokenParsed.sub;
+  keycloak.sessionId = tokenParsed.sid;
+  keycloak.realmAccess = tokenParsed.realm_access;
+  keycloak.resourceAccess = tokenParsed.resource_access;
+  keycloak.authenticated = true;
+  if (tokens.timeSkew !== undefined) {
+    keycloak.timeSkew = tokens.timeSkew;
+  }
+  return true;
+}
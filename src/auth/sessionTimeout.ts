@@ -0,0 +1,266 @@
+import type Keycloak from "keycloak-js";
+
+/**
+ * Why a session ends:
+ * - `idle`: the user (or, without automatic refresh, the SSO session) was
+ *   inactive for too long; the session can be extended
+ * - `expired`: the SSO session reached its maximum lifespan; the user has
+ *   to sign in again
+ */
+export type SessionEndReason = "idle" | "expired";
+
+/**
+ * When and why the current session will end.
+ */
+export interface SessionTimeoutState {
+  /**
+   * When the session ends, in milliseconds since the epoch, or undefined if
+   * it does not expire. Updated when tokens change and when the warning starts.
+   */
+  expiresAt: number | undefined;
+  /** Why the session will end */
+  reason: SessionEndReason | undefined;
+  /** Whether the session ends within the warning time */
+  isWarning: boolean;
+}
+
+/**
+ * Options for the session timeout monitor.
+ */
+export interface SessionTimeoutOptions {
+  /** Seconds of inactivity after which the session ends */
+  idleTimeout?: number;
+  /** The realm's SSO session max lifespan in seconds, counted from `auth_time` */
+  sessionMaxLifespan?: number;
+  /** Seconds before the session ends at which the warning starts */
+  warningTime: number;
+  /**
+   * Whether tokens are refreshed automatically. Otherwise the session ends
+   * when the refresh token expires.
+   */
+  autoRefresh: boolean;
+  /** localStorage key used to share user activity between tabs */
+  activityKey?: string;
+  /** Called when the session timeout state changes */
+  onChange: (state: SessionTimeoutState) => void;
+  /** Called when the session ends */
+  onTimeout: (reason: SessionEndReason) => void;
+}
+
+/**
+ * Handle returned by {@link createSessionTimeout}.
+ */
+export interface SessionTimeout {
+  /** Start tracking activity and session expiry */
+  start: () => void;
+  /** Stop all timers and listeners */
+  stop: () => void;
+  /** Re-evaluate the session expiry (e.g. after tokens changed) */
+  check: () => void;
+  /** Record user activity, even while the warning is showing */
+  reset: () => void;
+}
+
+/** DOM events that count as user activity. */
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "scroll"];
+
+/** Minimum interval (in milliseconds) between activity writes shared with other tabs. */
+const ACTIVITY_SHARE_INTERVAL = 5000;
+
+/** Interval (in milliseconds) at which the expiry is re-evaluated during the warning. */
+const WARNING_CHECK_INTERVAL = 1000;
+
+/** Longest delay (in milliseconds) timers support; longer delays fire at once. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const EMPTY_STATE: SessionTimeoutState = { expiresAt: undefined, reason: undefined, isWarning: false };
+
+/**
+ * Compute when and why the session of a keycloak-js instance ends.
+ *
+ * The session ends at the earliest of:
+ * - the last activity plus `idleTimeout`
+ * - `auth_time` plus `sessionMaxLifespan`
+ * - the refresh token expiry, if it cannot be renewed (`autoRefresh` is
+ *   off, or Keycloak capped it at the access token expiry, which happens
+ *   when the SSO session reaches its maximum lifespan)
+ *
+ * @returns The end of the session, or undefined if it does not expire
+ */
+export function getSessionDeadline(
+  keycloak: Keycloak,
+  options: Pick<SessionTimeoutOptions, "idleTimeout" | "sessionMaxLifespan" | "autoRefresh"> & {
+    lastActivity: number;
+  }
+): { expiresAt: number; reason: SessionEndReason } | undefined {
+  const { idleTimeout, sessionMaxLifespan, autoRefresh, lastActivity } = options;
+  const candidates: { expiresAt: number; reason: SessionEndReason }[] = [];
+  // Convert server times (in seconds) to local times (in milliseconds)
+  const toLocalTime = (time: number) => (time + (keycloak.timeSkew ?? 0)) * 1000;
+
+  if (idleTimeout) {
+    candidates.push({ expiresAt: lastActivity + idleTimeout * 1000, reason: "idle" });
+  }
+
+  const authTime = keycloak.idTokenParsed?.auth_time ?? keycloak.tokenParsed?.auth_time;
+  if (sessionMaxLifespan && typeof authTime === "number") {
+    candidates.push({ expiresAt: toLocalTime(authTime + sessionMaxLifespan), reason: "expired" });
+  }
+
+  const refreshExp = keycloak.refreshTokenParsed?.exp;
+  const accessExp = keycloak.tokenParsed?.exp;
+  const isCapped = accessExp !== undefined && refreshExp !== undefined && refreshExp <= accessExp;
+  if (refreshExp && (!autoRefresh || isCapped)) {
+    candidates.push({ expiresAt: toLocalTime(refreshExp), reason: isCapped ? "expired" : "idle" });
+  }
+
+  return candidates.reduce<{ expiresAt: number; reason: SessionEndReason } | undefined>(
+    (earliest, candidate) =>
+      !earliest || candidate.expiresAt < earliest.expiresAt ? candidate : earliest,
+    undefined
+  );
+}
+
+function readSharedActivity(key: string | undefined): number {
+  if (!key) return 0;
+  try {
+    return Number(localStorage.getItem(key)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivity(key: string | undefined, time: number) {
+  if (!key) return;
+  try {
+    localStorage.setItem(key, String(time));
+  } catch {
+    // Storage unavailable - activity is only tracked in this tab
+  }
+}
+
+/**
+ * Creates a monitor that tracks user activity and the session expiry, and
+ * reports when the session is about to end and when it has ended.
+ *
+ * - Activity (pointer, keyboard, scroll) extends the idle deadline, except
+ *   while the warning is showing; the user must then confirm with `reset()`.
+ * - Activity is shared between tabs through localStorage, so an idle tab
+ *   does not end a session that is in use elsewhere.
+ *
+ * @example
+ * ```typescript
+ * const timeout = createSessionTimeout(keycloak, {
+ *   idleTimeout: 900,
+ *   warningTime: 60,
+ *   autoRefresh: true,
+ *   onChange: setState,
+ *   onTimeout: () => keycloak.logout(),
+ * });
+ * timeout.start();
+ * ```
+ */
+export function createSessionTimeout(
+  keycloak: Keycloak,
+  options: SessionTimeoutOptions
+): SessionTimeout {
+  const { idleTimeout, warningTime, activityKey, onChange, onTimeout } = options;
+
+  let state = EMPTY_STATE;
+  let lastActivity = Date.now();
+  let lastShared = 0;
+  let started = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const clearTimer = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  const update = (next: SessionTimeoutState) => {
+    if (
+      next.isWarning === state.isWarning &&
+      next.reason === state.reason &&
+      Math.abs((next.expiresAt ?? 0) - (state.expiresAt ?? 0)) < 1000
+    ) {
+      return;
+    }
+    state = next;
+    onChange(next);
+  };
+
+  const record = (time: number) => {
+    lastActivity = time;
+    if (time - lastShared >= ACTIVITY_SHARE_INTERVAL) {
+      lastShared = time;
+      writeSharedActivity(activityKey, time);
+    }
+  };
+
+  const onActivity = () => {
+    if (state.isWarning) return;
+    record(Date.now());
+  };
+
+  function check() {
+    clearTimer();
+    if (!started) return;
+
+    const deadline = keycloak.authenticated
+      ? getSessionDeadline(keycloak, {
+          ...options,
+          lastActivity: Math.max(lastActivity, readSharedActivity(activityKey)),
+        })
+      : undefined;
+    if (!deadline) {
+      update(EMPTY_STATE);
+      return;
+    }
+
+    const remaining = deadline.expiresAt - Date.now();
+    if (remaining <= 0) {
+      update(EMPTY_STATE);
+      onTimeout(deadline.reason);
+      return;
+    }
+
+    const isWarning = remaining <= warningTime * 1000;
+    update({ ...deadline, isWarning });
+    // During the warning, check regularly for activity in other tabs. Far
+    // deadlines are checked again before the warning, as often as timers allow.
+    timer = setTimeout(
+      check,
+      isWarning
+        ? Math.min(remaining, WARNING_CHECK_INTERVAL)
+        : Math.min(remaining - warningTime * 1000, MAX_TIMER_DELAY)
+    );
+  }
+
+  return {
+    start() {
+      if (started) return;
+      started = true;
+      if (idleTimeout && typeof window !== "undefined") {
+        ACTIVITY_EVENTS.forEach((event) =>
+          window.addEventListener(event, onActivity, { passive: true })
+        );
+      }
+      check();
+    },
+    stop() {
+      started = false;
+      clearTimer();
+      if (typeof window !== "undefined") {
+        ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+      }
+    },
+    check,
+    reset() {
+      lastShared = 0;
+      record(Date.now());
+      check();
+    },
+  };
+}
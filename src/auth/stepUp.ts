@@ -0,0 +1,88 @@
+/**
+ * Authentication requirements from a step-up challenge (RFC 9470).
+ */
+export interface StepUpChallenge {
+  /** Requested authentication context class references (space-separated) */
+  acrValues?: string;
+  /** Maximum allowed time (in seconds) since the user authenticated */
+  maxAge?: number;
+}
+
+/**
+ * Whether an authentication level satisfies a required level.
+ *
+ * Levels are compared by their position in `levels` (ordered from lowest to
+ * highest) when given, numerically when both are numbers (Keycloak's default
+ * level-of-authentication values), and by equality otherwise.
+ *
+ * @param current - The `acr` claim of the current token
+ * @param required - The required level
+ * @param levels - Known levels, ordered from lowest to highest
+ */
+export function satisfiesAcr(
+  current: string | undefined,
+  required: string,
+  levels?: string[]
+): boolean {
+  if (current === undefined) return false;
+  if (current === required) return true;
+
+  if (levels) {
+    const currentIndex = levels.indexOf(current);
+    const requiredIndex = levels.indexOf(required);
+    return currentIndex !== -1 && requiredIndex !== -1 && currentIndex >= requiredIndex;
+  }
+
+  const currentLevel = Number(current);
+  const requiredLevel = Number(required);
+  if (current.trim() === "" || required.trim() === "") return false;
+  if (Number.isNaN(currentLevel) || Number.isNaN(requiredLevel)) return false;
+  return currentLevel >= requiredLevel;
+}
+
+/**
+ * Parse the parameters of a `WWW-Authenticate` header value.
+ */
+function parseAuthParams(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const pattern = /([a-zA-Z_][\w-]*)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  for (const match of header.matchAll(pattern)) {
+    params[match[1].toLowerCase()] = match[2]?.replace(/\\(.)/g, "$1") ?? match[3];
+  }
+  return params;
+}
+
+/**
+ * Extract a step-up challenge from a 401 response (or its `WWW-Authenticate`
+ * header) carrying `error="insufficient_user_authentication"`.
+ *
+ * @returns The challenge, or null if the response is not a step-up challenge
+ *
+ * @example
+ * ```typescript
+ * const response = await authFetch("/api/payouts", { method: "POST" });
+ * const challenge = parseStepUpChallenge(response);
+ * if (challenge) {
+ *   await signIn({ acrValues: challenge.acrValues, maxAge: challenge.maxAge });
+ * }
+ * ```
+ */
+export function parseStepUpChallenge(input: Response | string | null): StepUpChallenge | null {
+  let header: string | null;
+  if (typeof input === "string" || input === null) {
+    header = input;
+  } else {
+    if (input.status !== 401) return null;
+    header = input.headers.get("WWW-Authenticate");
+  }
+  if (!header) return null;
+
+  const params = parseAuthParams(header);
+  if (params.error !== "insufficient_user_authentication") return null;
+
+  const maxAge = params.max_age !== undefined ? Number(params.max_age) : undefined;
+  return {
+    acrValues: params.acr_values,
+    maxAge: maxAge !== undefined && !Number.isNaN(maxAge) ? maxAge : undefined,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Options for exchanging the current access token for another token.
+ */
+export interface ExchangeTokenOptions {
+  /** Client ID of the service the token is intended for */
+  audience?: string;
+  /** Requested scopes (space-separated) */
+  scope?: string;
+  /**
+   * Type of token to issue, e.g.
+   * `urn:ietf:params:oauth:token-type:refresh_token`.
+   * Defaults to an access token.
+   */
+  requestedTokenType?: string;
+  /**
+   * Minimum validity (in seconds) a cached token must have.
+   * Defaults to the provider's `minValidity`.
+   */
+  minValidity?: number;
+  /** Exchange a new token even if a cached one is still valid */
+  forceRefresh?: boolean;
+}
+
+/**
+ * A token issued by the token exchange grant.
+ */
+export interface ExchangedToken {
+  /** The issued token */
+  token: string;
+  /** Type of the issued token (`issued_token_type`) */
+  issuedTokenType?: string;
+  /** Granted scopes */
+  scope?: string;
+  /** Refresh token, if one was issued */
+  refreshToken?: string;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+export interface RequestTokenExchangeOptions
+  extends Pick<ExchangeTokenOptions, "audience" | "scope" | "requestedTokenType"> {
+  /** The realm's token endpoint */
+  tokenEndpoint: string;
+  /** Client ID of the client performing the exchange */
+  clientId: string;
+  /** The access token to exchange */
+  subjectToken: string;
+  /** Optional AbortSignal for cancelling the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown when a token cannot be exchanged.
+ */
+export class TokenExchangeError extends Error {
+  /** HTTP status returned by the token endpoint, if any */
+  status?: number;
+  /** OAuth error returned by the token endpoint (e.g. `access_denied`), if any */
+  oauthError?: string;
+
+  constructor(message: string, status?: number, oauthError?: string) {
+    super(message);
+    this.name = "TokenExchangeError";
+    this.status = status;
+    this.oauthError = oauthError;
+  }
+}
+
+/**
+ * Exchange an access token for a token scoped to another audience using
+ * Keycloak's token exchange grant
+ * (`urn:ietf:params:oauth:grant-type:token-exchange`, RFC 8693).
+ *
+ * @throws TokenExchangeError if the exchange fails
+ *
+ * @example
+ * ```typescript
+ * const exchanged = await requestTokenExchange({
+ *   tokenEndpoint: "https://kc.example.com/realms/myrealm/protocol/openid-connect/token",
+ *   clientId: "my-app",
+ *   subjectToken: keycloak.token,
+ *   audience: "billing-api",
+ * });
+ * ```
+ */
+export async function requestTokenExchange(
+  options: RequestTokenExchangeOptions
+): Promise<ExchangedToken> {
+  const { tokenEndpoint, clientId, subjectToken, audience, scope, requestedTokenType, signal } =
+    options;
+
+  const body = new URLSearchParams({
+    grant_type: "urn:ietf:params:oauth:grant-type:token-exchange",
+    client_id: clientId,
+    subject_token: subjectToken,
+    subject_token_type: "urn:ietf:params:oauth:token-type:access_token",
+  });
+  if (audience) body.set("audience", audience);
+  if (scope) body.set("scope", scope);
+  if (requestedTokenType) body.set("requested_token_type", requestedTokenType);
+
+  let response: Response;
+  try {
+    response = await fetch(tokenEndpoint, {
+      method: "POST",
+      headers: { Accept: "application/json" },
+      body,
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw error;
+    }
+    throw new TokenExchangeError(
+      `Network error while exchanging token: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as {
+      error?: string;
+      error_description?: string;
+    };
+    throw new TokenExchangeError(
+      data.error_description ||
+        `Failed to exchange token: ${response.status} ${response.statusText}`,
+      response.status,
+      data.error
+    );
+  }
+
+  const data = (await response.json()) as {
+    access_token?: string;
+    issued_token_type?: string;
+    scope?: string;
+    refresh_token?: string;
+    expires_in?: number;
+  };
+  if (!data.access_token) {
+    throw new TokenExchangeError("Token endpoint did not return a token");
+  }
+
+  return {
+    token: data.access_token,
+    issuedTokenType: data.issued_token_type,
+    scope: data.scope,
+    refreshToken: data.refresh_token,
+    expiresAt: Date.now() + (data.expires_in ?? 60) * 1000,
+  };
+}
+
+/**
+ * Cache of exchanged tokens, renewed once they are about to expire.
+ */
+export interface TokenExchangeCache {
+  /**
+   * Get a cached token, or exchange a new one if there is none or it
+   * expires within `minValidity` seconds. Concurrent calls share one request.
+   */
+  get: (
+    key: string,
+    exchange: () => Promise<ExchangedToken>,
+    options: { minValidity: number; force?: boolean }
+  ) => Promise<ExchangedToken>;
+  /** Remove all cached tokens */
+  clear: () => void;
+}
+
+/**
+ * Create a cache of exchanged tokens, keyed by audience, scope and token type.
+ */
+export function createTokenExchangeCache(): TokenExchangeCache {
+  const entries = new Map<string, { promise: Promise<ExchangedToken>; expiresAt?: number }>();
+
+  return {
+    get(key, exchange, { minValidity, force }) {
+      const cached = entries.get(key);
+      if (
+        !force &&
+        cached &&
+        (cached.expiresAt === undefined || cached.expiresAt - minValidity * 1000 > Date.now())
+      ) {
+        return cached.promise;
+      }
+
+      const entry: { promise: Promise<ExchangedToken>; expiresAt?: number } = {
+        promise: exchange().then(
+          (result) => {
+            entry.expiresAt = result.expiresAt;
+            return result;
+          },
+          (error) => {
+            if (entries.get(key) === entry) {
+              entries.delete(key);
+            }
+            throw error;
+          }
+        ),
+      };
+      entries.set(key, entry);
+      return entry.promise;
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,268 @@
+import type Keycloak from "keycloak-js";
+
+/**
+ * Options for the token refresh scheduler.
+ */
+export interface TokenRefreshOptions {
+  /**
+   * Minimum number of seconds the access token must remain valid.
+   * Tokens are renewed this many seconds before they expire.
+   */
+  minValidity: number;
+  /**
+   * Maximum number of retries for transient (network) refresh failures.
+   * @default 3
+   */
+  maxRetries?: number;
+  /**
+   * Base delay in milliseconds between retries. Doubled on every attempt.
+   * @default 1000
+   */
+  retryDelay?: number;
+  /**
+   * Called when the refresh token has been rejected and the session can no
+   * longer be renewed.
+   */
+  onSessionEnded?: (error: unknown) => void;
+  /**
+   * Called when a refresh attempt fails, with whether it will be retried.
+   */
+  onRefreshFailed?: (error: unknown, willRetry: boolean) => void;
+  /**
+   * Name of a Web Lock shared by the tabs of the same session. Only the tab
+   * holding the lock refreshes; the others wait for the tokens it shares
+   * (see {@link TokenRefresher.remoteRefreshed}) instead of sending the same
+   * refresh token, which Keycloak rejects once refresh tokens are rotated.
+   */
+  lockName?: string;
+  /**
+   * Renews the tokens instead of `keycloak.updateToken`, with the same
+   * semantics, e.g. through a server keeping the refresh token.
+   */
+  updateToken?: (minValidity: number) => Promise<boolean>;
+}
+
+/**
+ * Handle returned by {@link createTokenRefresher}.
+ */
+export interface TokenRefresher {
+  /** Start scheduling refreshes and listening for tab visibility changes */
+  start: () => void;
+  /** Stop all timers and listeners */
+  stop: () => void;
+  /** (Re)schedule the next refresh based on the current token expiry */
+  schedule: () => void;
+  /**
+   * Refresh the token if it expires within `minValidity` seconds.
+   * Concurrent calls share a single `updateToken` request.
+   * Resolves with `true` if the token was refreshed.
+   */
+  refresh: (minValidity?: number) => Promise<boolean>;
+  /** Tokens refreshed by another tab were applied to the instance */
+  remoteRefreshed: () => void;
+}
+
+/**
+ * Whether a refresh error means the refresh token itself was rejected
+ * (`400 invalid_grant` from the token endpoint), as opposed to a transient
+ * network or server failure.
+ */
+export function isRefreshTokenRejected(error: unknown): boolean {
+  const status = (error as { response?: { status?: unknown } } | null)?.response?.status;
+  return status === 400;
+}
+
+/**
+ * Number of milliseconds until the access token held by the instance expires,
+ * or undefined if it carries no expiry.
+ */
+function getExpiresIn(keycloak: Keycloak): number | undefined {
+  const exp = keycloak.tokenParsed?.exp;
+  if (typeof exp !== "number") return undefined;
+  return (exp - Date.now() / 1000 + (keycloak.timeSkew ?? 0)) * 1000;
+}
+
+function isDocumentHidden(): boolean {
+  return typeof document !== "undefined" && document.visibilityState === "hidden";
+}
+
+const wait = (delay: number) => new Promise<void>((resolve) => setTimeout(resolve, delay));
+
+/** How long to wait for the tokens of the tab refreshing before refreshing here */
+const REMOTE_REFRESH_TIMEOUT = 10_000;
+
+function getLockManager(): LockManager | undefined {
+  return typeof navigator !== "undefined" ? navigator.locks : undefined;
+}
+
+/**
+ * Creates a scheduler that renews the access token shortly before it expires.
+ *
+ * - Refreshes are scheduled `minValidity` seconds ahead of the token expiry.
+ * - While the tab is hidden, due refreshes are deferred and caught up on
+ *   `visibilitychange`.
+ * - Concurrent refresh requests are deduplicated into one `updateToken` call.
+ * - Transient network failures are retried with exponential backoff; the
+ *   session only ends when a refresh token was held and Keycloak rejected it.
+ * - With `lockName`, tabs sharing the session refresh one at a time, and
+ *   tabs finding another one refreshing wait for its tokens.
+ *
+ * @example
+ * ```typescript
+ * const refresher = createTokenRefresher(keycloak, { minValidity: 30 });
+ * refresher.start();
+ * const token = await refresher.refresh().then(() => keycloak.token);
+ * ```
+ */
+export function createTokenRefresher(
+  keycloak: Keycloak,
+  options: TokenRefreshOptions
+): TokenRefresher {
+  const {
+    minValidity,
+    maxRetries = 3,
+    retryDelay = 1000,
+    onSessionEnded,
+    onRefreshFailed,
+    lockName,
+  } = options;
+  const renew = options.updateToken ?? ((validity: number) => keycloak.updateToken(validity));
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending = false;
+  let started = false;
+  let inFlight: Promise<boolean> | null = null;
+  let remoteWaiters: (() => void)[] = [];
+
+  const clearTimer = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  const notifyRemoteWaiters = () => {
+    const waiters = remoteWaiters;
+    remoteWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  };
+
+  const waitForRemoteRefresh = () =>
+    new Promise<void>((resolve) => {
+      const timeout = setTimeout(() => {
+        remoteWaiters = remoteWaiters.filter((waiter) => waiter !== done);
+        resolve();
+      }, REMOTE_REFRESH_TIMEOUT);
+      const done = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      remoteWaiters.push(done);
+    });
+
+  const updateToken = async (validity: number): Promise<boolean> => {
+    const locks = getLockManager();
+    if (!lockName || !locks) return renew(validity);
+
+    const result = await locks.request(lockName, { ifAvailable: true }, async (lock) =>
+      lock ? { refreshed: await renew(validity) } : null
+    );
+    if (result) return result.refreshed;
+
+    // Another tab is refreshing - use its tokens, unless they do not arrive
+    const expiresIn = getExpiresIn(keycloak);
+    if (expiresIn === undefined || expiresIn <= validity * 1000) {
+      await waitForRemoteRefresh();
+    }
+    return locks.request(lockName, () => renew(validity));
+  };
+
+  const run = async (validity: number): Promise<boolean> => {
+    for (let attempt = 0; ; attempt++) {
+      // Nothing to refresh (signed out, or signed out by another tab while
+      // retrying) - this does not end a session
+      if (options.updateToken ? !keycloak.token : !keycloak.refreshToken) {
+        throw new Error("No refresh token available");
+      }
+      try {
+        const refreshed = await updateToken(validity);
+        schedule();
+        return refreshed;
+      } catch (error) {
+        if (isRefreshTokenRejected(error)) {
+          clearTimer();
+          onRefreshFailed?.(error, false);
+          onSessionEnded?.(error);
+          throw error;
+        }
+        onRefreshFailed?.(error, attempt < maxRetries);
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+        await wait(retryDelay * 2 ** attempt);
+      }
+    }
+  };
+
+  const refresh = (validity: number = minValidity): Promise<boolean> => {
+    if (!inFlight) {
+      inFlight = run(validity).finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
+
+  const onTimer = () => {
+    timer = undefined;
+    if (isDocumentHidden()) {
+      pending = true;
+      return;
+    }
+    refresh().catch(() => {
+      // Failures are reported through onSessionEnded; nothing else to do here
+    });
+  };
+
+  function schedule() {
+    clearTimer();
+    pending = false;
+    if (!started) return;
+    const expiresIn = getExpiresIn(keycloak);
+    if (expiresIn === undefined) return;
+    timer = setTimeout(onTimer, Math.max(expiresIn - minValidity * 1000, 0));
+  }
+
+  const onVisibilityChange = () => {
+    if (isDocumentHidden()) return;
+    const expiresIn = getExpiresIn(keycloak);
+    const isDue = expiresIn !== undefined && expiresIn <= minValidity * 1000;
+    if (pending || isDue) {
+      pending = false;
+      onTimer();
+    }
+  };
+
+  return {
+    start() {
+      if (started) return;
+      started = true;
+      if (typeof document !== "undefined") {
+        document.addEventListener("visibilitychange", onVisibilityChange);
+      }
+      schedule();
+    },
+    stop() {
+      started = false;
+      pending = false;
+      clearTimer();
+      notifyRemoteWaiters();
+      if (typeof document !== "undefined") {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      }
+    },
+    schedule,
+    refresh,
+    remoteRefreshed: notifyRemoteWaiters,
+  };
+}
@@ -0,0 +1,139 @@
+import { decodeToken } from "../UserAvatar/UserAvatar";
+
+/**
+ * Tokens persisted between page loads.
+ */
+export interface StoredTokens {
+  token?: string;
+  refreshToken?: string;
+  idToken?: string;
+  timeSkew?: number | null;
+}
+
+/**
+ * A custom token storage adapter.
+ * Methods may be synchronous or return promises (e.g. for IndexedDB).
+ */
+export interface TokenStorageAdapter {
+  /** Read the stored tokens, or null if nothing is stored */
+  get: () => StoredTokens | null | Promise<StoredTokens | null>;
+  /** Persist the given tokens */
+  set: (tokens: StoredTokens) => void | Promise<void>;
+  /** Remove any stored tokens */
+  clear: () => void | Promise<void>;
+}
+
+/**
+ * Where tokens are kept between page loads.
+ *
+ * - `memory` - tokens are only kept for the lifetime of the page (default)
+ * - `sessionStorage` - tokens survive reloads within the same tab
+ * - `localStorage` - tokens survive reloads and are shared between tabs
+ * - a custom {@link TokenStorageAdapter}
+ */
+export type TokenStorage = "memory" | "sessionStorage" | "localStorage" | TokenStorageAdapter;
+
+const memoryStore = new Map<string, StoredTokens>();
+
+function createMemoryStorage(key: string): TokenStorageAdapter {
+  return {
+    get: () => memoryStore.get(key) ?? null,
+    set: (tokens) => {
+      memoryStore.set(key, tokens);
+    },
+    clear: () => {
+      memoryStore.delete(key);
+    },
+  };
+}
+
+function createWebStorage(getStorage: () => Storage, key: string): TokenStorageAdapter {
+  return {
+    get: () => {
+      try {
+        const value = getStorage().getItem(key);
+        return value ? (JSON.parse(value) as StoredTokens) : null;
+      } catch {
+        return null;
+      }
+    },
+    set: (tokens) => {
+      try {
+        getStorage().setItem(key, JSON.stringify(tokens));
+      } catch {
+        // Storage may be full or unavailable (e.g. private mode)
+      }
+    },
+    clear: () => {
+      try {
+        getStorage().removeItem(key);
+      } catch {
+        // Storage may be unavailable
+      }
+    },
+  };
+}
+
+/**
+ * Resolve a {@link TokenStorage} strategy to an adapter.
+ *
+ * @param storage - The storage strategy or a custom adapter
+ * @param key - Key under which tokens are stored for built-in strategies
+ */
+export function createTokenStorage(storage: TokenStorage, key: string): TokenStorageAdapter {
+  switch (storage) {
+    case "memory":
+      return createMemoryStorage(key);
+    case "sessionStorage":
+      return createWebStorage(() => window.sessionStorage, key);
+    case "localStorage":
+      return createWebStorage(() => window.localStorage, key);
+    default:
+      return storage;
+  }
+}
+
+/**
+ * Whether stored tokens can no longer be used to restore a session.
+ * The refresh token's expiry is checked when present, otherwise the access
+ * token's expiry.
+ *
+ * @param tokens - The stored tokens
+ * @param now - Current time in seconds (defaults to the local clock)
+ */
+export function isStoredSessionExpired(
+  tokens: StoredTokens,
+  now: number = Date.now() / 1000
+): boolean {
+  const token = tokens.refreshToken ?? tokens.token;
+  if (!tokens.token || !token) return true;
+
+  const claims = decodeToken(token) as { exp?: unknown } | null;
+  if (!claims) return true;
+  // Tokens without an expiry (e.g. offline tokens) stay valid until rejected
+  if (typeof claims.exp !== "number" || claims.exp === 0) return false;
+
+  return claims.exp + (tokens.timeSkew ?? 0) <= now;
+}
+
+/**
+ * Read stored tokens and discard them if they have expired.
+ *
+ * @returns Tokens that can be passed to `keycloak.init`, or null
+ */
+export async function restoreTokens(storage: TokenStorageAdapter): Promise<StoredTokens | null> {
+  let tokens: StoredTokens | null;
+  try {
+    tokens = await storage.get();
+  } catch {
+    return null;
+  }
+  if (!tokens) return null;
+
+  if (isStoredSessionExpired(tokens)) {
+    await storage.clear();
+    return null;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import type { AuthEvent, AuthEventName } from "./events";
+
+export interface UseAuthEventOptions {
+  /** Name of the provider instance to use */
+  instance?: string;
+}
+
+/**
+ * Hook subscribing to auth lifecycle events of the provider, or to all
+ * events with `"*"`. The handler may change between renders without
+ * resubscribing. Must be used within a KeycloakAuthProvider.
+ *
+ * @param name - Event name, or `"*"` for all events
+ * @param handler - Called with each event
+ *
+ * @example
+ * ```tsx
+ * function Telemetry() {
+ *   useAuthEvent("token:refresh-failed", ({ error, willRetry }) => {
+ *     telemetry.track("token_refresh_failed", { error: String(error), willRetry });
+ *   });
+ *   useAuthEvent("init:success", ({ signInDuration }) => {
+ *     if (signInDuration) telemetry.timing("sign_in", signInDuration);
+ *   });
+ *   return null;
+ * }
+ * ```
+ */
+export function useAuthEvent<T extends AuthEventName | "*">(
+  name: T,
+  handler: (event: T extends AuthEventName ? AuthEvent<T> : AuthEvent) => void,
+  options: UseAuthEventOptions = {}
+): void {
+  const { events } = useAuth(options.instance);
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () =>
+      events.on(name as AuthEventName, (event) =>
+        (handlerRef.current as (event: AuthEvent) => void)(event)
+      ),
+    [events, name]
+  );
+}
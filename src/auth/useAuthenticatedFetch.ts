@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import { createAuthorizedFetch, type AuthorizedFetchOptions } from "./authorizedFetch";
+
+export interface UseAuthenticatedFetchOptions extends AuthorizedFetchOptions {
+  /** Name of the provider instance whose tokens are sent */
+  instance?: string;
+}
+
+/**
+ * Hook returning a `fetch` function that sends the current access token as
+ * an `Authorization: Bearer` header (or as a DPoP-bound token with a proof,
+ * when the provider uses `dpop`).
+ * Must be used within a KeycloakAuthProvider.
+ *
+ * Tokens are refreshed when they are close to expiry, and a 401 response
+ * triggers one refresh and retry. Only allowed origins (same origin by
+ * default) receive the token.
+ *
+ * @example
+ * ```tsx
+ * function Invoices() {
+ *   const authFetch = useAuthenticatedFetch({
+ *     allowedOrigins: ["https://api.example.com"],
+ *   });
+ *
+ *   useEffect(() => {
+ *     authFetch("https://api.example.com/invoices")
+ *       .then((response) => response.json())
+ *       .then(setInvoices);
+ *   }, [authFetch]);
+ * }
+ * ```
+ */
+export function useAuthenticatedFetch(options?: UseAuthenticatedFetchOptions): typeof fetch {
+  const { getToken, dpop } = useAuth(options?.instance);
+
+  // Keep the latest options without changing the returned function identity
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  return useMemo<typeof fetch>(
+    () => (input, init) =>
+      createAuthorizedFetch({ getToken, dpop }, optionsRef.current)(input, init),
+    [getToken, dpop]
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import { decodeToken } from "../UserAvatar/UserAvatar";
+import {
+  hasClientRole,
+  hasRealmRole as claimsHaveRealmRole,
+  hasScope as claimsHaveScope,
+  isInGroup,
+  toClientRoles,
+  type AuthorizationClaims,
+  type RoleRequirement,
+} from "./claims";
+
+export type { RoleRequirement } from "./claims";
+
+export interface RoleOptions {
+  /** Client ID the role belongs to (defaults to the current client) */
+  client?: string;
+}
+
+/**
+ * Authorization helpers returned by {@link useAuthorization}.
+ */
+export interface Authorization {
+  /** Whether the user has the given client role */
+  hasRole: (role: string, options?: RoleOptions) => boolean;
+  /** Whether the user has the given realm role */
+  hasRealmRole: (role: string) => boolean;
+  /** Whether the access token includes the given scope */
+  hasScope: (scope: string) => boolean;
+  /** Whether the user is a member of the given group (from the `groups` claim) */
+  inGroup: (group: string) => boolean;
+  /** Whether the user has at least one of the given roles */
+  hasAnyRole: (roles: RoleRequirement) => boolean;
+  /** Whether the user has all of the given roles */
+  hasAllRoles: (roles: RoleRequirement) => boolean;
+  /** The decoded access token claims, or null if not authenticated */
+  claims: AuthorizationClaims | null;
+}
+
+/**
+ * Hook for role, scope and group checks based on the current access token
+ * (or the claims of the user from the backend, in BFF mode).
+ * Checks are re-evaluated whenever the token is refreshed.
+ * Must be used within a KeycloakAuthProvider.
+ *
+ * @param instance - Name of the provider instance to use
+ *
+ * @example
+ * ```tsx
+ * function InvoiceActions() {
+ *   const { hasRole, hasAnyRole, inGroup } = useAuthorization();
+ *
+ *   return (
+ *     <>
+ *       {hasRole("approver", { client: "billing-api" }) && <ApproveButton />}
+ *       {hasAnyRole({ client: "billing-api", roles: ["admin", "auditor"] }) && <AuditLog />}
+ *       {inGroup("/finance") && <Reports />}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useAuthorization(instance?: string): Authorization {
+  const { keycloak, accessToken, user } = useAuth(instance);
+
+  return useMemo<Authorization>(() => {
+    // Without tokens in the browser (BFF mode), use the claims of the user
+    const claims = ((accessToken ? decodeToken(accessToken) : null) ??
+      keycloak?.tokenParsed ??
+      user?.claims ??
+      null) as AuthorizationClaims | null;
+
+    // Prefer keycloak-js for role checks when available, it tracks the
+    // current client ID and refreshed tokens
+    const hasRole = (role: string, options?: RoleOptions) => {
+      if (keycloak) {
+        return options?.client
+          ? keycloak.hasResourceRole(role, options.client)
+          : keycloak.hasResourceRole(role);
+      }
+      return hasClientRole(claims, role, options?.client);
+    };
+
+    const hasRealmRole = (role: string) =>
+      keycloak ? keycloak.hasRealmRole(role) : claimsHaveRealmRole(claims, role);
+
+    return {
+      hasRole,
+      hasRealmRole,
+      hasScope: (scope) => claimsHaveScope(claims, scope),
+      inGroup: (group) => isInGroup(claims, group),
+      hasAnyRole: (requirement) => {
+        const { client, roles } = toClientRoles(requirement);
+        return roles.some((role) => hasRole(role, { client }));
+      },
+      hasAllRoles: (requirement) => {
+        const { client, roles } = toClientRoles(requirement);
+        return roles.every((role) => hasRole(role, { client }));
+      },
+      claims,
+    };
+  }, [keycloak, accessToken, user]);
+}
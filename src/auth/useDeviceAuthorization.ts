@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import { getDeviceAuthorizationEndpoint, getTokenEndpoint } from "./endpoints";
+import {
+  DeviceAuthorizationError,
+  pollDeviceToken,
+  requestDeviceAuthorization,
+  type DeviceAuthorization,
+} from "./deviceAuthorization";
+
+/**
+ * State of a device authorization.
+ *
+ * - `idle` - not started
+ * - `requesting` - requesting a user code
+ * - `pending` - waiting for the user to enter the code on another device
+ * - `authorized` - the user approved and the device is signed in
+ * - `denied` - the user declined
+ * - `expired` - the user code expired before the user approved
+ * - `error` - the authorization could not be started or completed
+ */
+export type DeviceAuthorizationStatus =
+  | "idle"
+  | "requesting"
+  | "pending"
+  | "authorized"
+  | "denied"
+  | "expired"
+  | "error";
+
+export interface UseDeviceAuthorizationOptions {
+  /** Name of the provider instance to sign in to */
+  instance?: string;
+  /** Requested scopes (space-separated); `openid` is always included */
+  scope?: string;
+}
+
+export interface UseDeviceAuthorizationReturn {
+  /** State of the authorization */
+  status: DeviceAuthorizationStatus;
+  /** The pending authorization (user code and verification URIs), or null */
+  authorization: DeviceAuthorization | null;
+  /** Why the authorization failed, or null */
+  error: Error | null;
+  /** Request a new user code and wait for the user to approve it */
+  start: () => Promise<void>;
+  /** Stop waiting for approval */
+  cancel: () => void;
+}
+
+function getFailedStatus(error: unknown): DeviceAuthorizationStatus {
+  if (!(error instanceof DeviceAuthorizationError)) return "error";
+  if (error.oauthError === "access_denied") return "denied";
+  if (error.oauthError === "expired_token") return "expired";
+  return "error";
+}
+
+/**
+ * Hook for the OAuth 2.0 Device Authorization Grant (RFC 8628), for
+ * devices without a convenient keyboard such as kiosks and TVs. `start()`
+ * requests a user code, which the user enters (or scans as a QR code of
+ * `verificationUriComplete`) on another device. Once they approve, the
+ * device is signed in to the provider like after a regular sign in.
+ *
+ * The client must have "OAuth 2.0 Device Authorization Grant" enabled.
+ * Must be used within a KeycloakAuthProvider.
+ *
+ * @example
+ * ```tsx
+ * function KioskSignIn() {
+ *   const { status, authorization, start } = useDeviceAuthorization();
+ *
+ *   if (status === "pending" && authorization) {
+ *     return <p>Go to {authorization.verificationUri} and enter {authorization.userCode}</p>;
+ *   }
+ *
+ *   return <button onClick={start}>Sign in with your phone</button>;
+ * }
+ * ```
+ */
+export function useDeviceAuthorization(
+  options: UseDeviceAuthorizationOptions = {}
+): UseDeviceAuthorizationReturn {
+  const { keycloak, signInWithTokens } = useAuth(options.instance);
+  const { scope } = options;
+  const [status, setStatus] = useState<DeviceAuthorizationStatus>("idle");
+  const [authorization, setAuthorization] = useState<DeviceAuthorization | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop polling on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setStatus("idle");
+    setAuthorization(null);
+  }, []);
+
+  const start = useCallback(async () => {
+    const { authServerUrl, realm, clientId } = keycloak ?? {};
+    if (!authServerUrl || !realm || !clientId) {
+      setStatus("error");
+      setError(new DeviceAuthorizationError("Keycloak is not initialized"));
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus("requesting");
+    setAuthorization(null);
+    setError(null);
+
+    try {
+      const pending = await requestDeviceAuthorization({
+        deviceAuthorizationEndpoint: getDeviceAuthorizationEndpoint(authServerUrl, realm),
+        clientId,
+        scope,
+        signal: controller.signal,
+      });
+      setAuthorization(pending);
+      setStatus("pending");
+
+      const tokens = await pollDeviceToken({
+        tokenEndpoint: getTokenEndpoint(authServerUrl, realm),
+        clientId,
+        authorization: pending,
+        signal: controller.signal,
+      });
+      // Throws when the tokens cannot be applied, which fails the sign in
+      signInWithTokens(tokens);
+      setStatus("authorized");
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setStatus(getFailedStatus(err));
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [keycloak, signInWithTokens, scope]);
+
+  return { status, authorization, error, start, cancel };
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import type { ExchangeTokenOptions, ExchangedToken } from "./tokenExchange";
+
+export interface UseExchangedTokenOptions
+  extends Pick<ExchangeTokenOptions, "scope" | "requestedTokenType"> {
+  /** Name of the provider instance to use */
+  instance?: string;
+  /**
+   * Seconds before expiry at which the token is renewed.
+   * @default 30
+   */
+  minValidity?: number;
+}
+
+export interface UseExchangedTokenReturn {
+  /** The exchanged token, or undefined if not (yet) available */
+  token: string | undefined;
+  /** Full details of the exchanged token */
+  exchangedToken: ExchangedToken | null;
+  /** Whether a token is being exchanged for the first time */
+  isLoading: boolean;
+  /** Error if the token could not be exchanged */
+  error: Error | null;
+  /** Exchange a new token, bypassing the cache */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook returning a token for another audience, obtained with OAuth 2.0 Token
+ * Exchange and renewed before it expires. Must be used within a
+ * KeycloakAuthProvider.
+ *
+ * @param audience - Client ID of the service the token is intended for
+ *
+ * @example
+ * ```tsx
+ * function Reports() {
+ *   const { token, isLoading } = useExchangedToken("reporting-api");
+ *
+ *   useEffect(() => {
+ *     if (!token) return;
+ *     fetch("https://reports.example.com/api/reports", {
+ *       headers: { Authorization: `Bearer ${token}` },
+ *     })
+ *       .then((response) => response.json())
+ *       .then(setReports);
+ *   }, [token]);
+ * }
+ * ```
+ */
+export function useExchangedToken(
+  audience: string,
+  options: UseExchangedTokenOptions = {}
+): UseExchangedTokenReturn {
+  const { scope, requestedTokenType, instance, minValidity = 30 } = options;
+  const { isAuthenticated, user, exchangeToken } = useAuth(instance);
+
+  const [exchangedToken, setExchangedToken] = useState<ExchangedToken | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(isAuthenticated);
+  // Bumped to renew the token shortly before it expires
+  const [generation, setGeneration] = useState(0);
+
+  const exchange = useCallback(
+    (forceRefresh: boolean) =>
+      exchangeToken({ audience, scope, requestedTokenType, minValidity, forceRefresh }),
+    [exchangeToken, audience, scope, requestedTokenType, minValidity]
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setExchangedToken(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Renewals go through the per-audience cache, which exchanges a new
+    // token once the cached one expires within minValidity
+    exchange(false)
+      .then((result) => {
+        if (cancelled) return;
+        setExchangedToken(result);
+        setError(null);
+        // Renew the token before it expires
+        const delay = Math.max(result.expiresAt - Date.now() - minValidity * 1000, 1000);
+        timer = setTimeout(() => setGeneration((value) => value + 1), delay);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setExchangedToken(null);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // Exchange again when the user changes
+  }, [isAuthenticated, user?.id, exchange, generation, minValidity]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setExchangedToken(await exchange(true));
+      setError(null);
+    } catch (err) {
+      setExchangedToken(null);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, [exchange]);
+
+  return {
+    token: exchangedToken?.token,
+    exchangedToken,
+    isLoading,
+    error,
+    refresh,
+  };
+}
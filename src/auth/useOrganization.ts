@@ -0,0 +1,164 @@
+import { useState, useMemo, useCallback } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import { useAuthorization } from "./useAuthorization";
+import type { AuthMode } from "./AuthContext";
+import {
+  ORGANIZATION_CLAIM,
+  getActiveOrganization,
+  getOrganizationScope,
+  parseOrganizations,
+  type Organization,
+} from "./organizations";
+
+export interface SwitchOrganizationOptions {
+  /**
+   * Re-authenticate with a full-page redirect or in a popup window.
+   * @default "redirect"
+   */
+  mode?: AuthMode;
+  /** URL to return to after switching (defaults to the current URL) */
+  redirectUri?: string;
+}
+
+export interface UseOrganizationsReturn {
+  /** Organizations in the current token */
+  organizations: Organization[];
+  /** The active organization, or null if none is selected */
+  activeOrganization: Organization | null;
+  /** Whether the auth state is still being determined */
+  isLoading: boolean;
+  /**
+   * Make an organization active by re-authenticating with its
+   * `organization:<alias>` scope, so new tokens are scoped to it.
+   */
+  switchOrganization: (alias: string, options?: SwitchOrganizationOptions) => Promise<void>;
+}
+
+export interface UseOrganizationReturn {
+  /** The active organization, or null if none is selected */
+  organization: Organization | null;
+  /** Whether the auth state is still being determined */
+  isLoading: boolean;
+  /** Whether the user is a member of the given organization */
+  isMember: (alias: string) => boolean;
+  /** Whether the user has the given role within the active organization */
+  hasRole: (role: string) => boolean;
+}
+
+function getPreferenceKey(keycloak: { authServerUrl?: string; realm?: string; clientId?: string }) {
+  return `keycloak-react:organization:${keycloak.authServerUrl}:${keycloak.realm}:${keycloak.clientId}`;
+}
+
+function readPreference(key: string | undefined): string | null {
+  if (!key) return null;
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writePreference(key: string | undefined, alias: string) {
+  if (!key) return;
+  try {
+    localStorage.setItem(key, alias);
+  } catch {
+    // Storage unavailable - the token alone determines the active organization
+  }
+}
+
+/**
+ * Hook returning the user's organizations (Keycloak 26+) and the active one,
+ * with a way to switch organizations. Must be used within a
+ * KeycloakAuthProvider.
+ *
+ * The active organization is the one the tokens were requested for
+ * (`organization:<alias>` scope), or the last one selected when the token
+ * contains several.
+ *
+ * @param instance - Name of the provider instance to use
+ *
+ * @example
+ * ```tsx
+ * function OrganizationList() {
+ *   const { organizations, activeOrganization, switchOrganization } = useOrganizations();
+ *
+ *   return organizations.map((org) => (
+ *     <button
+ *       key={org.alias}
+ *       disabled={org.alias === activeOrganization?.alias}
+ *       onClick={() => switchOrganization(org.alias)}
+ *     >
+ *       {org.name ?? org.alias}
+ *     </button>
+ *   ));
+ * }
+ * ```
+ */
+export function useOrganizations(instance?: string): UseOrganizationsReturn {
+  const { isLoading, user, keycloak, signIn } = useAuth(instance);
+  const { claims } = useAuthorization(instance);
+  const preferenceKey = keycloak ? getPreferenceKey(keycloak) : undefined;
+  const [preferred, setPreferred] = useState<string | null>(() => readPreference(preferenceKey));
+
+  // Prefer the access token claim, which follows the requested scope
+  const organizations = useMemo(() => {
+    const claim = claims?.[ORGANIZATION_CLAIM];
+    return claim !== undefined ? parseOrganizations(claim) : user?.organizations ?? [];
+  }, [claims, user?.organizations]);
+
+  const activeOrganization = useMemo(
+    () => getActiveOrganization(organizations, preferred ?? readPreference(preferenceKey)),
+    [organizations, preferred, preferenceKey]
+  );
+
+  const switchOrganization = useCallback(
+    async (alias: string, options?: SwitchOrganizationOptions) => {
+      writePreference(preferenceKey, alias);
+      setPreferred(alias);
+      await signIn({
+        scope: getOrganizationScope(alias),
+        mode: options?.mode,
+        redirectUri: options?.redirectUri,
+      });
+    },
+    [preferenceKey, signIn]
+  );
+
+  return { organizations, activeOrganization, isLoading, switchOrganization };
+}
+
+/**
+ * Hook returning the active organization (Keycloak 26+) with membership and
+ * organization-scoped role checks. Must be used within a KeycloakAuthProvider.
+ *
+ * Roles are read from the `roles` entry of the organization in the
+ * `organization` claim, which a custom mapper or organization attribute
+ * must add.
+ *
+ * @param instance - Name of the provider instance to use
+ *
+ * @example
+ * ```tsx
+ * function Billing() {
+ *   const { organization, hasRole } = useOrganization();
+ *
+ *   if (!organization) return <p>Select an organization</p>;
+ *
+ *   return hasRole("billing-admin") ? <BillingSettings /> : <Invoices />;
+ * }
+ * ```
+ */
+export function useOrganization(instance?: string): UseOrganizationReturn {
+  const { organizations, activeOrganization, isLoading } = useOrganizations(instance);
+
+  return useMemo<UseOrganizationReturn>(
+    () => ({
+      organization: activeOrganization,
+      isLoading,
+      isMember: (alias) => organizations.some((org) => org.alias === alias),
+      hasRole: (role) => activeOrganization?.roles.includes(role) ?? false,
+    }),
+    [organizations, activeOrganization, isLoading]
+  );
+}
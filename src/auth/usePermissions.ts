@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import { getKeycloakTokenEndpoint } from "./endpoints";
+import {
+  requestRpt,
+  hasPermission,
+  type UmaPermission,
+  type RequestingPartyToken,
+} from "./permissions";
+
+export interface UsePermissionsOptions {
+  /** Name of the provider instance to use */
+  instance?: string;
+  /**
+   * Client ID of the resource server to evaluate permissions for.
+   * Defaults to the current client.
+   */
+  audience?: string;
+  /**
+   * Limit the evaluation to specific permissions, in the `resource#scope`
+   * format (e.g. `["invoice#approve"]`).
+   */
+  permissions?: string[];
+}
+
+export interface UsePermissionsReturn {
+  /** Whether the permissions are being requested */
+  isLoading: boolean;
+  /** Error if the permissions could not be requested */
+  error: Error | null;
+  /** Permissions granted by the RPT */
+  permissions: UmaPermission[];
+  /** The raw requesting party token, if one was issued */
+  rpt: string | undefined;
+  /** Whether the user may access a resource, optionally limited to a scope */
+  can: (resource: string, scope?: string) => boolean;
+  /** Request a new RPT, bypassing the cache */
+  refresh: () => Promise<void>;
+}
+
+interface CacheEntry {
+  promise: Promise<RequestingPartyToken>;
+  expiresAt?: number;
+}
+
+/**
+ * RPTs shared by all hooks, keyed by endpoint, user, audience and permissions.
+ */
+const rptCache = new Map<string, CacheEntry>();
+
+/**
+ * Margin (in milliseconds) before expiry at which a cached RPT is renewed.
+ */
+const EXPIRY_MARGIN = 5000;
+
+function loadRpt(
+  key: string,
+  load: () => Promise<RequestingPartyToken>,
+  force: boolean
+): Promise<RequestingPartyToken> {
+  const cached = rptCache.get(key);
+  if (!force && cached && (cached.expiresAt === undefined || cached.expiresAt > Date.now())) {
+    return cached.promise;
+  }
+
+  const entry: CacheEntry = {
+    promise: load().then(
+      (rpt) => {
+        entry.expiresAt = rpt.expiresAt - EXPIRY_MARGIN;
+        return rpt;
+      },
+      (error) => {
+        if (rptCache.get(key) === entry) {
+          rptCache.delete(key);
+        }
+        throw error;
+      }
+    ),
+  };
+  rptCache.set(key, entry);
+  return entry.promise;
+}
+
+/**
+ * Hook to evaluate Keycloak Authorization Services (UMA) permissions.
+ * Requests a requesting party token (RPT) for the given audience and caches
+ * it until it expires. Must be used within a KeycloakAuthProvider.
+ *
+ * @example
+ * ```tsx
+ * function InvoiceActions({ invoice }) {
+ *   const { can, isLoading } = usePermissions({ audience: "billing-api" });
+ *
+ *   if (isLoading) return <Spinner />;
+ *
+ *   return can("invoice", "approve") ? <ApproveButton invoice={invoice} /> : null;
+ * }
+ * ```
+ */
+export function usePermissions(options: UsePermissionsOptions = {}): UsePermissionsReturn {
+  const { keycloak, isAuthenticated, accessToken, user, getToken, dpop } = useAuth(
+    options.instance
+  );
+  const audience = options.audience ?? keycloak?.clientId;
+  const permissionsKey = (options.permissions ?? []).join(" ");
+
+  const [rpt, setRpt] = useState<RequestingPartyToken | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchRpt = useCallback(
+    async (force: boolean) => {
+      const tokenEndpoint = keycloak ? getKeycloakTokenEndpoint(keycloak) : undefined;
+      if (!tokenEndpoint || !audience) {
+        throw new Error("usePermissions requires an initialized Keycloak instance and audience");
+      }
+      const key = [tokenEndpoint, user?.id, audience, permissionsKey].join("|");
+      return loadRpt(
+        key,
+        async () => {
+          const token = await getToken();
+          if (!token) {
+            throw new Error("Not authenticated");
+          }
+          return requestRpt({
+            tokenEndpoint,
+            accessToken: token,
+            audience,
+            permissions: permissionsKey ? permissionsKey.split(" ") : undefined,
+            dpop,
+          });
+        },
+        force
+      );
+    },
+    [keycloak, audience, user?.id, permissionsKey, getToken, dpop]
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated || !keycloak) {
+      setRpt(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchRpt(false)
+      .then((result) => {
+        if (cancelled) return;
+        setRpt(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setRpt(null);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Re-evaluate when the access token is refreshed (the cache is reused while valid)
+  }, [isAuthenticated, keycloak, accessToken, fetchRpt]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRpt(await fetchRpt(true));
+      setError(null);
+    } catch (err) {
+      setRpt(null);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchRpt]);
+
+  return useMemo<UsePermissionsReturn>(() => {
+    const permissions = rpt?.permissions ?? [];
+    return {
+      isLoading,
+      error,
+      permissions,
+      rpt: rpt?.token || undefined,
+      can: (resource, scope) => hasPermission(permissions, resource, scope),
+      refresh,
+    };
+  }, [rpt, error, isLoading, refresh]);
+}
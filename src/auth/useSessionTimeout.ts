@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import type { SessionEndReason } from "./sessionTimeout";
+
+export interface UseSessionTimeoutOptions {
+  /** Name of the provider instance to use */
+  instance?: string;
+}
+
+export interface UseSessionTimeoutReturn {
+  /** Whether the session ends within the provider's `sessionWarningTime` */
+  isWarning: boolean;
+  /** When the session ends, in milliseconds since the epoch */
+  expiresAt: number | undefined;
+  /** Seconds until the session ends, updated every second during the warning */
+  remainingSeconds: number | undefined;
+  /** Why the session will end */
+  reason: SessionEndReason | undefined;
+  /**
+   * Whether `staySignedIn` can extend the session. A session that reached
+   * its maximum lifespan can only be renewed by signing in again.
+   */
+  canExtend: boolean;
+  /** Keep the session alive by recording activity and forcing a token refresh */
+  staySignedIn: () => Promise<void>;
+  /** Sign out now */
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Headless hook for building session timeout warnings. Reports when the
+ * session is about to end (because of the provider's `idleTimeout`, the SSO
+ * session lifespan or the refresh token expiry) with a live countdown.
+ * Must be used within a KeycloakAuthProvider.
+ *
+ * @example
+ * ```tsx
+ * function SessionBanner() {
+ *   const { isWarning, remainingSeconds, staySignedIn } = useSessionTimeout();
+ *
+ *   if (!isWarning) return null;
+ *
+ *   return (
+ *     <div role="alert">
+ *       Signing out in {remainingSeconds}s
+ *       <button onClick={staySignedIn}>Stay signed in</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useSessionTimeout(options: UseSessionTimeoutOptions = {}): UseSessionTimeoutReturn {
+  const { session, extendSession, signOut } = useAuth(options.instance);
+  const { expiresAt, reason, isWarning } = session;
+  const [now, setNow] = useState(Date.now);
+
+  // Tick every second while the warning is showing
+  useEffect(() => {
+    setNow(Date.now());
+    if (!isWarning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt, isWarning]);
+
+  const signOutNow = useCallback(() => signOut(), [signOut]);
+
+  return {
+    isWarning,
+    expiresAt,
+    remainingSeconds:
+      expiresAt !== undefined ? Math.max(0, Math.ceil((expiresAt - now) / 1000)) : undefined,
+    reason,
+    canExtend: reason === "idle",
+    staySignedIn: extendSession,
+    signOut: signOutNow,
+  };
+}
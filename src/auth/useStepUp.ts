@@ -0,0 +1,107 @@
+import { useCallback, useMemo } from "react";
+import { useAuth } from "./KeycloakAuthProvider";
+import { decodeToken } from "../UserAvatar/UserAvatar";
+import { satisfiesAcr, parseStepUpChallenge } from "./stepUp";
+
+export interface UseStepUpOptions {
+  /** Name of the provider instance to use */
+  instance?: string;
+  /**
+   * Known authentication levels, ordered from lowest to highest
+   * (e.g. `["bronze", "silver", "gold"]`). Without it, numeric levels are
+   * compared numerically and other levels must match exactly.
+   */
+  levels?: string[];
+}
+
+export interface StepUpOptions {
+  /** Maximum time (in seconds) since the user last authenticated */
+  maxAge?: number;
+  /** URL to return to after re-authenticating (defaults to the current URL) */
+  redirectUri?: string;
+}
+
+export interface UseStepUpReturn {
+  /** The current authentication level (`acr` claim) */
+  acr: string | undefined;
+  /** When the user last authenticated, in seconds since the epoch (`auth_time` claim) */
+  authTime: number | undefined;
+  /** Whether the current authentication meets a level, optionally within `maxAge` seconds */
+  satisfies: (level: string, options?: Pick<StepUpOptions, "maxAge">) => boolean;
+  /** Re-authenticate at the given level and return to the current screen */
+  stepUp: (level: string, options?: StepUpOptions) => Promise<void>;
+  /**
+   * Re-authenticate if a response is a 401 step-up challenge
+   * (`WWW-Authenticate: Bearer error="insufficient_user_authentication"`).
+   * Resolves with whether a step-up was started.
+   */
+  handleChallenge: (response: Response) => Promise<boolean>;
+}
+
+/**
+ * Hook for step-up authentication. Compares the token's `acr` claim with
+ * the level a screen requires and re-authenticates the user at a higher
+ * level when needed. Must be used within a KeycloakAuthProvider.
+ *
+ * @example
+ * ```tsx
+ * function TransferButton() {
+ *   const { satisfies, stepUp } = useStepUp({ levels: ["silver", "gold"] });
+ *
+ *   if (!satisfies("gold")) {
+ *     return <button onClick={() => stepUp("gold")}>Verify to transfer</button>;
+ *   }
+ *
+ *   return <button onClick={transfer}>Transfer</button>;
+ * }
+ * ```
+ */
+export function useStepUp(options: UseStepUpOptions = {}): UseStepUpReturn {
+  const { user, accessToken, signIn } = useAuth(options.instance);
+  const levelsKey = options.levels?.join(" ");
+
+  // Prefer the ID token claims, falling back to the access token
+  const claims = useMemo((): Record<string, unknown> | null => {
+    if (user?.claims.acr !== undefined) return user.claims;
+    if (accessToken) return decodeToken(accessToken) as Record<string, unknown> | null;
+    return user?.claims ?? null;
+  }, [user, accessToken]);
+
+  const acr = typeof claims?.acr === "string" ? claims.acr : undefined;
+  const authTime = typeof claims?.auth_time === "number" ? claims.auth_time : undefined;
+
+  const satisfies = useCallback(
+    (level: string, satisfyOptions?: Pick<StepUpOptions, "maxAge">) => {
+      if (!satisfiesAcr(acr, level, levelsKey?.split(" "))) return false;
+      if (satisfyOptions?.maxAge === undefined) return true;
+      return authTime !== undefined && authTime + satisfyOptions.maxAge >= Date.now() / 1000;
+    },
+    [acr, authTime, levelsKey]
+  );
+
+  const stepUp = useCallback(
+    (level: string, stepUpOptions?: StepUpOptions) =>
+      signIn({
+        acr: { values: [level], essential: true },
+        maxAge: stepUpOptions?.maxAge,
+        redirectUri: stepUpOptions?.redirectUri || window.location.href,
+      }),
+    [signIn]
+  );
+
+  const handleChallenge = useCallback(
+    async (response: Response) => {
+      const challenge = parseStepUpChallenge(response);
+      if (!challenge) return false;
+      await signIn({
+        acrValues: challenge.acrValues,
+        maxAge: challenge.maxAge,
+        redirectUri: window.location.href,
+      });
+      return true;
+    },
+    [signIn]
+  );
+
+  return { acr, authTime, satisfies, stepUp, handleChallenge };
+}
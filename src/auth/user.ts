@@ -0,0 +1,45 @@
+import type { Impersonator, User } from "./AuthContext";
+import { ORGANIZATION_CLAIM, parseOrganizations, type Organization } from "./organizations";
+
+/**
+ * Extract the impersonating administrator from the `impersonator` claim.
+ */
+function extractImpersonator(claim: unknown): Impersonator | undefined {
+  if (!claim || typeof claim !== "object") return undefined;
+  const { id, username } = claim as { id?: unknown; username?: unknown };
+  if (typeof id !== "string") return undefined;
+  return { id, username: typeof username === "string" ? username : undefined };
+}
+
+/**
+ * Extract the user's organizations from the `organization` claim.
+ */
+function extractOrganizations(claim: unknown): Organization[] | undefined {
+  return claim === undefined ? undefined : parseOrganizations(claim);
+}
+
+/**
+ * Build the user from token claims, usually those of the ID token. Claims
+ * Keycloak only adds to the access token (`impersonator`, `organization`)
+ * are read from `accessTokenClaims` when missing.
+ */
+export function getUserFromClaims(
+  claims: Record<string, unknown>,
+  accessTokenClaims?: Record<string, unknown>
+): User {
+  return {
+    id: claims.sub as string,
+    email: claims.email as string | undefined,
+    emailVerified: claims.email_verified as boolean | undefined,
+    name: claims.name as string | undefined,
+    firstName: claims.given_name as string | undefined,
+    lastName: claims.family_name as string | undefined,
+    username: claims.preferred_username as string | undefined,
+    imageUrl: claims.picture as string | undefined,
+    impersonator: extractImpersonator(claims.impersonator ?? accessTokenClaims?.impersonator),
+    organizations: extractOrganizations(
+      claims[ORGANIZATION_CLAIM] ?? accessTokenClaims?.[ORGANIZATION_CLAIM]
+    ),
+    claims,
+  };
+}
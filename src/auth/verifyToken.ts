@@ -0,0 +1,206 @@
+import {
+  decodeJwtHeader,
+  decodeJwtPayload,
+  isSupportedJwsAlgorithm,
+  verifyJwtSignature,
+  type JwsAlgorithm,
+} from "./jwt";
+import {
+  createJwksClient,
+  findKey,
+  type Jwk,
+  type JwksClient,
+  type KeyResolver,
+} from "./jwks";
+
+/**
+ * Why a token was rejected:
+ * - `malformed`: not a JWT
+ * - `unsupported_algorithm`: signed with an algorithm that is not allowed
+ * - `unknown_key`: signed with a key that is not in the key set
+ * - `invalid_signature`: the signature does not match
+ * - `invalid_issuer`: issued by another realm or server
+ * - `invalid_audience`: issued for another audience
+ * - `invalid_type`: not an access token (e.g. an ID or refresh token)
+ * - `expired`: the token has expired
+ * - `not_yet_valid`: the token is not valid yet
+ * - `jwks_unavailable`: the key set could not be fetched
+ * - `invalid_dpop_proof`: the DPoP proof of a key-bound token is missing or invalid
+ */
+export type TokenVerificationErrorCode =
+  | "malformed"
+  | "unsupported_algorithm"
+  | "unknown_key"
+  | "invalid_signature"
+  | "invalid_issuer"
+  | "invalid_audience"
+  | "invalid_type"
+  | "expired"
+  | "not_yet_valid"
+  | "jwks_unavailable"
+  | "invalid_dpop_proof";
+
+/**
+ * Error thrown when a token fails verification.
+ */
+export class TokenVerificationError extends Error {
+  /** Why the token was rejected */
+  code: TokenVerificationErrorCode;
+
+  constructor(message: string, code: TokenVerificationErrorCode) {
+    super(message);
+    this.name = "TokenVerificationError";
+    this.code = code;
+  }
+}
+
+/**
+ * Options for {@link verifyToken}. Either `jwksUri` or `keys` is required.
+ */
+export interface VerifyTokenOptions {
+  /**
+   * URL of the JSON Web Key Set, e.g. from `getJwksEndpoint(url, realm)`.
+   * Keys are cached per URL, and fetched again for unknown key IDs.
+   */
+  jwksUri?: string;
+  /** Public keys to verify with, instead of fetching them */
+  keys?: Jwk[];
+  /** Expected `iss` claim (the realm URL). Not checked if omitted. */
+  issuer?: string;
+  /** Audience the token must be issued for (one of them, if several). Not checked if omitted. */
+  audience?: string | string[];
+  /**
+   * Seconds of clock skew tolerated when checking `exp` and `nbf`.
+   * @default 5
+   */
+  clockTolerance?: number;
+  /**
+   * Allowed signature algorithms.
+   * @default ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512", "EdDSA"]
+   */
+  algorithms?: JwsAlgorithm[];
+}
+
+/** Key set clients of {@link verifyToken}, shared per URL */
+const jwksClients = new Map<string, JwksClient>();
+
+function matchesAudience(aud: unknown, audience: string | string[]): boolean {
+  const expected = Array.isArray(audience) ? audience : [audience];
+  const actual = Array.isArray(aud) ? aud : [aud];
+  return actual.some((value) => typeof value === "string" && expected.includes(value));
+}
+
+/**
+ * Verify the signature and the standard claims of a JWT with keys from a
+ * resolver. Shared by {@link verifyToken} and the server's token verifier.
+ */
+export async function verifyJwt(
+  token: string,
+  getKey: KeyResolver,
+  options: Omit<VerifyTokenOptions, "jwksUri" | "keys">
+): Promise<Record<string, unknown>> {
+  const { issuer, audience, clockTolerance = 5, algorithms } = options;
+
+  const header = decodeJwtHeader(token);
+  if (!header) {
+    throw new TokenVerificationError("The token is not a JWT", "malformed");
+  }
+  const { alg, kid } = header;
+  if (!isSupportedJwsAlgorithm(alg) || (algorithms && !algorithms.includes(alg))) {
+    throw new TokenVerificationError(
+      `The token is signed with an unsupported algorithm (${String(alg)})`,
+      "unsupported_algorithm"
+    );
+  }
+
+  let key;
+  try {
+    key = await getKey(kid);
+  } catch (error) {
+    throw new TokenVerificationError(
+      error instanceof Error ? error.message : "Failed to fetch the JSON Web Key Set",
+      "jwks_unavailable"
+    );
+  }
+  if (!key) {
+    throw new TokenVerificationError(
+      `The token is signed with an unknown key (${kid ?? "no key ID"})`,
+      "unknown_key"
+    );
+  }
+
+  let valid = false;
+  try {
+    valid = await verifyJwtSignature(token, key, alg);
+  } catch {
+    // Keys that do not fit the algorithm cannot have signed the token
+  }
+  if (!valid) {
+    throw new TokenVerificationError("The token signature is invalid", "invalid_signature");
+  }
+
+  const claims = decodeJwtPayload(token);
+  if (!claims) {
+    throw new TokenVerificationError("The token payload is not valid JSON", "malformed");
+  }
+  if (issuer !== undefined && claims.iss !== issuer) {
+    throw new TokenVerificationError(
+      `The token was issued by ${String(claims.iss)}, not ${issuer}`,
+      "invalid_issuer"
+    );
+  }
+  if (audience !== undefined && !matchesAudience(claims.aud, audience)) {
+    throw new TokenVerificationError(
+      "The token was issued for another audience",
+      "invalid_audience"
+    );
+  }
+
+  const now = Date.now() / 1000;
+  if (typeof claims.exp === "number" && claims.exp + clockTolerance <= now) {
+    throw new TokenVerificationError("The token has expired", "expired");
+  }
+  if (typeof claims.nbf === "number" && claims.nbf - clockTolerance > now) {
+    throw new TokenVerificationError("The token is not valid yet", "not_yet_valid");
+  }
+  return claims;
+}
+
+/**
+ * Verify a JWT with WebCrypto: its signature (RS256, PS256, ES256 and their
+ * SHA-384/512 variants, or EdDSA with Ed25519 keys), its expiry and, if
+ * given, its issuer and audience.
+ *
+ * Decoding a token (`decodeJwtPayload`) trusts whoever provided it; verify
+ * tokens that do not come straight from Keycloak or keycloak-js.
+ *
+ * @returns The verified claims
+ * @throws {TokenVerificationError} If the token is invalid
+ *
+ * @example
+ * ```typescript
+ * const claims = await verifyToken(idToken, {
+ *   jwksUri: getJwksEndpoint("https://kc.example.com", "myrealm"),
+ *   issuer: getRealmUrl("https://kc.example.com", "myrealm"),
+ *   audience: "my-app",
+ * });
+ * ```
+ */
+export function verifyToken(
+  token: string,
+  options: VerifyTokenOptions
+): Promise<Record<string, unknown>> {
+  const { jwksUri, keys, ...verifyOptions } = options;
+  if (keys) {
+    return verifyJwt(token, async (kid) => findKey(keys, kid), verifyOptions);
+  }
+  if (!jwksUri) {
+    return Promise.reject(new Error("verifyToken requires either `jwksUri` or `keys`"));
+  }
+  let client = jwksClients.get(jwksUri);
+  if (!client) {
+    client = createJwksClient({ uri: jwksUri });
+    jwksClients.set(jwksUri, client);
+  }
+  return verifyJwt(token, client.getKey, verifyOptions);
+}
@@ -23,7 +23,8 @@ export class LoginConfigError extends Error {
  *
  * @param elementId - ID of the script element containing the config (default: "keycloak-login-config")
  * @returns The parsed LoginConfig object
- * @throws LoginConfigError if the element is not found or contains invalid JSON
+ * @throws LoginConfigError if the element is not found or contains invalid JSON,
+ * or when called on the server
  *
  * @example
  * ```html
@@ -39,6 +40,10 @@ export class LoginConfigError extends Error {
 export function getLoginConfigFromDOM(
   elementId: string = DEFAULT_CONFIG_ELEMENT_ID
 ): LoginConfig {
+  if (typeof document === "undefined") {
+    throw new LoginConfigError("Login configuration can only be read from the DOM in the browser");
+  }
+
   const element = document.getElementById(elementId);
 
   if (!element) {
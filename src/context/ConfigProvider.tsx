@@ -3,6 +3,7 @@ import {
   useContext,
   useState,
   useEffect,
+  useRef,
   type ReactNode,
 } from "react";
 import type { LoginConfig } from "../config";
@@ -11,6 +12,8 @@ import {
   fetchLoginConfig,
   LoginConfigError,
 } from "../config";
+import { AuthContext } from "../auth/AuthContext";
+import type { AuthEvent, AuthEventMap } from "../auth/events";
 
 export interface ConfigContextValue {
   /** The login configuration */
@@ -47,6 +50,11 @@ export interface ConfigProviderProps {
    * Only used if config prop and keycloakUrl are not provided.
    */
   configElementId?: string;
+  /**
+   * Called with a `config:loaded` event once the configuration is loaded.
+   * Inside a KeycloakAuthProvider, the event is also emitted on its event bus.
+   */
+  onEvent?: (event: AuthEvent<"config:loaded">) => void;
 }
 
 /**
@@ -81,16 +89,33 @@ export function ConfigProvider({
   keycloakUrl,
   realm,
   configElementId,
+  onEvent,
 }: ConfigProviderProps) {
   const [config, setConfig] = useState<LoginConfig | null>(configProp ?? null);
   const [isLoading, setIsLoading] = useState(!configProp);
   const [error, setError] = useState<Error | null>(null);
 
+  // Optional: ConfigProvider is also used on Keycloak login pages without a provider
+  // Kept in refs: a new emitter or handler is no reason to load the configuration again
+  const events = useContext(AuthContext)?.events;
+  const eventsRef = useRef(events);
+  const onEventRef = useRef(onEvent);
   useEffect(() => {
+    eventsRef.current = events;
+    onEventRef.current = onEvent;
+  }, [events, onEvent]);
+
+  useEffect(() => {
+    const reportLoaded = (payload: AuthEventMap["config:loaded"]) => {
+      onEventRef.current?.({ ...payload, type: "config:loaded", timestamp: Date.now() });
+      eventsRef.current?.emit("config:loaded", payload);
+    };
+
     // If config was provided as prop, use it directly
     if (configProp) {
       setConfig(configProp);
       setIsLoading(false);
+      reportLoaded({ source: "props", config: configProp });
       return;
     }
 
@@ -109,6 +134,7 @@ export function ConfigProvider({
         .then((loadedConfig) => {
           setConfig(loadedConfig);
           setError(null);
+          reportLoaded({ source: "server", config: loadedConfig });
         })
         .catch((err) => {
           // Ignore abort errors
@@ -135,6 +161,7 @@ export function ConfigProvider({
       const loadedConfig = getLoginConfigFromDOM(configElementId);
       setConfig(loadedConfig);
       setError(null);
+      reportLoaded({ source: "dom", config: loadedConfig });
     } catch (err) {
       setError(
         err instanceof LoginConfigError
@@ -25,6 +25,7 @@ export {
   type UserAvatarProps,
   type UserAvatarSize,
   type UserTokenClaims,
+  type TokenVerification,
 } from "./UserAvatar";
 
 // User button
@@ -34,6 +35,31 @@ export {
   type UserButtonMenuItem,
 } from "./UserButton";
 
+// Impersonation banner
+export { ImpersonationBanner, type ImpersonationBannerProps } from "./ImpersonationBanner";
+
+// Organization switcher
+export {
+  OrganizationSwitcher,
+  type OrganizationSwitcherProps,
+  type OrganizationOption,
+} from "./OrganizationSwitcher";
+
+// Session timeout warning
+export {
+  SessionTimeoutWarning,
+  type SessionTimeoutWarningProps,
+} from "./SessionTimeoutWarning";
+
+// Signed out elsewhere dialog
+export {
+  SignedOutElsewhereDialog,
+  type SignedOutElsewhereDialogProps,
+} from "./SignedOutElsewhereDialog";
+
+// Device sign-in
+export { DeviceSignIn, type DeviceSignInProps, QrCode, type QrCodeProps } from "./DeviceSignIn";
+
 // Headless sign-in hook
 export {
   useSignIn,
@@ -100,25 +126,238 @@ export {
   useUser,
   useKeycloak,
   type KeycloakAuthProviderProps,
+  type KeycloakModeProps,
+  type BffModeProps,
   type AuthContextValue,
   type User,
+  type Impersonator,
   type SignInOptions,
   type SignOutOptions,
   type SignUpOptions,
+  type GetTokenOptions,
+  type AuthMode,
+  type AuthorizationRequestOptions,
+  type Prompt,
+  type AuthStatus,
+  type TokenStorage,
+  type TokenStorageAdapter,
+  type StoredTokens,
+} from "./auth";
+
+// Server-rendered sessions
+export { createAuthSession, SessionRenewalError, type AuthSession } from "./auth";
+
+// Token utilities
+export {
+  verifyToken,
+  TokenVerificationError,
+  decodeJwtHeader,
+  decodeJwtPayload,
+  getTokenExpiry,
+  isTokenExpired,
+  getRealmUrl,
+  getJwksEndpoint,
+  type TokenVerificationErrorCode,
+  type VerifyTokenOptions,
+  type JwtHeader,
+  type JwsAlgorithm,
+  type Jwk,
+} from "./auth";
+
+// Popup sign-in
+export {
+  authorizeWithPopup,
+  handlePopupCallback,
+  isPopupCallback,
+  PopupError,
+  PopupBlockedError,
+  PopupClosedError,
+  type PopupErrorCode,
+  type PopupAuthorizationOptions,
+} from "./auth";
+
+// Device authorization
+export {
+  useDeviceAuthorization,
+  requestDeviceAuthorization,
+  pollDeviceToken,
+  DeviceAuthorizationError,
+  type UseDeviceAuthorizationOptions,
+  type UseDeviceAuthorizationReturn,
+  type DeviceAuthorizationStatus,
+  type DeviceAuthorization,
+} from "./auth";
+
+// Authorized fetch
+export {
+  useAuthenticatedFetch,
+  createAuthorizedFetch,
+  type AuthSource,
+  type AllowedOrigin,
+  type AuthorizedFetchOptions,
+  type UseAuthenticatedFetchOptions,
+} from "./auth";
+
+// Authorization
+export {
+  useAuthorization,
+  hasRealmRole,
+  hasClientRole,
+  hasScope,
+  isInGroup,
+  type Authorization,
+  type RoleOptions,
+  type RoleRequirement,
+  type AuthorizationClaims,
+  type ClientRoles,
+} from "./auth";
+
+// Authorization Services (UMA) permissions
+export {
+  usePermissions,
+  requestRpt,
+  parsePermissions,
+  hasPermission,
+  PermissionError,
+  type UsePermissionsOptions,
+  type UsePermissionsReturn,
+  type UmaPermission,
+  type RequestingPartyToken,
+  type RequestRptOptions,
+} from "./auth";
+
+// Token exchange
+export {
+  useExchangedToken,
+  requestTokenExchange,
+  TokenExchangeError,
+  type UseExchangedTokenOptions,
+  type UseExchangedTokenReturn,
+  type ExchangeTokenOptions,
+  type ExchangedToken,
+  type RequestTokenExchangeOptions,
+} from "./auth";
+
+// Step-up authentication
+export {
+  useStepUp,
+  satisfiesAcr,
+  parseStepUpChallenge,
+  type UseStepUpOptions,
+  type UseStepUpReturn,
+  type StepUpOptions,
+  type StepUpChallenge,
+} from "./auth";
+
+// Initialization errors
+export {
+  AuthInitError,
+  toAuthInitError,
+  diagnoseInitError,
+  type AuthErrorType,
+} from "./auth";
+
+// Offline access
+export {
+  OFFLINE_ACCESS_SCOPE,
+  OfflineTokenError,
+  withOfflineAccessScope,
+  isOfflineToken,
+  refreshOfflineSession,
+  revokeToken,
+  createIndexedDBOfflineTokenStore,
+  type OfflineTokenStore,
+  type SessionType,
+} from "./auth";
+
+// DPoP
+export {
+  createDPoP,
+  createIndexedDBDPoPKeyStore,
+  fetchWithDPoP,
+  type DPoP,
+  type DPoPKeyStore,
+  type DPoPOptions,
+} from "./auth";
+
+// Backend-for-frontend (BFF) mode
+export {
+  fetchBffSession,
+  createBffLoginUrl,
+  createBffLogoutUrl,
+  BffError,
+  DEFAULT_BFF_ENDPOINTS,
+  type BffEndpoints,
+  type BffSession,
+} from "./auth";
+
+// Auth lifecycle events
+export {
+  useAuthEvent,
+  createAuthEventEmitter,
+  type UseAuthEventOptions,
+  type AuthEvent,
+  type AuthEventMap,
+  type AuthEventName,
+  type AuthEventHandler,
+  type AuthEventEmitter,
+  type SessionEndedReason,
+} from "./auth";
+
+// Organizations
+export {
+  useOrganization,
+  useOrganizations,
+  parseOrganizations,
+  getOrganizationScope,
+  type UseOrganizationReturn,
+  type UseOrganizationsReturn,
+  type SwitchOrganizationOptions,
+  type Organization,
+} from "./auth";
+
+// Session timeout
+export {
+  useSessionTimeout,
+  createSessionTimeout,
+  getSessionDeadline,
+  type UseSessionTimeoutOptions,
+  type UseSessionTimeoutReturn,
+  type SessionTimeout,
+  type SessionTimeoutOptions,
+  type SessionTimeoutState,
+  type SessionEndReason,
+} from "./auth";
+
+// Session monitoring
+export {
+  createSessionMonitor,
+  type SessionMonitor,
+  type SessionMonitorOptions,
+  type SessionProbe,
+  type SessionCheckMethod,
 } from "./auth";
 
 // Auth control components
 export {
   SignedIn,
   SignedOut,
+  AuthLoading,
+  AuthError,
   RedirectToSignIn,
   RedirectToSignUp,
   Protect,
+  Permission,
+  RequireAcr,
   type SignedInProps,
   type SignedOutProps,
+  type AuthLoadingProps,
+  type AuthErrorProps,
   type RedirectToSignInProps,
   type RedirectToSignUpProps,
   type ProtectProps,
+  type PermissionProps,
+  type RequireAcrProps,
 } from "./auth";
 
 // Auth buttons
@@ -0,0 +1,30 @@
+/**
+ * Next.js App Router integration: cookie-based sessions established with
+ * the authorization code flow on the server, `auth()` for server
+ * components, `middleware` protecting routes, and route handlers for sign
+ * in, the sign in callback and sign out.
+ *
+ * Requires `next` 14 or later. This entry point runs on the server (Node.js
+ * or edge runtime); the components stay in `keycloak-react`.
+ *
+ * @example
+ * ```typescript
+ * // auth.ts
+ * import { createKeycloakAuth } from "keycloak-react/nextjs";
+ *
+ * export const { auth, middleware, handlers } = createKeycloakAuth({
+ *   url: process.env.KEYCLOAK_URL!,
+ *   realm: "myrealm",
+ *   clientId: "my-app",
+ *   secret: process.env.KEYCLOAK_SESSION_SECRET!,
+ * });
+ * ```
+ */
+
+export {
+  createKeycloakAuth,
+  type KeycloakNext,
+  type KeycloakNextOptions,
+  type KeycloakNextHandlers,
+} from "./nextjs/createKeycloakAuth";
+export { createAuthSession, type AuthSession } from "./auth/authSession";
@@ -0,0 +1,512 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAuthSession, type AuthSession } from "../auth/authSession";
+import { getAuthorizationEndpoint, getLogoutEndpoint, getTokenEndpoint } from "../auth/endpoints";
+import { decodeJwtPayload } from "../auth/jwt";
+import { createCodeChallenge, randomString } from "../auth/pkce";
+import {
+  readChunkedCookie,
+  seal,
+  unseal,
+  writeChunkedCookie,
+  type CookieOptions,
+  type CookieReader,
+} from "./sessionCookie";
+
+export interface KeycloakNextOptions {
+  /** Keycloak server URL */
+  url: string;
+  /** Realm name */
+  realm: string;
+  /** Client ID */
+  clientId: string;
+  /** Client secret, for confidential clients */
+  clientSecret?: string;
+  /**
+   * Secret used to encrypt the session cookie, at least 32 characters.
+   * Keep it out of the client bundle, e.g. in an environment variable.
+   */
+  secret: string;
+  /** Additional scopes to request (space-separated); `openid` is always included */
+  scope?: string;
+  /**
+   * Path of the catch-all route exporting `handlers`.
+   * @default "/api/auth"
+   */
+  basePath?: string;
+  /**
+   * Public URL of the app, used for redirect URIs. Defaults to the origin
+   * of each request, which may be an internal address behind a proxy.
+   */
+  baseUrl?: string;
+  /**
+   * Name of the session cookie.
+   * @default "kc-session"
+   */
+  cookieName?: string;
+  /**
+   * Seconds of validity the access token must have; the middleware
+   * refreshes sessions this long before they expire.
+   * @default 30
+   */
+  minValidity?: number;
+  /**
+   * Routes the middleware lets through without a session: exact paths, or
+   * patterns matched against the path.
+   * @default []
+   */
+  publicRoutes?: (string | RegExp)[];
+}
+
+/**
+ * Route handlers for sign in, the sign in callback, sign out, the user and
+ * session renewal.
+ */
+export interface KeycloakNextHandlers {
+  /**
+   * Handles `{basePath}/login` (`returnTo`, `idpHint`, `loginHint`,
+   * `locale`, `prompt` (e.g. `create` for sign up), `scope` (added to the
+   * configured scopes), `maxAge`, `acr` (JSON) and `acrValues` query
+   * parameters),
+   * `{basePath}/callback`, `{basePath}/logout` (`returnTo` query
+   * parameter), `{basePath}/user` (the claims of the
+   * signed-in user, or 401, or 503 while Keycloak cannot be reached, for
+   * `KeycloakAuthProvider` in BFF mode) and
+   * `{basePath}/session` (refreshes the session and responds with it, or
+   * with 400 when it has ended, for the `sessionEndpoint` of
+   * `KeycloakAuthProvider`).
+   */
+  GET: (request: NextRequest) => Promise<Response>;
+}
+
+export interface KeycloakNext {
+  /**
+   * The session of the current request in server components, route
+   * handlers and server actions, or null when signed out or expired. The
+   * refresh token stays in the cookie, so the session can be passed to the
+   * browser.
+   */
+  auth: () => Promise<AuthSession | null>;
+  /** The session of a request, e.g. in other middleware */
+  getSession: (request: NextRequest) => Promise<AuthSession | null>;
+  /**
+   * Middleware refreshing sessions before they expire and sending
+   * signed-out users to sign in (or responding with 401 to non-page
+   * requests), except on `publicRoutes`. Sessions that cannot be refreshed
+   * while Keycloak is unreachable are kept: pages render without them, and
+   * non-page requests get 503.
+   */
+  middleware: (request: NextRequest) => Promise<NextResponse>;
+  /** Route handlers, to export from `app/{basePath}/[...keycloak]/route.ts` */
+  handlers: KeycloakNextHandlers;
+}
+
+/** Tokens kept in the session cookie */
+interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+}
+
+/** State of a sign in, kept in a short-lived cookie until the callback */
+interface SignInTransaction {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+/** Seconds a sign in may take before its state cookie expires */
+const TRANSACTION_MAX_AGE = 600;
+
+/** The requested scopes (space-separated lists), always including `openid`. */
+function getScope(...scopes: (string | null | undefined)[]): string {
+  const names = scopes.flatMap((value) => value?.split(" ") ?? []).filter(Boolean);
+  return [...new Set(["openid", ...names])].join(" ");
+}
+
+/** The `claims` parameter requesting an authentication level, from the JSON of an `Acr` */
+function getAcrClaims(acr: string | null): string | null {
+  if (!acr) return null;
+  try {
+    return JSON.stringify({ id_token: { acr: JSON.parse(acr) as unknown } });
+  } catch {
+    return null;
+  }
+}
+
+/** Only allow relative return paths, so sign in cannot redirect to other sites. */
+function getReturnTo(value: string | null): string {
+  return value?.startsWith("/") && !value.startsWith("//") && !value.startsWith("/\\")
+    ? value
+    : "/";
+}
+
+function isPublicRoute(pathname: string, routes: (string | RegExp)[]): boolean {
+  return routes.some((route) =>
+    typeof route === "string" ? route === pathname : route.test(pathname)
+  );
+}
+
+/**
+ * Create the Next.js App Router integration: cookie-based sessions with
+ * `auth()` for server components, `middleware` protecting routes and
+ * `handlers` for sign in, the authorization code callback and sign out.
+ *
+ * Sign in uses the authorization code flow with PKCE on the server. The
+ * tokens are kept in an encrypted, HTTP-only cookie; pass the session from
+ * `auth()` to `KeycloakAuthProvider` as `initialSession` to render the
+ * signed-in state on the server. The browser renews it through
+ * `{basePath}/session`, so the refresh token never leaves the server.
+ *
+ * @example
+ * ```typescript
+ * // auth.ts
+ * export const { auth, middleware, handlers } = createKeycloakAuth({
+ *   url: "https://keycloak.example.com",
+ *   realm: "myrealm",
+ *   clientId: "my-app",
+ *   secret: process.env.KEYCLOAK_SESSION_SECRET!,
+ * });
+ *
+ * // app/api/auth/[...keycloak]/route.ts
+ * export const { GET } = handlers;
+ * ```
+ */
+export function createKeycloakAuth(options: KeycloakNextOptions): KeycloakNext {
+  const {
+    url,
+    realm,
+    clientId,
+    clientSecret,
+    secret,
+    scope,
+    basePath = "/api/auth",
+    cookieName = "kc-session",
+    minValidity = 30,
+    publicRoutes = [],
+  } = options;
+  if (!secret || secret.length < 32) {
+    throw new Error("createKeycloakAuth: `secret` must be at least 32 characters");
+  }
+  const transactionCookie = `${cookieName}-signin`;
+
+  const getBaseUrl = (request: NextRequest) =>
+    (options.baseUrl ?? request.nextUrl.origin).replace(/\/$/, "");
+
+  const getCookieOptions = (request: NextRequest, path = "/"): CookieOptions => ({
+    httpOnly: true,
+    secure: getBaseUrl(request).startsWith("https:"),
+    sameSite: "lax",
+    path,
+  });
+
+  const readTokens = async (cookies: CookieReader) => {
+    const sealed = readChunkedCookie(cookies, cookieName);
+    return sealed ? unseal<SessionTokens>(sealed, secret) : null;
+  };
+
+  const writeTokens = async (
+    request: NextRequest,
+    response: NextResponse,
+    tokens: SessionTokens | null
+  ) => {
+    const sealed = tokens && (await seal(tokens, secret));
+    writeChunkedCookie(
+      response.cookies,
+      request.cookies,
+      cookieName,
+      sealed,
+      getCookieOptions(request)
+    );
+    return sealed;
+  };
+
+  const toSession = (tokens: SessionTokens | null) => {
+    const session = tokens && createAuthSession(tokens);
+    return session && session.expiresAt > Date.now() ? session : null;
+  };
+
+  const requestTokens = (params: Record<string, string>) =>
+    fetch(getTokenEndpoint(url, realm), {
+      method: "POST",
+      headers: { Accept: "application/json" },
+      body: new URLSearchParams({
+        client_id: clientId,
+        ...(clientSecret ? { client_secret: clientSecret } : {}),
+        ...params,
+      }),
+    });
+
+  // Refresh the tokens; null when Keycloak rejects the refresh token
+  const refreshTokens = async (tokens: SessionTokens): Promise<SessionTokens | null> => {
+    if (!tokens.refreshToken) return null;
+    const response = await requestTokens({
+      grant_type: "refresh_token",
+      refresh_token: tokens.refreshToken,
+    });
+    if (response.status === 400) {
+      const { error } = (await response.json().catch(() => ({}))) as { error?: unknown };
+      if (error === "invalid_grant") return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to refresh the session: ${response.status} ${response.statusText}`);
+    }
+    const data = (await response.json()) as {
+      access_token: string;
+      refresh_token?: string;
+      id_token?: string;
+    };
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? tokens.refreshToken,
+      idToken: data.id_token ?? tokens.idToken,
+    };
+  };
+
+  // Refresh the tokens when they are about to expire. When Keycloak cannot
+  // be reached the stored tokens are kept, and `unavailable` is set
+  const renewTokens = async (
+    stored: SessionTokens | null
+  ): Promise<{ tokens: SessionTokens | null; unavailable: boolean }> => {
+    if (!stored) return { tokens: null, unavailable: false };
+    const session = createAuthSession(stored);
+    if (session && session.expiresAt - minValidity * 1000 > Date.now()) {
+      return { tokens: stored, unavailable: false };
+    }
+    try {
+      return { tokens: await refreshTokens(stored), unavailable: false };
+    } catch (error) {
+      // Keycloak is unreachable - the refresh token may still be valid, so
+      // the session is kept for when it is back
+      console.error("Keycloak session refresh failed:", error);
+      return { tokens: stored, unavailable: true };
+    }
+  };
+
+  const unavailableResponse = () =>
+    NextResponse.json({ error: "temporarily_unavailable" }, { status: 503 });
+
+  const login = async (request: NextRequest) => {
+    const params = request.nextUrl.searchParams;
+    const transaction: SignInTransaction = {
+      state: randomString(16),
+      nonce: randomString(16),
+      codeVerifier: randomString(48),
+      returnTo: getReturnTo(params.get("returnTo")),
+    };
+
+    const authorizationUrl = new URL(getAuthorizationEndpoint(url, realm));
+    const query: Record<string, string | null> = {
+      client_id: clientId,
+      redirect_uri: `${getBaseUrl(request)}${basePath}/callback`,
+      response_type: "code",
+      scope: getScope(scope, params.get("scope")),
+      state: transaction.state,
+      nonce: transaction.nonce,
+      code_challenge: await createCodeChallenge(transaction.codeVerifier),
+      code_challenge_method: "S256",
+      kc_idp_hint: params.get("idpHint"),
+      login_hint: params.get("loginHint"),
+      ui_locales: params.get("locale"),
+      prompt: params.get("prompt"),
+      max_age: params.get("maxAge"),
+      claims: getAcrClaims(params.get("acr")),
+      acr_values: params.get("acrValues"),
+    };
+    for (const [key, value] of Object.entries(query)) {
+      if (value) authorizationUrl.searchParams.set(key, value);
+    }
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(transactionCookie, await seal(transaction, secret), {
+      ...getCookieOptions(request, basePath),
+      maxAge: TRANSACTION_MAX_AGE,
+    });
+    return response;
+  };
+
+  const callback = async (request: NextRequest) => {
+    const params = request.nextUrl.searchParams;
+    const sealed = request.cookies.get(transactionCookie)?.value;
+    const transaction = sealed ? await unseal<SignInTransaction>(sealed, secret) : null;
+    if (!transaction || params.get("state") !== transaction.state) {
+      return new Response("Invalid or expired sign in, please try again", { status: 400 });
+    }
+    const error = params.get("error");
+    if (error) {
+      return new Response(params.get("error_description") || `Sign in failed: ${error}`, {
+        status: 400,
+      });
+    }
+
+    const tokenResponse = await requestTokens({
+      grant_type: "authorization_code",
+      code: params.get("code") ?? "",
+      redirect_uri: `${getBaseUrl(request)}${basePath}/callback`,
+      code_verifier: transaction.codeVerifier,
+    });
+    if (!tokenResponse.ok) {
+      return new Response(
+        `Failed to exchange the authorization code: ${tokenResponse.status} ${tokenResponse.statusText}`,
+        { status: 502 }
+      );
+    }
+    const data = (await tokenResponse.json()) as {
+      access_token?: string;
+      refresh_token?: string;
+      id_token?: string;
+    };
+    const idTokenClaims = data.id_token ? decodeJwtPayload(data.id_token) : null;
+    if (!data.access_token || idTokenClaims?.nonce !== transaction.nonce) {
+      return new Response("Invalid token response", { status: 502 });
+    }
+
+    const response = NextResponse.redirect(new URL(transaction.returnTo, getBaseUrl(request)));
+    response.cookies.set(transactionCookie, "", {
+      ...getCookieOptions(request, basePath),
+      maxAge: 0,
+    });
+    await writeTokens(request, response, {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      idToken: data.id_token,
+    });
+    return response;
+  };
+
+  const logout = async (request: NextRequest) => {
+    const tokens = await readTokens(request.cookies);
+    const returnTo = getReturnTo(request.nextUrl.searchParams.get("returnTo"));
+    const logoutUrl = new URL(getLogoutEndpoint(url, realm));
+    logoutUrl.searchParams.set("client_id", clientId);
+    logoutUrl.searchParams.set("post_logout_redirect_uri", `${getBaseUrl(request)}${returnTo}`);
+    if (tokens?.idToken) {
+      logoutUrl.searchParams.set("id_token_hint", tokens.idToken);
+    }
+
+    const response = NextResponse.redirect(logoutUrl);
+    await writeTokens(request, response, null);
+    return response;
+  };
+
+  // Claims of the signed-in user for KeycloakAuthProvider in BFF mode,
+  // including the access token claims used by role and scope checks
+  const user = async (request: NextRequest) => {
+    const stored = await readTokens(request.cookies);
+    const { tokens, unavailable } = await renewTokens(stored);
+    const session = toSession(tokens);
+    if (!session && unavailable) return unavailableResponse();
+    const response = session
+      ? NextResponse.json(
+          { ...decodeJwtPayload(session.accessToken), ...session.user.claims },
+          { headers: { "Cache-Control": "no-store" } }
+        )
+      : NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    if (tokens !== stored) await writeTokens(request, response, tokens);
+    return response;
+  };
+
+  // Renews the session of KeycloakAuthProvider's initialSession: the
+  // rotated refresh token goes into the cookie, the session to the browser
+  const renewSession = async (request: NextRequest) => {
+    const stored = await readTokens(request.cookies);
+    let tokens: SessionTokens | null;
+    try {
+      tokens = stored && (await refreshTokens(stored));
+    } catch (error) {
+      console.error("Keycloak session refresh failed:", error);
+      return NextResponse.json({ error: "server_error" }, { status: 502 });
+    }
+    const session = toSession(tokens);
+    const response = session
+      ? NextResponse.json(session, { headers: { "Cache-Control": "no-store" } })
+      : NextResponse.json({ error: "invalid_grant" }, { status: 400 });
+    if (stored) await writeTokens(request, response, session && tokens);
+    return response;
+  };
+
+  const handlers: KeycloakNextHandlers = {
+    GET: async (request) => {
+      const { pathname } = request.nextUrl;
+      switch (pathname.slice(pathname.lastIndexOf("/") + 1)) {
+        case "login":
+          return login(request);
+        case "callback":
+          return callback(request);
+        case "logout":
+          return logout(request);
+        case "user":
+          return user(request);
+        case "session":
+          return renewSession(request);
+        default:
+          return new Response("Not found", { status: 404 });
+      }
+    },
+  };
+
+  const middleware = async (request: NextRequest) => {
+    const { pathname, search } = request.nextUrl;
+    if (pathname === basePath || pathname.startsWith(`${basePath}/`)) {
+      return NextResponse.next();
+    }
+
+    const stored = await readTokens(request.cookies);
+    const { tokens, unavailable } = await renewTokens(stored);
+    const session = toSession(tokens);
+
+    if (!session && !isPublicRoute(pathname, publicRoutes)) {
+      const accept = request.headers.get("accept") ?? "";
+      // Keycloak is unreachable - keep the session, and let pages render
+      // (signed out) rather than sending users to a sign in that fails
+      if (unavailable) {
+        return accept.includes("text/html") ? NextResponse.next() : unavailableResponse();
+      }
+      const response = accept.includes("text/html")
+        ? NextResponse.redirect(
+            new URL(
+              `${basePath}/login?returnTo=${encodeURIComponent(pathname + search)}`,
+              getBaseUrl(request)
+            )
+          )
+        : NextResponse.json({ error: "unauthorized" }, { status: 401 });
+      if (stored) await writeTokens(request, response, null);
+      return response;
+    }
+
+    if (tokens === stored) {
+      return NextResponse.next();
+    }
+
+    // Hand the refreshed session to the browser, and to server components
+    // rendering this request
+    const sealed = tokens && (await seal(tokens, secret));
+    // A Map works as cookie writer for the forwarded cookie header
+    const forwarded = new Map(request.cookies.getAll().map(({ name, value }) => [name, value]));
+    writeChunkedCookie(forwarded, request.cookies, cookieName, sealed, {});
+    const headers = new Headers(request.headers);
+    headers.set(
+      "cookie",
+      [...forwarded].map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join("; ")
+    );
+    const response = NextResponse.next({ request: { headers } });
+    writeChunkedCookie(
+      response.cookies,
+      request.cookies,
+      cookieName,
+      sealed,
+      getCookieOptions(request)
+    );
+    return response;
+  };
+
+  return {
+    auth: async () => {
+      const { cookies } = await import("next/headers");
+      return toSession(await readTokens(await cookies()));
+    },
+    getSession: async (request) => toSession(await readTokens(request.cookies)),
+    middleware,
+    handlers,
+  };
+}
@@ -0,0 +1,147 @@
+import { base64UrlDecode, base64UrlEncode } from "../auth/pkce";
+
+/**
+ * Read access to cookies, as provided by `cookies()` from `next/headers`
+ * and by `request.cookies`.
+ */
+export interface CookieReader {
+  get(name: string): { value: string } | undefined;
+  getAll(): { name: string; value: string }[];
+}
+
+/**
+ * Write access to cookies, as provided by `response.cookies`.
+ */
+export interface CookieWriter {
+  set(name: string, value: string, options?: CookieOptions): unknown;
+  delete(name: string): unknown;
+}
+
+/** Attributes of the cookies set by the route handlers and middleware. */
+export interface CookieOptions {
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "lax" | "strict" | "none";
+  path?: string;
+  maxAge?: number;
+}
+
+/**
+ * Browsers limit cookies to about 4 KB, so larger values are split over
+ * `name.0`, `name.1`, ... cookies.
+ */
+const CHUNK_SIZE = 3800;
+
+const encoder = new TextEncoder();
+const keys = new Map<string, Promise<CryptoKey>>();
+
+/** Derive the AES-GCM key of a secret. */
+function getKey(secret: string): Promise<CryptoKey> {
+  let key = keys.get(secret);
+  if (!key) {
+    key = crypto.subtle
+      .importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"])
+      .then((material) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(),
+            info: encoder.encode("keycloak-react session cookie"),
+          },
+          material,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        )
+      );
+    keys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypt a JSON value with a key derived from `secret`, so cookies cannot
+ * be read or forged by the browser.
+ */
+export async function seal(value: unknown, secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getKey(secret),
+    encoder.encode(JSON.stringify(value))
+  );
+  const bytes = new Uint8Array(iv.length + data.byteLength);
+  bytes.set(iv);
+  bytes.set(new Uint8Array(data), iv.length);
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * Decrypt a value sealed with {@link seal}.
+ *
+ * @returns The value, or null if it was not sealed with the same secret
+ */
+export async function unseal<T>(sealed: string, secret: string): Promise<T | null> {
+  try {
+    const bytes = base64UrlDecode(sealed);
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.subarray(0, 12) },
+      await getKey(secret),
+      bytes.subarray(12)
+    );
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Names of the chunks of a cookie that are present, in order. */
+function getChunkNames(cookies: CookieReader, name: string): string[] {
+  return cookies
+    .getAll()
+    .map((cookie) => cookie.name)
+    .filter((chunk) => chunk.startsWith(`${name}.`) && /^\d+$/.test(chunk.slice(name.length + 1)))
+    .sort((a, b) => Number(a.slice(name.length + 1)) - Number(b.slice(name.length + 1)));
+}
+
+/**
+ * Read a cookie that may be split into chunks.
+ */
+export function readChunkedCookie(cookies: CookieReader, name: string): string | undefined {
+  const value = cookies.get(name)?.value;
+  if (value) return value;
+  const chunks = getChunkNames(cookies, name).map((chunk) => cookies.get(chunk)?.value ?? "");
+  return chunks.length ? chunks.join("") : undefined;
+}
+
+/**
+ * Write a cookie, split into chunks if needed, and delete chunks left over
+ * from a previous value. A null value deletes the cookie.
+ *
+ * @param current - Cookies of the request, to find existing chunks
+ */
+export function writeChunkedCookie(
+  target: CookieWriter,
+  current: CookieReader,
+  name: string,
+  value: string | null,
+  options: CookieOptions
+): void {
+  const chunks: [string, string][] = [];
+  if (value && value.length <= CHUNK_SIZE) {
+    chunks.push([name, value]);
+  } else if (value) {
+    for (let i = 0; i * CHUNK_SIZE < value.length; i++) {
+      chunks.push([`${name}.${i}`, value.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE)]);
+    }
+  }
+
+  const written = new Set(chunks.map(([chunk]) => chunk));
+  for (const existing of [name, ...getChunkNames(current, name)]) {
+    if (!written.has(existing) && current.get(existing)) target.delete(existing);
+  }
+  for (const [chunk, chunkValue] of chunks) {
+    target.set(chunk, chunkValue, options);
+  }
+}
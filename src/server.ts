@@ -0,0 +1,61 @@
+/**
+ * Server-side access token verification for APIs called by apps using
+ * `keycloak-react`: JWKS-backed token verification, Express/Connect
+ * middleware, a wrapper for Fetch API handlers (edge runtimes), and
+ * authorization checks sharing the claim helpers of `Protect`.
+ *
+ * Uses WebCrypto only, so it runs on Node.js 18+ and edge runtimes.
+ *
+ * @example
+ * ```typescript
+ * import { createTokenVerifier, createExpressMiddleware } from "keycloak-react/server";
+ *
+ * const verifier = createTokenVerifier({
+ *   url: process.env.KEYCLOAK_URL!,
+ *   realm: "myrealm",
+ *   audience: "orders-api",
+ * });
+ *
+ * app.use("/api", createExpressMiddleware({ verifier, realmRoles: ["customer"] }));
+ * ```
+ */
+
+export {
+  createTokenVerifier,
+  type TokenVerifier,
+  type TokenVerifierOptions,
+  type VerifiedToken,
+} from "./server/tokenVerifier";
+export type { DPoPRequest } from "./server/dpopProof";
+export {
+  verifyToken,
+  TokenVerificationError,
+  type TokenVerificationErrorCode,
+  type VerifyTokenOptions,
+} from "./auth/verifyToken";
+export {
+  createExpressMiddleware,
+  withAuth,
+  getBearerToken,
+  type AuthMiddlewareOptions,
+  type AuthenticatedRequest,
+} from "./server/middleware";
+export { checkAuthorization, type AuthorizationRequirements } from "./server/guards";
+export {
+  hasClientRole,
+  hasRealmRole,
+  hasScope,
+  isInGroup,
+  type AuthorizationClaims,
+  type ClientRoles,
+  type RoleRequirement,
+} from "./auth/claims";
+export {
+  decodeJwtHeader,
+  decodeJwtPayload,
+  getTokenExpiry,
+  isTokenExpired,
+  type JwtHeader,
+  type JwsAlgorithm,
+} from "./auth/jwt";
+export type { Jwk } from "./auth/jwks";
@@ -0,0 +1,125 @@
+import { getAccessTokenHash, getJwkThumbprint } from "../auth/dpop";
+import {
+  decodeJwtHeader,
+  decodeJwtPayload,
+  isSupportedJwsAlgorithm,
+  verifyJwtSignature,
+} from "../auth/jwt";
+import { TokenVerificationError } from "../auth/verifyToken";
+
+/**
+ * The DPoP proof sent with a request, and the request it must be created
+ * for.
+ */
+export interface DPoPRequest {
+  /** The `DPoP` header of the request */
+  proof: string | null | undefined;
+  /** HTTP method of the request */
+  method: string;
+  /** Full URL of the request */
+  url: string;
+}
+
+export interface DPoPProofVerifierOptions {
+  /** Seconds a proof is accepted after it was created */
+  maxAge: number;
+  /** Seconds of clock skew tolerated when checking `iat` */
+  clockTolerance: number;
+}
+
+/**
+ * Checks that a DPoP proof was created for a request and an access token
+ * bound to the proof's key.
+ *
+ * @throws {TokenVerificationError} If the proof is missing or invalid
+ */
+export type DPoPProofVerifier = (
+  request: DPoPRequest,
+  accessToken: string,
+  jkt: string
+) => Promise<void>;
+
+function fail(message: string): never {
+  throw new TokenVerificationError(message, "invalid_dpop_proof");
+}
+
+/** The URL without query and fragment, as proofs carry it (RFC 9449, section 4.2) */
+function getTargetUri(url: string): string | undefined {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a verifier for DPoP proofs (RFC 9449, section 4.3): the proof is
+ * signed with the public key in its header, is for the method and URL of
+ * the request and for the access token, is recent, is not replayed, and its
+ * key is the one the access token is bound to.
+ *
+ * The IDs of accepted proofs are kept for as long as the proofs are
+ * accepted, in memory: instances behind a load balancer do not share them.
+ */
+export function createDPoPProofVerifier(options: DPoPProofVerifierOptions): DPoPProofVerifier {
+  const { maxAge, clockTolerance } = options;
+  const lifetime = maxAge + clockTolerance;
+  // IDs of accepted proofs, and until when they would be accepted
+  const seen = new Map<string, number>();
+
+  return async ({ proof, method, url }, accessToken, jkt) => {
+    if (!proof) fail("A DPoP proof is required");
+    const header = decodeJwtHeader(proof);
+    const claims = decodeJwtPayload(proof);
+    if (!header || !claims) fail("The DPoP proof is not a JWT");
+    if (header.typ !== "dpop+jwt") fail("The DPoP proof has the wrong type");
+    const { alg, jwk } = header;
+    if (!isSupportedJwsAlgorithm(alg)) {
+      fail(`The DPoP proof is signed with an unsupported algorithm (${String(alg)})`);
+    }
+    // The key must be public
+    if (!jwk || typeof jwk !== "object" || "d" in jwk) {
+      fail("The DPoP proof has no public key");
+    }
+
+    let valid = false;
+    try {
+      valid = await verifyJwtSignature(proof, jwk as JsonWebKey, alg);
+    } catch {
+      // Keys that do not fit the algorithm cannot have signed the proof
+    }
+    if (!valid) fail("The DPoP proof signature is invalid");
+
+    if (claims.htm !== method.toUpperCase()) {
+      fail("The DPoP proof was created for another method");
+    }
+    const htu = typeof claims.htu === "string" ? getTargetUri(claims.htu) : undefined;
+    if (!htu || htu !== getTargetUri(url)) {
+      fail("The DPoP proof was created for another URL");
+    }
+    const now = Date.now() / 1000;
+    if (typeof claims.iat !== "number" || Math.abs(now - claims.iat) > lifetime) {
+      fail("The DPoP proof has expired or is not valid yet");
+    }
+    if (typeof claims.jti !== "string" || !claims.jti) {
+      fail("The DPoP proof has no ID");
+    }
+    if (claims.ath !== (await getAccessTokenHash(accessToken))) {
+      fail("The DPoP proof was created for another access token");
+    }
+    let thumbprint: string | undefined;
+    try {
+      thumbprint = await getJwkThumbprint(jwk as JsonWebKey);
+    } catch {
+      // Unsupported key types cannot be bound to tokens
+    }
+    if (thumbprint !== jkt) fail("The access token is bound to another key");
+
+    for (const [jti, acceptedUntil] of seen) {
+      if (acceptedUntil <= now) seen.delete(jti);
+    }
+    if (seen.has(claims.jti)) fail("The DPoP proof was used before");
+    seen.set(claims.jti, claims.iat + lifetime);
+  };
+}
@@ -0,0 +1,63 @@
+import {
+  hasClientRole,
+  hasRealmRole,
+  hasScope,
+  isInGroup,
+  toClientRoles,
+  type AuthorizationClaims,
+  type RoleRequirement,
+} from "../auth/claims";
+
+/**
+ * Authorization rules for a route. `roles` and `realmRoles` work like the
+ * props of the `Protect` component, so a route can be guarded with the same
+ * rules as the page calling it.
+ */
+export interface AuthorizationRequirements {
+  /**
+   * Client roles; the token must grant at least one of them. Role names
+   * are checked for the client the token was issued to (`azp`); pass
+   * `{ client, roles }` to check roles of another client, e.g. the API's.
+   */
+  roles?: RoleRequirement;
+  /** Realm roles; the token must grant at least one of them */
+  realmRoles?: string[];
+  /** Scopes; the token must include all of them */
+  scopes?: string[];
+  /** Groups; the user must be a member of at least one of them */
+  groups?: string[];
+}
+
+/**
+ * Whether token claims meet authorization requirements. Uses the same claim
+ * helpers as `useAuthorization` and `Protect`.
+ *
+ * @example
+ * ```typescript
+ * if (!checkAuthorization(claims, { roles: { client: "orders-api", roles: ["writer"] } })) {
+ *   return new Response("Forbidden", { status: 403 });
+ * }
+ * ```
+ */
+export function checkAuthorization(
+  claims: AuthorizationClaims | null | undefined,
+  requirements: AuthorizationRequirements
+): boolean {
+  const { roles, realmRoles, scopes, groups } = requirements;
+  if (roles) {
+    const { client, roles: names } = toClientRoles(roles);
+    if (names.length > 0 && !names.some((role) => hasClientRole(claims, role, client))) {
+      return false;
+    }
+  }
+  if (realmRoles?.length && !realmRoles.some((role) => hasRealmRole(claims, role))) {
+    return false;
+  }
+  if (scopes?.length && !scopes.every((scope) => hasScope(claims, scope))) {
+    return false;
+  }
+  if (groups?.length && !groups.some((group) => isInGroup(claims, group))) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,206 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { TLSSocket } from "node:tls";
+import { checkAuthorization, type AuthorizationRequirements } from "./guards";
+import { TokenVerificationError } from "../auth/verifyToken";
+import type { TokenVerifier, VerifiedToken } from "./tokenVerifier";
+
+export interface AuthMiddlewareOptions extends AuthorizationRequirements {
+  /** Verifier created with `createTokenVerifier` */
+  verifier: TokenVerifier;
+  /**
+   * Also accept tokens bound to a DPoP key (RFC 9449), sent as
+   * `Authorization: DPoP` with a `DPoP` proof header for the request.
+   * @default false
+   */
+  dpop?: boolean;
+  /**
+   * Public origin of the API (e.g. `https://api.example.com`), which DPoP
+   * proofs are created for. Defaults to the origin of the request; set it
+   * behind a proxy. Express only.
+   */
+  baseUrl?: string;
+}
+
+/** The `Authorization` header and DPoP proof of a request */
+interface AuthRequest {
+  authorization: string | null | undefined;
+  proof: string | null | undefined;
+  method: string;
+  url: string;
+}
+
+/**
+ * A request that passed {@link createExpressMiddleware}.
+ */
+export interface AuthenticatedRequest extends IncomingMessage {
+  /** The verified access token */
+  auth: VerifiedToken;
+}
+
+interface ErrorResponse {
+  status: 401 | 403;
+  headers: Record<string, string>;
+  body: { error: string; error_description: string };
+}
+
+function parseAuthorization(
+  authorization: string | null | undefined
+): { scheme: "Bearer" | "DPoP"; token: string } | null {
+  const match = /^(Bearer|DPoP)\s+([A-Za-z0-9\-._~+/]+=*)$/i.exec(authorization?.trim() ?? "");
+  if (!match) return null;
+  return { scheme: match[1].toLowerCase() === "dpop" ? "DPoP" : "Bearer", token: match[2] };
+}
+
+/**
+ * The bearer token of an `Authorization` header (RFC 6750), or null. Tokens
+ * sent with the `DPoP` scheme are not bearer tokens.
+ */
+export function getBearerToken(authorization: string | null | undefined): string | null {
+  const parsed = parseAuthorization(authorization);
+  return parsed?.scheme === "Bearer" ? parsed.token : null;
+}
+
+function createErrorResponse(
+  status: 401 | 403,
+  error: string | undefined,
+  description: string,
+  scheme = "Bearer"
+): ErrorResponse {
+  // Requests without a token only get the challenge (RFC 6750, section 3.1)
+  const challenge = error
+    ? `${scheme} error="${error}", error_description="${description.replace(/"/g, "'")}"`
+    : scheme;
+  return {
+    status,
+    headers: { "WWW-Authenticate": challenge, "Content-Type": "application/json" },
+    body: { error: error ?? "unauthorized", error_description: description },
+  };
+}
+
+/**
+ * Verify the bearer token of a request and check the requirements.
+ */
+async function authenticate(
+  { authorization, proof, method, url }: AuthRequest,
+  { verifier, dpop = false, baseUrl: _baseUrl, ...requirements }: AuthMiddlewareOptions
+): Promise<VerifiedToken | ErrorResponse> {
+  const parsed = parseAuthorization(authorization);
+  if (!parsed || (parsed.scheme === "DPoP" && !dpop)) {
+    return createErrorResponse(
+      401,
+      undefined,
+      dpop ? "A bearer or DPoP token is required" : "A bearer token is required",
+      dpop ? "Bearer, DPoP" : "Bearer"
+    );
+  }
+
+  let verified: VerifiedToken;
+  try {
+    verified = await verifier.verify(
+      parsed.token,
+      parsed.scheme === "DPoP" ? { proof, method, url } : undefined
+    );
+  } catch (error) {
+    if (error instanceof TokenVerificationError) {
+      return error.code === "invalid_dpop_proof"
+        ? createErrorResponse(401, "invalid_dpop_proof", error.message, "DPoP")
+        : createErrorResponse(401, "invalid_token", error.message, parsed.scheme);
+    }
+    throw error;
+  }
+
+  if (!checkAuthorization(verified.claims, requirements)) {
+    return createErrorResponse(
+      403,
+      "insufficient_scope",
+      "The token does not grant access to this resource"
+    );
+  }
+  return verified;
+}
+
+function isErrorResponse(result: VerifiedToken | ErrorResponse): result is ErrorResponse {
+  return "status" in result;
+}
+
+/**
+ * Express/Connect middleware requiring a valid access token in the
+ * `Authorization` header. The verified token is set on `req.auth`; requests
+ * without a valid token get a 401 response, and tokens not meeting the
+ * requirements a 403 response.
+ *
+ * @example
+ * ```typescript
+ * app.use("/api", createExpressMiddleware({ verifier }));
+ * app.delete(
+ *   "/api/orders/:id",
+ *   createExpressMiddleware({ verifier, roles: { client: "orders-api", roles: ["admin"] } }),
+ *   (req, res) => {
+ *     // req.auth.user, req.auth.claims
+ *   }
+ * );
+ * ```
+ */
+export function createExpressMiddleware(
+  options: AuthMiddlewareOptions
+): (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void {
+  return (req, res, next) => {
+    // Routers mounted on a path strip it from `url`, but not from `originalUrl`
+    const path = (req as { originalUrl?: string }).originalUrl ?? req.url ?? "/";
+    const origin =
+      options.baseUrl ??
+      `${(req.socket as TLSSocket | undefined)?.encrypted ? "https" : "http"}://${req.headers.host}`;
+    const request: AuthRequest = {
+      authorization: req.headers.authorization,
+      proof: req.headers.dpop as string | undefined,
+      method: req.method ?? "GET",
+      url: new URL(path, origin).href,
+    };
+    authenticate(request, options).then((result) => {
+      if (isErrorResponse(result)) {
+        res.writeHead(result.status, result.headers);
+        res.end(JSON.stringify(result.body));
+        return;
+      }
+      (req as AuthenticatedRequest).auth = result;
+      next();
+    }, next);
+  };
+}
+
+/**
+ * Wrap a Fetch API handler (edge functions, Next.js route handlers, Hono,
+ * Deno, Bun, Cloudflare Workers) so it only runs for requests with a valid
+ * access token meeting the requirements. Other requests get a 401 or 403
+ * response.
+ *
+ * @example
+ * ```typescript
+ * export const GET = withAuth({ verifier, scopes: ["orders:read"] }, async (request, auth) => {
+ *   return Response.json(await listOrders(auth.user.id));
+ * });
+ * ```
+ */
+export function withAuth<Args extends unknown[]>(
+  options: AuthMiddlewareOptions,
+  handler: (request: Request, auth: VerifiedToken, ...args: Args) => Response | Promise<Response>
+): (request: Request, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    const result = await authenticate(
+      {
+        authorization: request.headers.get("Authorization"),
+        proof: request.headers.get("DPoP"),
+        method: request.method,
+        url: request.url,
+      },
+      options
+    );
+    if (isErrorResponse(result)) {
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers: result.headers,
+      });
+    }
+    return handler(request, result, ...args);
+  };
+}
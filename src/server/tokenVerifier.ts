@@ -0,0 +1,160 @@
+import type { User } from "../auth/AuthContext";
+import type { AuthorizationClaims } from "../auth/claims";
+import { getJwksEndpoint, getRealmUrl } from "../auth/endpoints";
+import { createJwksClient } from "../auth/jwks";
+import type { JwsAlgorithm } from "../auth/jwt";
+import { getUserFromClaims } from "../auth/user";
+import { TokenVerificationError, verifyJwt } from "../auth/verifyToken";
+import { createDPoPProofVerifier, type DPoPRequest } from "./dpopProof";
+
+export interface TokenVerifierOptions {
+  /** Keycloak server URL */
+  url: string;
+  /** Realm name */
+  realm: string;
+  /**
+   * Audience the token must be issued for (one of them, if several). Add an
+   * audience mapper in Keycloak so access tokens carry the API's client ID.
+   * Not checked if omitted.
+   */
+  audience?: string | string[];
+  /**
+   * Expected `iss` claim. Defaults to the realm URL; set it when clients
+   * reach Keycloak through another hostname than the server.
+   */
+  issuer?: string;
+  /**
+   * URL of the key set. Defaults to the realm's certs endpoint; set it to
+   * fetch keys through an internal address.
+   */
+  jwksUri?: string;
+  /**
+   * Seconds of clock skew tolerated when checking `exp` and `nbf`.
+   * @default 5
+   */
+  clockTolerance?: number;
+  /**
+   * Allowed signature algorithms.
+   * @default ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512", "EdDSA"]
+   */
+  algorithms?: JwsAlgorithm[];
+  /**
+   * Seconds the key set is cached. Tokens signed with an unknown key cause
+   * a fetch at most every 30 seconds.
+   * @default 600
+   */
+  jwksCacheMaxAge?: number;
+  /**
+   * Seconds a DPoP proof is accepted after it was created.
+   * @default 60
+   */
+  dpopProofMaxAge?: number;
+}
+
+/**
+ * A verified access token.
+ */
+export interface VerifiedToken {
+  /** The raw access token */
+  token: string;
+  /** The token claims */
+  claims: AuthorizationClaims;
+  /** The user the token was issued to */
+  user: User;
+}
+
+/**
+ * Handle returned by {@link createTokenVerifier}.
+ */
+export interface TokenVerifier {
+  /**
+   * Verify an access token. Tokens bound to a DPoP key (RFC 9449) are only
+   * accepted with the DPoP proof of their request, and tokens sent with a
+   * proof must be bound to its key.
+   *
+   * @param dpop - The DPoP proof of the request, for tokens sent with the `DPoP` scheme
+   * @throws {TokenVerificationError} If the token or the proof is invalid
+   */
+  verify: (token: string, dpop?: DPoPRequest) => Promise<VerifiedToken>;
+}
+
+/** The thumbprint of the key a token is bound to (`cnf.jkt`) */
+function getBoundKey(claims: Record<string, unknown>): unknown {
+  return (claims.cnf as { jkt?: unknown } | undefined)?.jkt;
+}
+
+/**
+ * Create a verifier for access tokens issued by a realm. Signatures are
+ * checked with the realm's public keys (fetched from its JWKS endpoint and
+ * cached, picking up rotated keys), then the issuer, audience, expiry and
+ * token type, and the DPoP proof of key-bound tokens. Uses WebCrypto only,
+ * so it runs on Node.js and edge runtimes.
+ *
+ * @example
+ * ```typescript
+ * const verifier = createTokenVerifier({
+ *   url: "https://kc.example.com",
+ *   realm: "myrealm",
+ *   audience: "orders-api",
+ * });
+ *
+ * const { user, claims } = await verifier.verify(accessToken);
+ * ```
+ */
+export function createTokenVerifier(options: TokenVerifierOptions): TokenVerifier {
+  const {
+    url,
+    realm,
+    audience,
+    issuer = getRealmUrl(url, realm),
+    jwksUri = getJwksEndpoint(url, realm),
+    clockTolerance = 5,
+    algorithms,
+    jwksCacheMaxAge,
+    dpopProofMaxAge = 60,
+  } = options;
+  const jwks = createJwksClient({ uri: jwksUri, cacheMaxAge: jwksCacheMaxAge });
+  const verifyProof = createDPoPProofVerifier({ maxAge: dpopProofMaxAge, clockTolerance });
+
+  return {
+    async verify(token, dpop) {
+      const claims = (await verifyJwt(token, jwks.getKey, {
+        issuer,
+        audience,
+        clockTolerance,
+        algorithms,
+      })) as AuthorizationClaims;
+      // Keycloak marks access tokens as "Bearer" (or "DPoP" when bound to a key)
+      if (claims.typ !== undefined && claims.typ !== "Bearer" && claims.typ !== "DPoP") {
+        throw new TokenVerificationError(
+          `The token is not an access token (${String(claims.typ)})`,
+          "invalid_type"
+        );
+      }
+      // Tokens bound to a key are only valid with a proof of the key, and
+      // proofs only go with bound tokens
+      const jkt = getBoundKey(claims);
+      const isBound = jkt !== undefined || claims.typ === "DPoP";
+      if (isBound && !dpop) {
+        throw new TokenVerificationError(
+          "The token is bound to a DPoP key and requires a DPoP proof",
+          "invalid_type"
+        );
+      }
+      if (!isBound && dpop) {
+        throw new TokenVerificationError("The token is not bound to a DPoP key", "invalid_type");
+      }
+      if (dpop) {
+        if (typeof jkt !== "string") {
+          throw new TokenVerificationError("The token is not bound to a valid key", "invalid_type");
+        }
+        await verifyProof(dpop, token, jkt);
+      }
+      // Access tokens must expire
+      if (typeof claims.exp !== "number") {
+        throw new TokenVerificationError("The token has no expiry time", "expired");
+      }
+      return { token, claims, user: getUserFromClaims(claims) };
+    },
+  };
+}
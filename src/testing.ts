@@ -0,0 +1,45 @@
+/**
+ * Test utilities for apps using keycloak-react: a mock auth provider that
+ * needs no Keycloak server or keycloak-js, token and user fixtures, and a
+ * Testing Library helper.
+ *
+ * `renderWithAuth` requires `@testing-library/react`.
+ *
+ * @example
+ * ```tsx
+ * import { renderWithAuth } from "keycloak-react/testing";
+ *
+ * it("shows the user's name", () => {
+ *   renderWithAuth(<UserButton />, { user: { name: "Ada Lovelace" } });
+ *   expect(screen.getByText("AL")).toBeInTheDocument();
+ * });
+ * ```
+ */
+
+// Mock provider
+export {
+  MockAuthProvider,
+  createMockAuth,
+  type MockAuthProviderProps,
+  type MockAuth,
+  type MockAuthOptions,
+  type MockAuthState,
+} from "./testing/MockAuthProvider";
+
+// Fixtures
+export {
+  createTestToken,
+  createTestUser,
+  createMockLoginConfig,
+  getClaimsFromUser,
+  TEST_ISSUER,
+  TEST_CLIENT_ID,
+  type CreateTestTokenOptions,
+} from "./testing/fixtures";
+
+// Testing Library
+export {
+  renderWithAuth,
+  type RenderWithAuthOptions,
+  type RenderWithAuthResult,
+} from "./testing/renderWithAuth";
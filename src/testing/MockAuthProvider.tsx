@@ -0,0 +1,302 @@
+import { useContext, useMemo, useState, useSyncExternalStore, type ReactNode } from "react";
+import {
+  AuthContext,
+  AuthInstancesContext,
+  type AuthContextValue,
+  type AuthStatus,
+  type SignInOptions,
+  type SignOutOptions,
+  type SignUpOptions,
+  type User,
+} from "../auth/AuthContext";
+import {
+  createAuthEventEmitter,
+  type AuthEventEmitter,
+  type SessionEndedReason,
+} from "../auth/events";
+import { AuthInitError } from "../auth/initError";
+import type { ExchangeTokenOptions } from "../auth/tokenExchange";
+import { getUserFromClaims } from "../auth/user";
+import { createTestToken, createTestUser, getClaimsFromUser } from "./fixtures";
+
+/**
+ * Auth state of a mock provider.
+ */
+export interface MockAuthState {
+  status: AuthStatus;
+  user: User | null;
+  accessToken: string | undefined;
+  idToken: string | undefined;
+  error: AuthInitError | null;
+}
+
+export interface MockAuthOptions {
+  /**
+   * The user to sign in as. The mock starts signed in when a user is given,
+   * and `signIn()` signs in as `createTestUser()` otherwise.
+   */
+  user?: Partial<User>;
+  /**
+   * Additional access token claims, e.g. `realm_access`, `resource_access`,
+   * `scope`, `acr` or `organization`.
+   */
+  claims?: Record<string, unknown>;
+  /**
+   * Initial status (defaults to `authenticated` with a user, `unauthenticated`
+   * otherwise).
+   */
+  status?: AuthStatus;
+  /**
+   * Seconds until issued tokens expire.
+   * @default 300
+   */
+  tokenLifespan?: number;
+}
+
+/**
+ * A controllable auth state machine for `MockAuthProvider`.
+ */
+export interface MockAuth {
+  /** Current state */
+  getState: () => MockAuthState;
+  /** Subscribe to state changes; returns a function that unsubscribes */
+  subscribe: (listener: () => void) => () => void;
+  /** Sign in, optionally as another user or with other access token claims */
+  signIn: (user?: Partial<User>, claims?: Record<string, unknown>) => void;
+  /** Sign out */
+  signOut: () => void;
+  /** End the session as if it could no longer be renewed */
+  expire: (reason?: SessionEndedReason) => void;
+  /** Issue new tokens, optionally with changed access token claims */
+  refresh: (claims?: Record<string, unknown>) => void;
+  /** Go back to the loading state */
+  setLoading: () => void;
+  /** Fail initialization */
+  fail: (error?: AuthInitError) => void;
+  /** Initialize again: signed in as the configured user, if any */
+  retry: () => void;
+  /** Options passed to the context's `signIn`, `signUp` and `signOut`, in call order */
+  calls: {
+    signIn: SignInOptions[];
+    signUp: SignUpOptions[];
+    signOut: SignOutOptions[];
+    exchangeToken: ExchangeTokenOptions[];
+  };
+  /** Auth lifecycle events, shared with the context */
+  events: AuthEventEmitter;
+}
+
+/**
+ * Create the state machine behind a `MockAuthProvider`, to drive it from a
+ * test. State changes must be wrapped in `act()`.
+ *
+ * @example
+ * ```tsx
+ * const auth = createMockAuth({ user: { name: "Ada" } });
+ * render(
+ *   <MockAuthProvider auth={auth}>
+ *     <App />
+ *   </MockAuthProvider>
+ * );
+ * act(() => auth.expire());
+ * expect(screen.getByText("Your session has ended")).toBeInTheDocument();
+ * ```
+ */
+export function createMockAuth(options: MockAuthOptions = {}): MockAuth {
+  const { tokenLifespan = 300 } = options;
+  const listeners = new Set<() => void>();
+  const events = createAuthEventEmitter();
+  let userClaims = getClaimsFromUser(createTestUser(options.user));
+  let accessClaims = options.claims ?? {};
+
+  const signedIn = (): MockAuthState => {
+    const idToken = createTestToken({ ...userClaims, typ: "ID" }, { expiresIn: tokenLifespan });
+    const accessToken = createTestToken(
+      { ...userClaims, ...accessClaims },
+      { expiresIn: tokenLifespan }
+    );
+    return {
+      status: "authenticated",
+      user: getUserFromClaims(userClaims, { ...userClaims, ...accessClaims }),
+      accessToken,
+      idToken,
+      error: null,
+    };
+  };
+
+  const signedOut = (): MockAuthState => ({
+    status: "unauthenticated",
+    user: null,
+    accessToken: undefined,
+    idToken: undefined,
+    error: null,
+  });
+
+  const failed = (error: AuthInitError): MockAuthState => ({
+    ...signedOut(),
+    status: "error",
+    error,
+  });
+
+  const initialStatus = options.status ?? (options.user ? "authenticated" : "unauthenticated");
+  let state: MockAuthState =
+    initialStatus === "authenticated"
+      ? signedIn()
+      : initialStatus === "error"
+        ? failed(new AuthInitError("Failed to fetch", "network"))
+        : { ...signedOut(), status: initialStatus };
+
+  const setState = (next: MockAuthState) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    signIn(user, claims) {
+      if (user) userClaims = getClaimsFromUser(createTestUser(user));
+      if (claims) accessClaims = claims;
+      setState(signedIn());
+    },
+    signOut() {
+      setState(signedOut());
+    },
+    expire(reason = "refresh_token_rejected") {
+      setState(signedOut());
+      events.emit("session:ended", { reason });
+    },
+    refresh(claims) {
+      if (claims) accessClaims = { ...accessClaims, ...claims };
+      setState(signedIn());
+      events.emit("token:refreshed", { expiresAt: Date.now() + tokenLifespan * 1000 });
+    },
+    setLoading() {
+      setState({ ...state, status: "loading" });
+    },
+    fail(error = new AuthInitError("Failed to fetch", "network")) {
+      setState(failed(error));
+      events.emit("init:error", { error, willRetry: false });
+    },
+    retry() {
+      setState(options.user ? signedIn() : signedOut());
+    },
+    calls: { signIn: [], signUp: [], signOut: [], exchangeToken: [] },
+    events,
+  };
+}
+
+export interface MockAuthProviderProps extends MockAuthOptions {
+  /** State machine to drive the provider from the test (see `createMockAuth`) */
+  auth?: MockAuth;
+  /** Name of this instance, like `KeycloakAuthProvider`'s `name` */
+  name?: string;
+  /** Child components */
+  children: ReactNode;
+}
+
+/**
+ * Provides a mock auth context without keycloak-js, for testing components
+ * that use `useAuth`, control components or user components.
+ *
+ * `signIn` and `signUp` sign in as the configured user, `signOut` signs out,
+ * and the options they were called with are recorded in `auth.calls`. Roles,
+ * scopes and other claims are read from the access token, built from
+ * `claims`. `keycloak` is always null.
+ *
+ * @example
+ * ```tsx
+ * render(
+ *   <MockAuthProvider user={{ name: "Ada" }} claims={{ realm_access: { roles: ["admin"] } }}>
+ *     <Protect roles={["admin"]}>
+ *       <AdminPanel />
+ *     </Protect>
+ *   </MockAuthProvider>
+ * );
+ * ```
+ */
+export function MockAuthProvider({
+  auth: authProp,
+  name,
+  user,
+  claims,
+  status,
+  tokenLifespan,
+  children,
+}: MockAuthProviderProps) {
+  const [ownAuth] = useState(() => createMockAuth({ user, claims, status, tokenLifespan }));
+  const auth = authProp ?? ownAuth;
+  const state = useSyncExternalStore(auth.subscribe, auth.getState, auth.getState);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      status: state.status,
+      isLoading: state.status === "idle" || state.status === "loading",
+      error: state.error,
+      retry: auth.retry,
+      isAuthenticated: state.status === "authenticated",
+      user: state.user,
+      sessionType: state.status === "authenticated" ? "online" : null,
+      idToken: state.idToken,
+      accessToken: state.accessToken,
+      signIn: async (options = {}) => {
+        auth.calls.signIn.push(options);
+        const { mode = "redirect", idpHint } = options;
+        auth.events.emit(mode === "popup" ? "signin:popup" : "signin:redirect", {
+          action: "login",
+          idpHint,
+        });
+        auth.signIn();
+      },
+      signOut: async (options = {}) => {
+        auth.calls.signOut.push(options);
+        auth.events.emit("signout", { redirectUri: options.redirectUri });
+        auth.signOut();
+      },
+      signUp: async (options = {}) => {
+        auth.calls.signUp.push(options);
+        const { mode = "redirect", idpHint } = options;
+        auth.events.emit(mode === "popup" ? "signin:popup" : "signin:redirect", {
+          action: "register",
+          idpHint,
+        });
+        auth.signIn();
+      },
+      signInWithTokens: () => auth.signIn(),
+      getToken: async () => auth.getState().accessToken,
+      exchangeToken: async (options) => {
+        auth.calls.exchangeToken.push(options);
+        return {
+          token: createTestToken({ ...state.user?.claims, aud: options.audience }),
+          scope: options.scope,
+          expiresAt: Date.now() + 300_000,
+        };
+      },
+      session: { expiresAt: undefined, reason: undefined, isWarning: false },
+      extendSession: async () => auth.refresh(),
+      events: auth.events,
+      keycloak: null,
+      dpop: null,
+    }),
+    [auth, state]
+  );
+
+  const parentInstances = useContext(AuthInstancesContext);
+  const instances = useMemo(
+    () => (name ? { ...parentInstances, [name]: value } : parentInstances),
+    [name, parentInstances, value]
+  );
+
+  return (
+    <AuthInstancesContext.Provider value={instances}>
+      <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+    </AuthInstancesContext.Provider>
+  );
+}
+
+MockAuthProvider.displayName = "MockAuthProvider";
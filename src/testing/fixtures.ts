@@ -0,0 +1,160 @@
+import type { User } from "../auth/AuthContext";
+import { getUserFromClaims } from "../auth/user";
+import type { LoginConfig } from "../config";
+
+/** Issuer of test tokens */
+export const TEST_ISSUER = "https://keycloak.test/realms/test";
+
+/** Client ID of test tokens */
+export const TEST_CLIENT_ID = "test-client";
+
+export interface CreateTestTokenOptions {
+  /**
+   * Seconds until the token expires (ignored when `claims.exp` is set).
+   * @default 300
+   */
+  expiresIn?: number;
+  /**
+   * JOSE header of the token.
+   * @default { alg: "RS256", typ: "JWT", kid: "test-key" }
+   */
+  header?: Record<string, unknown>;
+}
+
+function base64UrlEncode(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Create a well-formed (unsigned) JWT with Keycloak-like default claims
+ * (`iss`, `azp`, `iat`, `exp`, `typ`...), overridden by `claims`.
+ *
+ * @example
+ * ```typescript
+ * const token = createTestToken({
+ *   sub: "user-1",
+ *   realm_access: { roles: ["admin"] },
+ *   scope: "openid profile email",
+ * });
+ * ```
+ */
+export function createTestToken(
+  claims: Record<string, unknown> = {},
+  options: CreateTestTokenOptions = {}
+): string {
+  const { expiresIn = 300, header = { alg: "RS256", typ: "JWT", kid: "test-key" } } = options;
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iss: TEST_ISSUER,
+    aud: "account",
+    azp: TEST_CLIENT_ID,
+    typ: "Bearer",
+    iat: now,
+    exp: now + expiresIn,
+    jti: Math.random().toString(36).slice(2),
+    ...claims,
+  };
+  return [
+    base64UrlEncode(JSON.stringify(header)),
+    base64UrlEncode(JSON.stringify(payload)),
+    base64UrlEncode("test-signature"),
+  ].join(".");
+}
+
+/**
+ * Convert user fields to the token claims Keycloak issues for them.
+ */
+export function getClaimsFromUser(user: Partial<User>): Record<string, unknown> {
+  const claims: Record<string, unknown> = {
+    ...user.claims,
+    sub: user.id,
+    email: user.email,
+    email_verified: user.emailVerified,
+    name: user.name,
+    given_name: user.firstName,
+    family_name: user.lastName,
+    preferred_username: user.username,
+    picture: user.imageUrl,
+  };
+  if (user.impersonator) claims.impersonator = user.impersonator;
+  if (user.organizations) {
+    claims.organization = Object.fromEntries(
+      user.organizations.map(({ alias, id, name, roles, attributes }) => [
+        alias,
+        {
+          ...(name ? { name: [name] } : {}),
+          ...attributes,
+          ...(id ? { id } : {}),
+          ...(roles.length ? { roles } : {}),
+        },
+      ])
+    );
+  }
+  // Drop unset fields so the defaults of createTestUser apply
+  return Object.fromEntries(Object.entries(claims).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Create a user as `useUser()` returns it, with `claims` matching the user
+ * fields.
+ *
+ * @example
+ * ```typescript
+ * const user = createTestUser({ name: "Ada Lovelace", email: "ada@example.com" });
+ * ```
+ */
+export function createTestUser(overrides: Partial<User> = {}): User {
+  return getUserFromClaims({
+    sub: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+    email: "jane.doe@example.com",
+    email_verified: true,
+    name: "Jane Doe",
+    given_name: "Jane",
+    family_name: "Doe",
+    preferred_username: "jane.doe",
+    ...getClaimsFromUser(overrides),
+  });
+}
+
+/**
+ * Create a login configuration for `ConfigProvider` and `SignIn`, with
+ * registration, password reset and remember me enabled and no identity
+ * providers.
+ *
+ * @example
+ * ```tsx
+ * <ConfigProvider config={createMockLoginConfig({ identityProviders: [github] })}>
+ *   <SignIn />
+ * </ConfigProvider>
+ * ```
+ */
+export function createMockLoginConfig(overrides: Partial<LoginConfig> = {}): LoginConfig {
+  const realmBase = TEST_ISSUER;
+  return {
+    ...overrides,
+    realm: {
+      name: "test",
+      displayName: "Test",
+      registrationAllowed: true,
+      resetPasswordAllowed: true,
+      rememberMe: true,
+      loginWithEmailAllowed: true,
+      registrationEmailAsUsername: false,
+      password: true,
+      ...overrides.realm,
+    },
+    identityProviders: overrides.identityProviders ?? [],
+    urls: {
+      login: `${realmBase}/login-actions/authenticate`,
+      registration: `${realmBase}/login-actions/registration`,
+      resetPassword: `${realmBase}/login-actions/reset-credentials`,
+      realmBase,
+      ...overrides.urls,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { ReactElement, ReactNode } from "react";
+import { render, type RenderOptions, type RenderResult } from "@testing-library/react";
+import {
+  MockAuthProvider,
+  createMockAuth,
+  type MockAuth,
+  type MockAuthOptions,
+} from "./MockAuthProvider";
+
+export interface RenderWithAuthOptions extends MockAuthOptions, RenderOptions {
+  /** State machine to drive the provider (created from the other options by default) */
+  auth?: MockAuth;
+}
+
+export interface RenderWithAuthResult extends RenderResult {
+  /** The state machine driving the provider */
+  auth: MockAuth;
+}
+
+/**
+ * Render with Testing Library inside a `MockAuthProvider`. Any `wrapper` is
+ * rendered inside the provider.
+ *
+ * @example
+ * ```tsx
+ * const { auth } = renderWithAuth(<Header />, { user: { name: "Ada Lovelace" } });
+ * expect(screen.getByText("Ada Lovelace")).toBeInTheDocument();
+ *
+ * act(() => auth.signOut());
+ * expect(screen.getByText("Sign in")).toBeInTheDocument();
+ * ```
+ */
+export function renderWithAuth(
+  ui: ReactElement,
+  options: RenderWithAuthOptions = {}
+): RenderWithAuthResult {
+  const {
+    auth: authOption,
+    user,
+    claims,
+    status,
+    tokenLifespan,
+    wrapper: Wrapper,
+    ...renderOptions
+  } = options;
+  const auth = authOption ?? createMockAuth({ user, claims, status, tokenLifespan });
+
+  function AuthWrapper({ children }: { children: ReactNode }) {
+    return (
+      <MockAuthProvider auth={auth}>
+        {Wrapper ? <Wrapper>{children}</Wrapper> : children}
+      </MockAuthProvider>
+    );
+  }
+
+  return { ...render(ui, { ...renderOptions, wrapper: AuthWrapper }), auth };
+}
@@ -157,9 +157,16 @@ const DARK_THEME_VARIABLES: Record<string, string> = {
   "--pf-v5-global--link--Color--hover": "#2b9af3",
 };
 
+/** The root element, or undefined when rendering on the server. */
+function getDocumentElement(): HTMLElement | undefined {
+  return typeof document !== "undefined" ? document.documentElement : undefined;
+}
+
 /**
  * Apply appearance configuration by setting PatternFly CSS variables.
  * 
+ * Does nothing when rendering on the server.
+ *
  * @param appearance - The appearance configuration to apply
  * @param target - Optional target element (defaults to document.documentElement)
  * 
@@ -175,8 +182,10 @@ const DARK_THEME_VARIABLES: Record<string, string> = {
  */
 export function applyAppearance(
   appearance: Appearance,
-  target: HTMLElement = document.documentElement
+  target: HTMLElement | undefined = getDocumentElement()
 ): void {
+  if (!target) return;
+
   // Apply base theme first
   if (appearance.baseTheme === "dark") {
     Object.entries(DARK_THEME_VARIABLES).forEach(([cssVar, value]) => {
@@ -203,12 +212,15 @@ export function applyAppearance(
 
 /**
  * Remove all applied appearance CSS variables.
+ * Does nothing when rendering on the server.
  * 
  * @param target - Optional target element (defaults to document.documentElement)
  */
 export function clearAppearance(
-  target: HTMLElement = document.documentElement
+  target: HTMLElement | undefined = getDocumentElement()
 ): void {
+  if (!target) return;
+
   // Clear all PatternFly variables we might have set
   const allVars = new Set<string>();
   
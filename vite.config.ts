@@ -44,6 +44,9 @@ export default defineConfig(({ command }) => {
         entry: {
           "keycloak-react": resolve(__dirname, "src/index.ts"),
           "account": resolve(__dirname, "src/account.ts"),
+          "testing": resolve(__dirname, "src/testing.ts"),
+          "nextjs": resolve(__dirname, "src/nextjs.ts"),
+          "server": resolve(__dirname, "src/server.ts"),
         },
         name: "KeycloakReact",
         formats: ["es"],
@@ -55,8 +58,18 @@ export default defineConfig(({ command }) => {
           "react-dom",
           "react/jsx-runtime",
           /^@patternfly\/.*/,
+          /^@testing-library\/.*/,
+          /^next(\/.*)?$/,
+          /^node:.*/,
         ],
         output: {
+          // Mark the component entry points as client modules for React
+          // Server Components; the Next.js and server entry points run on
+          // the server
+          banner: (chunk) =>
+            chunk.isEntry && chunk.name !== "nextjs" && chunk.name !== "server"
+              ? '"use client";'
+              : "",
           globals: {
             react: "React",
             "react-dom": "ReactDOM",